@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "tasks_userId_deletedAt_idx" ON "tasks"("userId", "deletedAt");
+
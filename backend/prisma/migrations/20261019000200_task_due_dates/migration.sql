@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "dueAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "tasks_userId_dueAt_idx" ON "tasks"("userId", "dueAt");
+
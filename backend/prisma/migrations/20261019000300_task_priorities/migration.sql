@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "priority" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateIndex
+CREATE INDEX "tasks_userId_priority_idx" ON "tasks"("userId", "priority");
+
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "workflow_statuses" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL DEFAULT 'TODO',
+    "color" TEXT,
+    "position" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_statuses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "workflow_statuses_userId_position_idx" ON "workflow_statuses"("userId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_statuses_userId_key_key" ON "workflow_statuses"("userId", "key");
+
+-- CreateIndex
+CREATE INDEX "tasks_userId_status_idx" ON "tasks"("userId", "status");
+
+-- Backfill the default statuses for every existing user
+INSERT INTO "workflow_statuses" ("id", "key", "name", "category", "position", "userId", "updatedAt")
+SELECT gen_random_uuid()::text, defaults."key", defaults."name", defaults."category", defaults."position", "users"."id", CURRENT_TIMESTAMP
+FROM "users"
+CROSS JOIN (VALUES
+    ('PENDING', 'Pending', 'TODO', 0),
+    ('COMPLETED', 'Completed', 'DONE', 1)
+) AS defaults ("key", "name", "category", "position")
+ON CONFLICT ("userId", "key") DO NOTHING;
+
+-- Keep any other status already used by a task so the foreign key can be added
+INSERT INTO "workflow_statuses" ("id", "key", "name", "category", "position", "userId", "updatedAt")
+SELECT gen_random_uuid()::text, used."status", used."status", 'TODO',
+    1 + ROW_NUMBER() OVER (PARTITION BY used."userId" ORDER BY used."status"), used."userId", CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "userId", "status" FROM "tasks" WHERE "status" NOT IN ('PENDING', 'COMPLETED')) AS used
+ON CONFLICT ("userId", "key") DO NOTHING;
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_userId_status_fkey" FOREIGN KEY ("userId", "status") REFERENCES "workflow_statuses"("userId", "key") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_statuses" ADD CONSTRAINT "workflow_statuses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "position" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "tasks_userId_position_idx" ON "tasks"("userId", "position");
+
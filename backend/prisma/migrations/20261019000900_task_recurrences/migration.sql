@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "occurrence" INTEGER,
+ADD COLUMN     "recurrenceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "task_recurrences" (
+    "id" TEXT NOT NULL,
+    "rule" TEXT NOT NULL,
+    "occurrenceCount" INTEGER NOT NULL DEFAULT 1,
+    "stoppedAt" TIMESTAMP(3),
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "task_recurrences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_recurrences_userId_idx" ON "task_recurrences"("userId");
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_recurrenceId_fkey" FOREIGN KEY ("recurrenceId") REFERENCES "task_recurrences"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_recurrences" ADD CONSTRAINT "task_recurrences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -0,0 +1,10 @@
+-- AlterTable
+-- Generated from the title and description, weighting title words above
+-- description words, so search can use the index below
+ALTER TABLE "tasks" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', "title"), 'A') ||
+    setweight(to_tsvector('simple', coalesce("description", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "tasks_searchVector_idx" ON "tasks" USING GIN ("searchVector");
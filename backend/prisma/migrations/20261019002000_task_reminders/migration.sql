@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "remindAt" TIMESTAMP(3),
+ADD COLUMN     "remindedAt" TIMESTAMP(3),
+ADD COLUMN     "reminderMinutes" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "tasks_remindAt_idx" ON "tasks"("remindAt");
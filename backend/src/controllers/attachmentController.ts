@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import {
+  getAttachments,
+  createAttachment,
+  getAttachmentFile,
+  deleteAttachment
+} from '../services/attachmentService';
+import { isAllowedAttachmentType } from '../schemas/attachmentSchemas';
+import { User } from '../types';
+import { asyncHandler, AppError } from '../middleware';
+
+// Extend Request interface to include user
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+const taskNotFound = () => new AppError(
+  'Task not found or you do not have permission to access it',
+  404,
+  'TASK_NOT_FOUND'
+);
+
+const attachmentNotFound = () => new AppError(
+  'Attachment not found or you do not have permission to access it',
+  404,
+  'ATTACHMENT_NOT_FOUND'
+);
+
+/**
+ * Build a Content-Disposition header that downloads the file under its
+ * original name, with an ASCII fallback for older clients
+ */
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Get the attachments on a task
+ */
+export const getAttachmentsHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const attachments = await getAttachments(req.user.id, req.params.id);
+
+  if (!attachments) {
+    throw taskNotFound();
+  }
+
+  res.json(attachments);
+});
+
+/**
+ * Attach a file to a task. The file is the raw request body, its type the
+ * Content-Type header and its name the filename query parameter.
+ */
+export const uploadAttachmentHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const contentType = (req.get('Content-Type') || '').split(';')[0]!.trim().toLowerCase();
+
+  if (!isAllowedAttachmentType(contentType)) {
+    throw new AppError(
+      `Files of type ${contentType || 'unknown'} cannot be attached`,
+      415,
+      'UNSUPPORTED_FILE_TYPE'
+    );
+  }
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw new AppError('The uploaded file is empty', 400, 'EMPTY_FILE');
+  }
+
+  const attachment = await createAttachment(req.user.id, req.params.id, {
+    filename: req.query.filename as string,
+    contentType,
+    data: req.body,
+  });
+
+  if (!attachment) {
+    throw taskNotFound();
+  }
+
+  res.status(201).json(attachment);
+});
+
+/**
+ * Download an attachment
+ */
+export const downloadAttachmentHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const file = await getAttachmentFile(req.user.id, req.params.id, req.params.attachmentId);
+
+  if (!file) {
+    throw attachmentNotFound();
+  }
+
+  res.set({
+    'Content-Type': file.attachment.contentType,
+    'Content-Length': file.data.length.toString(),
+    'Content-Disposition': contentDisposition(file.attachment.filename),
+  });
+  res.send(file.data);
+});
+
+/**
+ * Delete an attachment
+ */
+export const deleteAttachmentHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const success = await deleteAttachment(req.user.id, req.params.id, req.params.attachmentId);
+
+  if (!success) {
+    throw attachmentNotFound();
+  }
+
+  res.json({
+    message: 'Attachment deleted successfully',
+  });
+});
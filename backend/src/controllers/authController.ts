@@ -1,16 +1,47 @@
 import { Request, Response } from 'express';
 import { registerSchema, loginSchema, refreshTokenSchema } from '../schemas/authSchemas';
-import { createUser, authenticateUser, findUserById } from '../services/userService';
+import { createUser, authenticateUser, findUserById, updateProfile, changePassword as changeUserPassword } from '../services/userService';
+import { createPasswordResetToken, sendPasswordResetEmail, resetPassword as resetUserPassword } from '../services/passwordResetService';
+import { createEmailVerificationToken, sendVerificationEmail, verifyEmail as verifyUserEmail } from '../services/emailVerificationService';
+import { getSessions as getUserSessions, revokeSession as revokeUserSession, revokeAllSessions } from '../services/sessionService';
 import { 
   generateAccessToken, 
   generateRefreshToken, 
   verifyRefreshToken,
   storeRefreshToken,
-  removeRefreshToken,
-  isRefreshTokenValid,
-  cleanupExpiredTokens
+  rotateRefreshToken,
+  revokeRefreshTokenFamily,
+  cleanupExpiredTokens,
+  ClientInfo
 } from '../utils/auth';
 import { ErrorResponse } from '../types';
+import { asyncHandler, AppError } from '../middleware';
+
+/**
+ * Device details of the client making the request, recorded with its session
+ */
+function getClientInfo(req: Request): ClientInfo {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 512) ?? null,
+    ipAddress: req.ip ?? null,
+  };
+}
+
+/**
+ * Email the user a link to verify their address. Failures are logged rather
+ * than thrown so they never fail the request that triggered them.
+ */
+async function sendEmailVerification(userId: string): Promise<void> {
+  try {
+    const verificationRequest = await createEmailVerificationToken(userId);
+
+    if (verificationRequest) {
+      await sendVerificationEmail(verificationRequest);
+    }
+  } catch (error) {
+    console.error('Failed to send verification email:', error);
+  }
+}
 
 /**
  * Register a new user
@@ -23,16 +54,19 @@ export async function register(req: Request, res: Response) {
     // Create user
     const user = await createUser(validatedData);
     
-    // Generate tokens
-    const accessToken = generateAccessToken(user.id);
+    // Generate and store refresh token, starting a new session
     const refreshToken = generateRefreshToken(user.id);
+    const sessionId = await storeRefreshToken(user.id, refreshToken, getClientInfo(req));
     
-    // Store refresh token
-    await storeRefreshToken(user.id, refreshToken);
+    // Generate access token for the session
+    const accessToken = generateAccessToken(user.id, sessionId);
     
     // Clean up any expired tokens for this user
     await cleanupExpiredTokens(user.id);
     
+    // Ask the user to confirm their email address
+    await sendEmailVerification(user.id);
+    
     return res.status(201).json({
       user,
       accessToken,
@@ -109,12 +143,12 @@ export async function login(req: Request, res: Response) {
       return res.status(401).json(errorResponse);
     }
     
-    // Generate tokens
-    const accessToken = generateAccessToken(user.id);
+    // Generate and store refresh token, starting a new session
     const refreshToken = generateRefreshToken(user.id);
+    const sessionId = await storeRefreshToken(user.id, refreshToken, getClientInfo(req));
     
-    // Store refresh token
-    await storeRefreshToken(user.id, refreshToken);
+    // Generate access token for the session
+    const accessToken = generateAccessToken(user.id, sessionId);
     
     // Clean up any expired tokens for this user
     await cleanupExpiredTokens(user.id);
@@ -167,10 +201,24 @@ export async function refreshToken(req: Request, res: Response) {
     // Verify refresh token format
     const decoded = verifyRefreshToken(refreshToken);
     
-    // Check if refresh token exists in database and is valid
-    const isValid = await isRefreshTokenValid(refreshToken);
+    // Replace the refresh token with a new one in the same family (token rotation)
+    const rotated = await rotateRefreshToken(refreshToken, decoded.userId, getClientInfo(req));
+    
+    if (rotated === false) {
+      // The token was already rotated, so it may have been stolen; its
+      // whole family has been revoked
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'TOKEN_REUSE_DETECTED',
+          message: 'This refresh token was already used. The session has been signed out for your security',
+        },
+        timestamp: new Date().toISOString(),
+        path: req.path,
+      };
+      return res.status(401).json(errorResponse);
+    }
     
-    if (!isValid) {
+    if (!rotated) {
       const errorResponse: ErrorResponse = {
         error: {
           code: 'INVALID_REFRESH_TOKEN',
@@ -182,17 +230,12 @@ export async function refreshToken(req: Request, res: Response) {
       return res.status(401).json(errorResponse);
     }
     
-    // Generate new tokens
-    const newAccessToken = generateAccessToken(decoded.userId);
-    const newRefreshToken = generateRefreshToken(decoded.userId);
-    
-    // Remove old refresh token and store new one (token rotation)
-    await removeRefreshToken(refreshToken);
-    await storeRefreshToken(decoded.userId, newRefreshToken);
+    // Generate new access token
+    const newAccessToken = generateAccessToken(decoded.userId, rotated.sessionId);
     
     return res.json({
       accessToken: newAccessToken,
-      refreshToken: newRefreshToken,
+      refreshToken: rotated.refreshToken,
     });
   } catch (error) {
     if (error instanceof Error) {
@@ -248,8 +291,8 @@ export async function logout(req: Request, res: Response) {
     // Validate request body
     const { refreshToken } = refreshTokenSchema.parse(req.body);
     
-    // Remove refresh token from database
-    await removeRefreshToken(refreshToken);
+    // Remove the session's refresh tokens from database
+    await revokeRefreshTokenFamily(refreshToken);
     
     return res.json({
       message: 'Logged out successfully',
@@ -278,4 +321,183 @@ export async function logout(req: Request, res: Response) {
       message: 'Logged out successfully',
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Get the authenticated user's profile
+ */
+export const getMe = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const user = await findUserById(req.user.id);
+
+  if (!user) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  res.json(user);
+});
+
+/**
+ * Update the authenticated user's name and email
+ */
+export const updateMe = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const user = await updateProfile(req.user.id, req.body);
+
+  if (!user) {
+    throw new AppError('A user with this email already exists', 409, 'DUPLICATE_EMAIL');
+  }
+
+  // A changed email has to be verified again
+  if (user.email !== req.user.email) {
+    await sendEmailVerification(user.id);
+  }
+
+  res.json(user);
+});
+
+/**
+ * Email a password reset link. Responds the same way whether or not an
+ * account has the email, so the response does not reveal who has an account.
+ */
+export const forgotPassword = asyncHandler(async (req: Request, res: Response) => {
+  const resetRequest = await createPasswordResetToken(req.body.email);
+
+  if (resetRequest) {
+    try {
+      await sendPasswordResetEmail(resetRequest);
+    } catch (error) {
+      console.error('Failed to send password reset email:', error);
+    }
+  }
+
+  res.json({
+    message: 'If an account exists for this email, a password reset link has been sent',
+  });
+});
+
+/**
+ * Set a new password using the token from a password reset email
+ */
+export const resetPassword = asyncHandler(async (req: Request, res: Response) => {
+  const success = await resetUserPassword(req.body.token, req.body.password);
+
+  if (!success) {
+    throw new AppError('This reset link is invalid, has expired or was already used', 400, 'INVALID_RESET_TOKEN');
+  }
+
+  res.json({
+    message: 'Password reset successfully',
+  });
+});
+
+/**
+ * Change the authenticated user's password, signing out their other sessions
+ */
+export const changePassword = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const { currentPassword, newPassword, refreshToken } = req.body;
+  const success = await changeUserPassword(req.user.id, currentPassword, newPassword, refreshToken);
+
+  if (!success) {
+    throw new AppError('Current password is incorrect', 400, 'INVALID_PASSWORD');
+  }
+
+  res.json({
+    message: 'Password changed successfully',
+  });
+});
+
+/**
+ * Verify the user's email address using the token from a verification email
+ */
+export const verifyEmail = asyncHandler(async (req: Request, res: Response) => {
+  const user = await verifyUserEmail(req.query.token as string);
+
+  if (!user) {
+    throw new AppError('This verification link is invalid, has expired or was already used', 400, 'INVALID_VERIFICATION_TOKEN');
+  }
+
+  res.json({
+    message: 'Email verified successfully',
+    user,
+  });
+});
+
+/**
+ * Send the authenticated user a new verification email, replacing any
+ * earlier link
+ */
+export const resendVerification = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const verificationRequest = await createEmailVerificationToken(req.user.id);
+
+  if (!verificationRequest) {
+    throw new AppError('Your email address is already verified', 400, 'EMAIL_ALREADY_VERIFIED');
+  }
+
+  await sendVerificationEmail(verificationRequest);
+
+  res.json({
+    message: 'Verification email sent',
+  });
+});
+
+/**
+ * List the authenticated user's signed-in sessions
+ */
+export const getSessions = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const sessions = await getUserSessions(req.user.id, req.sessionId);
+
+  res.json(sessions);
+});
+
+/**
+ * Sign out one of the authenticated user's sessions
+ */
+export const revokeSession = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const success = await revokeUserSession(req.user.id, req.params.id);
+
+  if (!success) {
+    throw new AppError('Session not found', 404, 'SESSION_NOT_FOUND');
+  }
+
+  res.json({
+    message: 'Session signed out successfully',
+  });
+});
+
+/**
+ * Sign out every session of the authenticated user, including this one
+ */
+export const revokeSessions = asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  await revokeAllSessions(req.user.id);
+
+  res.json({
+    message: 'All sessions signed out successfully',
+  });
+});
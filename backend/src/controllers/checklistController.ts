@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import {
+  getChecklistItems,
+  createChecklistItem,
+  updateChecklistItem,
+  toggleChecklistItem,
+  reorderChecklistItems,
+  deleteChecklistItem
+} from '../services/checklistService';
+import { User } from '../types';
+import { asyncHandler, AppError } from '../middleware';
+
+// Extend Request interface to include user
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+const taskNotFound = () => new AppError(
+  'Task not found or you do not have permission to access it',
+  404,
+  'TASK_NOT_FOUND'
+);
+
+const checklistItemNotFound = () => new AppError(
+  'Checklist item not found or you do not have permission to access it',
+  404,
+  'CHECKLIST_ITEM_NOT_FOUND'
+);
+
+/**
+ * Get the checklist of a task
+ */
+export const getChecklistHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const items = await getChecklistItems(req.user.id, req.params.id);
+
+  if (!items) {
+    throw taskNotFound();
+  }
+
+  res.json(items);
+});
+
+/**
+ * Add an item to a task's checklist
+ */
+export const createChecklistItemHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const item = await createChecklistItem(req.user.id, req.params.id, req.body);
+
+  if (!item) {
+    throw taskNotFound();
+  }
+
+  res.status(201).json(item);
+});
+
+/**
+ * Update a checklist item
+ */
+export const updateChecklistItemHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const item = await updateChecklistItem(req.user.id, req.params.id, req.params.itemId, req.body);
+
+  if (!item) {
+    throw checklistItemNotFound();
+  }
+
+  res.json(item);
+});
+
+/**
+ * Toggle a checklist item between done and not done
+ */
+export const toggleChecklistItemHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const item = await toggleChecklistItem(req.user.id, req.params.id, req.params.itemId);
+
+  if (!item) {
+    throw checklistItemNotFound();
+  }
+
+  res.json(item);
+});
+
+/**
+ * Reorder a task's checklist
+ */
+export const reorderChecklistHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const items = await reorderChecklistItems(req.user.id, req.params.id, req.body.itemIds);
+
+  if (items === null) {
+    throw taskNotFound();
+  }
+
+  if (items === false) {
+    throw new AppError(
+      'Item IDs must list every checklist item of the task exactly once',
+      400,
+      'INVALID_CHECKLIST_ORDER'
+    );
+  }
+
+  res.json(items);
+});
+
+/**
+ * Delete a checklist item
+ */
+export const deleteChecklistItemHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const success = await deleteChecklistItem(req.user.id, req.params.id, req.params.itemId);
+
+  if (!success) {
+    throw checklistItemNotFound();
+  }
+
+  res.json({
+    message: 'Checklist item deleted successfully',
+  });
+});
@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import {
+  getCollaborators,
+  addCollaborator,
+  updateCollaborator,
+  removeCollaborator
+} from '../services/collaboratorService';
+import { findUserByEmail } from '../services/userService';
+import { AddCollaboratorRequest } from '../schemas/collaboratorSchemas';
+import { User } from '../types';
+import { asyncHandler, AppError } from '../middleware';
+
+// Extend Request interface to include user
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+const taskNotFound = () => new AppError(
+  'Task not found or you do not have permission to access it',
+  404,
+  'TASK_NOT_FOUND'
+);
+
+const collaboratorNotFound = () => new AppError(
+  'Collaborator not found or you do not have permission to change them',
+  404,
+  'COLLABORATOR_NOT_FOUND'
+);
+
+/**
+ * Get the users a task is shared with
+ */
+export const getCollaboratorsHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const collaborators = await getCollaborators(req.user.id, req.params.id);
+
+  if (!collaborators) {
+    throw taskNotFound();
+  }
+
+  res.json(collaborators);
+});
+
+/**
+ * Share a task with another user by email
+ */
+export const addCollaboratorHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const { email, role } = req.body as AddCollaboratorRequest;
+  const collaborator = await findUserByEmail(email);
+
+  if (!collaborator) {
+    throw new AppError('No user with this email address was found', 404, 'USER_NOT_FOUND');
+  }
+
+  if (collaborator.id === req.user.id) {
+    throw new AppError('You already own this task', 400, 'CANNOT_SHARE_WITH_OWNER');
+  }
+
+  const result = await addCollaborator(req.user.id, req.params.id, collaborator.id, role);
+
+  if (result === null) {
+    throw taskNotFound();
+  }
+
+  if (result === false) {
+    throw new AppError('The task is already shared with this user', 409, 'ALREADY_COLLABORATOR');
+  }
+
+  res.status(201).json(result);
+});
+
+/**
+ * Change a collaborator's role
+ */
+export const updateCollaboratorHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const collaborator = await updateCollaborator(req.user.id, req.params.id, req.params.userId, req.body);
+
+  if (!collaborator) {
+    throw collaboratorNotFound();
+  }
+
+  res.json(collaborator);
+});
+
+/**
+ * Stop sharing a task with a collaborator, or leave a task shared with you
+ */
+export const removeCollaboratorHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const success = await removeCollaborator(req.user.id, req.params.id, req.params.userId);
+
+  if (!success) {
+    throw collaboratorNotFound();
+  }
+
+  res.json({
+    message: 'Collaborator removed successfully',
+  });
+});
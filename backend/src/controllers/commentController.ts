@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import { getComments, createComment, updateComment, deleteComment } from '../services/commentService';
+import { User } from '../types';
+import { asyncHandler, AppError } from '../middleware';
+
+// Extend Request interface to include user
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+const taskNotFound = () => new AppError(
+  'Task not found or you do not have permission to access it',
+  404,
+  'TASK_NOT_FOUND'
+);
+
+const commentNotFound = () => new AppError(
+  'Comment not found or you do not have permission to change it',
+  404,
+  'COMMENT_NOT_FOUND'
+);
+
+/**
+ * Get the comments on a task
+ */
+export const getCommentsHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const comments = await getComments(req.user.id, req.params.id);
+
+  if (!comments) {
+    throw taskNotFound();
+  }
+
+  res.json(comments);
+});
+
+/**
+ * Comment on a task
+ */
+export const createCommentHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const comment = await createComment(req.user.id, req.params.id, req.body);
+
+  if (!comment) {
+    throw taskNotFound();
+  }
+
+  res.status(201).json(comment);
+});
+
+/**
+ * Edit a comment
+ */
+export const updateCommentHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const comment = await updateComment(req.user.id, req.params.id, req.params.commentId, req.body);
+
+  if (!comment) {
+    throw commentNotFound();
+  }
+
+  res.json(comment);
+});
+
+/**
+ * Delete a comment
+ */
+export const deleteCommentHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const success = await deleteComment(req.user.id, req.params.id, req.params.commentId);
+
+  if (!success) {
+    throw commentNotFound();
+  }
+
+  res.json({
+    message: 'Comment deleted successfully',
+  });
+});
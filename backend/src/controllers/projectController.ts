@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import {
+  getUserProjects,
+  getProjectById,
+  findProjectByName,
+  createProject,
+  updateProject,
+  deleteProject
+} from '../services/projectService';
+import { User } from '../types';
+import { asyncHandler, AppError } from '../middleware';
+
+// Extend Request interface to include user
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+/**
+ * Get projects for the authenticated user
+ */
+export const getProjectsHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const projects = await getUserProjects(req.user.id);
+  res.json(projects);
+});
+
+/**
+ * Get a single project by ID
+ */
+export const getProjectByIdHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const project = await getProjectById(req.user.id, req.params.id);
+
+  if (!project) {
+    throw new AppError(
+      'Project not found or you do not have permission to access it',
+      404,
+      'PROJECT_NOT_FOUND'
+    );
+  }
+
+  res.json(project);
+});
+
+/**
+ * Create a new project
+ */
+export const createProjectHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  if (await findProjectByName(req.user.id, req.body.name)) {
+    throw new AppError('A project with this name already exists', 409, 'DUPLICATE_PROJECT');
+  }
+
+  const project = await createProject(req.user.id, req.body);
+  res.status(201).json(project);
+});
+
+/**
+ * Update a project
+ */
+export const updateProjectHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  if (req.body.name) {
+    const existingProject = await findProjectByName(req.user.id, req.body.name);
+
+    if (existingProject && existingProject.id !== req.params.id) {
+      throw new AppError('A project with this name already exists', 409, 'DUPLICATE_PROJECT');
+    }
+  }
+
+  const project = await updateProject(req.user.id, req.params.id, req.body);
+
+  if (!project) {
+    throw new AppError(
+      'Project not found or you do not have permission to update it',
+      404,
+      'PROJECT_NOT_FOUND'
+    );
+  }
+
+  res.json(project);
+});
+
+/**
+ * Delete a project
+ */
+export const deleteProjectHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const success = await deleteProject(req.user.id, req.params.id);
+
+  if (!success) {
+    throw new AppError(
+      'Project not found or you do not have permission to delete it',
+      404,
+      'PROJECT_NOT_FOUND'
+    );
+  }
+
+  res.json({
+    message: 'Project deleted successfully',
+  });
+});
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { getTaskRecurrence, setTaskRecurrence, stopTaskRecurrence } from '../services/recurrenceService';
+import { User } from '../types';
+import { asyncHandler, AppError } from '../middleware';
+
+// Extend Request interface to include user
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+const taskNotFound = () => new AppError(
+  'Task not found or you do not have permission to access it',
+  404,
+  'TASK_NOT_FOUND'
+);
+
+const recurrenceNotFound = () => new AppError(
+  'Task does not recur',
+  404,
+  'RECURRENCE_NOT_FOUND'
+);
+
+/**
+ * Get the recurring series of a task
+ */
+export const getRecurrenceHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const recurrence = await getTaskRecurrence(req.user.id, req.params.id);
+
+  if (recurrence === null) {
+    throw taskNotFound();
+  }
+
+  if (recurrence === false) {
+    throw recurrenceNotFound();
+  }
+
+  res.json(recurrence);
+});
+
+/**
+ * Make a task recur, or change the rule of its series
+ */
+export const setRecurrenceHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const recurrence = await setTaskRecurrence(req.user.id, req.params.id, req.body);
+
+  if (!recurrence) {
+    throw taskNotFound();
+  }
+
+  res.json(recurrence);
+});
+
+/**
+ * Stop the recurring series of a task
+ */
+export const stopRecurrenceHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const recurrence = await stopTaskRecurrence(req.user.id, req.params.id);
+
+  if (recurrence === null) {
+    throw taskNotFound();
+  }
+
+  if (recurrence === false) {
+    throw recurrenceNotFound();
+  }
+
+  res.json(recurrence);
+});
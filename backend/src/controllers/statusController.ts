@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import {
+  getUserStatuses,
+  getStatusById,
+  findStatusByKey,
+  findStatusByName,
+  countTasksInStatus,
+  createStatus,
+  updateStatus,
+  reorderStatuses,
+  deleteStatus
+} from '../services/statusService';
+import { hasCompleteWorkflow } from '../utils/workflow';
+import { User } from '../types';
+import { asyncHandler, AppError } from '../middleware';
+
+// Extend Request interface to include user
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+const statusNotFound = (action: string) => new AppError(
+  `Status not found or you do not have permission to ${action} it`,
+  404,
+  'STATUS_NOT_FOUND'
+);
+
+const incompleteWorkflow = () => new AppError(
+  'A workflow needs at least one done status and one status that is not done',
+  400,
+  'INCOMPLETE_WORKFLOW'
+);
+
+/**
+ * Get the authenticated user's workflow statuses in order
+ */
+export const getStatusesHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const statuses = await getUserStatuses(req.user.id);
+  res.json(statuses);
+});
+
+/**
+ * Add a status to the workflow
+ */
+export const createStatusHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  if (await findStatusByName(req.user.id, req.body.name)) {
+    throw new AppError('A status with this name already exists', 409, 'DUPLICATE_STATUS');
+  }
+
+  const status = await createStatus(req.user.id, req.body);
+  res.status(201).json(status);
+});
+
+/**
+ * Update a status
+ */
+export const updateStatusHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  if (req.body.name) {
+    const existingStatus = await findStatusByName(req.user.id, req.body.name);
+
+    if (existingStatus && existingStatus.id !== req.params.id) {
+      throw new AppError('A status with this name already exists', 409, 'DUPLICATE_STATUS');
+    }
+  }
+
+  if (req.body.category) {
+    const statuses = await getUserStatuses(req.user.id);
+    const categories = statuses.map(status =>
+      status.id === req.params.id ? req.body.category : status.category
+    );
+
+    if (statuses.some(status => status.id === req.params.id) && !hasCompleteWorkflow(categories)) {
+      throw incompleteWorkflow();
+    }
+  }
+
+  const status = await updateStatus(req.user.id, req.params.id, req.body);
+
+  if (!status) {
+    throw statusNotFound('update');
+  }
+
+  res.json(status);
+});
+
+/**
+ * Reorder the workflow
+ */
+export const reorderStatusesHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const statuses = await reorderStatuses(req.user.id, req.body.statusIds);
+
+  if (!statuses) {
+    throw new AppError(
+      'Status IDs must list every status of the workflow exactly once',
+      400,
+      'INVALID_STATUS_ORDER'
+    );
+  }
+
+  res.json(statuses);
+});
+
+/**
+ * Delete a status. Tasks still in it are moved to the `moveTo` status.
+ */
+export const deleteStatusHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const status = await getStatusById(req.user.id, req.params.id);
+
+  if (!status) {
+    throw statusNotFound('delete');
+  }
+
+  const statuses = await getUserStatuses(req.user.id);
+  const remainingCategories = statuses
+    .filter(s => s.id !== status.id)
+    .map(s => s.category);
+
+  if (!hasCompleteWorkflow(remainingCategories)) {
+    throw incompleteWorkflow();
+  }
+
+  const moveTo = req.query.moveTo as string | undefined;
+  const taskCount = await countTasksInStatus(req.user.id, status.key);
+
+  if (taskCount > 0 && !moveTo) {
+    throw new AppError(
+      'This status still has tasks. Choose a status to move them to with moveTo.',
+      409,
+      'STATUS_IN_USE'
+    );
+  }
+
+  if (moveTo && (moveTo === status.key || !(await findStatusByKey(req.user.id, moveTo)))) {
+    throw new AppError('The status to move tasks to was not found', 400, 'INVALID_STATUS');
+  }
+
+  await deleteStatus(req.user.id, status.id, moveTo);
+
+  res.json({
+    message: 'Status deleted successfully',
+  });
+});
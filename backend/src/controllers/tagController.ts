@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import {
+  getUserTags,
+  findTagByName,
+  createTag,
+  updateTag,
+  deleteTag
+} from '../services/tagService';
+import { User } from '../types';
+import { asyncHandler, AppError } from '../middleware';
+
+// Extend Request interface to include user
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+/**
+ * Get tags for the authenticated user
+ */
+export const getTagsHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const tags = await getUserTags(req.user.id);
+  res.json(tags);
+});
+
+/**
+ * Create a new tag
+ */
+export const createTagHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  if (await findTagByName(req.user.id, req.body.name)) {
+    throw new AppError('A tag with this name already exists', 409, 'DUPLICATE_TAG');
+  }
+
+  const tag = await createTag(req.user.id, req.body);
+  res.status(201).json(tag);
+});
+
+/**
+ * Update a tag
+ */
+export const updateTagHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  if (req.body.name) {
+    const existingTag = await findTagByName(req.user.id, req.body.name);
+
+    if (existingTag && existingTag.id !== req.params.id) {
+      throw new AppError('A tag with this name already exists', 409, 'DUPLICATE_TAG');
+    }
+  }
+
+  const tag = await updateTag(req.user.id, req.params.id, req.body);
+
+  if (!tag) {
+    throw new AppError(
+      'Tag not found or you do not have permission to update it',
+      404,
+      'TAG_NOT_FOUND'
+    );
+  }
+
+  res.json(tag);
+});
+
+/**
+ * Delete a tag
+ */
+export const deleteTagHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const success = await deleteTag(req.user.id, req.params.id);
+
+  if (!success) {
+    throw new AppError(
+      'Tag not found or you do not have permission to delete it',
+      404,
+      'TAG_NOT_FOUND'
+    );
+  }
+
+  res.json({
+    message: 'Tag deleted successfully',
+  });
+});
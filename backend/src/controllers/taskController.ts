@@ -2,12 +2,27 @@ import { Request, Response, NextFunction } from 'express';
 import { 
   createTask, 
   getUserTasks, 
+  getUserTasksByCursor,
   getTaskById, 
   updateTask, 
   toggleTaskStatus, 
-  deleteTask 
+  reorderTasks,
+  moveTask,
+  bulkUpdateTasks,
+  deleteTask,
+  getTrashedTasks,
+  restoreTask,
+  purgeTask,
+  emptyTrash,
+  TaskResponse
 } from '../services/taskService';
-import { User } from '../types';
+import { userOwnsTags } from '../services/tagService';
+import { userOwnsProject } from '../services/projectService';
+import { findStatusByKey } from '../services/statusService';
+import { isTaskMember } from '../services/collaboratorService';
+import { BulkTaskRequest, UpdateTaskRequest, MAX_BULK_TASKS } from '../schemas/taskSchemas';
+import { User, TaskAccess } from '../types';
+import { ToggleTarget } from '../utils/workflow';
 import { asyncHandler, AppError } from '../middleware';
 
 // Extend Request interface to include user
@@ -15,6 +30,55 @@ interface AuthenticatedRequest extends Request {
   user?: User;
 }
 
+/**
+ * Reject tag assignments that reference tags the user does not own
+ */
+async function assertTagsOwned(userId: string, tagIds?: string[]): Promise<void> {
+  if (tagIds && tagIds.length > 0 && !(await userOwnsTags(userId, tagIds))) {
+    throw new AppError('One or more tags were not found', 400, 'TAG_NOT_FOUND');
+  }
+}
+
+/**
+ * Reject moving a task into a project the user does not own
+ */
+async function assertProjectOwned(userId: string, projectId?: string | null): Promise<void> {
+  if (projectId && !(await userOwnsProject(userId, projectId))) {
+    throw new AppError('Project not found', 400, 'PROJECT_NOT_FOUND');
+  }
+}
+
+/**
+ * Reject statuses that are not part of the user's workflow
+ */
+async function assertStatusDefined(userId: string, status?: string): Promise<void> {
+  if (status && !(await findStatusByKey(userId, status))) {
+    throw new AppError('Status is not part of your workflow', 400, 'INVALID_STATUS');
+  }
+}
+
+/**
+ * Reject assigning a task to anyone but its owner, one of its collaborators or
+ * a member of its workspace who can edit it
+ */
+async function assertAssignable(ownerId: string, taskId: string, assigneeId?: string | null): Promise<void> {
+  if (assigneeId && assigneeId !== ownerId && !(await isTaskMember(taskId, assigneeId))) {
+    throw new AppError('Tasks can only be assigned to their owner, a collaborator or a workspace member', 400, 'INVALID_ASSIGNEE');
+  }
+}
+
+/**
+ * Check whether an update changes a task's project, tags or assignee, which
+ * belong to its owner
+ */
+function changesOwnerFields(task: TaskResponse, updates: UpdateTaskRequest): boolean {
+  const currentTagIds = task.tags.map(tag => tag.id).sort();
+
+  return (updates.projectId !== undefined && updates.projectId !== (task.projectId ?? null)) ||
+    (updates.assigneeId !== undefined && updates.assigneeId !== (task.assigneeId ?? null)) ||
+    (updates.tagIds !== undefined && [...updates.tagIds].sort().join() !== currentTagIds.join());
+}
+
 /**
  * Create a new task
  */
@@ -23,7 +87,12 @@ export const createTaskHandler = asyncHandler(async (req: AuthenticatedRequest,
     throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
   }
 
-  const task = await createTask(req.user.id, req.body);
+  await assertTagsOwned(req.user.id, req.body.tagIds);
+  await assertProjectOwned(req.user.id, req.body.projectId);
+  await assertStatusDefined(req.user.id, req.body.status);
+
+  // Also mounted at /workspaces/:workspaceId/tasks, after the user's role there is checked
+  const task = await createTask(req.user.id, req.body, req.params.workspaceId);
   res.status(201).json(task);
 });
 
@@ -35,7 +104,14 @@ export const getTasksHandler = asyncHandler(async (req: AuthenticatedRequest, re
     throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
   }
 
-  const result = await getUserTasks(req.user.id, req.query as any);
+  const query = req.query as any;
+  // Also mounted at /workspaces/:workspaceId/tasks to list a workspace's tasks
+  const { workspaceId } = req.params;
+
+  // Clients opt into cursor pagination; everyone else keeps page numbers
+  const result = query.pagination === 'cursor' || query.cursor
+    ? await getUserTasksByCursor(req.user.id, query, workspaceId)
+    : await getUserTasks(req.user.id, query, workspaceId);
   res.json(result);
 });
 
@@ -68,7 +144,20 @@ export const updateTaskHandler = asyncHandler(async (req: AuthenticatedRequest,
     throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
   }
 
-  const task = await updateTask(req.user.id, req.params.id, req.body);
+  // Loaded by requireTaskAccess; collaborators work with the owner's workflow
+  const existingTask = req.task!;
+  const updates = req.body as UpdateTaskRequest;
+
+  if (existingTask.access !== TaskAccess.OWNER && changesOwnerFields(existingTask, updates)) {
+    throw new AppError('Only the owner of this task can change its project, tags or assignee', 403, 'FORBIDDEN');
+  }
+
+  await assertTagsOwned(existingTask.userId, updates.tagIds);
+  await assertProjectOwned(existingTask.userId, updates.projectId);
+  await assertStatusDefined(existingTask.userId, updates.status);
+  await assertAssignable(existingTask.userId, existingTask.id, updates.assigneeId);
+
+  const task = await updateTask(req.user.id, req.params.id, updates);
   
   if (!task) {
     throw new AppError(
@@ -82,14 +171,15 @@ export const updateTaskHandler = asyncHandler(async (req: AuthenticatedRequest,
 });
 
 /**
- * Toggle task status
+ * Toggle task status: advance to the next workflow status, mark done with
+ * ?to=done, or reopen a done task
  */
 export const toggleTaskStatusHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   if (!req.user) {
     throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
   }
 
-  const task = await toggleTaskStatus(req.user.id, req.params.id);
+  const task = await toggleTaskStatus(req.user.id, req.params.id, req.query.to as ToggleTarget | undefined);
   
   if (!task) {
     throw new AppError(
@@ -102,6 +192,87 @@ export const toggleTaskStatusHandler = asyncHandler(async (req: AuthenticatedReq
   res.json(task);
 });
 
+/**
+ * Reorder tasks, e.g. within a board column
+ */
+export const reorderTasksHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const tasks = await reorderTasks(req.user.id, req.body.taskIds);
+
+  if (!tasks) {
+    throw new AppError(
+      'One or more tasks were not found or you do not have permission to update them',
+      404,
+      'TASK_NOT_FOUND'
+    );
+  }
+
+  res.json(tasks);
+});
+
+/**
+ * Move a task in the manual order, next to one or two anchor tasks
+ */
+export const moveTaskHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const task = await moveTask(req.user.id, req.params.id, req.body);
+
+  if (task === null) {
+    throw new AppError(
+      'Task not found or you do not have permission to update it',
+      404,
+      'TASK_NOT_FOUND'
+    );
+  }
+
+  if (task === false) {
+    throw new AppError(
+      'Anchors must be other tasks of yours outside the trash, with afterId ordered before beforeId',
+      400,
+      'INVALID_MOVE_ANCHOR'
+    );
+  }
+
+  res.json(task);
+});
+
+/**
+ * Apply one action to many tasks, listed by id or matched by a filter
+ */
+export const bulkTasksHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const request = req.body as BulkTaskRequest;
+
+  if (request.action === 'status') {
+    await assertStatusDefined(req.user.id, request.status);
+  } else if (request.action === 'addTags' || request.action === 'removeTags') {
+    await assertTagsOwned(req.user.id, request.tagIds);
+  } else if (request.action === 'project') {
+    await assertProjectOwned(req.user.id, request.projectId);
+  }
+
+  const result = await bulkUpdateTasks(req.user.id, request);
+
+  if (!result) {
+    throw new AppError(
+      `The filter matches more than ${MAX_BULK_TASKS} tasks; narrow it down and try again`,
+      400,
+      'TOO_MANY_TASKS'
+    );
+  }
+
+  res.json(result);
+});
+
 /**
  * Delete a task
  */
@@ -123,4 +294,76 @@ export const deleteTaskHandler = asyncHandler(async (req: AuthenticatedRequest,
   res.json({
     message: 'Task deleted successfully',
   });
+});
+
+/**
+ * Get trashed tasks for the authenticated user
+ */
+export const getTrashHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const result = await getTrashedTasks(req.user.id, req.query as any);
+  res.json(result);
+});
+
+/**
+ * Restore a task from the trash
+ */
+export const restoreTaskHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const task = await restoreTask(req.user.id, req.params.id);
+  
+  if (!task) {
+    throw new AppError(
+      'Task not found in trash or you do not have permission to restore it',
+      404,
+      'TASK_NOT_FOUND'
+    );
+  }
+  
+  res.json(task);
+});
+
+/**
+ * Permanently delete a task from the trash
+ */
+export const purgeTaskHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const success = await purgeTask(req.user.id, req.params.id);
+  
+  if (!success) {
+    throw new AppError(
+      'Task not found in trash or you do not have permission to delete it',
+      404,
+      'TASK_NOT_FOUND'
+    );
+  }
+  
+  res.json({
+    message: 'Task permanently deleted',
+  });
+});
+
+/**
+ * Permanently delete every task in the trash
+ */
+export const emptyTrashHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const count = await emptyTrash(req.user.id);
+  
+  res.json({
+    message: 'Trash emptied successfully',
+    count,
+  });
 });
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { Request, Response } from 'express';
+import { getTaskHistory } from '../services/taskHistoryService';
+import { User } from '../types';
+import { asyncHandler, AppError } from '../middleware';
+
+// Extend Request interface to include user
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+/**
+ * Get the history of a task, newest first
+ */
+export const getTaskHistoryHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const events = await getTaskHistory(req.user.id, req.params.id);
+
+  if (!events) {
+    throw new AppError(
+      'Task not found or you do not have permission to access it',
+      404,
+      'TASK_NOT_FOUND'
+    );
+  }
+
+  res.json(events);
+});
@@ -0,0 +1,253 @@
+import { Request, Response } from 'express';
+import {
+  getUserWorkspaces,
+  getWorkspace,
+  createWorkspace,
+  updateWorkspace,
+  deleteWorkspace,
+  getMembers,
+  updateMember,
+  removeMember,
+  getInvitations,
+  createInvitation,
+  sendInvitationEmail,
+  revokeInvitation,
+  acceptInvitation
+} from '../services/workspaceService';
+import { User } from '../types';
+import { asyncHandler, AppError } from '../middleware';
+
+// Extend Request interface to include user
+interface AuthenticatedRequest extends Request {
+  user?: User;
+}
+
+const workspaceNotFound = () => new AppError(
+  'Workspace not found or you are not a member of it',
+  404,
+  'WORKSPACE_NOT_FOUND'
+);
+
+const memberNotFound = () => new AppError('Member not found', 404, 'MEMBER_NOT_FOUND');
+
+const cannotManageMember = () => new AppError(
+  'Your role in the workspace does not allow this',
+  403,
+  'FORBIDDEN'
+);
+
+/**
+ * Get the workspaces the authenticated user belongs to
+ */
+export const getWorkspacesHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const workspaces = await getUserWorkspaces(req.user.id);
+  res.json(workspaces);
+});
+
+/**
+ * Create a workspace owned by the authenticated user
+ */
+export const createWorkspaceHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const workspace = await createWorkspace(req.user.id, req.body);
+  res.status(201).json(workspace);
+});
+
+/**
+ * Get a single workspace
+ */
+export const getWorkspaceHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const workspace = await getWorkspace(req.user.id, req.params.workspaceId);
+
+  if (!workspace) {
+    throw workspaceNotFound();
+  }
+
+  res.json(workspace);
+});
+
+/**
+ * Rename a workspace
+ */
+export const updateWorkspaceHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const workspace = await updateWorkspace(req.user.id, req.params.workspaceId, req.body);
+
+  if (!workspace) {
+    throw workspaceNotFound();
+  }
+
+  res.json(workspace);
+});
+
+/**
+ * Delete a workspace, handing its tasks back to the users who created them
+ */
+export const deleteWorkspaceHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  await deleteWorkspace(req.params.workspaceId);
+
+  res.json({
+    message: 'Workspace deleted successfully',
+  });
+});
+
+/**
+ * Get the members of a workspace
+ */
+export const getMembersHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const members = await getMembers(req.params.workspaceId);
+  res.json(members);
+});
+
+/**
+ * Change a member's role
+ */
+export const updateMemberHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const member = await updateMember(req.workspaceRole!, req.params.workspaceId, req.params.userId, req.body);
+
+  if (member === null) {
+    throw memberNotFound();
+  }
+
+  if (member === false) {
+    throw cannotManageMember();
+  }
+
+  res.json(member);
+});
+
+/**
+ * Remove a member from a workspace, or leave it
+ */
+export const removeMemberHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const result = await removeMember(req.user.id, req.workspaceRole!, req.params.workspaceId, req.params.userId);
+
+  if (result === null) {
+    throw memberNotFound();
+  }
+
+  if (result === false) {
+    throw req.params.userId === req.user.id
+      ? new AppError('The owner cannot leave the workspace', 400, 'OWNER_CANNOT_LEAVE')
+      : cannotManageMember();
+  }
+
+  res.json({
+    message: 'Member removed successfully',
+  });
+});
+
+/**
+ * Get the invitations to a workspace that can still be accepted
+ */
+export const getInvitationsHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const invitations = await getInvitations(req.params.workspaceId);
+  res.json(invitations);
+});
+
+/**
+ * Invite someone to a workspace by email
+ */
+export const createInvitationHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const created = await createInvitation(req.user.id, req.workspaceRole!, req.params.workspaceId, req.body);
+
+  if (created === false) {
+    throw cannotManageMember();
+  }
+
+  if (created === null) {
+    throw new AppError('This user is already a member of the workspace', 409, 'ALREADY_MEMBER');
+  }
+
+  // The invitation can be sent again by inviting the same address, so a
+  // failed email does not fail the request
+  try {
+    await sendInvitationEmail(created);
+  } catch (error) {
+    console.error('Failed to send invitation email:', error);
+  }
+
+  res.status(201).json(created.invitation);
+});
+
+/**
+ * Withdraw an invitation
+ */
+export const revokeInvitationHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const success = await revokeInvitation(req.params.workspaceId, req.params.invitationId);
+
+  if (!success) {
+    throw new AppError('Invitation not found', 404, 'INVITATION_NOT_FOUND');
+  }
+
+  res.json({
+    message: 'Invitation revoked successfully',
+  });
+});
+
+/**
+ * Join a workspace using the token from an invitation
+ */
+export const acceptInvitationHandler = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  const workspace = await acceptInvitation(req.user, req.body.token);
+
+  if (workspace === null) {
+    throw new AppError('This invitation is invalid, has expired or was already used', 400, 'INVALID_INVITATION');
+  }
+
+  if (workspace === false && !req.user.emailVerifiedAt) {
+    throw new AppError('Verify your email address before accepting invitations', 403, 'EMAIL_NOT_VERIFIED');
+  }
+
+  if (workspace === false) {
+    throw new AppError('This invitation was sent to a different email address', 403, 'INVITATION_EMAIL_MISMATCH');
+  }
+
+  res.json(workspace);
+});
@@ -4,7 +4,12 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 import authRoutes from './routes/authRoutes';
 import taskRoutes from './routes/taskRoutes';
+import tagRoutes from './routes/tagRoutes';
+import projectRoutes from './routes/projectRoutes';
+import statusRoutes from './routes/statusRoutes';
+import workspaceRoutes from './routes/workspaceRoutes';
 import { errorHandler, notFoundHandler, sanitizeRequest, basicRateLimit } from './middleware';
+import { startScheduledJobs } from './jobs';
 
 // Load environment variables
 dotenv.config();
@@ -45,6 +50,18 @@ app.use('/api/auth', authRoutes);
 // Task routes
 app.use('/api/tasks', taskRoutes);
 
+// Tag routes
+app.use('/api/tags', tagRoutes);
+
+// Project routes
+app.use('/api/projects', projectRoutes);
+
+// Workflow status routes
+app.use('/api/statuses', statusRoutes);
+
+// Workspace routes
+app.use('/api/workspaces', workspaceRoutes);
+
 // Error handling middleware (must be after all routes)
 app.use(notFoundHandler);
 app.use(errorHandler);
@@ -55,6 +72,9 @@ if (process.env.NODE_ENV !== 'production') {
     console.log(`🚀 Server running on port ${PORT}`);
     console.log(`📊 Health check: http://localhost:${PORT}/health`);
   });
+
+  // Background work such as purging expired trash and sending reminders
+  startScheduledJobs();
 }
 
 // Export the Express app for Vercel
@@ -0,0 +1,74 @@
+import { purgeExpiredTasks } from '../services/taskService';
+import { sendDueReminders } from '../services/reminderService';
+import { getIntegerEnv } from '../utils/env';
+
+/**
+ * Work the server repeats in the background while it is running
+ */
+export interface ScheduledJob {
+  name: string;
+  intervalMinutes: number;
+  run(): Promise<void>;
+}
+
+const JOBS: ScheduledJob[] = [
+  {
+    name: 'trash purge',
+    intervalMinutes: getIntegerEnv('TRASH_PURGE_INTERVAL_MINUTES', 60, 1),
+    async run() {
+      const count = await purgeExpiredTasks();
+      if (count > 0) {
+        console.log(`🗑️ Purged ${count} expired task(s) from the trash`);
+      }
+    },
+  },
+  {
+    name: 'due date reminders',
+    intervalMinutes: getIntegerEnv('REMINDER_INTERVAL_MINUTES', 1, 1),
+    async run() {
+      const count = await sendDueReminders();
+      if (count > 0) {
+        console.log(`⏰ Sent ${count} due date reminder(s)`);
+      }
+    },
+  },
+];
+
+/**
+ * Run a job now and then every interval. A run is skipped while the previous
+ * one is still going, and failures are logged so the next run still happens.
+ * Returns a function that stops the job.
+ */
+export function scheduleJob(job: ScheduledJob): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await job.run();
+    } catch (error) {
+      console.error(`Scheduled job "${job.name}" failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, job.intervalMinutes * 60 * 1000);
+  // Do not keep the process alive just for the job
+  timer.unref();
+  void tick();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Start every scheduled job. Returns a function that stops them all.
+ */
+export function startScheduledJobs(): () => void {
+  const stops = JOBS.map(scheduleJob);
+  return () => stops.forEach(stop => stop());
+}
@@ -0,0 +1,13 @@
+import { formatMailMessage } from './format';
+import type { Mailer } from './index';
+
+/**
+ * Print messages to the server log instead of sending them
+ */
+export function createConsoleMailer(): Mailer {
+  return {
+    async send(message) {
+      console.log(`--- Email ---\n${formatMailMessage(message)}-------------`);
+    },
+  };
+}
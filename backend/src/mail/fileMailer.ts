@@ -0,0 +1,23 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { formatMailMessage } from './format';
+import type { Mailer } from './index';
+
+/**
+ * Write each message to its own file in outDir instead of sending it
+ */
+export function createFileMailer(outDir: string): Mailer {
+  const root = path.resolve(outDir);
+
+  return {
+    async send(message) {
+      await fs.mkdir(root, { recursive: true });
+      // Timestamped names keep the files in the order they were sent
+      await fs.writeFile(
+        path.join(root, `${Date.now()}-${randomUUID()}.eml`),
+        formatMailMessage(message)
+      );
+    },
+  };
+}
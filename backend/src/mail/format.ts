@@ -0,0 +1,8 @@
+import type { MailMessage } from './index';
+
+/**
+ * Format a message as plain text, as the local transports show it
+ */
+export function formatMailMessage(message: MailMessage): string {
+  return `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+}
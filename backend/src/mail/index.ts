@@ -0,0 +1,50 @@
+import path from 'path';
+import { createConsoleMailer } from './consoleMailer';
+import { createFileMailer } from './fileMailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Sends email to users. Local transports only log or write the messages, so
+ * a real transport (e.g. SMTP) can be added behind the same interface.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+let mailer: Mailer | undefined;
+
+/**
+ * Build the transport selected by MAIL_DRIVER ("console" or "file")
+ */
+function createMailer(): Mailer {
+  const driver = process.env.MAIL_DRIVER || 'console';
+
+  switch (driver) {
+    case 'console':
+      return createConsoleMailer();
+    case 'file':
+      return createFileMailer(path.resolve(process.env.MAIL_DIR || 'mail'));
+    default:
+      throw new Error(`Unknown MAIL_DRIVER "${driver}"`);
+  }
+}
+
+/**
+ * Get the configured mailer, creating it on first use
+ */
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = createMailer();
+  }
+
+  return mailer;
+}
+
+export { formatMailMessage } from './format';
+export { createConsoleMailer } from './consoleMailer';
+export { createFileMailer } from './fileMailer';
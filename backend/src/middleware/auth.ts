@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { verifyAccessToken } from '../utils/auth';
+import { touchSession } from '../services/sessionService';
 import { User } from '../types';
 
 // Use environment variable to determine which database to use
@@ -10,11 +11,13 @@ const prisma = new PrismaClient(
     : undefined
 );
 
-// Extend Express Request interface to include user
+// Extend Express Request interface to include user and, for tokens issued
+// since sessions were tracked, the ID of the session the token belongs to
 declare global {
   namespace Express {
     interface Request {
       user?: User;
+      sessionId?: string;
     }
   }
 }
@@ -72,6 +75,7 @@ export async function authenticateToken(
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true
       }
@@ -89,8 +93,22 @@ export async function authenticateToken(
       return;
     }
 
+    // Access tokens stop working as soon as their session is signed out
+    if (decoded.sessionId && !(await touchSession(user.id, decoded.sessionId))) {
+      res.status(401).json({
+        error: {
+          code: 'SESSION_REVOKED',
+          message: 'This session has been signed out'
+        },
+        timestamp: new Date().toISOString(),
+        path: req.path
+      });
+      return;
+    }
+
     // Add user to request context
     req.user = user;
+    req.sessionId = decoded.sessionId;
     next();
 
   } catch (error) {
@@ -136,6 +154,7 @@ export async function optionalAuth(
           id: true,
           email: true,
           name: true,
+          emailVerifiedAt: true,
           createdAt: true,
           updatedAt: true
         }
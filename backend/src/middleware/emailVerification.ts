@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { isEmailVerificationRequired } from '../services/emailVerificationService';
+import { AppError } from './errorHandler';
+
+/**
+ * Email Verification Middleware
+ * When REQUIRE_EMAIL_VERIFICATION is enabled, rejects requests from users
+ * who have not verified their email yet with a 403
+ */
+export function requireVerifiedEmail(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    next(new AppError('Authentication required', 401, 'UNAUTHORIZED'));
+    return;
+  }
+
+  if (isEmailVerificationRequired() && !req.user.emailVerifiedAt) {
+    next(new AppError('Verify your email address before creating tasks', 403, 'EMAIL_NOT_VERIFIED'));
+    return;
+  }
+
+  next();
+}
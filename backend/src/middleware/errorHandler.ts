@@ -69,6 +69,11 @@ export function errorHandler(
     errorCode = 'VALIDATION_ERROR';
     message = 'Invalid input data';
     details = formatZodError(err);
+  } else if ((err as any).type === 'entity.too.large') {
+    // Raised by the body parsers when a request exceeds their size limit
+    statusCode = 413;
+    errorCode = 'PAYLOAD_TOO_LARGE';
+    message = 'Request body is too large';
   } else if (err.name === 'JsonWebTokenError') {
     statusCode = 401;
     errorCode = 'INVALID_TOKEN';
@@ -1,4 +1,7 @@
 export { authenticateToken, optionalAuth } from './auth';
+export { requireTaskAccess } from './taskAccess';
+export { requireWorkspaceRole } from './workspaceAccess';
+export { requireVerifiedEmail } from './emailVerification';
 export { 
   errorHandler, 
   asyncHandler, 
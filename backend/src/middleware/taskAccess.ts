@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { getTaskById, TaskResponse } from '../services/taskService';
+import { TaskAccess, TaskAccessLevel } from '../types';
+import { hasTaskAccess } from '../utils/taskAccess';
+import { AppError } from './errorHandler';
+
+// Extend Express Request interface to include the task being accessed
+declare global {
+  namespace Express {
+    interface Request {
+      task?: TaskResponse;
+    }
+  }
+}
+
+/**
+ * Task Access Middleware
+ * Loads the task named by the :id route parameter into req.task and rejects
+ * the request unless the user has at least the required access to it:
+ * 404 when the task is not shared with them, 403 when their access is too low
+ */
+export function requireTaskAccess(required: TaskAccessLevel) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const task = await getTaskById(req.user.id, req.params.id);
+
+      if (!task) {
+        throw new AppError(
+          'Task not found or you do not have permission to access it',
+          404,
+          'TASK_NOT_FOUND'
+        );
+      }
+
+      if (!hasTaskAccess(task.access, required)) {
+        throw new AppError(
+          required === TaskAccess.OWNER
+            ? 'Only the owner of this task can do this'
+            : 'You can view this task but not change it',
+          403,
+          'FORBIDDEN'
+        );
+      }
+
+      req.task = task;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,11 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
-import { ZodSchema, ZodError } from 'zod';
+import { ZodSchema, ZodTypeDef, ZodError } from 'zod';
 import { AppError } from './errorHandler';
 
 /**
  * Middleware to validate request body against a Zod schema
  */
-export function validateBody<T>(schema: ZodSchema<T>) {
+export function validateBody<T>(schema: ZodSchema<T, ZodTypeDef, unknown>) {
   return (req: Request, res: Response, next: NextFunction) => {
     try {
       // Validate and sanitize the request body
@@ -28,7 +28,7 @@ export function validateBody<T>(schema: ZodSchema<T>) {
 /**
  * Middleware to validate request query parameters against a Zod schema
  */
-export function validateQuery<T>(schema: ZodSchema<T>) {
+export function validateQuery<T>(schema: ZodSchema<T, ZodTypeDef, unknown>) {
   return (req: Request, res: Response, next: NextFunction) => {
     try {
       // Validate and sanitize the query parameters
@@ -51,7 +51,7 @@ export function validateQuery<T>(schema: ZodSchema<T>) {
 /**
  * Middleware to validate request parameters against a Zod schema
  */
-export function validateParams<T>(schema: ZodSchema<T>) {
+export function validateParams<T>(schema: ZodSchema<T, ZodTypeDef, unknown>) {
   return (req: Request, res: Response, next: NextFunction) => {
     try {
       // Validate and sanitize the route parameters
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express';
+import { getMemberRole } from '../services/workspaceService';
+import { WorkspaceRoleType } from '../types';
+import { hasWorkspaceRole } from '../utils/workspaceAccess';
+import { AppError } from './errorHandler';
+
+// Extend Express Request interface to include the user's role in the workspace being accessed
+declare global {
+  namespace Express {
+    interface Request {
+      workspaceRole?: WorkspaceRoleType;
+    }
+  }
+}
+
+/**
+ * Workspace Access Middleware
+ * Looks up the user's role in the workspace named by the :workspaceId route
+ * parameter into req.workspaceRole and rejects the request unless it is at
+ * least the required role: 404 when the user is not a member, 403 when their
+ * role is too low
+ */
+export function requireWorkspaceRole(required: WorkspaceRoleType) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+      }
+
+      const role = await getMemberRole(req.user.id, req.params.workspaceId);
+
+      if (!role) {
+        throw new AppError(
+          'Workspace not found or you are not a member of it',
+          404,
+          'WORKSPACE_NOT_FOUND'
+        );
+      }
+
+      if (!hasWorkspaceRole(role, required)) {
+        throw new AppError(
+          `This requires the ${required.toLowerCase()} role or higher in the workspace`,
+          403,
+          'FORBIDDEN'
+        );
+      }
+
+      req.workspaceRole = role;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
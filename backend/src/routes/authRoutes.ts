@@ -1,7 +1,32 @@
 import { Router } from 'express';
-import { register, login, refreshToken, logout } from '../controllers/authController';
-import { validateBody } from '../middleware';
-import { registerSchema, loginSchema, refreshTokenSchema } from '../schemas/authSchemas';
+import {
+  register,
+  login,
+  refreshToken,
+  logout,
+  getMe,
+  updateMe,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  verifyEmail,
+  resendVerification,
+  getSessions,
+  revokeSession,
+  revokeSessions
+} from '../controllers/authController';
+import { authenticateToken, validateBody, validateQuery, validateParams } from '../middleware';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  updateProfileSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  verifyEmailQuerySchema,
+  sessionIdSchema
+} from '../schemas/authSchemas';
 
 const router = Router();
 
@@ -17,4 +42,34 @@ router.post('/refresh', validateBody(refreshTokenSchema), refreshToken);
 // POST /auth/logout - Logout user
 router.post('/logout', validateBody(refreshTokenSchema), logout);
 
+// POST /auth/forgot-password - Email a password reset link
+router.post('/forgot-password', validateBody(forgotPasswordSchema), forgotPassword);
+
+// POST /auth/reset-password - Set a new password with a reset token
+router.post('/reset-password', validateBody(resetPasswordSchema), resetPassword);
+
+// GET /auth/me - Get the current user's profile
+router.get('/me', authenticateToken, getMe);
+
+// PATCH /auth/me - Update the current user's name or email
+router.patch('/me', authenticateToken, validateBody(updateProfileSchema), updateMe);
+
+// POST /auth/change-password - Change the current user's password
+router.post('/change-password', authenticateToken, validateBody(changePasswordSchema), changePassword);
+
+// GET /auth/verify-email - Verify the user's email with a verification token
+router.get('/verify-email', validateQuery(verifyEmailQuerySchema), verifyEmail);
+
+// POST /auth/resend-verification - Send the current user a new verification email
+router.post('/resend-verification', authenticateToken, resendVerification);
+
+// GET /auth/sessions - Get the current user's signed-in sessions
+router.get('/sessions', authenticateToken, getSessions);
+
+// DELETE /auth/sessions - Sign out all of the current user's sessions
+router.delete('/sessions', authenticateToken, revokeSessions);
+
+// DELETE /auth/sessions/:id - Sign out one of the current user's sessions
+router.delete('/sessions/:id', authenticateToken, validateParams(sessionIdSchema), revokeSession);
+
 export default router;
\ No newline at end of file
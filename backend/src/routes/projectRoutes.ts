@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import {
+  getProjectsHandler,
+  getProjectByIdHandler,
+  createProjectHandler,
+  updateProjectHandler,
+  deleteProjectHandler
+} from '../controllers/projectController';
+import { authenticateToken, validateBody, validateParams } from '../middleware';
+import { createProjectSchema, updateProjectSchema, projectIdSchema } from '../schemas/projectSchemas';
+
+const router = Router();
+
+// Apply authentication middleware to all project routes
+router.use(authenticateToken);
+
+// GET /projects - Get all projects with their task counts
+router.get('/', getProjectsHandler);
+
+// POST /projects - Create a new project
+router.post('/', validateBody(createProjectSchema), createProjectHandler);
+
+// GET /projects/:id - Get a single project by ID
+router.get('/:id', validateParams(projectIdSchema), getProjectByIdHandler);
+
+// PATCH /projects/:id - Update a project
+router.patch('/:id', validateParams(projectIdSchema), validateBody(updateProjectSchema), updateProjectHandler);
+
+// DELETE /projects/:id - Delete a project, keeping its tasks
+router.delete('/:id', validateParams(projectIdSchema), deleteProjectHandler);
+
+export default router;
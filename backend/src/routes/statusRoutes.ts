@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import {
+  getStatusesHandler,
+  createStatusHandler,
+  updateStatusHandler,
+  reorderStatusesHandler,
+  deleteStatusHandler
+} from '../controllers/statusController';
+import { authenticateToken, validateBody, validateQuery, validateParams } from '../middleware';
+import {
+  createStatusSchema,
+  updateStatusSchema,
+  reorderStatusesSchema,
+  deleteStatusQuerySchema,
+  statusIdSchema
+} from '../schemas/statusSchemas';
+
+const router = Router();
+
+// Apply authentication middleware to all status routes
+router.use(authenticateToken);
+
+// GET /statuses - Get the workflow statuses in order with their task counts
+router.get('/', getStatusesHandler);
+
+// POST /statuses - Add a status to the end of the workflow
+router.post('/', validateBody(createStatusSchema), createStatusHandler);
+
+// PUT /statuses/order - Reorder the workflow
+router.put('/order', validateBody(reorderStatusesSchema), reorderStatusesHandler);
+
+// PATCH /statuses/:id - Update a status
+router.patch('/:id', validateParams(statusIdSchema), validateBody(updateStatusSchema), updateStatusHandler);
+
+// DELETE /statuses/:id - Delete a status, moving its tasks to ?moveTo=KEY
+router.delete('/:id', validateParams(statusIdSchema), validateQuery(deleteStatusQuerySchema), deleteStatusHandler);
+
+export default router;
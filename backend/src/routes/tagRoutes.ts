@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import {
+  getTagsHandler,
+  createTagHandler,
+  updateTagHandler,
+  deleteTagHandler
+} from '../controllers/tagController';
+import { authenticateToken, validateBody, validateParams } from '../middleware';
+import { createTagSchema, updateTagSchema, tagIdSchema } from '../schemas/tagSchemas';
+
+const router = Router();
+
+// Apply authentication middleware to all tag routes
+router.use(authenticateToken);
+
+// GET /tags - Get all tags with their task counts
+router.get('/', getTagsHandler);
+
+// POST /tags - Create a new tag
+router.post('/', validateBody(createTagSchema), createTagHandler);
+
+// PATCH /tags/:id - Update a tag
+router.patch('/:id', validateParams(tagIdSchema), validateBody(updateTagSchema), updateTagHandler);
+
+// DELETE /tags/:id - Delete a tag and remove it from its tasks
+router.delete('/:id', validateParams(tagIdSchema), deleteTagHandler);
+
+export default router;
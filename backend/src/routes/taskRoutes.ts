@@ -1,36 +1,181 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { 
   createTaskHandler, 
   getTasksHandler, 
   getTaskByIdHandler, 
   updateTaskHandler, 
   toggleTaskStatusHandler, 
-  deleteTaskHandler 
+  reorderTasksHandler,
+  moveTaskHandler,
+  bulkTasksHandler,
+  deleteTaskHandler,
+  getTrashHandler,
+  restoreTaskHandler,
+  purgeTaskHandler,
+  emptyTrashHandler
 } from '../controllers/taskController';
-import { authenticateToken, validateBody, validateQuery, validateParams } from '../middleware';
-import { createTaskSchema, updateTaskSchema, taskQuerySchema, taskIdSchema } from '../schemas/taskSchemas';
+import {
+  getChecklistHandler,
+  createChecklistItemHandler,
+  updateChecklistItemHandler,
+  toggleChecklistItemHandler,
+  reorderChecklistHandler,
+  deleteChecklistItemHandler
+} from '../controllers/checklistController';
+import {
+  getRecurrenceHandler,
+  setRecurrenceHandler,
+  stopRecurrenceHandler
+} from '../controllers/recurrenceController';
+import { getTaskHistoryHandler } from '../controllers/taskHistoryController';
+import {
+  getCommentsHandler,
+  createCommentHandler,
+  updateCommentHandler,
+  deleteCommentHandler
+} from '../controllers/commentController';
+import {
+  getAttachmentsHandler,
+  uploadAttachmentHandler,
+  downloadAttachmentHandler,
+  deleteAttachmentHandler
+} from '../controllers/attachmentController';
+import {
+  getCollaboratorsHandler,
+  addCollaboratorHandler,
+  updateCollaboratorHandler,
+  removeCollaboratorHandler
+} from '../controllers/collaboratorController';
+import { authenticateToken, requireTaskAccess, requireVerifiedEmail, validateBody, validateQuery, validateParams } from '../middleware';
+import { createTaskSchema, updateTaskSchema, taskQuerySchema, trashQuerySchema, toggleTaskQuerySchema, reorderTasksSchema, moveTaskSchema, bulkTaskSchema, taskIdSchema } from '../schemas/taskSchemas';
+import {
+  createChecklistItemSchema,
+  updateChecklistItemSchema,
+  reorderChecklistSchema,
+  checklistItemParamsSchema
+} from '../schemas/checklistSchemas';
+import { setRecurrenceSchema } from '../schemas/recurrenceSchemas';
+import { createCommentSchema, updateCommentSchema, commentParamsSchema } from '../schemas/commentSchemas';
+import {
+  uploadAttachmentQuerySchema,
+  attachmentParamsSchema,
+  ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENT_SIZE
+} from '../schemas/attachmentSchemas';
+import { addCollaboratorSchema, updateCollaboratorSchema, collaboratorParamsSchema } from '../schemas/collaboratorSchemas';
+import { TaskAccess } from '../types';
 
 const router = Router();
 
+// Reads an uploaded file into req.body as a Buffer; other types are left unread
+const parseAttachment = express.raw({ type: ATTACHMENT_CONTENT_TYPES, limit: MAX_ATTACHMENT_SIZE });
+
 // Apply authentication middleware to all task routes
 router.use(authenticateToken);
 
 // POST /tasks - Create a new task
-router.post('/', validateBody(createTaskSchema), createTaskHandler);
+router.post('/', requireVerifiedEmail, validateBody(createTaskSchema), createTaskHandler);
 
 // GET /tasks - Get tasks with pagination and filtering
 router.get('/', validateQuery(taskQuerySchema), getTasksHandler);
 
+// PUT /tasks/order - Reorder tasks, e.g. a board column, among the positions they hold
+router.put('/order', validateBody(reorderTasksSchema), reorderTasksHandler);
+
+// POST /tasks/bulk - Delete, change the status, tags or project of many tasks at once
+router.post('/bulk', validateBody(bulkTaskSchema), bulkTasksHandler);
+
+// GET /tasks/trash - Get trashed tasks with pagination
+router.get('/trash', validateQuery(trashQuerySchema), getTrashHandler);
+
+// DELETE /tasks/trash - Permanently delete all trashed tasks
+router.delete('/trash', emptyTrashHandler);
+
+// DELETE /tasks/trash/:id - Permanently delete a trashed task
+router.delete('/trash/:id', validateParams(taskIdSchema), purgeTaskHandler);
+
 // GET /tasks/:id - Get a single task by ID
 router.get('/:id', validateParams(taskIdSchema), getTaskByIdHandler);
 
-// PATCH /tasks/:id - Update a task
-router.patch('/:id', validateParams(taskIdSchema), validateBody(updateTaskSchema), updateTaskHandler);
+// PATCH /tasks/:id - Update a task (owner, assignee or editor)
+router.patch('/:id', validateParams(taskIdSchema), requireTaskAccess(TaskAccess.EDITOR), validateBody(updateTaskSchema), updateTaskHandler);
+
+// PATCH /tasks/:id/toggle - Advance a task to its next status (?to=done marks it done), or reopen it
+router.patch('/:id/toggle', validateParams(taskIdSchema), requireTaskAccess(TaskAccess.EDITOR), validateQuery(toggleTaskQuerySchema), toggleTaskStatusHandler);
+
+// PATCH /tasks/:id/move - Move a task in the manual order, after afterId and/or before beforeId
+router.patch('/:id/move', validateParams(taskIdSchema), requireTaskAccess(TaskAccess.OWNER), validateBody(moveTaskSchema), moveTaskHandler);
+
+// POST /tasks/:id/restore - Restore a task from the trash
+router.post('/:id/restore', validateParams(taskIdSchema), restoreTaskHandler);
+
+// DELETE /tasks/:id - Move a task to the trash (owner only)
+router.delete('/:id', validateParams(taskIdSchema), requireTaskAccess(TaskAccess.OWNER), deleteTaskHandler);
+
+// GET /tasks/:id/collaborators - Get the users a task is shared with
+router.get('/:id/collaborators', validateParams(taskIdSchema), getCollaboratorsHandler);
+
+// POST /tasks/:id/collaborators - Share a task with a user by email, as a viewer or editor
+router.post('/:id/collaborators', validateParams(taskIdSchema), requireTaskAccess(TaskAccess.OWNER), validateBody(addCollaboratorSchema), addCollaboratorHandler);
+
+// PATCH /tasks/:id/collaborators/:userId - Change a collaborator's role
+router.patch('/:id/collaborators/:userId', validateParams(collaboratorParamsSchema), requireTaskAccess(TaskAccess.OWNER), validateBody(updateCollaboratorSchema), updateCollaboratorHandler);
+
+// DELETE /tasks/:id/collaborators/:userId - Stop sharing a task with a user, or leave a task shared with you
+router.delete('/:id/collaborators/:userId', validateParams(collaboratorParamsSchema), removeCollaboratorHandler);
+
+// GET /tasks/:id/history - Get a task's history of changes, newest first
+router.get('/:id/history', validateParams(taskIdSchema), getTaskHistoryHandler);
+
+// GET /tasks/:id/checklist - Get a task's checklist in order
+router.get('/:id/checklist', validateParams(taskIdSchema), getChecklistHandler);
+
+// POST /tasks/:id/checklist - Add an item to the end of a task's checklist
+router.post('/:id/checklist', validateParams(taskIdSchema), requireTaskAccess(TaskAccess.EDITOR), validateBody(createChecklistItemSchema), createChecklistItemHandler);
+
+// PUT /tasks/:id/checklist/order - Reorder a task's checklist
+router.put('/:id/checklist/order', validateParams(taskIdSchema), requireTaskAccess(TaskAccess.EDITOR), validateBody(reorderChecklistSchema), reorderChecklistHandler);
+
+// PATCH /tasks/:id/checklist/:itemId - Update a checklist item
+router.patch('/:id/checklist/:itemId', validateParams(checklistItemParamsSchema), requireTaskAccess(TaskAccess.EDITOR), validateBody(updateChecklistItemSchema), updateChecklistItemHandler);
+
+// PATCH /tasks/:id/checklist/:itemId/toggle - Toggle a checklist item
+router.patch('/:id/checklist/:itemId/toggle', validateParams(checklistItemParamsSchema), requireTaskAccess(TaskAccess.EDITOR), toggleChecklistItemHandler);
+
+// DELETE /tasks/:id/checklist/:itemId - Delete a checklist item
+router.delete('/:id/checklist/:itemId', validateParams(checklistItemParamsSchema), requireTaskAccess(TaskAccess.EDITOR), deleteChecklistItemHandler);
+
+// GET /tasks/:id/comments - Get a task's comments, oldest first
+router.get('/:id/comments', validateParams(taskIdSchema), getCommentsHandler);
+
+// POST /tasks/:id/comments - Comment on a task
+router.post('/:id/comments', validateParams(taskIdSchema), validateBody(createCommentSchema), createCommentHandler);
+
+// PATCH /tasks/:id/comments/:commentId - Edit one of your comments
+router.patch('/:id/comments/:commentId', validateParams(commentParamsSchema), validateBody(updateCommentSchema), updateCommentHandler);
+
+// DELETE /tasks/:id/comments/:commentId - Delete one of your comments
+router.delete('/:id/comments/:commentId', validateParams(commentParamsSchema), deleteCommentHandler);
+
+// GET /tasks/:id/attachments - Get a task's attachments, newest first
+router.get('/:id/attachments', validateParams(taskIdSchema), getAttachmentsHandler);
+
+// POST /tasks/:id/attachments?filename= - Attach the file sent as the request body to a task
+router.post('/:id/attachments', validateParams(taskIdSchema), requireTaskAccess(TaskAccess.EDITOR), validateQuery(uploadAttachmentQuerySchema), parseAttachment, uploadAttachmentHandler);
+
+// GET /tasks/:id/attachments/:attachmentId - Download an attachment
+router.get('/:id/attachments/:attachmentId', validateParams(attachmentParamsSchema), downloadAttachmentHandler);
+
+// DELETE /tasks/:id/attachments/:attachmentId - Delete an attachment and its file
+router.delete('/:id/attachments/:attachmentId', validateParams(attachmentParamsSchema), requireTaskAccess(TaskAccess.EDITOR), deleteAttachmentHandler);
+
+// GET /tasks/:id/recurrence - Get the recurring series of a task
+router.get('/:id/recurrence', validateParams(taskIdSchema), getRecurrenceHandler);
 
-// PATCH /tasks/:id/toggle - Toggle task status
-router.patch('/:id/toggle', validateParams(taskIdSchema), toggleTaskStatusHandler);
+// PUT /tasks/:id/recurrence - Make a task recur, or change (and resume) the rule of its series
+router.put('/:id/recurrence', validateParams(taskIdSchema), requireTaskAccess(TaskAccess.OWNER), validateBody(setRecurrenceSchema), setRecurrenceHandler);
 
-// DELETE /tasks/:id - Delete a task
-router.delete('/:id', validateParams(taskIdSchema), deleteTaskHandler);
+// DELETE /tasks/:id/recurrence - Stop the series so completing a task no longer creates the next one
+router.delete('/:id/recurrence', validateParams(taskIdSchema), requireTaskAccess(TaskAccess.OWNER), stopRecurrenceHandler);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import {
+  getWorkspacesHandler,
+  createWorkspaceHandler,
+  getWorkspaceHandler,
+  updateWorkspaceHandler,
+  deleteWorkspaceHandler,
+  getMembersHandler,
+  updateMemberHandler,
+  removeMemberHandler,
+  getInvitationsHandler,
+  createInvitationHandler,
+  revokeInvitationHandler,
+  acceptInvitationHandler
+} from '../controllers/workspaceController';
+import { createTaskHandler, getTasksHandler } from '../controllers/taskController';
+import { authenticateToken, requireWorkspaceRole, requireVerifiedEmail, validateBody, validateQuery, validateParams } from '../middleware';
+import {
+  createWorkspaceSchema,
+  updateWorkspaceSchema,
+  updateMemberSchema,
+  createInvitationSchema,
+  acceptInvitationSchema,
+  workspaceIdSchema,
+  memberParamsSchema,
+  invitationParamsSchema
+} from '../schemas/workspaceSchemas';
+import { createTaskSchema, taskQuerySchema } from '../schemas/taskSchemas';
+import { WorkspaceRole } from '../types';
+
+const router = Router();
+
+// Apply authentication middleware to all workspace routes
+router.use(authenticateToken);
+
+// GET /workspaces - Get the workspaces the user belongs to
+router.get('/', getWorkspacesHandler);
+
+// POST /workspaces - Create a workspace owned by the user
+router.post('/', validateBody(createWorkspaceSchema), createWorkspaceHandler);
+
+// POST /workspaces/invitations/accept - Join a workspace using an invitation token
+router.post('/invitations/accept', validateBody(acceptInvitationSchema), acceptInvitationHandler);
+
+// GET /workspaces/:workspaceId - Get a single workspace
+router.get('/:workspaceId', validateParams(workspaceIdSchema), requireWorkspaceRole(WorkspaceRole.VIEWER), getWorkspaceHandler);
+
+// PATCH /workspaces/:workspaceId - Rename a workspace
+router.patch('/:workspaceId', validateParams(workspaceIdSchema), requireWorkspaceRole(WorkspaceRole.ADMIN), validateBody(updateWorkspaceSchema), updateWorkspaceHandler);
+
+// DELETE /workspaces/:workspaceId - Delete a workspace, keeping its tasks
+router.delete('/:workspaceId', validateParams(workspaceIdSchema), requireWorkspaceRole(WorkspaceRole.OWNER), deleteWorkspaceHandler);
+
+// GET /workspaces/:workspaceId/tasks - Get a workspace's tasks with pagination and filtering
+router.get('/:workspaceId/tasks', validateParams(workspaceIdSchema), requireWorkspaceRole(WorkspaceRole.VIEWER), validateQuery(taskQuerySchema), getTasksHandler);
+
+// POST /workspaces/:workspaceId/tasks - Create a task in a workspace
+router.post('/:workspaceId/tasks', validateParams(workspaceIdSchema), requireWorkspaceRole(WorkspaceRole.MEMBER), requireVerifiedEmail, validateBody(createTaskSchema), createTaskHandler);
+
+// GET /workspaces/:workspaceId/members - Get a workspace's members
+router.get('/:workspaceId/members', validateParams(workspaceIdSchema), requireWorkspaceRole(WorkspaceRole.VIEWER), getMembersHandler);
+
+// PATCH /workspaces/:workspaceId/members/:userId - Change a member's role
+router.patch('/:workspaceId/members/:userId', validateParams(memberParamsSchema), requireWorkspaceRole(WorkspaceRole.ADMIN), validateBody(updateMemberSchema), updateMemberHandler);
+
+// DELETE /workspaces/:workspaceId/members/:userId - Remove a member, or leave the workspace
+router.delete('/:workspaceId/members/:userId', validateParams(memberParamsSchema), requireWorkspaceRole(WorkspaceRole.VIEWER), removeMemberHandler);
+
+// GET /workspaces/:workspaceId/invitations - Get the invitations that can still be accepted
+router.get('/:workspaceId/invitations', validateParams(workspaceIdSchema), requireWorkspaceRole(WorkspaceRole.ADMIN), getInvitationsHandler);
+
+// POST /workspaces/:workspaceId/invitations - Invite someone by email
+router.post('/:workspaceId/invitations', validateParams(workspaceIdSchema), requireWorkspaceRole(WorkspaceRole.ADMIN), validateBody(createInvitationSchema), createInvitationHandler);
+
+// DELETE /workspaces/:workspaceId/invitations/:invitationId - Withdraw an invitation
+router.delete('/:workspaceId/invitations/:invitationId', validateParams(invitationParamsSchema), requireWorkspaceRole(WorkspaceRole.ADMIN), revokeInvitationHandler);
+
+export default router;
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { getIntegerEnv } from '../utils/env';
+
+// File types that can be attached to a task. JSON and form bodies are left out
+// because the global body parsers would consume them before the upload does.
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+// Largest file that can be attached, in bytes (10 MB by default, the same as the JSON body limit)
+export const MAX_ATTACHMENT_SIZE = getIntegerEnv('MAX_ATTACHMENT_SIZE', 10 * 1024 * 1024, 1);
+
+/**
+ * Check whether a Content-Type header names a file type that can be attached
+ */
+export function isAllowedAttachmentType(contentType: string): boolean {
+  return ATTACHMENT_CONTENT_TYPES.includes(contentType.split(';')[0]!.trim().toLowerCase());
+}
+
+// Upload query schema; the file itself is the raw request body
+export const uploadAttachmentQuerySchema = z.object({
+  filename: z
+    .string()
+    .trim()
+    // Keep only the last path segment and drop control characters
+    .transform(name => name.replace(/^.*[\\/]/, '').replace(/[\u0000-\u001f\u007f]/g, ''))
+    .pipe(
+      z
+        .string()
+        .min(1, 'Filename is required')
+        .max(255, 'Filename must be less than 255 characters')
+    ),
+});
+
+// Attachment route parameters schema
+export const attachmentParamsSchema = z.object({
+  id: z.string().cuid('Invalid task ID format'),
+  attachmentId: z.string().cuid('Invalid attachment ID format'),
+});
+
+// Types derived from schemas
+export type UploadAttachmentQuery = z.infer<typeof uploadAttachmentQuerySchema>;
+export type AttachmentParams = z.infer<typeof attachmentParamsSchema>;
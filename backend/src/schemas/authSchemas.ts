@@ -10,7 +10,7 @@ const passwordSchema = z
   .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character');
 
 // Email validation schema
-const emailSchema = z
+export const emailSchema = z
   .string()
   .email('Invalid email format')
   .toLowerCase()
@@ -41,10 +41,56 @@ export const refreshTokenSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
+// Profile update request schema
+export const updateProfileSchema = z.object({
+  name: nameSchema.optional(),
+  email: emailSchema.optional(),
+}).refine(data => data.name !== undefined || data.email !== undefined, {
+  message: 'Provide a name or email to update',
+});
+
+// Forgot password request schema
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+// Reset password request schema
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: passwordSchema,
+});
+
+// Change password request schema. The refresh token of the current session,
+// if sent, stays valid while every other session is signed out.
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordSchema,
+  refreshToken: z.string().min(1).optional(),
+}).refine(data => data.newPassword !== data.currentPassword, {
+  message: 'New password must be different from the current password',
+  path: ['newPassword'],
+});
+
+// Verify email query schema
+export const verifyEmailQuerySchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+// Session ID parameter schema
+export const sessionIdSchema = z.object({
+  id: z.string().uuid('Invalid session ID format'),
+});
+
 // Types derived from schemas
 export type RegisterRequest = z.infer<typeof registerSchema>;
 export type LoginRequest = z.infer<typeof loginSchema>;
 export type RefreshTokenRequest = z.infer<typeof refreshTokenSchema>;
+export type UpdateProfileRequest = z.infer<typeof updateProfileSchema>;
+export type ForgotPasswordRequest = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordRequest = z.infer<typeof resetPasswordSchema>;
+export type ChangePasswordRequest = z.infer<typeof changePasswordSchema>;
+export type VerifyEmailQuery = z.infer<typeof verifyEmailQuerySchema>;
+export type SessionIdParams = z.infer<typeof sessionIdSchema>;
 
 // Response types
 export interface AuthResponse {
@@ -52,6 +98,7 @@ export interface AuthResponse {
     id: string;
     email: string;
     name: string;
+    emailVerifiedAt: Date | null;
     createdAt: Date;
     updatedAt: Date;
   };
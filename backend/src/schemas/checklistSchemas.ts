@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// Checklist item title validation schema
+const checklistItemTitleSchema = z
+  .string()
+  .trim()
+  .min(1, 'Checklist item title is required')
+  .max(255, 'Checklist item title must be less than 255 characters');
+
+// Create checklist item request schema
+export const createChecklistItemSchema = z.object({
+  title: checklistItemTitleSchema,
+});
+
+// Update checklist item request schema
+export const updateChecklistItemSchema = z.object({
+  title: checklistItemTitleSchema.optional(),
+  completed: z.boolean().optional(),
+}).refine(data => data.title !== undefined || data.completed !== undefined, {
+  message: 'Provide a title or completed state to update',
+});
+
+// Reorder checklist request schema: every item id of the task in its new order
+export const reorderChecklistSchema = z.object({
+  itemIds: z
+    .array(z.string().cuid('Invalid checklist item ID format'))
+    .min(1, 'At least one checklist item is required')
+    .refine(ids => new Set(ids).size === ids.length, 'Checklist item IDs must be unique'),
+});
+
+// Checklist item route parameters schema
+export const checklistItemParamsSchema = z.object({
+  id: z.string().cuid('Invalid task ID format'),
+  itemId: z.string().cuid('Invalid checklist item ID format'),
+});
+
+// Types derived from schemas
+export type CreateChecklistItemRequest = z.infer<typeof createChecklistItemSchema>;
+export type UpdateChecklistItemRequest = z.infer<typeof updateChecklistItemSchema>;
+export type ReorderChecklistRequest = z.infer<typeof reorderChecklistSchema>;
+export type ChecklistItemParams = z.infer<typeof checklistItemParamsSchema>;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { CollaboratorRole } from '../types';
+import { emailSchema } from './authSchemas';
+
+// Collaborator role validation schema
+const collaboratorRoleSchema = z.enum([CollaboratorRole.VIEWER, CollaboratorRole.EDITOR]);
+
+// Share task request schema: the user to share with, by email
+export const addCollaboratorSchema = z.object({
+  email: emailSchema,
+  role: collaboratorRoleSchema.default(CollaboratorRole.VIEWER),
+});
+
+// Change collaborator role request schema
+export const updateCollaboratorSchema = z.object({
+  role: collaboratorRoleSchema,
+});
+
+// Collaborator route parameters schema
+export const collaboratorParamsSchema = z.object({
+  id: z.string().cuid('Invalid task ID format'),
+  userId: z.string().cuid('Invalid user ID format'),
+});
+
+// Types derived from schemas
+export type AddCollaboratorRequest = z.infer<typeof addCollaboratorSchema>;
+export type UpdateCollaboratorRequest = z.infer<typeof updateCollaboratorSchema>;
+export type CollaboratorParams = z.infer<typeof collaboratorParamsSchema>;
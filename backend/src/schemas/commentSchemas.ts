@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+// Comment body validation schema
+const commentBodySchema = z
+  .string()
+  .trim()
+  .min(1, 'Comment cannot be empty')
+  .max(2000, 'Comment must be less than 2000 characters');
+
+// Create comment request schema
+export const createCommentSchema = z.object({
+  body: commentBodySchema,
+});
+
+// Update comment request schema
+export const updateCommentSchema = z.object({
+  body: commentBodySchema,
+});
+
+// Comment route parameters schema
+export const commentParamsSchema = z.object({
+  id: z.string().cuid('Invalid task ID format'),
+  commentId: z.string().cuid('Invalid comment ID format'),
+});
+
+// Types derived from schemas
+export type CreateCommentRequest = z.infer<typeof createCommentSchema>;
+export type UpdateCommentRequest = z.infer<typeof updateCommentSchema>;
+export type CommentParams = z.infer<typeof commentParamsSchema>;
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+// Project name validation schema
+const projectNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Project name is required')
+  .max(100, 'Project name must be less than 100 characters');
+
+// Project description validation schema
+const projectDescriptionSchema = z
+  .string()
+  .trim()
+  .max(500, 'Description must be less than 500 characters');
+
+// Project color validation schema (hex color such as #3b82f6)
+const projectColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color such as #3b82f6');
+
+// Create project request schema
+export const createProjectSchema = z.object({
+  name: projectNameSchema,
+  description: projectDescriptionSchema.optional(),
+  color: projectColorSchema.optional(),
+});
+
+// Update project request schema
+export const updateProjectSchema = z.object({
+  name: projectNameSchema.optional(),
+  description: projectDescriptionSchema.nullable().optional(),
+  color: projectColorSchema.nullable().optional(),
+});
+
+// Project ID parameter schema
+export const projectIdSchema = z.object({
+  id: z.string().cuid('Invalid project ID format'),
+});
+
+// Types derived from schemas
+export type CreateProjectRequest = z.infer<typeof createProjectSchema>;
+export type UpdateProjectRequest = z.infer<typeof updateProjectSchema>;
+export type ProjectIdParams = z.infer<typeof projectIdSchema>;
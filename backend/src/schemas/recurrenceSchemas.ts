@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { parseRecurrenceRule, formatRecurrenceRule } from '../utils/recurrence';
+
+// Recurrence rule validation schema: a subset of iCalendar RRULE, normalised to
+// its canonical form (e.g. "freq=weekly;byday=th,mo" becomes FREQ=WEEKLY;BYDAY=MO,TH)
+export const recurrenceRuleSchema = z
+  .string()
+  .trim()
+  .max(200, 'Recurrence rule must be less than 200 characters')
+  .transform((value, ctx) => {
+    const rule = parseRecurrenceRule(value);
+
+    if (!rule) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Recurrence rule must use FREQ=DAILY|WEEKLY|MONTHLY with optional INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly), and COUNT or UNTIL',
+      });
+      return z.NEVER;
+    }
+
+    return formatRecurrenceRule(rule);
+  });
+
+// Set recurrence request schema: starts a series, or changes the rule of an existing one
+export const setRecurrenceSchema = z.object({
+  rule: recurrenceRuleSchema,
+});
+
+// Types derived from schemas
+export type SetRecurrenceRequest = z.infer<typeof setRecurrenceSchema>;
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { StatusCategory } from '../types';
+
+// Status key validation schema (keys are upper snake case, e.g. IN_PROGRESS)
+export const statusKeySchema = z
+  .string()
+  .regex(/^[A-Z][A-Z0-9_]*$/, 'Status must be a status key such as IN_PROGRESS')
+  .max(50, 'Status key must be less than 50 characters');
+
+// Status name validation schema
+const statusNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Status name is required')
+  .max(50, 'Status name must be less than 50 characters');
+
+// Status category validation schema
+const statusCategorySchema = z.enum([
+  StatusCategory.TODO,
+  StatusCategory.IN_PROGRESS,
+  StatusCategory.DONE,
+]);
+
+// Status color validation schema (hex color such as #3b82f6)
+const statusColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color such as #3b82f6');
+
+// Create status request schema
+export const createStatusSchema = z.object({
+  name: statusNameSchema,
+  category: statusCategorySchema.default(StatusCategory.IN_PROGRESS),
+  color: statusColorSchema.optional(),
+});
+
+// Update status request schema (keys never change, so tasks keep pointing at their status)
+export const updateStatusSchema = z.object({
+  name: statusNameSchema.optional(),
+  category: statusCategorySchema.optional(),
+  color: statusColorSchema.nullable().optional(),
+});
+
+// Reorder statuses request schema: every status id in its new order
+export const reorderStatusesSchema = z.object({
+  statusIds: z
+    .array(z.string().cuid('Invalid status ID format'))
+    .min(1, 'At least one status is required')
+    .refine(ids => new Set(ids).size === ids.length, 'Status IDs must be unique'),
+});
+
+// Delete status query schema: where to move the tasks still in the status
+export const deleteStatusQuerySchema = z.object({
+  moveTo: statusKeySchema.optional(),
+});
+
+// Status ID parameter schema
+export const statusIdSchema = z.object({
+  id: z.string().cuid('Invalid status ID format'),
+});
+
+// Types derived from schemas
+export type CreateStatusRequest = z.infer<typeof createStatusSchema>;
+export type UpdateStatusRequest = z.infer<typeof updateStatusSchema>;
+export type ReorderStatusesRequest = z.infer<typeof reorderStatusesSchema>;
+export type DeleteStatusQuery = z.infer<typeof deleteStatusQuerySchema>;
+export type StatusIdParams = z.infer<typeof statusIdSchema>;
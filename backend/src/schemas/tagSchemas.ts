@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// Tag name validation schema
+const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Tag name is required')
+  .max(50, 'Tag name must be less than 50 characters');
+
+// Tag color validation schema (hex color such as #3b82f6)
+const tagColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color such as #3b82f6');
+
+// Create tag request schema
+export const createTagSchema = z.object({
+  name: tagNameSchema,
+  color: tagColorSchema.optional(),
+});
+
+// Update tag request schema
+export const updateTagSchema = z.object({
+  name: tagNameSchema.optional(),
+  color: tagColorSchema.nullable().optional(),
+});
+
+// Tag ID parameter schema
+export const tagIdSchema = z.object({
+  id: z.string().cuid('Invalid tag ID format'),
+});
+
+// Types derived from schemas
+export type CreateTagRequest = z.infer<typeof createTagSchema>;
+export type UpdateTagRequest = z.infer<typeof updateTagSchema>;
+export type TagIdParams = z.infer<typeof tagIdSchema>;
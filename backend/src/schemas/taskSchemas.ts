@@ -1,5 +1,8 @@
 import { z } from 'zod';
-import { TaskStatus } from '../types';
+import { TaskPriority } from '../types';
+import { decodeCursor, TaskCursor } from '../utils/cursor';
+import { statusKeySchema } from './statusSchemas';
+import { recurrenceRuleSchema } from './recurrenceSchemas';
 
 // Task title validation schema
 const titleSchema = z
@@ -15,30 +18,214 @@ const descriptionSchema = z
   .max(1000, 'Description must be less than 1000 characters')
   .optional();
 
-// Task status validation schema
-const taskStatusSchema = z.enum([TaskStatus.PENDING, TaskStatus.COMPLETED]);
+// Date-time validation schema (ISO 8601 with an explicit timezone offset so the instant is unambiguous)
+const dateTimeSchema = z
+  .string()
+  .datetime({ offset: true, message: 'Must be an ISO 8601 date-time with a timezone offset' })
+  .transform((value) => new Date(value));
+
+// Query boolean flag schema (query strings only carry text)
+const booleanFlagSchema = z
+  .enum(['true', 'false'])
+  .transform((value) => value === 'true');
+
+// Opaque pagination cursor schema, decoded into the task it points at
+const cursorSchema = z.string().transform((value, ctx): TaskCursor => {
+  const cursor = decodeCursor(value);
+
+  if (!cursor) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+    return z.NEVER;
+  }
+
+  return cursor;
+});
+
+// Task status validation schema. Statuses are user-defined, so this only checks
+// the key format; the task controller checks the key against the user's workflow.
+const taskStatusSchema = statusKeySchema;
+
+// Task priority validation schema
+const taskPrioritySchema = z.enum([
+  TaskPriority.LOW,
+  TaskPriority.MEDIUM,
+  TaskPriority.HIGH,
+  TaskPriority.URGENT,
+]);
+
+// Most tags a single task can have
+export const MAX_TASK_TAGS = 20;
+
+// Tag assignment schema (replaces the task's tags)
+const tagIdsSchema = z
+  .array(z.string().cuid('Invalid tag ID format'))
+  .max(MAX_TASK_TAGS, `A task can have at most ${MAX_TASK_TAGS} tags`);
+
+// Tag filter schema (comma-separated tag ids in the query string)
+const tagFilterSchema = z
+  .string()
+  .transform((value) => value.split(',').map((id) => id.trim()).filter(Boolean))
+  .pipe(tagIdsSchema.min(1, 'At least one tag is required'));
+
+// Longest a reminder can be sent ahead of the due date: 4 weeks
+export const MAX_REMINDER_MINUTES = 4 * 7 * 24 * 60;
+
+// Reminder schema: how many minutes before the due date to email a reminder
+const reminderMinutesSchema = z
+  .number()
+  .int('Reminder must be a whole number of minutes')
+  .min(0, 'Reminder cannot be after the due date')
+  .max(MAX_REMINDER_MINUTES, 'Reminder must be at most 4 weeks before the due date');
+
+// Project assignment schema
+const projectIdFieldSchema = z.string().cuid('Invalid project ID format');
 
 // Create task request schema
 export const createTaskSchema = z.object({
   title: titleSchema,
   description: descriptionSchema,
-});
+  status: taskStatusSchema.optional(),
+  priority: taskPrioritySchema.optional(),
+  dueAt: dateTimeSchema.optional(),
+  reminderMinutes: reminderMinutesSchema.optional(),
+  tagIds: tagIdsSchema.optional(),
+  projectId: projectIdFieldSchema.optional(),
+  // Repeat the task: completing it creates the next occurrence
+  recurrenceRule: recurrenceRuleSchema.optional(),
+}).refine(
+  (task) => task.reminderMinutes === undefined || task.dueAt !== undefined,
+  { message: 'A reminder requires a due date', path: ['reminderMinutes'] }
+);
 
 // Update task request schema
 export const updateTaskSchema = z.object({
   title: titleSchema.optional(),
   description: descriptionSchema,
   status: taskStatusSchema.optional(),
+  priority: taskPrioritySchema.optional(),
+  dueAt: dateTimeSchema.nullable().optional(),
+  // null removes the reminder; a reminder only fires while the task has a due date
+  reminderMinutes: reminderMinutesSchema.nullable().optional(),
+  tagIds: tagIdsSchema.optional(),
+  projectId: projectIdFieldSchema.nullable().optional(),
+  // The task's owner or one of its collaborators; null unassigns the task
+  assigneeId: z.string().cuid('Invalid user ID format').nullable().optional(),
 });
 
+// Task sort field schema
+export const taskSortFieldSchema = z.enum([
+  'createdAt',
+  'updatedAt',
+  'title',
+  'status',
+  'dueAt',
+  'priority',
+  // Manual order, as arranged on the board
+  'position',
+  'relevance',
+]);
+
+// Sort direction schema
+export const sortOrderSchema = z.enum(['asc', 'desc']);
+
+// Which tasks a listing covers: the user's own (the default), those assigned
+// to them, or other users' tasks shared with them
+export const taskScopeSchema = z.enum(['owned', 'assigned', 'shared']);
+
 // Task query parameters schema
 export const taskQuerySchema = z.object({
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(100).default(10),
+  scope: taskScopeSchema.optional(),
   status: taskStatusSchema.optional(),
-  search: z.string().trim().optional(),
+  priority: taskPrioritySchema.optional(),
+  search: z.string().trim().max(200, 'Search must be less than 200 characters').optional(),
+  dueBefore: dateTimeSchema.optional(),
+  dueAfter: dateTimeSchema.optional(),
+  overdue: booleanFlagSchema.optional(),
+  tags: tagFilterSchema.optional(),
+  // Whether tasks need any or all of the requested tags
+  tagMode: z.enum(['any', 'all']).optional(),
+  // A project id, or 'none' for tasks outside any project
+  projectId: z.union([z.literal('none'), projectIdFieldSchema]).optional(),
+  sortBy: taskSortFieldSchema.optional(),
+  sortOrder: sortOrderSchema.optional(),
+  // Cursor mode is opt-in so that existing clients keep receiving page numbers
+  pagination: z.enum(['page', 'cursor']).optional(),
+  cursor: cursorSchema.optional(),
+}).refine(
+  (query) => !query.dueBefore || !query.dueAfter || query.dueAfter <= query.dueBefore,
+  { message: 'dueAfter must not be later than dueBefore', path: ['dueAfter'] }
+).refine(
+  (query) => query.sortBy !== 'relevance' || Boolean(query.search),
+  { message: 'Sorting by relevance requires a search', path: ['sortBy'] }
+).refine(
+  (query) => query.sortBy !== 'relevance' || (query.pagination !== 'cursor' && !query.cursor),
+  { message: 'Sorting by relevance is not available with cursor pagination', path: ['sortBy'] }
+);
+
+// Trash query parameters schema
+export const trashQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+// Toggle task query schema: advance to the next status, or mark done directly
+export const toggleTaskQuerySchema = z.object({
+  to: z.enum(['next', 'done']).optional(),
+});
+
+// Reorder tasks request schema: the task ids in their new order
+export const reorderTasksSchema = z.object({
+  taskIds: z
+    .array(z.string().cuid('Invalid task ID format'))
+    .min(1, 'At least one task is required')
+    .max(100, 'At most 100 tasks can be reordered at once')
+    .refine(ids => new Set(ids).size === ids.length, 'Task IDs must be unique'),
+});
+
+// Move task request schema: the tasks it should end up right after and/or before
+export const moveTaskSchema = z.object({
+  afterId: z.string().cuid('Invalid task ID format').optional(),
+  beforeId: z.string().cuid('Invalid task ID format').optional(),
+}).refine(
+  (anchors) => Boolean(anchors.afterId || anchors.beforeId),
+  { message: 'afterId or beforeId is required', path: ['afterId'] }
+).refine(
+  (anchors) => !anchors.afterId || anchors.afterId !== anchors.beforeId,
+  { message: 'afterId and beforeId must be different tasks', path: ['beforeId'] }
+);
+
+// Most tasks a single bulk request may change
+export const MAX_BULK_TASKS = 500;
+
+// Tasks a bulk operation applies to: listed by id, or every task matching a
+// filter written like the task listing's query string (page, limit and sort are ignored)
+const bulkTargetSchema = z.object({
+  taskIds: z
+    .array(z.string().cuid('Invalid task ID format'))
+    .min(1, 'At least one task is required')
+    .max(MAX_BULK_TASKS, `At most ${MAX_BULK_TASKS} tasks can be changed at once`)
+    .refine(ids => new Set(ids).size === ids.length, 'Task IDs must be unique')
+    .optional(),
+  filter: taskQuerySchema.optional(),
 });
 
+// Bulk task request schema: one action applied to many tasks
+export const bulkTaskSchema = z.discriminatedUnion('action', [
+  // Move the tasks to the trash
+  bulkTargetSchema.extend({ action: z.literal('delete') }),
+  bulkTargetSchema.extend({ action: z.literal('status'), status: taskStatusSchema }),
+  // Add tags to, or remove tags from, the tags each task already has
+  bulkTargetSchema.extend({ action: z.literal('addTags'), tagIds: tagIdsSchema.min(1, 'At least one tag is required') }),
+  bulkTargetSchema.extend({ action: z.literal('removeTags'), tagIds: tagIdsSchema.min(1, 'At least one tag is required') }),
+  // A null project takes the tasks out of their project
+  bulkTargetSchema.extend({ action: z.literal('project'), projectId: projectIdFieldSchema.nullable() }),
+]).refine(
+  (request) => Boolean(request.taskIds) !== Boolean(request.filter),
+  { message: 'Either taskIds or filter is required, but not both', path: ['taskIds'] }
+);
+
 // Task ID parameter schema
 export const taskIdSchema = z.object({
   id: z.string().cuid('Invalid task ID format'),
@@ -48,4 +235,12 @@ export const taskIdSchema = z.object({
 export type CreateTaskRequest = z.infer<typeof createTaskSchema>;
 export type UpdateTaskRequest = z.infer<typeof updateTaskSchema>;
 export type TaskQuery = z.infer<typeof taskQuerySchema>;
+export type TrashQuery = z.infer<typeof trashQuerySchema>;
+export type TaskSortField = z.infer<typeof taskSortFieldSchema>;
+export type TaskScope = z.infer<typeof taskScopeSchema>;
+export type SortOrder = z.infer<typeof sortOrderSchema>;
+export type MoveTaskRequest = z.infer<typeof moveTaskSchema>;
+export type ReorderTasksRequest = z.infer<typeof reorderTasksSchema>;
+export type BulkTaskRequest = z.infer<typeof bulkTaskSchema>;
+export type ToggleTaskQuery = z.infer<typeof toggleTaskQuerySchema>;
 export type TaskIdParams = z.infer<typeof taskIdSchema>;
\ No newline at end of file
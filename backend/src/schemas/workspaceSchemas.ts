@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { WorkspaceRole } from '../types';
+import { emailSchema } from './authSchemas';
+
+// Workspace name validation schema
+const workspaceNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Workspace name is required')
+  .max(100, 'Workspace name must be less than 100 characters');
+
+// Roles that can be given to members; a workspace has exactly one owner
+const memberRoleSchema = z.enum([WorkspaceRole.VIEWER, WorkspaceRole.MEMBER, WorkspaceRole.ADMIN]);
+
+// Create workspace request schema
+export const createWorkspaceSchema = z.object({
+  name: workspaceNameSchema,
+});
+
+// Update workspace request schema
+export const updateWorkspaceSchema = z.object({
+  name: workspaceNameSchema,
+});
+
+// Change member role request schema
+export const updateMemberSchema = z.object({
+  role: memberRoleSchema,
+});
+
+// Invite to workspace request schema
+export const createInvitationSchema = z.object({
+  email: emailSchema,
+  role: memberRoleSchema.default(WorkspaceRole.MEMBER),
+});
+
+// Accept invitation request schema
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+});
+
+// Workspace ID parameter schema
+export const workspaceIdSchema = z.object({
+  workspaceId: z.string().cuid('Invalid workspace ID format'),
+});
+
+// Workspace member route parameters schema
+export const memberParamsSchema = z.object({
+  workspaceId: z.string().cuid('Invalid workspace ID format'),
+  userId: z.string().cuid('Invalid user ID format'),
+});
+
+// Workspace invitation route parameters schema
+export const invitationParamsSchema = z.object({
+  workspaceId: z.string().cuid('Invalid workspace ID format'),
+  invitationId: z.string().cuid('Invalid invitation ID format'),
+});
+
+// Types derived from schemas
+export type CreateWorkspaceRequest = z.infer<typeof createWorkspaceSchema>;
+export type UpdateWorkspaceRequest = z.infer<typeof updateWorkspaceSchema>;
+export type UpdateMemberRequest = z.infer<typeof updateMemberSchema>;
+export type CreateInvitationRequest = z.infer<typeof createInvitationSchema>;
+export type AcceptInvitationRequest = z.infer<typeof acceptInvitationSchema>;
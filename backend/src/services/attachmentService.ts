@@ -0,0 +1,192 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { getFileStorage } from '../storage';
+import { TaskAccess, TaskAccessLevel } from '../types';
+import { taskAccessWhere } from '../utils/taskAccess';
+
+const prisma = new PrismaClient();
+
+const ATTACHMENT_INCLUDE = {
+  user: { select: { id: true, name: true } },
+} satisfies Prisma.AttachmentInclude;
+
+type AttachmentWithUploader = Prisma.AttachmentGetPayload<{ include: typeof ATTACHMENT_INCLUDE }>;
+
+export interface AttachmentResponse {
+  id: string;
+  filename: string;
+  contentType: string;
+  // Size in bytes
+  size: number;
+  taskId: string;
+  uploadedBy: {
+    id: string;
+    name: string;
+  };
+  createdAt: Date;
+}
+
+export interface NewAttachment {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface AttachmentFile {
+  attachment: AttachmentResponse;
+  data: Buffer;
+}
+
+/**
+ * Convert a database attachment into the API response shape
+ */
+function formatAttachment({ userId, user, storageKey, ...attachment }: AttachmentWithUploader): AttachmentResponse {
+  return {
+    ...attachment,
+    uploadedBy: user,
+  };
+}
+
+/**
+ * Check that the user has at least the required access to a task that is not in the trash
+ */
+async function canAccessActiveTask(
+  userId: string,
+  taskId: string,
+  required: TaskAccessLevel = TaskAccess.VIEWER
+): Promise<boolean> {
+  const count = await prisma.task.count({
+    where: { id: taskId, deletedAt: null, ...taskAccessWhere(userId, required) },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Find an attachment on an active task the user has at least the required access to
+ */
+async function findUserAttachment(
+  userId: string,
+  taskId: string,
+  attachmentId: string,
+  required: TaskAccessLevel = TaskAccess.VIEWER
+) {
+  return prisma.attachment.findFirst({
+    where: {
+      id: attachmentId,
+      taskId,
+      task: { deletedAt: null, ...taskAccessWhere(userId, required) },
+    },
+    include: ATTACHMENT_INCLUDE,
+  });
+}
+
+/**
+ * Remove stored files, e.g. after their tasks are purged. Failures are logged
+ * rather than thrown because the database rows are already gone.
+ */
+export async function deleteStoredFiles(storageKeys: string[]): Promise<void> {
+  const storage = getFileStorage();
+
+  await Promise.all(
+    storageKeys.map(key =>
+      storage.delete(key).catch((error: Error) => {
+        console.error('Failed to delete stored file:', { key, error: error.message });
+      })
+    )
+  );
+}
+
+/**
+ * Get the attachments on a user's task, newest first
+ */
+export async function getAttachments(userId: string, taskId: string): Promise<AttachmentResponse[] | null> {
+  if (!(await canAccessActiveTask(userId, taskId))) {
+    return null;
+  }
+
+  const attachments = await prisma.attachment.findMany({
+    where: { taskId },
+    include: ATTACHMENT_INCLUDE,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+  });
+
+  return attachments.map(formatAttachment);
+}
+
+/**
+ * Store a file and attach it to a user's task
+ */
+export async function createAttachment(
+  userId: string,
+  taskId: string,
+  file: NewAttachment
+): Promise<AttachmentResponse | null> {
+  if (!(await canAccessActiveTask(userId, taskId, TaskAccess.EDITOR))) {
+    return null;
+  }
+
+  const storageKey = `${taskId}/${randomUUID()}`;
+  await getFileStorage().put(storageKey, file.data, file.contentType);
+
+  try {
+    const attachment = await prisma.attachment.create({
+      data: {
+        filename: file.filename,
+        contentType: file.contentType,
+        size: file.data.length,
+        storageKey,
+        taskId,
+        userId,
+      },
+      include: ATTACHMENT_INCLUDE,
+    });
+
+    return formatAttachment(attachment);
+  } catch (error) {
+    // Don't leave an orphaned file behind
+    await deleteStoredFiles([storageKey]);
+    throw error;
+  }
+}
+
+/**
+ * Get an attachment on a user's task together with its contents
+ */
+export async function getAttachmentFile(
+  userId: string,
+  taskId: string,
+  attachmentId: string
+): Promise<AttachmentFile | null> {
+  const attachment = await findUserAttachment(userId, taskId, attachmentId);
+
+  if (!attachment) {
+    return null;
+  }
+
+  const data = await getFileStorage().get(attachment.storageKey);
+
+  if (!data) {
+    return null;
+  }
+
+  return { attachment: formatAttachment(attachment), data };
+}
+
+/**
+ * Remove an attachment from a user's task along with its stored file
+ */
+export async function deleteAttachment(userId: string, taskId: string, attachmentId: string): Promise<boolean> {
+  const attachment = await findUserAttachment(userId, taskId, attachmentId, TaskAccess.EDITOR);
+
+  if (!attachment) {
+    return false;
+  }
+
+  await prisma.attachment.delete({
+    where: { id: attachmentId },
+  });
+  await deleteStoredFiles([attachment.storageKey]);
+
+  return true;
+}
@@ -0,0 +1,187 @@
+import { PrismaClient, ChecklistItem } from '@prisma/client';
+import { CreateChecklistItemRequest, UpdateChecklistItemRequest } from '../schemas/checklistSchemas';
+import { TaskAccess, TaskAccessLevel } from '../types';
+import { taskAccessWhere } from '../utils/taskAccess';
+
+const prisma = new PrismaClient();
+
+export interface ChecklistItemResponse {
+  id: string;
+  title: string;
+  completed: boolean;
+  position: number;
+  taskId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Convert a database checklist item into the API response shape
+ */
+function formatChecklistItem(item: ChecklistItem): ChecklistItemResponse {
+  return { ...item };
+}
+
+/**
+ * Check that the user has at least the required access to a task that is not in the trash
+ */
+async function canAccessActiveTask(
+  userId: string,
+  taskId: string,
+  required: TaskAccessLevel = TaskAccess.VIEWER
+): Promise<boolean> {
+  const count = await prisma.task.count({
+    where: { id: taskId, deletedAt: null, ...taskAccessWhere(userId, required) },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Find a checklist item on an active task the user may change
+ */
+async function findUserChecklistItem(userId: string, taskId: string, itemId: string): Promise<ChecklistItem | null> {
+  return prisma.checklistItem.findFirst({
+    where: {
+      id: itemId,
+      taskId,
+      task: { deletedAt: null, ...taskAccessWhere(userId, TaskAccess.EDITOR) },
+    },
+  });
+}
+
+/**
+ * Get the checklist of a user's task in display order
+ */
+export async function getChecklistItems(userId: string, taskId: string): Promise<ChecklistItemResponse[] | null> {
+  if (!(await canAccessActiveTask(userId, taskId))) {
+    return null;
+  }
+
+  const items = await prisma.checklistItem.findMany({
+    where: { taskId },
+    orderBy: { position: 'asc' },
+  });
+
+  return items.map(formatChecklistItem);
+}
+
+/**
+ * Add an item to the end of a user's task checklist
+ */
+export async function createChecklistItem(
+  userId: string,
+  taskId: string,
+  itemData: CreateChecklistItemRequest
+): Promise<ChecklistItemResponse | null> {
+  if (!(await canAccessActiveTask(userId, taskId, TaskAccess.EDITOR))) {
+    return null;
+  }
+
+  const lastItem = await prisma.checklistItem.findFirst({
+    where: { taskId },
+    orderBy: { position: 'desc' },
+    select: { position: true },
+  });
+
+  const item = await prisma.checklistItem.create({
+    data: {
+      title: itemData.title,
+      position: lastItem ? lastItem.position + 1 : 0,
+      taskId,
+    },
+  });
+
+  return formatChecklistItem(item);
+}
+
+/**
+ * Update the title or completion state of a checklist item
+ */
+export async function updateChecklistItem(
+  userId: string,
+  taskId: string,
+  itemId: string,
+  updates: UpdateChecklistItemRequest
+): Promise<ChecklistItemResponse | null> {
+  const existingItem = await findUserChecklistItem(userId, taskId, itemId);
+
+  if (!existingItem) {
+    return null;
+  }
+
+  const item = await prisma.checklistItem.update({
+    where: { id: itemId },
+    data: updates,
+  });
+
+  return formatChecklistItem(item);
+}
+
+/**
+ * Flip the completion state of a checklist item
+ */
+export async function toggleChecklistItem(userId: string, taskId: string, itemId: string): Promise<ChecklistItemResponse | null> {
+  const existingItem = await findUserChecklistItem(userId, taskId, itemId);
+
+  if (!existingItem) {
+    return null;
+  }
+
+  const item = await prisma.checklistItem.update({
+    where: { id: itemId },
+    data: { completed: !existingItem.completed },
+  });
+
+  return formatChecklistItem(item);
+}
+
+/**
+ * Put a task's checklist in the given order. The ids must be exactly the task's items;
+ * returns false when they are not.
+ */
+export async function reorderChecklistItems(
+  userId: string,
+  taskId: string,
+  itemIds: string[]
+): Promise<ChecklistItemResponse[] | false | null> {
+  if (!(await canAccessActiveTask(userId, taskId, TaskAccess.EDITOR))) {
+    return null;
+  }
+
+  const existingItems = await prisma.checklistItem.findMany({
+    where: { taskId },
+    select: { id: true },
+  });
+
+  const existingIds = new Set(existingItems.map(item => item.id));
+  if (existingIds.size !== itemIds.length || !itemIds.every(id => existingIds.has(id))) {
+    return false;
+  }
+
+  const items = await prisma.$transaction(
+    itemIds.map((id, position) => prisma.checklistItem.update({
+      where: { id },
+      data: { position },
+    }))
+  );
+
+  return items.map(formatChecklistItem);
+}
+
+/**
+ * Remove an item from a user's task checklist
+ */
+export async function deleteChecklistItem(userId: string, taskId: string, itemId: string): Promise<boolean> {
+  const existingItem = await findUserChecklistItem(userId, taskId, itemId);
+
+  if (!existingItem) {
+    return false;
+  }
+
+  await prisma.checklistItem.delete({
+    where: { id: itemId },
+  });
+
+  return true;
+}
@@ -0,0 +1,193 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { UpdateCollaboratorRequest } from '../schemas/collaboratorSchemas';
+import { CollaboratorRoleType, TaskEventType } from '../types';
+import { taskAccessWhere, workspaceMemberWhere } from '../utils/taskAccess';
+import { EDITING_WORKSPACE_ROLES } from '../utils/workspaceAccess';
+
+const prisma = new PrismaClient();
+
+const COLLABORATOR_INCLUDE = {
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.TaskCollaboratorInclude;
+
+type CollaboratorWithUser = Prisma.TaskCollaboratorGetPayload<{ include: typeof COLLABORATOR_INCLUDE }>;
+
+export interface CollaboratorResponse {
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  role: CollaboratorRoleType;
+  createdAt: Date;
+}
+
+/**
+ * Convert a database collaborator into the API response shape
+ */
+function formatCollaborator(collaborator: CollaboratorWithUser): CollaboratorResponse {
+  return {
+    user: collaborator.user,
+    role: collaborator.role as CollaboratorRoleType,
+    createdAt: collaborator.createdAt,
+  };
+}
+
+/**
+ * Check that a task belongs to the user and is not in the trash
+ */
+async function userOwnsActiveTask(userId: string, taskId: string): Promise<boolean> {
+  const count = await prisma.task.count({
+    where: { id: taskId, userId, deletedAt: null },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Check whether a user is the owner or a collaborator of a task, or a member of
+ * its workspace who can edit it, and so can be assigned to it
+ */
+export async function isTaskMember(taskId: string, userId: string): Promise<boolean> {
+  const count = await prisma.task.count({
+    where: {
+      id: taskId,
+      OR: [
+        { userId },
+        { collaborators: { some: { userId } } },
+        workspaceMemberWhere(userId, EDITING_WORKSPACE_ROLES),
+      ],
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Get the users a task is shared with, in the order it was shared with them
+ */
+export async function getCollaborators(userId: string, taskId: string): Promise<CollaboratorResponse[] | null> {
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, deletedAt: null, ...taskAccessWhere(userId) },
+    select: { id: true },
+  });
+
+  if (!task) {
+    return null;
+  }
+
+  const collaborators = await prisma.taskCollaborator.findMany({
+    where: { taskId },
+    include: COLLABORATOR_INCLUDE,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  return collaborators.map(formatCollaborator);
+}
+
+/**
+ * Share a user's task with another user. Returns false when it is already
+ * shared with them.
+ */
+export async function addCollaborator(
+  userId: string,
+  taskId: string,
+  collaboratorId: string,
+  role: CollaboratorRoleType
+): Promise<CollaboratorResponse | false | null> {
+  if (!(await userOwnsActiveTask(userId, taskId))) {
+    return null;
+  }
+
+  const existing = await prisma.taskCollaborator.findUnique({
+    where: { taskId_userId: { taskId, userId: collaboratorId } },
+  });
+
+  if (existing) {
+    return false;
+  }
+
+  const collaborator = await prisma.taskCollaborator.create({
+    data: { taskId, userId: collaboratorId, role },
+    include: COLLABORATOR_INCLUDE,
+  });
+
+  return formatCollaborator(collaborator);
+}
+
+/**
+ * Change what a collaborator may do with a user's task
+ */
+export async function updateCollaborator(
+  userId: string,
+  taskId: string,
+  collaboratorId: string,
+  updates: UpdateCollaboratorRequest
+): Promise<CollaboratorResponse | null> {
+  if (!(await userOwnsActiveTask(userId, taskId))) {
+    return null;
+  }
+
+  const result = await prisma.taskCollaborator.updateMany({
+    where: { taskId, userId: collaboratorId },
+    data: { role: updates.role },
+  });
+
+  if (result.count === 0) {
+    return null;
+  }
+
+  const collaborator = await prisma.taskCollaborator.findUniqueOrThrow({
+    where: { taskId_userId: { taskId, userId: collaboratorId } },
+    include: COLLABORATOR_INCLUDE,
+  });
+
+  return formatCollaborator(collaborator);
+}
+
+/**
+ * Stop sharing a task with a collaborator. The owner can remove anyone and
+ * collaborators can remove themselves. A removed collaborator who was assigned
+ * the task is unassigned.
+ */
+export async function removeCollaborator(userId: string, taskId: string, collaboratorId: string): Promise<boolean> {
+  const task = await prisma.task.findFirst({
+    where: {
+      id: taskId,
+      deletedAt: null,
+      collaborators: { some: { userId: collaboratorId } },
+      ...(collaboratorId !== userId && { userId }),
+    },
+    include: {
+      assignee: { select: { id: true, name: true } },
+    },
+  });
+
+  if (!task) {
+    return false;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.taskCollaborator.delete({
+      where: { taskId_userId: { taskId, userId: collaboratorId } },
+    });
+
+    if (task.assignee?.id === collaboratorId) {
+      await tx.task.update({
+        where: { id: taskId },
+        data: { assigneeId: null, updatedAt: new Date() },
+      });
+      await tx.taskEvent.create({
+        data: {
+          type: TaskEventType.UPDATED,
+          field: 'assignee',
+          oldValue: task.assignee.name,
+          taskId,
+          userId,
+        },
+      });
+    }
+  });
+
+  return true;
+}
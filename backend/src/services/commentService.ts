@@ -0,0 +1,143 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { CreateCommentRequest, UpdateCommentRequest } from '../schemas/commentSchemas';
+import { taskAccessWhere } from '../utils/taskAccess';
+
+const prisma = new PrismaClient();
+
+const COMMENT_INCLUDE = {
+  user: { select: { id: true, name: true } },
+} satisfies Prisma.CommentInclude;
+
+type CommentWithAuthor = Prisma.CommentGetPayload<{ include: typeof COMMENT_INCLUDE }>;
+
+export interface CommentResponse {
+  id: string;
+  body: string;
+  taskId: string;
+  author: {
+    id: string;
+    name: string;
+  };
+  // Whether the comment was changed after it was posted
+  edited: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Convert a database comment into the API response shape
+ */
+function formatComment({ userId, user, ...comment }: CommentWithAuthor): CommentResponse {
+  return {
+    ...comment,
+    author: user,
+    edited: comment.updatedAt.getTime() !== comment.createdAt.getTime(),
+  };
+}
+
+/**
+ * Check that a task is shared with the user (or theirs) and is not in the trash
+ */
+async function canAccessActiveTask(userId: string, taskId: string): Promise<boolean> {
+  const count = await prisma.task.count({
+    where: { id: taskId, deletedAt: null, ...taskAccessWhere(userId) },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Find a comment the user wrote on an active task they can still access
+ */
+async function findUserComment(userId: string, taskId: string, commentId: string) {
+  return prisma.comment.findFirst({
+    where: {
+      id: commentId,
+      taskId,
+      userId,
+      task: { deletedAt: null, ...taskAccessWhere(userId) },
+    },
+  });
+}
+
+/**
+ * Get the comments on a user's task, oldest first
+ */
+export async function getComments(userId: string, taskId: string): Promise<CommentResponse[] | null> {
+  if (!(await canAccessActiveTask(userId, taskId))) {
+    return null;
+  }
+
+  const comments = await prisma.comment.findMany({
+    where: { taskId },
+    include: COMMENT_INCLUDE,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  return comments.map(formatComment);
+}
+
+/**
+ * Add a comment to a user's task
+ */
+export async function createComment(
+  userId: string,
+  taskId: string,
+  commentData: CreateCommentRequest
+): Promise<CommentResponse | null> {
+  if (!(await canAccessActiveTask(userId, taskId))) {
+    return null;
+  }
+
+  const comment = await prisma.comment.create({
+    data: {
+      body: commentData.body,
+      taskId,
+      userId,
+    },
+    include: COMMENT_INCLUDE,
+  });
+
+  return formatComment(comment);
+}
+
+/**
+ * Change the text of a comment
+ */
+export async function updateComment(
+  userId: string,
+  taskId: string,
+  commentId: string,
+  updates: UpdateCommentRequest
+): Promise<CommentResponse | null> {
+  const existingComment = await findUserComment(userId, taskId, commentId);
+
+  if (!existingComment) {
+    return null;
+  }
+
+  const comment = await prisma.comment.update({
+    where: { id: commentId },
+    data: { body: updates.body },
+    include: COMMENT_INCLUDE,
+  });
+
+  return formatComment(comment);
+}
+
+/**
+ * Remove a comment from a user's task
+ */
+export async function deleteComment(userId: string, taskId: string, commentId: string): Promise<boolean> {
+  const existingComment = await findUserComment(userId, taskId, commentId);
+
+  if (!existingComment) {
+    return false;
+  }
+
+  await prisma.comment.delete({
+    where: { id: commentId },
+  });
+
+  return true;
+}
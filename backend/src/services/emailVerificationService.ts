@@ -0,0 +1,130 @@
+import { PrismaClient } from '@prisma/client';
+import { generateOpaqueToken, hashToken } from '../utils/auth';
+import { getMailer } from '../mail';
+import { getIntegerEnv } from '../utils/env';
+import { UserWithoutPassword } from './userService';
+
+const prisma = new PrismaClient();
+
+// Number of hours an email verification link stays valid
+const EMAIL_VERIFICATION_TTL_HOURS = getIntegerEnv('EMAIL_VERIFICATION_TTL_HOURS', 24, 1);
+
+export interface EmailVerificationRequest {
+  user: {
+    id: string;
+    email: string;
+    name: string;
+  };
+  // Sent to the user; the database only keeps its hash
+  token: string;
+}
+
+/**
+ * Whether unverified users are blocked from creating tasks
+ */
+export function isEmailVerificationRequired(): boolean {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+}
+
+/**
+ * Create a verification token for the user's current email, replacing any
+ * earlier unused one. Returns null when the user does not exist or their
+ * email is already verified.
+ */
+export async function createEmailVerificationToken(userId: string): Promise<EmailVerificationRequest | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, name: true, emailVerifiedAt: true },
+  });
+
+  if (!user || user.emailVerifiedAt) {
+    return null;
+  }
+
+  const token = generateOpaqueToken();
+  const expiresAt = new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+
+  await prisma.$transaction([
+    prisma.emailVerificationToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    }),
+    prisma.emailVerificationToken.create({
+      data: { tokenHash: hashToken(token), userId: user.id, email: user.email, expiresAt },
+    }),
+  ]);
+
+  return {
+    user: { id: user.id, email: user.email, name: user.name },
+    token,
+  };
+}
+
+/**
+ * Email the user a link to the frontend's verification page carrying the token
+ */
+export async function sendVerificationEmail({ user, token }: EmailVerificationRequest): Promise<void> {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const link = `${frontendUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Open this link to confirm the email address of your Task Management account:',
+      '',
+      link,
+      '',
+      `The link expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours. If you did not create an account, you can ignore this email.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Mark the user's email as verified using a verification token. Returns the
+ * updated user, or null when the token is unknown, expired, already used or
+ * was issued for an address the user has since changed.
+ */
+export async function verifyEmail(token: string): Promise<UserWithoutPassword | null> {
+  const verificationToken = await prisma.emailVerificationToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt < new Date()) {
+    return null;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the token so it can only be used once
+    const claimed = await tx.emailVerificationToken.updateMany({
+      where: { id: verificationToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const verified = await tx.user.updateMany({
+      where: { id: verificationToken.userId, email: verificationToken.email },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    if (verified.count === 0) {
+      return null;
+    }
+
+    return tx.user.findUnique({
+      where: { id: verificationToken.userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        emailVerifiedAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+  });
+}
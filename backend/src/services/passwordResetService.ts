@@ -0,0 +1,109 @@
+import { PrismaClient } from '@prisma/client';
+import { generateOpaqueToken, hashPassword, hashToken } from '../utils/auth';
+import { getMailer } from '../mail';
+import { getIntegerEnv } from '../utils/env';
+
+const prisma = new PrismaClient();
+
+// Number of minutes a password reset link stays valid
+const PASSWORD_RESET_TTL_MINUTES = getIntegerEnv('PASSWORD_RESET_TTL_MINUTES', 60, 1);
+
+export interface PasswordResetRequest {
+  user: {
+    id: string;
+    email: string;
+    name: string;
+  };
+  // Sent to the user; the database only keeps its hash
+  token: string;
+}
+
+/**
+ * Create a password reset token for the user with the email, replacing any
+ * earlier unused one. Returns null when no user has the email.
+ */
+export async function createPasswordResetToken(email: string): Promise<PasswordResetRequest | null> {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, name: true },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const token = generateOpaqueToken();
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    }),
+    prisma.passwordResetToken.create({
+      data: { tokenHash: hashToken(token), userId: user.id, expiresAt },
+    }),
+  ]);
+
+  return { user, token };
+}
+
+/**
+ * Email the user a link to the frontend's reset page carrying the token
+ */
+export async function sendPasswordResetEmail({ user, token }: PasswordResetRequest): Promise<void> {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const link = `${frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Someone asked to reset the password of your Task Management account. Open this link to choose a new password:',
+      '',
+      link,
+      '',
+      `The link expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and can only be used once. If you did not ask for this, you can ignore this email.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Set a new password using a reset token. Signs the user out everywhere by
+ * revoking all their refresh tokens. Returns false when the token is unknown,
+ * expired or already used.
+ */
+export async function resetPassword(token: string, password: string): Promise<boolean> {
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+    return false;
+  }
+
+  const hashedPassword = await hashPassword(password);
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the token so it can only be used once
+    const claimed = await tx.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    await tx.user.update({
+      where: { id: resetToken.userId },
+      data: { password: hashedPassword },
+    });
+    await tx.refreshToken.deleteMany({
+      where: { userId: resetToken.userId },
+    });
+
+    return true;
+  });
+}
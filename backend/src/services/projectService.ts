@@ -0,0 +1,175 @@
+import { PrismaClient, Project } from '@prisma/client';
+import { CreateProjectRequest, UpdateProjectRequest } from '../schemas/projectSchemas';
+import { StatusCategory } from '../types';
+
+const prisma = new PrismaClient();
+
+export interface ProjectResponse {
+  id: string;
+  name: string;
+  description?: string;
+  color?: string;
+  userId: string;
+  taskCount: number;
+  completedTaskCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ProjectTaskCounts {
+  taskCount: number;
+  completedTaskCount: number;
+}
+
+/**
+ * Count the tasks outside the trash in each of the given projects, and how many
+ * of them are in a done status
+ */
+async function getProjectTaskCounts(userId: string, projectIds: string[]): Promise<Map<string, ProjectTaskCounts>> {
+  const where = {
+    userId,
+    projectId: { in: projectIds },
+    deletedAt: null,
+  };
+
+  const [totals, completed] = await Promise.all([
+    prisma.task.groupBy({
+      by: ['projectId'],
+      where,
+      _count: { _all: true },
+    }),
+    prisma.task.groupBy({
+      by: ['projectId'],
+      where: { ...where, workflowStatus: { category: StatusCategory.DONE } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const counts = new Map<string, ProjectTaskCounts>(
+    projectIds.map(id => [id, { taskCount: 0, completedTaskCount: 0 }])
+  );
+
+  for (const group of totals) {
+    counts.get(group.projectId!)!.taskCount = group._count._all;
+  }
+
+  for (const group of completed) {
+    counts.get(group.projectId!)!.completedTaskCount = group._count._all;
+  }
+
+  return counts;
+}
+
+/**
+ * Convert a database project into the API response shape
+ */
+function formatProject(project: Project, counts?: ProjectTaskCounts): ProjectResponse {
+  return {
+    ...project,
+    description: project.description ?? undefined,
+    color: project.color ?? undefined,
+    taskCount: counts?.taskCount ?? 0,
+    completedTaskCount: counts?.completedTaskCount ?? 0,
+  };
+}
+
+/**
+ * Get all projects for a user with their task counts, alphabetically
+ */
+export async function getUserProjects(userId: string): Promise<ProjectResponse[]> {
+  const projects = await prisma.project.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+  });
+
+  const counts = await getProjectTaskCounts(userId, projects.map(project => project.id));
+
+  return projects.map(project => formatProject(project, counts.get(project.id)));
+}
+
+/**
+ * Get a single project by ID for a user
+ */
+export async function getProjectById(userId: string, projectId: string): Promise<ProjectResponse | null> {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, userId },
+  });
+
+  if (!project) {
+    return null;
+  }
+
+  const counts = await getProjectTaskCounts(userId, [project.id]);
+
+  return formatProject(project, counts.get(project.id));
+}
+
+/**
+ * Find a user's project by name, ignoring case
+ */
+export async function findProjectByName(userId: string, name: string): Promise<ProjectResponse | null> {
+  const project = await prisma.project.findFirst({
+    where: {
+      userId,
+      name: { equals: name, mode: 'insensitive' },
+    },
+  });
+
+  return project ? formatProject(project) : null;
+}
+
+/**
+ * Check that a project belongs to the user
+ */
+export async function userOwnsProject(userId: string, projectId: string): Promise<boolean> {
+  const count = await prisma.project.count({
+    where: { id: projectId, userId },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Create a new project for a user
+ */
+export async function createProject(userId: string, projectData: CreateProjectRequest): Promise<ProjectResponse> {
+  const project = await prisma.project.create({
+    data: {
+      name: projectData.name,
+      description: projectData.description,
+      color: projectData.color,
+      userId,
+    },
+  });
+
+  return formatProject(project);
+}
+
+/**
+ * Update a project for a user
+ */
+export async function updateProject(userId: string, projectId: string, updates: UpdateProjectRequest): Promise<ProjectResponse | null> {
+  const existingProject = await getProjectById(userId, projectId);
+
+  if (!existingProject) {
+    return null;
+  }
+
+  const project = await prisma.project.update({
+    where: { id: projectId },
+    data: updates,
+  });
+
+  return formatProject(project, existingProject);
+}
+
+/**
+ * Delete a project for a user. Its tasks are kept and no longer belong to a project.
+ */
+export async function deleteProject(userId: string, projectId: string): Promise<boolean> {
+  const result = await prisma.project.deleteMany({
+    where: { id: projectId, userId },
+  });
+
+  return result.count > 0;
+}
@@ -0,0 +1,116 @@
+import { PrismaClient, TaskRecurrence } from '@prisma/client';
+import { SetRecurrenceRequest } from '../schemas/recurrenceSchemas';
+import { TaskAccess, TaskAccessLevel } from '../types';
+import { taskAccessWhere } from '../utils/taskAccess';
+
+const prisma = new PrismaClient();
+
+export interface RecurrenceResponse {
+  id: string;
+  rule: string;
+  // Number of occurrences created so far, including the first task
+  occurrenceCount: number;
+  stoppedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Convert a database recurrence into the API response shape
+ */
+function formatRecurrence({ userId, stoppedAt, ...recurrence }: TaskRecurrence): RecurrenceResponse {
+  return {
+    ...recurrence,
+    stoppedAt: stoppedAt ?? undefined,
+  };
+}
+
+/**
+ * Find an active task the user has at least the required access to, together
+ * with the series it belongs to
+ */
+async function findUserTask(userId: string, taskId: string, required: TaskAccessLevel = TaskAccess.OWNER) {
+  return prisma.task.findFirst({
+    where: { id: taskId, deletedAt: null, ...taskAccessWhere(userId, required) },
+    select: { id: true, recurrence: true },
+  });
+}
+
+/**
+ * Get the recurring series of a user's task. Returns null when the task does
+ * not exist and false when it does not recur.
+ */
+export async function getTaskRecurrence(userId: string, taskId: string): Promise<RecurrenceResponse | false | null> {
+  const task = await findUserTask(userId, taskId, TaskAccess.VIEWER);
+
+  if (!task) {
+    return null;
+  }
+
+  return task.recurrence ? formatRecurrence(task.recurrence) : false;
+}
+
+/**
+ * Make a user's task recur. A task that is already part of a series changes
+ * the rule of the whole series (and resumes it if it was stopped); any other
+ * task becomes the first occurrence of a new series.
+ */
+export async function setTaskRecurrence(
+  userId: string,
+  taskId: string,
+  recurrenceData: SetRecurrenceRequest
+): Promise<RecurrenceResponse | null> {
+  const task = await findUserTask(userId, taskId);
+
+  if (!task) {
+    return null;
+  }
+
+  if (task.recurrence) {
+    const recurrence = await prisma.taskRecurrence.update({
+      where: { id: task.recurrence.id },
+      data: { rule: recurrenceData.rule, stoppedAt: null },
+    });
+
+    return formatRecurrence(recurrence);
+  }
+
+  const recurrence = await prisma.$transaction(async (tx) => {
+    const created = await tx.taskRecurrence.create({
+      data: { rule: recurrenceData.rule, userId },
+    });
+
+    await tx.task.update({
+      where: { id: taskId },
+      data: { recurrenceId: created.id, occurrence: 1 },
+    });
+
+    return created;
+  });
+
+  return formatRecurrence(recurrence);
+}
+
+/**
+ * Stop the series a user's task belongs to, so completing its occurrences no
+ * longer creates new ones. Existing occurrences are kept. Returns null when the
+ * task does not exist and false when it does not recur.
+ */
+export async function stopTaskRecurrence(userId: string, taskId: string): Promise<RecurrenceResponse | false | null> {
+  const task = await findUserTask(userId, taskId);
+
+  if (!task) {
+    return null;
+  }
+
+  if (!task.recurrence) {
+    return false;
+  }
+
+  const recurrence = await prisma.taskRecurrence.update({
+    where: { id: task.recurrence.id },
+    data: { stoppedAt: task.recurrence.stoppedAt ?? new Date() },
+  });
+
+  return formatRecurrence(recurrence);
+}
@@ -0,0 +1,74 @@
+import { PrismaClient } from '@prisma/client';
+import { StatusCategory } from '../types';
+import { getMailer } from '../mail';
+
+const prisma = new PrismaClient();
+
+// Most reminders sent in one run; the rest wait for the next run
+const REMINDER_BATCH_SIZE = 100;
+
+/**
+ * Email the reminders that have come due for open tasks that are not yet
+ * overdue. Each reminder goes to the task's assignee, or to its owner when it
+ * is unassigned, and is only sent once; a reminder that fails to send is
+ * tried again on the next run. Returns the number of reminders sent.
+ */
+export async function sendDueReminders(): Promise<number> {
+  const now = new Date();
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      remindAt: { lte: now },
+      remindedAt: null,
+      dueAt: { gt: now },
+      deletedAt: null,
+      workflowStatus: { category: { not: StatusCategory.DONE } },
+    },
+    include: {
+      user: { select: { email: true, name: true } },
+      assignee: { select: { email: true, name: true } },
+    },
+    orderBy: { remindAt: 'asc' },
+    take: REMINDER_BATCH_SIZE,
+  });
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  let sent = 0;
+
+  for (const task of tasks) {
+    // Claim the reminder so that overlapping runs send it only once
+    const claimed = await prisma.task.updateMany({
+      where: { id: task.id, remindedAt: null, remindAt: task.remindAt },
+      data: { remindedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const recipient = task.assignee ?? task.user;
+
+    try {
+      await getMailer().send({
+        to: recipient.email,
+        subject: `Reminder: "${task.title}" is due soon`,
+        text: [
+          `Hi ${recipient.name},`,
+          '',
+          `"${task.title}" is due on ${task.dueAt!.toUTCString()}.`,
+          '',
+          `Open your tasks: ${frontendUrl}/dashboard`,
+        ].join('\n'),
+      });
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send the reminder for task ${task.id}:`, error);
+      await prisma.task.updateMany({
+        where: { id: task.id, remindedAt: now },
+        data: { remindedAt: null },
+      });
+    }
+  }
+
+  return sent;
+}
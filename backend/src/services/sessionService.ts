@@ -0,0 +1,97 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// How often a session's activity is recorded, so that authenticated requests
+// do not each write to the database
+const SESSION_ACTIVITY_INTERVAL_SECONDS = 60;
+
+export interface SessionResponse {
+  // familyId of the session's refresh tokens
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  // Whether this is the session making the request
+  current: boolean;
+}
+
+/**
+ * Get the user's signed-in sessions, most recently used first. Each session
+ * is represented by the latest refresh token of its family.
+ */
+export async function getSessions(userId: string, currentSessionId?: string): Promise<SessionResponse[]> {
+  const refreshTokens = await prisma.refreshToken.findMany({
+    where: {
+      userId,
+      rotatedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+
+  return refreshTokens.map(refreshToken => ({
+    id: refreshToken.familyId,
+    userAgent: refreshToken.userAgent,
+    ipAddress: refreshToken.ipAddress,
+    lastUsedAt: refreshToken.lastUsedAt,
+    expiresAt: refreshToken.expiresAt,
+    current: refreshToken.familyId === currentSessionId,
+  }));
+}
+
+/**
+ * Record that a session made a request, updating its lastUsedAt at most once
+ * per SESSION_ACTIVITY_INTERVAL_SECONDS. Returns false when the session is no
+ * longer signed in, i.e. has no unexpired refresh token that has not been
+ * rotated: signing out a session, or revoking its family after a token was
+ * reused, ends it.
+ */
+export async function touchSession(userId: string, sessionId: string): Promise<boolean> {
+  const now = new Date();
+
+  const refreshToken = await prisma.refreshToken.findFirst({
+    where: {
+      userId,
+      familyId: sessionId,
+      rotatedAt: null,
+      expiresAt: { gt: now },
+    },
+    select: { id: true, lastUsedAt: true },
+  });
+
+  if (!refreshToken) {
+    return false;
+  }
+
+  if (now.getTime() - refreshToken.lastUsedAt.getTime() >= SESSION_ACTIVITY_INTERVAL_SECONDS * 1000) {
+    await prisma.refreshToken.updateMany({
+      where: { id: refreshToken.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Sign out one of the user's sessions by revoking its refresh tokens.
+ * Returns false when the user has no such session.
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.refreshToken.deleteMany({
+    where: { userId, familyId: sessionId },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Sign out every session of the user
+ */
+export async function revokeAllSessions(userId: string): Promise<void> {
+  await prisma.refreshToken.deleteMany({
+    where: { userId },
+  });
+}
@@ -0,0 +1,244 @@
+import { PrismaClient, WorkflowStatus } from '@prisma/client';
+import { CreateStatusRequest, UpdateStatusRequest } from '../schemas/statusSchemas';
+import { TaskStatus, StatusCategory, StatusCategoryType } from '../types';
+import { toStatusKey } from '../utils/workflow';
+
+const prisma = new PrismaClient();
+
+// The workflow every user starts with, matching the original two statuses
+export const DEFAULT_WORKFLOW_STATUSES = [
+  { key: TaskStatus.PENDING, name: 'Pending', category: StatusCategory.TODO, position: 0 },
+  { key: TaskStatus.COMPLETED, name: 'Completed', category: StatusCategory.DONE, position: 1 },
+];
+
+export interface StatusResponse {
+  id: string;
+  key: string;
+  name: string;
+  category: StatusCategoryType;
+  color?: string;
+  position: number;
+  userId: string;
+  taskCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Number of tasks outside the trash in each status
+const STATUS_INCLUDE = {
+  _count: {
+    select: { tasks: { where: { deletedAt: null } } },
+  },
+};
+
+type StatusWithCount = WorkflowStatus & { _count?: { tasks: number } };
+
+/**
+ * Convert a database status into the API response shape
+ */
+function formatStatus({ _count, ...status }: StatusWithCount): StatusResponse {
+  return {
+    ...status,
+    category: status.category as StatusCategoryType,
+    color: status.color ?? undefined,
+    taskCount: _count?.tasks ?? 0,
+  };
+}
+
+/**
+ * Give users created before custom workflows the default statuses
+ */
+async function ensureDefaultStatuses(userId: string): Promise<void> {
+  const count = await prisma.workflowStatus.count({
+    where: { userId },
+  });
+
+  if (count > 0) {
+    return;
+  }
+
+  await prisma.$transaction(
+    DEFAULT_WORKFLOW_STATUSES.map(status => prisma.workflowStatus.upsert({
+      where: { userId_key: { userId, key: status.key } },
+      create: { ...status, userId },
+      update: {},
+    }))
+  );
+}
+
+/**
+ * Get a user's workflow statuses in order
+ */
+export async function getUserStatuses(userId: string): Promise<StatusResponse[]> {
+  await ensureDefaultStatuses(userId);
+
+  const statuses = await prisma.workflowStatus.findMany({
+    where: { userId },
+    orderBy: { position: 'asc' },
+    include: STATUS_INCLUDE,
+  });
+
+  return statuses.map(formatStatus);
+}
+
+/**
+ * Get a single status by ID for a user
+ */
+export async function getStatusById(userId: string, statusId: string): Promise<StatusResponse | null> {
+  const status = await prisma.workflowStatus.findFirst({
+    where: { id: statusId, userId },
+    include: STATUS_INCLUDE,
+  });
+
+  return status ? formatStatus(status) : null;
+}
+
+/**
+ * Find a user's status by key
+ */
+export async function findStatusByKey(userId: string, key: string): Promise<StatusResponse | null> {
+  await ensureDefaultStatuses(userId);
+
+  const status = await prisma.workflowStatus.findUnique({
+    where: { userId_key: { userId, key } },
+  });
+
+  return status ? formatStatus(status) : null;
+}
+
+/**
+ * Find a user's status by name, ignoring case
+ */
+export async function findStatusByName(userId: string, name: string): Promise<StatusResponse | null> {
+  const status = await prisma.workflowStatus.findFirst({
+    where: {
+      userId,
+      name: { equals: name, mode: 'insensitive' },
+    },
+  });
+
+  return status ? formatStatus(status) : null;
+}
+
+/**
+ * Count a status's tasks, including the ones in the trash
+ */
+export async function countTasksInStatus(userId: string, key: string): Promise<number> {
+  return prisma.task.count({
+    where: { userId, status: key },
+  });
+}
+
+/**
+ * Pick a key for a new status that no other status of the user has
+ */
+async function generateStatusKey(userId: string, name: string): Promise<string> {
+  const baseKey = toStatusKey(name);
+  const existing = await prisma.workflowStatus.findMany({
+    where: { userId, key: { startsWith: baseKey } },
+    select: { key: true },
+  });
+  const takenKeys = new Set(existing.map(status => status.key));
+
+  let key = baseKey;
+  for (let suffix = 2; takenKeys.has(key); suffix++) {
+    key = `${baseKey}_${suffix}`;
+  }
+
+  return key;
+}
+
+/**
+ * Add a status to the end of a user's workflow
+ */
+export async function createStatus(userId: string, statusData: CreateStatusRequest): Promise<StatusResponse> {
+  await ensureDefaultStatuses(userId);
+
+  const lastStatus = await prisma.workflowStatus.findFirst({
+    where: { userId },
+    orderBy: { position: 'desc' },
+    select: { position: true },
+  });
+
+  const status = await prisma.workflowStatus.create({
+    data: {
+      key: await generateStatusKey(userId, statusData.name),
+      name: statusData.name,
+      category: statusData.category,
+      color: statusData.color,
+      position: lastStatus ? lastStatus.position + 1 : 0,
+      userId,
+    },
+  });
+
+  return formatStatus(status);
+}
+
+/**
+ * Update a status's name, category or color
+ */
+export async function updateStatus(userId: string, statusId: string, updates: UpdateStatusRequest): Promise<StatusResponse | null> {
+  const existingStatus = await getStatusById(userId, statusId);
+
+  if (!existingStatus) {
+    return null;
+  }
+
+  const status = await prisma.workflowStatus.update({
+    where: { id: statusId },
+    data: updates,
+    include: STATUS_INCLUDE,
+  });
+
+  return formatStatus(status);
+}
+
+/**
+ * Put a user's workflow in the given order. The ids must be exactly the user's
+ * statuses; returns null when they are not.
+ */
+export async function reorderStatuses(userId: string, statusIds: string[]): Promise<StatusResponse[] | null> {
+  const existingStatuses = await prisma.workflowStatus.findMany({
+    where: { userId },
+    select: { id: true },
+  });
+
+  const existingIds = new Set(existingStatuses.map(status => status.id));
+  if (existingIds.size !== statusIds.length || !statusIds.every(id => existingIds.has(id))) {
+    return null;
+  }
+
+  await prisma.$transaction(
+    statusIds.map((id, position) => prisma.workflowStatus.update({
+      where: { id },
+      data: { position },
+    }))
+  );
+
+  return getUserStatuses(userId);
+}
+
+/**
+ * Delete a status, first moving its tasks (including trashed ones) to another status
+ */
+export async function deleteStatus(userId: string, statusId: string, moveToKey?: string): Promise<boolean> {
+  const status = await prisma.workflowStatus.findFirst({
+    where: { id: statusId, userId },
+  });
+
+  if (!status) {
+    return false;
+  }
+
+  await prisma.$transaction([
+    ...(moveToKey ? [prisma.task.updateMany({
+      where: { userId, status: status.key },
+      data: { status: moveToKey },
+    })] : []),
+    prisma.workflowStatus.delete({
+      where: { id: statusId },
+    }),
+  ]);
+
+  return true;
+}
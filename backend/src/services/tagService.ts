@@ -0,0 +1,136 @@
+import { PrismaClient } from '@prisma/client';
+import { CreateTagRequest, UpdateTagRequest } from '../schemas/tagSchemas';
+
+const prisma = new PrismaClient();
+
+export interface TagResponse {
+  id: string;
+  name: string;
+  color?: string;
+  userId: string;
+  taskCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Only tasks outside the trash count towards a tag's usage
+const TAG_INCLUDE = {
+  _count: {
+    select: {
+      tasks: { where: { deletedAt: null } },
+    },
+  },
+} as const;
+
+/**
+ * Convert a database tag into the API response shape
+ */
+function formatTag(tag: {
+  id: string;
+  name: string;
+  color: string | null;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: { tasks: number };
+}): TagResponse {
+  const { _count, ...fields } = tag;
+
+  return {
+    ...fields,
+    color: tag.color ?? undefined,
+    taskCount: _count.tasks,
+  };
+}
+
+/**
+ * Get all tags for a user, alphabetically
+ */
+export async function getUserTags(userId: string): Promise<TagResponse[]> {
+  const tags = await prisma.tag.findMany({
+    where: { userId },
+    include: TAG_INCLUDE,
+    orderBy: { name: 'asc' },
+  });
+
+  return tags.map(formatTag);
+}
+
+/**
+ * Find a user's tag by name, ignoring case
+ */
+export async function findTagByName(userId: string, name: string): Promise<TagResponse | null> {
+  const tag = await prisma.tag.findFirst({
+    where: {
+      userId,
+      name: { equals: name, mode: 'insensitive' },
+    },
+    include: TAG_INCLUDE,
+  });
+
+  return tag ? formatTag(tag) : null;
+}
+
+/**
+ * Check that every tag id belongs to the user
+ */
+export async function userOwnsTags(userId: string, tagIds: string[]): Promise<boolean> {
+  const uniqueIds = [...new Set(tagIds)];
+
+  const count = await prisma.tag.count({
+    where: {
+      id: { in: uniqueIds },
+      userId,
+    },
+  });
+
+  return count === uniqueIds.length;
+}
+
+/**
+ * Create a new tag for a user
+ */
+export async function createTag(userId: string, tagData: CreateTagRequest): Promise<TagResponse> {
+  const tag = await prisma.tag.create({
+    data: {
+      name: tagData.name,
+      color: tagData.color,
+      userId,
+    },
+    include: TAG_INCLUDE,
+  });
+
+  return formatTag(tag);
+}
+
+/**
+ * Update a tag for a user
+ */
+export async function updateTag(userId: string, tagId: string, updates: UpdateTagRequest): Promise<TagResponse | null> {
+  const existingTag = await prisma.tag.findFirst({
+    where: { id: tagId, userId },
+  });
+
+  if (!existingTag) {
+    return null;
+  }
+
+  const tag = await prisma.tag.update({
+    where: { id: tagId },
+    data: updates,
+    include: TAG_INCLUDE,
+  });
+
+  return formatTag(tag);
+}
+
+/**
+ * Delete a tag for a user. Tasks keep existing and simply lose the tag.
+ */
+export async function deleteTag(userId: string, tagId: string): Promise<boolean> {
+  const result = await prisma.tag.deleteMany({
+    where: { id: tagId, userId },
+  });
+
+  return result.count > 0;
+}
@@ -0,0 +1,63 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { TaskEventTypeValue } from '../types';
+import { TrackedTaskField } from '../utils/taskHistory';
+import { taskAccessWhere } from '../utils/taskAccess';
+
+const prisma = new PrismaClient();
+
+const TASK_EVENT_INCLUDE = {
+  user: { select: { id: true, name: true } },
+} satisfies Prisma.TaskEventInclude;
+
+type TaskEventWithUser = Prisma.TaskEventGetPayload<{ include: typeof TASK_EVENT_INCLUDE }>;
+
+export interface TaskEventResponse {
+  id: string;
+  type: TaskEventTypeValue;
+  // Set for UPDATED events: the field that changed, and its values as text
+  field?: TrackedTaskField;
+  oldValue?: string;
+  newValue?: string;
+  taskId: string;
+  // Who made the change
+  user: {
+    id: string;
+    name: string;
+  };
+  createdAt: Date;
+}
+
+/**
+ * Convert a database task event into the API response shape
+ */
+function formatTaskEvent({ userId, field, oldValue, newValue, ...event }: TaskEventWithUser): TaskEventResponse {
+  return {
+    ...event,
+    type: event.type as TaskEventTypeValue,
+    field: (field ?? undefined) as TrackedTaskField | undefined,
+    oldValue: oldValue ?? undefined,
+    newValue: newValue ?? undefined,
+  };
+}
+
+/**
+ * Get the history of a user's task, newest first. Returns null when the task
+ * does not exist or is in the trash.
+ */
+export async function getTaskHistory(userId: string, taskId: string): Promise<TaskEventResponse[] | null> {
+  const count = await prisma.task.count({
+    where: { id: taskId, deletedAt: null, ...taskAccessWhere(userId) },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const events = await prisma.taskEvent.findMany({
+    where: { taskId },
+    include: TASK_EVENT_INCLUDE,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+  });
+
+  return events.map(formatTaskEvent);
+}
@@ -1,25 +1,149 @@
-import { PrismaClient, Task } from '@prisma/client';
-import { CreateTaskRequest, UpdateTaskRequest, TaskQuery } from '../schemas/taskSchemas';
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  CreateTaskRequest,
+  UpdateTaskRequest,
+  MoveTaskRequest,
+  BulkTaskRequest,
+  TaskQuery,
+  TrashQuery,
+  TaskSortField,
+  SortOrder,
+  MAX_BULK_TASKS,
+  MAX_TASK_TAGS
+} from '../schemas/taskSchemas';
+import { TaskPriority, TaskPriorityType, StatusCategory, StatusCategoryType, TaskEventType, TaskEventTypeValue, TaskAccess, TaskAccessLevel } from '../types';
+import { encodeCursor } from '../utils/cursor';
+import { getToggleStatusKey, ToggleTarget } from '../utils/workflow';
+import { getReorderedPositions, getPositionBetween, POSITION_STEP } from '../utils/ordering';
+import { parseRecurrenceRule, getNextOccurrence, hasNextOccurrence } from '../utils/recurrence';
+import { diffTaskSnapshots, TaskSnapshot } from '../utils/taskHistory';
+import { getTaskAccess, taskAccessWhere, workspaceMemberWhere } from '../utils/taskAccess';
+import { getIntegerEnv } from '../utils/env';
+import { getUserStatuses } from './statusService';
+import { deleteStoredFiles } from './attachmentService';
+import { parseSearchQuery, toTsQuery, buildHighlight, SearchTerm, SearchHighlight } from '../utils/search';
 
 const prisma = new PrismaClient();
 
-// Define task status constants since we're using strings in SQLite
-export const TaskStatus = {
-  PENDING: 'PENDING',
-  COMPLETED: 'COMPLETED'
-} as const;
+// Number of days a deleted task stays in the trash before it is purged
+const TRASH_RETENTION_DAYS = getIntegerEnv('TRASH_RETENTION_DAYS', 30, 1);
 
-export type TaskStatusType = typeof TaskStatus[keyof typeof TaskStatus];
+// Priorities are stored as ranks so that sorting follows their importance
+const PRIORITY_ORDER: TaskPriorityType[] = [
+  TaskPriority.LOW,
+  TaskPriority.MEDIUM,
+  TaskPriority.HIGH,
+  TaskPriority.URGENT,
+];
+
+const DEFAULT_PRIORITY = TaskPriority.MEDIUM;
+
+// Relations loaded with every task
+const TASK_INCLUDE = {
+  tags: {
+    select: { id: true, name: true, color: true },
+    orderBy: { name: 'asc' },
+  },
+  project: {
+    select: { id: true, name: true, color: true },
+  },
+  checklistItems: {
+    select: { completed: true },
+  },
+  workflowStatus: {
+    select: { key: true, name: true, category: true, color: true },
+  },
+  recurrence: {
+    select: { id: true, rule: true, stoppedAt: true },
+  },
+  user: {
+    select: { id: true, name: true },
+  },
+  assignee: {
+    select: { id: true, name: true },
+  },
+  collaborators: {
+    select: { userId: true, role: true },
+  },
+  workspace: {
+    select: { id: true, name: true, memberships: { select: { userId: true, role: true } } },
+  },
+} satisfies Prisma.TaskInclude;
+
+type TaskWithRelations = Prisma.TaskGetPayload<{ include: typeof TASK_INCLUDE }>;
+
+export interface TaskTagResponse {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+export interface TaskProjectResponse {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+export interface TaskWorkflowStatusResponse {
+  key: string;
+  name: string;
+  category: StatusCategoryType;
+  color?: string;
+}
+
+export interface TaskUserSummary {
+  id: string;
+  name: string;
+}
+
+export interface TaskWorkspaceSummary {
+  id: string;
+  name: string;
+}
+
+// Recurring series a task belongs to, and which occurrence of it the task is
+export interface TaskRecurrenceSummary {
+  id: string;
+  rule: string;
+  occurrence: number;
+  stoppedAt?: Date;
+}
 
 // Define a consistent task response type
+// How much of a task's checklist is done, e.g. 3 of 5 items
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+}
+
 export interface TaskResponse {
   id: string;
   title: string;
   description?: string;
-  status: TaskStatusType;
+  status: string;
+  workflowStatus: TaskWorkflowStatusResponse;
+  priority: TaskPriorityType;
+  dueAt?: Date;
+  // Minutes before the due date that a reminder is emailed
+  reminderMinutes?: number;
+  position: number;
   userId: string;
+  owner: TaskUserSummary;
+  assigneeId?: string;
+  assignee?: TaskUserSummary;
+  workspaceId?: string;
+  workspace?: TaskWorkspaceSummary;
+  // What the requesting user may do with the task
+  access: TaskAccessLevel;
+  projectId?: string;
+  project?: TaskProjectResponse;
+  tags: TaskTagResponse[];
+  checklistProgress: ChecklistProgress;
+  recurrence?: TaskRecurrenceSummary;
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
+  highlights?: SearchHighlight[];
 }
 
 export interface PaginatedTasksResponse {
@@ -32,68 +156,650 @@ export interface PaginatedTasksResponse {
   };
 }
 
+export interface CursorPaginatedTasksResponse {
+  tasks: TaskResponse[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+  };
+}
+
+// Outcome of a bulk operation for one task
+export interface BulkTaskResult {
+  id: string;
+  success: boolean;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface BulkTaskResponse {
+  action: BulkTaskRequest['action'];
+  succeeded: number;
+  failed: number;
+  results: BulkTaskResult[];
+}
+
 /**
- * Create a new task for a user
+ * Convert a priority name into its stored rank
  */
-export async function createTask(userId: string, taskData: CreateTaskRequest): Promise<TaskResponse> {
-  const task = await prisma.task.create({
-    data: {
-      title: taskData.title,
-      description: taskData.description,
-      userId,
-      status: TaskStatus.PENDING, // Default status
-    },
-  });
+function toPriorityRank(priority: TaskPriorityType): number {
+  return PRIORITY_ORDER.indexOf(priority);
+}
+
+/**
+ * Convert a stored priority rank into its name
+ */
+function fromPriorityRank(rank: number): TaskPriorityType {
+  return PRIORITY_ORDER[rank] ?? DEFAULT_PRIORITY;
+}
 
+/**
+ * Convert a database task into the API response shape, as seen by a user
+ */
+function formatTask(
+  { checklistItems, recurrenceId, recurrence, occurrence, user, collaborators, workspace, remindAt, remindedAt, ...task }: TaskWithRelations,
+  userId: string
+): TaskResponse {
   return {
     ...task,
-    status: task.status as TaskStatusType,
+    owner: user,
+    assigneeId: task.assigneeId ?? undefined,
+    assignee: task.assignee ?? undefined,
+    workspaceId: task.workspaceId ?? undefined,
+    workspace: workspace ? { id: workspace.id, name: workspace.name } : undefined,
+    access: getTaskAccess(userId, { ...task, collaborators, workspace }) ?? TaskAccess.VIEWER,
+    recurrence: recurrence
+      ? { id: recurrence.id, rule: recurrence.rule, occurrence: occurrence ?? 1, stoppedAt: recurrence.stoppedAt ?? undefined }
+      : undefined,
+    checklistProgress: {
+      completed: checklistItems.filter(item => item.completed).length,
+      total: checklistItems.length,
+    },
+    tags: task.tags.map(tag => ({ ...tag, color: tag.color ?? undefined })),
+    projectId: task.projectId ?? undefined,
+    project: task.project ? { ...task.project, color: task.project.color ?? undefined } : undefined,
+    workflowStatus: {
+      ...task.workflowStatus,
+      category: task.workflowStatus.category as StatusCategoryType,
+      color: task.workflowStatus.color ?? undefined,
+    },
+    priority: fromPriorityRank(task.priority),
     description: task.description ?? undefined,
+    dueAt: task.dueAt ?? undefined,
+    reminderMinutes: task.reminderMinutes ?? undefined,
+    deletedAt: task.deletedAt ?? undefined,
   };
 }
 
 /**
- * Get tasks for a user with pagination and filtering
+ * Get when a task's reminder is due, or null when it has no reminder or no
+ * due date
  */
-export async function getUserTasks(userId: string, query: TaskQuery): Promise<PaginatedTasksResponse> {
-  const { page, limit, status, search } = query;
-  const skip = (page - 1) * limit;
+function getRemindAt(dueAt: Date | null | undefined, reminderMinutes: number | null | undefined): Date | null {
+  if (!dueAt || reminderMinutes === null || reminderMinutes === undefined) {
+    return null;
+  }
 
-  // Build where clause
-  const where: any = {
-    userId,
+  return new Date(dueAt.getTime() - reminderMinutes * 60 * 1000);
+}
+
+/**
+ * Capture the fields of a task that its history records
+ */
+function toSnapshot(task: TaskResponse): TaskSnapshot {
+  return {
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    priority: task.priority,
+    dueAt: task.dueAt,
+    project: task.project?.name,
+    assignee: task.assignee?.name,
+    tags: task.tags.map(tag => tag.name),
   };
+}
+
+/**
+ * Record that a user created, deleted or restored tasks
+ */
+async function recordTaskEvents(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  taskIds: string[],
+  type: TaskEventTypeValue
+): Promise<void> {
+  await tx.taskEvent.createMany({
+    data: taskIds.map(taskId => ({ type, taskId, userId })),
+  });
+}
+
+/**
+ * Record every field a user changed on a task, one event per field
+ */
+async function recordTaskChanges(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  before: TaskResponse,
+  after: TaskResponse
+): Promise<void> {
+  const changes = diffTaskSnapshots(toSnapshot(before), toSnapshot(after));
+
+  if (changes.length > 0) {
+    await tx.taskEvent.createMany({
+      data: changes.map(change => ({ type: TaskEventType.UPDATED, taskId: after.id, userId, ...change })),
+    });
+  }
+}
+
+// Direction used for each sort field when the client does not specify one
+const DEFAULT_SORT_ORDERS: Record<Exclude<TaskSortField, 'relevance'>, SortOrder> = {
+  createdAt: 'desc',
+  updatedAt: 'desc',
+  title: 'asc',
+  status: 'asc',
+  dueAt: 'asc',
+  priority: 'desc',
+  position: 'asc',
+};
+
+// Nullable columns whose empty values should always sort last
+const NULLABLE_SORT_FIELDS: TaskSortField[] = ['dueAt'];
+
+/**
+ * Build the ordering for a task listing, with creation time and id as
+ * tie-breakers so that pages stay stable
+ */
+function getTaskOrderBy(sortBy: TaskSortField = 'createdAt', sortOrder?: SortOrder): Prisma.TaskOrderByWithRelationInput[] {
+  // Relevance is ranked by rankSearchPage; other listings fall back to newest first
+  if (sortBy === 'relevance') {
+    return getTaskOrderBy('createdAt');
+  }
+
+  const order = sortOrder ?? DEFAULT_SORT_ORDERS[sortBy];
+  let primary: Prisma.TaskOrderByWithRelationInput = NULLABLE_SORT_FIELDS.includes(sortBy)
+    ? { [sortBy]: { sort: order, nulls: 'last' } }
+    : { [sortBy]: order };
+
+  // Statuses sort in workflow order rather than by key
+  if (sortBy === 'status') {
+    primary = { workflowStatus: { position: order } };
+  }
+
+  const orderBy: Prisma.TaskOrderByWithRelationInput[] = [primary];
+
+  if (sortBy !== 'createdAt') {
+    orderBy.push({ createdAt: 'desc' });
+  }
+
+  orderBy.push({ id: sortBy === 'createdAt' ? order : 'desc' });
+
+  return orderBy;
+}
+
+/**
+ * Get the cutoff date before which trashed tasks are considered expired
+ */
+function getTrashCutoff(): Date {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - TRASH_RETENTION_DAYS);
+  return cutoff;
+}
+
+/**
+ * Permanently delete the tasks matching a filter, along with the stored files
+ * of their attachments
+ */
+async function deleteTasksPermanently(where: Prisma.TaskWhereInput): Promise<number> {
+  const attachments = await prisma.attachment.findMany({
+    where: { task: where },
+    select: { storageKey: true },
+  });
+
+  const result = await prisma.task.deleteMany({ where });
+  await deleteStoredFiles(attachments.map(attachment => attachment.storageKey));
+
+  return result.count;
+}
+
+/**
+ * Get the key of the status new tasks start in: the first open status of the workflow
+ */
+async function getInitialStatusKey(userId: string): Promise<string> {
+  return (await getUserStatuses(userId))
+    .find(workflowStatus => workflowStatus.category !== StatusCategory.DONE)!.key;
+}
+
+/**
+ * Get the position that puts a new task after every existing task in manual order
+ */
+async function getNextPosition(userId: string): Promise<number> {
+  const { _max } = await prisma.task.aggregate({
+    where: { userId },
+    _max: { position: true },
+  });
+
+  return (_max.position ?? 0) + POSITION_STEP;
+}
+
+/**
+ * Create a new task for a user, in one of their workspaces if given
+ */
+export async function createTask(userId: string, taskData: CreateTaskRequest, workspaceId?: string): Promise<TaskResponse> {
+  const status = taskData.status ?? await getInitialStatusKey(userId);
+  const position = await getNextPosition(userId);
+
+  const task = await prisma.$transaction(async (tx) => {
+    // A recurring task is the first occurrence of a new series
+    const recurrence = taskData.recurrenceRule
+      ? await tx.taskRecurrence.create({ data: { rule: taskData.recurrenceRule, userId } })
+      : null;
+
+    const task = await tx.task.create({
+      data: {
+        title: taskData.title,
+        description: taskData.description,
+        priority: toPriorityRank(taskData.priority ?? DEFAULT_PRIORITY),
+        dueAt: taskData.dueAt,
+        reminderMinutes: taskData.reminderMinutes,
+        remindAt: getRemindAt(taskData.dueAt, taskData.reminderMinutes),
+        position,
+        userId,
+        status,
+        projectId: taskData.projectId,
+        workspaceId,
+        ...(recurrence && { recurrenceId: recurrence.id, occurrence: 1 }),
+        ...(taskData.tagIds && {
+          tags: { connect: taskData.tagIds.map(id => ({ id })) },
+        }),
+      },
+      include: TASK_INCLUDE,
+    });
+
+    await recordTaskEvents(tx, userId, [task.id], TaskEventType.CREATED);
+
+    return task;
+  });
+
+  return formatTask(task, userId);
+}
+
+/**
+ * Create the next occurrence of a recurring task once it is completed. The new
+ * task copies the completed one (with its checklist unticked) and is due at the
+ * next date of the rule, counted from the completed task's due date, or from
+ * now when it had none. Nothing is created for stopped or finished series, or
+ * when the task is not the latest occurrence (e.g. it was reopened and completed
+ * again).
+ */
+async function spawnNextOccurrence(userId: string, taskId: string): Promise<void> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      recurrence: true,
+      tags: { select: { id: true } },
+      checklistItems: { orderBy: { position: 'asc' } },
+      collaborators: { select: { userId: true, role: true } },
+    },
+  });
+
+  const recurrence = task?.recurrence;
+  if (!task || !recurrence || recurrence.stoppedAt || task.occurrence !== recurrence.occurrenceCount) {
+    return;
+  }
+
+  const rule = parseRecurrenceRule(recurrence.rule);
+  if (!rule) {
+    return;
+  }
+
+  const dueAt = getNextOccurrence(rule, task.dueAt ?? new Date());
+  if (!hasNextOccurrence(rule, recurrence.occurrenceCount, dueAt)) {
+    return;
+  }
+
+  // The next occurrence belongs to the task's owner, whoever completed this one
+  const status = await getInitialStatusKey(task.userId);
+  const position = await getNextPosition(task.userId);
+
+  await prisma.$transaction(async (tx) => {
+    // Claim the next occurrence number so concurrent completions create it only once
+    const claimed = await tx.taskRecurrence.updateMany({
+      where: { id: recurrence.id, occurrenceCount: recurrence.occurrenceCount },
+      data: { occurrenceCount: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const nextTask = await tx.task.create({
+      data: {
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        dueAt,
+        reminderMinutes: task.reminderMinutes,
+        remindAt: getRemindAt(dueAt, task.reminderMinutes),
+        position,
+        userId: task.userId,
+        status,
+        projectId: task.projectId,
+        assigneeId: task.assigneeId,
+        workspaceId: task.workspaceId,
+        recurrenceId: recurrence.id,
+        occurrence: recurrence.occurrenceCount + 1,
+        tags: { connect: task.tags },
+        checklistItems: {
+          create: task.checklistItems.map(item => ({ title: item.title, position: item.position })),
+        },
+        collaborators: {
+          create: task.collaborators,
+        },
+      },
+    });
+
+    await recordTaskEvents(tx, userId, [nextTask.id], TaskEventType.CREATED);
+  });
+}
+
+/**
+ * Find the tasks a user can see that match the search terms, mapped to their
+ * relevance. Title matches are weighted above description matches.
+ */
+async function rankSearchMatches(userId: string, terms: SearchTerm[]): Promise<Map<string, number>> {
+  const rows = await prisma.$queryRaw<{ id: string; rank: number }[]>(Prisma.sql`
+    SELECT id, ts_rank("searchVector", query) AS rank
+    FROM tasks, to_tsquery('simple', ${toTsQuery(terms)}) query
+    WHERE (
+        "userId" = ${userId}
+        OR "assigneeId" = ${userId}
+        OR EXISTS (
+          SELECT 1 FROM task_collaborators collaborator
+          WHERE collaborator."taskId" = tasks.id AND collaborator."userId" = ${userId}
+        )
+        OR "workspaceId" IS NOT NULL
+      )
+      AND (
+        "workspaceId" IS NULL
+        OR EXISTS (
+          SELECT 1 FROM memberships membership
+          WHERE membership."workspaceId" = tasks."workspaceId" AND membership."userId" = ${userId}
+        )
+      )
+      AND "deletedAt" IS NULL
+      AND "searchVector" @@ query
+  `);
+
+  return new Map(rows.map(row => [row.id, Number(row.rank)]));
+}
+
+/**
+ * Build the SQL conditions for a user's task listing from its filters, the
+ * raw query counterpart of buildTaskWhere
+ */
+function buildTaskFilterSql(userId: string, query: TaskQuery, workspaceId?: string): Prisma.Sql {
+  const { scope, status, priority, dueBefore, dueAfter, overdue, tags, tagMode, projectId } = query;
+
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`"deletedAt" IS NULL`,
+    // Tasks in a workspace are only listed for its members
+    Prisma.sql`(
+      "workspaceId" IS NULL
+      OR EXISTS (
+        SELECT 1 FROM memberships membership
+        WHERE membership."workspaceId" = tasks."workspaceId" AND membership."userId" = ${userId}
+      )
+    )`,
+  ];
+
+  if (workspaceId) {
+    conditions.push(Prisma.sql`"workspaceId" = ${workspaceId}`);
+  } else {
+    switch (scope) {
+      case 'assigned':
+        conditions.push(Prisma.sql`"assigneeId" = ${userId}`);
+        break;
+      case 'shared':
+        conditions.push(Prisma.sql`"userId" <> ${userId}`);
+        conditions.push(Prisma.sql`(
+          "assigneeId" = ${userId}
+          OR EXISTS (
+            SELECT 1 FROM task_collaborators collaborator
+            WHERE collaborator."taskId" = tasks.id AND collaborator."userId" = ${userId}
+          )
+        )`);
+        break;
+      default:
+        conditions.push(Prisma.sql`"userId" = ${userId} AND "workspaceId" IS NULL`);
+    }
+  }
+
+  if (status) {
+    conditions.push(Prisma.sql`status = ${status}`);
+  }
+
+  if (priority) {
+    conditions.push(Prisma.sql`priority = ${toPriorityRank(priority)}`);
+  }
+
+  if (projectId) {
+    conditions.push(projectId === 'none' ? Prisma.sql`"projectId" IS NULL` : Prisma.sql`"projectId" = ${projectId}`);
+  }
+
+  if (dueAfter) {
+    conditions.push(Prisma.sql`"dueAt" >= ${dueAfter}`);
+  }
+
+  if (dueBefore) {
+    conditions.push(Prisma.sql`"dueAt" <= ${dueBefore}`);
+  }
+
+  if (overdue !== undefined) {
+    const overdueCondition = Prisma.sql`(
+      "dueAt" < ${new Date()}
+      AND EXISTS (
+        SELECT 1 FROM workflow_statuses workflow_status
+        WHERE workflow_status."userId" = tasks."userId" AND workflow_status.key = tasks.status
+          AND workflow_status.category <> ${StatusCategory.DONE}
+      )
+    )`;
+    conditions.push(overdue ? overdueCondition : Prisma.sql`NOT coalesce(${overdueCondition}, false)`);
+  }
+
+  if (tags) {
+    const tagged = (ids: string[]) => Prisma.sql`EXISTS (
+      SELECT 1 FROM "_TagToTask" tagging
+      WHERE tagging."B" = tasks.id AND tagging."A" IN (${Prisma.join(ids)})
+    )`;
+    if (tagMode === 'all') {
+      conditions.push(...tags.map(id => tagged([id])));
+    } else {
+      conditions.push(tagged(tags));
+    }
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+/**
+ * Get one page of the tasks matching the search terms and the listing's
+ * filters, ranked by relevance in the database with newest first among
+ * equally relevant tasks. Returns the page's task ids in order and the
+ * number of matches.
+ */
+async function rankSearchPage(
+  userId: string,
+  terms: SearchTerm[],
+  query: TaskQuery,
+  skip: number,
+  take: number,
+  workspaceId?: string
+): Promise<{ ids: string[]; total: number }> {
+  const from = Prisma.sql`
+    FROM tasks, to_tsquery('simple', ${toTsQuery(terms)}) query
+    WHERE ${buildTaskFilterSql(userId, query, workspaceId)}
+      AND "searchVector" @@ query
+  `;
+  const direction = query.sortOrder === 'asc' ? Prisma.sql`ASC` : Prisma.sql`DESC`;
+
+  const [rows, [{ count }]] = await Promise.all([
+    prisma.$queryRaw<{ id: string }[]>(Prisma.sql`
+      SELECT id ${from}
+      ORDER BY ts_rank("searchVector", query) ${direction}, "createdAt" DESC, id DESC
+      LIMIT ${take} OFFSET ${skip}
+    `),
+    prisma.$queryRaw<{ count: bigint }[]>(Prisma.sql`SELECT COUNT(*) AS count ${from}`),
+  ]);
+
+  return { ids: rows.map(row => row.id), total: Number(count) };
+}
+
+/**
+ * Attach highlight snippets for the search terms to a task
+ */
+function withHighlights(task: TaskResponse, terms: SearchTerm[]): TaskResponse {
+  if (terms.length === 0) {
+    return task;
+  }
+
+  const highlights = [
+    buildHighlight('title', task.title, terms),
+    buildHighlight('description', task.description ?? '', terms),
+  ].filter((highlight): highlight is SearchHighlight => highlight !== null);
+
+  return { ...task, highlights };
+}
+
+/**
+ * Build the where clause for a user's task listing from its filters.
+ * When searching, only the matched task ids are allowed through. Listing a
+ * workspace shows all of its tasks rather than those in the query's scope.
+ */
+function buildTaskWhere(userId: string, query: TaskQuery, searchMatches?: Map<string, number>, workspaceId?: string): Prisma.TaskWhereInput {
+  const { scope, status, priority, dueBefore, dueAfter, overdue, tags, tagMode, projectId } = query;
+
+  const where: Prisma.TaskWhereInput = {
+    deletedAt: null,
+  };
+  // Tasks in a workspace are only listed for its members
+  const conditions: Prisma.TaskWhereInput[] = [{ OR: [{ workspaceId: null }, workspaceMemberWhere(userId)] }];
+
+  // The user's own tasks outside any workspace, the tasks assigned to them, or
+  // other users' tasks shared with them
+  if (workspaceId) {
+    where.workspaceId = workspaceId;
+  } else {
+    switch (scope) {
+      case 'assigned':
+        where.assigneeId = userId;
+        break;
+      case 'shared':
+        where.userId = { not: userId };
+        where.OR = [{ assigneeId: userId }, { collaborators: { some: { userId } } }];
+        break;
+      default:
+        where.userId = userId;
+        where.workspaceId = null;
+    }
+  }
 
   if (status) {
     where.status = status;
   }
 
-  if (search) {
-    where.title = {
-      contains: search,
-      mode: 'insensitive',
+  if (priority) {
+    where.priority = toPriorityRank(priority);
+  }
+
+  if (projectId) {
+    where.projectId = projectId === 'none' ? null : projectId;
+  }
+
+  if (searchMatches) {
+    where.id = { in: [...searchMatches.keys()] };
+  }
+
+  // Due date range filter (inclusive on both ends)
+  if (dueBefore || dueAfter) {
+    where.dueAt = {
+      ...(dueAfter && { gte: dueAfter }),
+      ...(dueBefore && { lte: dueBefore }),
     };
   }
 
-  // Get total count for pagination
-  const total = await prisma.task.count({ where });
+  // A task is overdue when its due date has passed and it is not in a done status
+  if (overdue !== undefined) {
+    const overdueCondition = {
+      dueAt: { lt: new Date() },
+      workflowStatus: { category: { not: StatusCategory.DONE } },
+    };
 
-  // Get tasks with pagination
-  const tasks = await prisma.task.findMany({
-    where,
-    skip,
-    take: limit,
-    orderBy: {
-      createdAt: 'desc',
-    },
-  });
+    if (overdue) {
+      conditions.push(overdueCondition);
+    } else {
+      where.NOT = [overdueCondition];
+    }
+  }
 
-  // Convert null descriptions to undefined for consistency with TypeScript types
-  const formattedTasks = tasks.map(task => ({
-    ...task,
-    status: task.status as TaskStatusType,
-    description: task.description ?? undefined,
-  }));
+  // Tasks need at least one of the tags, or every one of them in 'all' mode
+  if (tags) {
+    if (tagMode === 'all') {
+      conditions.push(...tags.map(id => ({ tags: { some: { id } } })));
+    } else {
+      conditions.push({ tags: { some: { id: { in: tags } } } });
+    }
+  }
+
+  where.AND = conditions;
+
+  return where;
+}
+
+/**
+ * Get tasks for a user with pagination and filtering, or the tasks of one of
+ * their workspaces
+ */
+export async function getUserTasks(userId: string, query: TaskQuery, workspaceId?: string): Promise<PaginatedTasksResponse> {
+  const { page, limit, search, sortBy, sortOrder } = query;
+  const skip = (page - 1) * limit;
+  const terms = search ? parseSearchQuery(search) : [];
+
+  let total: number;
+  let tasks: TaskWithRelations[];
+
+  if (sortBy === 'relevance' && terms.length > 0) {
+    // Rank and page the matches in the database, then load the page's tasks
+    const page = await rankSearchPage(userId, terms, query, skip, limit, workspaceId);
+    const pageTasks = await prisma.task.findMany({
+      where: { id: { in: page.ids } },
+      include: TASK_INCLUDE,
+    });
+    const tasksById = new Map(pageTasks.map(task => [task.id, task]));
+
+    total = page.total;
+    tasks = page.ids.map(id => tasksById.get(id)).filter((task): task is TaskWithRelations => task !== undefined);
+  } else {
+    const searchMatches = terms.length > 0 ? await rankSearchMatches(userId, terms) : undefined;
+    const where = buildTaskWhere(userId, query, searchMatches, workspaceId);
+
+    // Get total count for pagination
+    total = await prisma.task.count({ where });
+
+    // Get tasks with pagination
+    tasks = await prisma.task.findMany({
+      where,
+      include: TASK_INCLUDE,
+      skip,
+      take: limit,
+      orderBy: getTaskOrderBy(sortBy, sortOrder),
+    });
+  }
+
+  // Convert null fields to undefined for consistency with TypeScript types
+  const formattedTasks = tasks.map(task => withHighlights(formatTask(task, userId), terms));
 
   const totalPages = Math.ceil(total / limit);
 
@@ -109,103 +815,613 @@ export async function getUserTasks(userId: string, query: TaskQuery): Promise<Pa
 }
 
 /**
- * Get a single task by ID for a user
+ * Get tasks for a user using cursor pagination. Pages are anchored to a task
+ * rather than an offset, so tasks created in the meantime never shift them.
  */
-export async function getTaskById(userId: string, taskId: string): Promise<TaskResponse | null> {
+export async function getUserTasksByCursor(
+  userId: string,
+  query: TaskQuery,
+  workspaceId?: string
+): Promise<CursorPaginatedTasksResponse> {
+  const { limit, cursor, search, sortBy, sortOrder } = query;
+  const terms = search ? parseSearchQuery(search) : [];
+  const searchMatches = terms.length > 0 ? await rankSearchMatches(userId, terms) : undefined;
+  const where = buildTaskWhere(userId, query, searchMatches, workspaceId);
+  const backward = cursor?.direction === 'prev';
+
+  // Fetch one extra task to find out whether there is another page
+  const tasks = await prisma.task.findMany({
+    where,
+    include: TASK_INCLUDE,
+    take: backward ? -(limit + 1) : limit + 1,
+    ...(cursor && { cursor: { id: cursor.id }, skip: 1 }),
+    orderBy: getTaskOrderBy(sortBy, sortOrder),
+  });
+
+  const hasMore = tasks.length > limit;
+  const pageTasks = hasMore
+    ? (backward ? tasks.slice(1) : tasks.slice(0, limit))
+    : tasks;
+
+  const first = pageTasks[0];
+  const last = pageTasks[pageTasks.length - 1];
+
+  // Paging backwards always leaves the cursor task ahead, and paging forwards
+  // from a cursor always leaves it behind
+  const hasNext = backward ? Boolean(cursor) : hasMore;
+  const hasPrev = backward ? hasMore : Boolean(cursor);
+
+  return {
+    tasks: pageTasks.map(task => withHighlights(formatTask(task, userId), terms)),
+    pagination: {
+      limit,
+      nextCursor: hasNext && last ? encodeCursor({ id: last.id, direction: 'next' }) : null,
+      prevCursor: hasPrev && first ? encodeCursor({ id: first.id, direction: 'prev' }) : null,
+    },
+  };
+}
+
+/**
+ * Get a single task by ID for a user with at least the required access to it
+ */
+export async function getTaskById(
+  userId: string,
+  taskId: string,
+  required: TaskAccessLevel = TaskAccess.VIEWER
+): Promise<TaskResponse | null> {
   const task = await prisma.task.findFirst({
     where: {
       id: taskId,
-      userId,
+      deletedAt: null,
+      ...taskAccessWhere(userId, required),
     },
+    include: TASK_INCLUDE,
   });
 
   if (!task) {
     return null;
   }
 
-  return {
-    ...task,
-    status: task.status as TaskStatusType,
-    description: task.description ?? undefined,
-  };
+  return formatTask(task, userId);
+}
+
+/**
+ * Check whether an update moved a task from an open status into a done one
+ */
+function isCompletion(before: TaskResponse, after: TaskWithRelations): boolean {
+  return before.workflowStatus.category !== StatusCategory.DONE &&
+    after.workflowStatus.category === StatusCategory.DONE;
 }
 
 /**
  * Update a task for a user
  */
 export async function updateTask(userId: string, taskId: string, updates: UpdateTaskRequest): Promise<TaskResponse | null> {
-  // First check if the task exists and belongs to the user
-  const existingTask = await getTaskById(userId, taskId);
+  // First check if the task exists and the user may change it
+  const existingTask = await getTaskById(userId, taskId, TaskAccess.EDITOR);
   
   if (!existingTask) {
     return null;
   }
 
-  // Update the task
-  const updatedTask = await prisma.task.update({
+  const { priority, tagIds, ...fields } = updates;
+
+  // Moving the due date or the reminder schedules the reminder again
+  const remindAt = getRemindAt(
+    updates.dueAt !== undefined ? updates.dueAt : existingTask.dueAt,
+    updates.reminderMinutes !== undefined ? updates.reminderMinutes : existingTask.reminderMinutes
+  );
+  const reminderChanged = remindAt?.getTime() !== getRemindAt(existingTask.dueAt, existingTask.reminderMinutes)?.getTime();
+
+  // Update the task and record what changed
+  const updatedTask = await prisma.$transaction(async (tx) => {
+    const task = await tx.task.update({
+      where: {
+        id: taskId,
+      },
+      data: {
+        ...fields,
+        ...(priority && { priority: toPriorityRank(priority) }),
+        ...(tagIds && { tags: { set: tagIds.map(id => ({ id })) } }),
+        ...(reminderChanged && { remindAt, remindedAt: null }),
+        updatedAt: new Date(),
+      },
+      include: TASK_INCLUDE,
+    });
+
+    await recordTaskChanges(tx, userId, existingTask, formatTask(task, userId));
+
+    return task;
+  });
+
+  if (isCompletion(existingTask, updatedTask)) {
+    await spawnNextOccurrence(userId, taskId);
+  }
+
+  return formatTask(updatedTask, userId);
+}
+
+/**
+ * Put some of a user's tasks, such as one board column, in the given order.
+ * The tasks swap the positions they already hold, so every other task keeps
+ * its place. Returns null when a task is missing or in the trash.
+ */
+export async function reorderTasks(userId: string, taskIds: string[]): Promise<TaskResponse[] | null> {
+  const existingTasks = await prisma.task.findMany({
     where: {
-      id: taskId,
+      id: { in: taskIds },
+      userId,
+      deletedAt: null,
     },
-    data: {
-      ...updates,
-      updatedAt: new Date(),
+    select: { position: true },
+  });
+
+  if (existingTasks.length !== taskIds.length) {
+    return null;
+  }
+
+  const positions = getReorderedPositions(existingTasks.map(task => task.position));
+
+  const tasks = await prisma.$transaction(
+    taskIds.map((id, index) => prisma.task.update({
+      where: { id },
+      data: { position: positions[index] },
+      include: TASK_INCLUDE,
+    }))
+  );
+
+  return tasks.map(task => formatTask(task, userId));
+}
+
+/**
+ * Find the positions a moved task should sit between, next to its anchors.
+ * Returns null when the anchors share a position with another task, so the
+ * order around them is ambiguous.
+ */
+async function findMoveBounds(
+  userId: string,
+  taskId: string,
+  after?: { id: string; position: number },
+  before?: { id: string; position: number }
+): Promise<{ lower?: number; upper?: number } | null> {
+  const others = { userId, deletedAt: null, id: { notIn: [taskId, after?.id, before?.id].filter((id): id is string => Boolean(id)) } };
+
+  const anchorTies = await prisma.task.count({
+    where: {
+      ...others,
+      position: { in: [after?.position, before?.position].filter((position): position is number => position !== undefined) },
     },
   });
 
-  return {
-    ...updatedTask,
-    status: updatedTask.status as TaskStatusType,
-    description: updatedTask.description ?? undefined,
+  if (anchorTies > 0) {
+    return null;
+  }
+
+  if (after && before) {
+    return { lower: after.position, upper: before.position };
+  }
+
+  if (after) {
+    const next = await prisma.task.findFirst({
+      where: { ...others, position: { gt: after.position } },
+      orderBy: { position: 'asc' },
+      select: { position: true },
+    });
+
+    return { lower: after.position, upper: next?.position };
+  }
+
+  const previous = await prisma.task.findFirst({
+    where: { ...others, position: { lt: before!.position } },
+    orderBy: { position: 'desc' },
+    select: { position: true },
+  });
+
+  return { lower: previous?.position, upper: before!.position };
+}
+
+/**
+ * Spread all of a user's tasks out evenly in their current manual order. Only
+ * needed once repeated moves leave no room between two neighbours.
+ */
+async function spreadTaskPositions(userId: string): Promise<void> {
+  const tasks = await prisma.task.findMany({
+    where: { userId },
+    orderBy: getTaskOrderBy('position'),
+    select: { id: true },
+  });
+
+  await prisma.$transaction(
+    tasks.map((task, index) => prisma.task.update({
+      where: { id: task.id },
+      data: { position: (index + 1) * POSITION_STEP },
+    }))
+  );
+}
+
+/**
+ * Move a task in the manual order so it sits right after `afterId` and/or
+ * right before `beforeId`. Only the moved task gets a new position unless its
+ * neighbours have run out of room. Returns null when the task does not exist
+ * and false when an anchor is not another of the user's tasks or the anchors
+ * are out of order.
+ */
+export async function moveTask(userId: string, taskId: string, anchors: MoveTaskRequest): Promise<TaskResponse | false | null> {
+  // The manual order is the owner's, so only they can move their tasks in it
+  const existingTask = await getTaskById(userId, taskId, TaskAccess.OWNER);
+
+  if (!existingTask) {
+    return null;
+  }
+
+  const anchorIds = [anchors.afterId, anchors.beforeId].filter((id): id is string => Boolean(id));
+  if (anchorIds.includes(taskId)) {
+    return false;
+  }
+
+  const findAnchors = async () => {
+    const anchorTasks = await prisma.task.findMany({
+      where: { id: { in: anchorIds }, userId, deletedAt: null },
+      select: { id: true, position: true },
+    });
+
+    return {
+      found: anchorTasks.length === anchorIds.length,
+      after: anchorTasks.find(task => task.id === anchors.afterId),
+      before: anchorTasks.find(task => task.id === anchors.beforeId),
+    };
   };
+
+  let { found, after, before } = await findAnchors();
+  if (!found || (after && before && after.position > before.position)) {
+    return false;
+  }
+
+  let bounds = await findMoveBounds(userId, taskId, after, before);
+  let position = bounds && getPositionBetween(bounds.lower, bounds.upper);
+
+  // Make room around the anchors and try once more
+  if (position === null) {
+    await spreadTaskPositions(userId);
+    ({ after, before } = await findAnchors());
+    bounds = await findMoveBounds(userId, taskId, after, before);
+    position = bounds && getPositionBetween(bounds.lower, bounds.upper);
+  }
+
+  if (position === null) {
+    return false;
+  }
+
+  const updatedTask = await prisma.task.update({
+    where: { id: taskId },
+    data: { position },
+    include: TASK_INCLUDE,
+  });
+
+  return formatTask(updatedTask, userId);
 }
 
 /**
- * Toggle task status between PENDING and COMPLETED
+ * Move a task along its workflow: done tasks are reopened, open tasks advance to
+ * the next status (or straight to done). With the default workflow this flips
+ * between PENDING and COMPLETED.
  */
-export async function toggleTaskStatus(userId: string, taskId: string): Promise<TaskResponse | null> {
-  // First check if the task exists and belongs to the user
-  const existingTask = await getTaskById(userId, taskId);
+export async function toggleTaskStatus(userId: string, taskId: string, target: ToggleTarget = 'next'): Promise<TaskResponse | null> {
+  // First check if the task exists and the user may change it
+  const existingTask = await getTaskById(userId, taskId, TaskAccess.EDITOR);
   
   if (!existingTask) {
     return null;
   }
 
-  // Toggle status
-  const newStatus = existingTask.status === TaskStatus.PENDING ? TaskStatus.COMPLETED : TaskStatus.PENDING;
+  // Tasks move along their owner's workflow
+  const statuses = await getUserStatuses(existingTask.userId);
+  const newStatus = getToggleStatusKey(statuses, existingTask.status, target) ?? existingTask.status;
 
-  const updatedTask = await prisma.task.update({
-    where: {
-      id: taskId,
-    },
-    data: {
-      status: newStatus,
-      updatedAt: new Date(),
-    },
+  const updatedTask = await prisma.$transaction(async (tx) => {
+    const task = await tx.task.update({
+      where: {
+        id: taskId,
+      },
+      data: {
+        status: newStatus,
+        updatedAt: new Date(),
+      },
+      include: TASK_INCLUDE,
+    });
+
+    await recordTaskChanges(tx, userId, existingTask, formatTask(task, userId));
+
+    return task;
   });
 
-  return {
-    ...updatedTask,
-    status: updatedTask.status as TaskStatusType,
-    description: updatedTask.description ?? undefined,
-  };
+  if (isCompletion(existingTask, updatedTask)) {
+    await spawnNextOccurrence(userId, taskId);
+  }
+
+  return formatTask(updatedTask, userId);
 }
 
 /**
- * Delete a task for a user
+ * Move a task to the trash for a user
  */
 export async function deleteTask(userId: string, taskId: string): Promise<boolean> {
   // First check if the task exists and belongs to the user
-  const existingTask = await getTaskById(userId, taskId);
+  const existingTask = await getTaskById(userId, taskId, TaskAccess.OWNER);
   
   if (!existingTask) {
     return false;
   }
 
-  await prisma.task.delete({
+  await prisma.$transaction([
+    prisma.task.update({
+      where: {
+        id: taskId,
+      },
+      data: {
+        deletedAt: new Date(),
+      },
+    }),
+    prisma.taskEvent.create({
+      data: { type: TaskEventType.DELETED, taskId, userId },
+    }),
+  ]);
+
+  return true;
+}
+
+/**
+ * Find the tasks a bulk operation applies to, as they are before it. Returns
+ * null when a filter matches more tasks than one request may change.
+ */
+async function findBulkTargets(userId: string, request: BulkTaskRequest): Promise<TaskWithRelations[] | null> {
+  if (request.taskIds) {
+    return prisma.task.findMany({
+      where: { id: { in: request.taskIds }, userId, deletedAt: null },
+      include: TASK_INCLUDE,
+    });
+  }
+
+  const filter = request.filter!;
+  const terms = filter.search ? parseSearchQuery(filter.search) : [];
+  const searchMatches = terms.length > 0 ? await rankSearchMatches(userId, terms) : undefined;
+
+  // Whatever the filter's scope, bulk changes only apply to the user's own tasks
+  const tasks = await prisma.task.findMany({
+    where: { AND: [buildTaskWhere(userId, filter, searchMatches), { userId }] },
+    include: TASK_INCLUDE,
+    orderBy: getTaskOrderBy(filter.sortBy, filter.sortOrder),
+    take: MAX_BULK_TASKS + 1,
+  });
+
+  return tasks.length > MAX_BULK_TASKS ? null : tasks;
+}
+
+/**
+ * Apply one action to many of a user's tasks, listed by id or matched by a
+ * filter. Every change is made in a single transaction; tasks that cannot be
+ * changed (missing, or left with too many tags) are reported in the results
+ * and skipped. Returns null when a filter matches more than MAX_BULK_TASKS tasks.
+ */
+export async function bulkUpdateTasks(userId: string, request: BulkTaskRequest): Promise<BulkTaskResponse | null> {
+  const targets = await findBulkTargets(userId, request);
+
+  if (!targets) {
+    return null;
+  }
+
+  const failures = new Map<string, BulkTaskResult['error']>();
+  const targetIds = new Set(targets.map(task => task.id));
+
+  // Listed tasks that do not exist, belong to someone else or are in the trash
+  for (const taskId of request.taskIds ?? []) {
+    if (!targetIds.has(taskId)) {
+      failures.set(taskId, {
+        code: 'TASK_NOT_FOUND',
+        message: 'Task not found or you do not have permission to change it',
+      });
+    }
+  }
+
+  if (request.action === 'addTags') {
+    for (const task of targets) {
+      const tagIds = new Set([...task.tags.map(tag => tag.id), ...request.tagIds]);
+      if (tagIds.size > MAX_TASK_TAGS) {
+        failures.set(task.id, {
+          code: 'TOO_MANY_TAGS',
+          message: `A task can have at most ${MAX_TASK_TAGS} tags`,
+        });
+      }
+    }
+  }
+
+  const ids = targets.map(task => task.id).filter(id => !failures.has(id));
+  const now = new Date();
+
+  await prisma.$transaction(async (tx) => {
+    switch (request.action) {
+      case 'delete':
+        await tx.task.updateMany({ where: { id: { in: ids } }, data: { deletedAt: now } });
+        break;
+      case 'status':
+        await tx.task.updateMany({ where: { id: { in: ids } }, data: { status: request.status, updatedAt: now } });
+        break;
+      case 'project':
+        await tx.task.updateMany({ where: { id: { in: ids } }, data: { projectId: request.projectId, updatedAt: now } });
+        break;
+      case 'addTags':
+      case 'removeTags': {
+        const tags = request.tagIds.map(id => ({ id }));
+        for (const id of ids) {
+          await tx.task.update({
+            where: { id },
+            data: {
+              tags: request.action === 'addTags' ? { connect: tags } : { disconnect: tags },
+              updatedAt: now,
+            },
+          });
+        }
+        break;
+      }
+    }
+
+    if (request.action === 'delete') {
+      await recordTaskEvents(tx, userId, ids, TaskEventType.DELETED);
+      return;
+    }
+
+    const updatedTasks = await tx.task.findMany({
+      where: { id: { in: ids } },
+      include: TASK_INCLUDE,
+    });
+
+    for (const updatedTask of updatedTasks) {
+      const task = targets.find(target => target.id === updatedTask.id)!;
+      await recordTaskChanges(tx, userId, formatTask(task, userId), formatTask(updatedTask, userId));
+    }
+  });
+
+  // Completing recurring tasks in bulk creates their next occurrences, as one at a time would
+  if (request.action === 'status') {
+    const status = (await getUserStatuses(userId)).find(workflowStatus => workflowStatus.key === request.status);
+
+    if (status?.category === StatusCategory.DONE) {
+      const completed = targets.filter(task =>
+        !failures.has(task.id) && task.workflowStatus.category !== StatusCategory.DONE
+      );
+
+      for (const task of completed) {
+        await spawnNextOccurrence(userId, task.id);
+      }
+    }
+  }
+
+  const resultIds = request.taskIds ?? targets.map(task => task.id);
+  const results = resultIds.map((id): BulkTaskResult => {
+    const error = failures.get(id);
+    return error ? { id, success: false, error } : { id, success: true };
+  });
+
+  return {
+    action: request.action,
+    succeeded: ids.length,
+    failed: failures.size,
+    results,
+  };
+}
+
+/**
+ * Get trashed tasks for a user, most recently deleted first. Tasks past the
+ * retention period are left out even before the purge job deletes them.
+ */
+export async function getTrashedTasks(userId: string, query: TrashQuery): Promise<PaginatedTasksResponse> {
+  const { page, limit } = query;
+  const skip = (page - 1) * limit;
+
+  const where = {
+    userId,
+    deletedAt: {
+      not: null,
+      gte: getTrashCutoff(),
+    },
+  };
+
+  const total = await prisma.task.count({ where });
+
+  const tasks = await prisma.task.findMany({
+    where,
+    include: TASK_INCLUDE,
+    skip,
+    take: limit,
+    orderBy: {
+      deletedAt: 'desc',
+    },
+  });
+
+  return {
+    tasks: tasks.map(task => formatTask(task, userId)),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Restore a trashed task for a user, keeping its original id, status and timestamps
+ */
+export async function restoreTask(userId: string, taskId: string): Promise<TaskResponse | null> {
+  const trashedTask = await prisma.task.findFirst({
     where: {
       id: taskId,
+      userId,
+      deletedAt: {
+        not: null,
+        gte: getTrashCutoff(),
+      },
     },
   });
 
-  return true;
-}
\ No newline at end of file
+  if (!trashedTask) {
+    return null;
+  }
+
+  const [restoredTask] = await prisma.$transaction([
+    prisma.task.update({
+      where: {
+        id: taskId,
+      },
+      data: {
+        deletedAt: null,
+      },
+      include: TASK_INCLUDE,
+    }),
+    prisma.taskEvent.create({
+      data: { type: TaskEventType.RESTORED, taskId, userId },
+    }),
+  ]);
+
+  return formatTask(restoredTask, userId);
+}
+
+/**
+ * Permanently delete a trashed task for a user
+ */
+export async function purgeTask(userId: string, taskId: string): Promise<boolean> {
+  const count = await deleteTasksPermanently({
+    id: taskId,
+    userId,
+    deletedAt: {
+      not: null,
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Permanently delete every trashed task for a user
+ */
+export async function emptyTrash(userId: string): Promise<number> {
+  return deleteTasksPermanently({
+    userId,
+    deletedAt: {
+      not: null,
+    },
+  });
+}
+
+/**
+ * Permanently delete trashed tasks older than the retention period,
+ * optionally limited to a single user
+ */
+export async function purgeExpiredTasks(userId?: string): Promise<number> {
+  return deleteTasksPermanently({
+    ...(userId && { userId }),
+    deletedAt: {
+      lt: getTrashCutoff(),
+    },
+  });
+}
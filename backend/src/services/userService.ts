@@ -1,5 +1,6 @@
 import { PrismaClient, User } from '@prisma/client';
 import { hashPassword, comparePassword } from '../utils/auth';
+import { DEFAULT_WORKFLOW_STATUSES } from './statusService';
 
 const prisma = new PrismaClient();
 
@@ -13,6 +14,7 @@ export interface UserWithoutPassword {
   id: string;
   email: string;
   name: string;
+  emailVerifiedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -41,11 +43,15 @@ export async function createUser(userData: CreateUserData): Promise<UserWithoutP
       email,
       password: hashedPassword,
       name,
+      workflowStatuses: {
+        create: DEFAULT_WORKFLOW_STATUSES,
+      },
     },
     select: {
       id: true,
       email: true,
       name: true,
+      emailVerifiedAt: true,
       createdAt: true,
       updatedAt: true,
     },
@@ -73,6 +79,7 @@ export async function findUserById(id: string): Promise<UserWithoutPassword | nu
       id: true,
       email: true,
       name: true,
+      emailVerifiedAt: true,
       createdAt: true,
       updatedAt: true,
     },
@@ -100,6 +107,7 @@ export async function authenticateUser(email: string, password: string): Promise
     id: user.id,
     email: user.email,
     name: user.name,
+    emailVerifiedAt: user.emailVerifiedAt,
     createdAt: user.createdAt,
     updatedAt: user.updatedAt,
   };
@@ -123,6 +131,7 @@ export async function updateUser(id: string, updates: Partial<CreateUserData>):
       id: true,
       email: true,
       name: true,
+      emailVerifiedAt: true,
       createdAt: true,
       updatedAt: true,
     },
@@ -131,6 +140,84 @@ export async function updateUser(id: string, updates: Partial<CreateUserData>):
   return user;
 }
 
+/**
+ * Update a user's own name and email. Changing the email marks it as
+ * unverified again. Returns null when the new email already belongs to
+ * another user.
+ */
+export async function updateProfile(
+  id: string,
+  updates: Pick<Partial<CreateUserData>, 'name' | 'email'>
+): Promise<UserWithoutPassword | null> {
+  if (updates.email) {
+    const existingUser = await findUserByEmail(updates.email);
+
+    if (existingUser && existingUser.id !== id) {
+      return null;
+    }
+
+    if (!existingUser) {
+      return prisma.user.update({
+        where: { id },
+        data: { name: updates.name, email: updates.email, emailVerifiedAt: null },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          emailVerifiedAt: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+    }
+  }
+
+  return updateUser(id, { name: updates.name, email: updates.email });
+}
+
+/**
+ * Change a user's password after checking their current one, and sign out
+ * every session except the one holding keepRefreshToken. Returns false when
+ * the current password is wrong.
+ */
+export async function changePassword(
+  id: string,
+  currentPassword: string,
+  newPassword: string,
+  keepRefreshToken?: string
+): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id },
+  });
+
+  if (!user || !(await comparePassword(currentPassword, user.password))) {
+    return false;
+  }
+
+  const hashedPassword = await hashPassword(newPassword);
+
+  // The kept session is the whole family of its token, so that replaying one
+  // of its rotated tokens is still detected as reuse
+  const keptToken = keepRefreshToken
+    ? await prisma.refreshToken.findFirst({ where: { token: keepRefreshToken, userId: id } })
+    : null;
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id },
+      data: { password: hashedPassword },
+    }),
+    prisma.refreshToken.deleteMany({
+      where: {
+        userId: id,
+        ...(keptToken && { familyId: { not: keptToken.familyId } }),
+      },
+    }),
+  ]);
+
+  return true;
+}
+
 /**
  * Delete user by ID
  */
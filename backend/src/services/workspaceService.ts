@@ -0,0 +1,427 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  CreateWorkspaceRequest,
+  UpdateWorkspaceRequest,
+  UpdateMemberRequest,
+  CreateInvitationRequest
+} from '../schemas/workspaceSchemas';
+import { TaskEventType, WorkspaceRole, WorkspaceRoleType } from '../types';
+import { generateOpaqueToken, hashToken } from '../utils/auth';
+import { getMailer } from '../mail';
+import { canManageMember } from '../utils/workspaceAccess';
+import { getIntegerEnv } from '../utils/env';
+
+const prisma = new PrismaClient();
+
+// Number of days an invitation can be accepted for
+const INVITATION_TTL_DAYS = getIntegerEnv('INVITATION_TTL_DAYS', 7, 1);
+
+const MEMBER_INCLUDE = {
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.MembershipInclude;
+
+const INVITATION_INCLUDE = {
+  invitedBy: { select: { id: true, name: true } },
+} satisfies Prisma.WorkspaceInvitationInclude;
+
+type MemberWithUser = Prisma.MembershipGetPayload<{ include: typeof MEMBER_INCLUDE }>;
+type InvitationWithInviter = Prisma.WorkspaceInvitationGetPayload<{ include: typeof INVITATION_INCLUDE }>;
+
+export interface WorkspaceResponse {
+  id: string;
+  name: string;
+  // The requesting user's role in the workspace
+  role: WorkspaceRoleType;
+  memberCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MemberResponse {
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  role: WorkspaceRoleType;
+  createdAt: Date;
+}
+
+export interface InvitationResponse {
+  id: string;
+  email: string;
+  role: WorkspaceRoleType;
+  expiresAt: Date;
+  invitedBy: {
+    id: string;
+    name: string;
+  };
+  createdAt: Date;
+}
+
+// A new invitation together with what is needed to email it
+export interface CreatedInvitation {
+  invitation: InvitationResponse;
+  workspace: {
+    id: string;
+    name: string;
+  };
+  // Sent to the invited user; the database only keeps its hash
+  token: string;
+}
+
+/**
+ * Convert a database member into the API response shape
+ */
+function formatMember(member: MemberWithUser): MemberResponse {
+  return {
+    user: member.user,
+    role: member.role as WorkspaceRoleType,
+    createdAt: member.createdAt,
+  };
+}
+
+/**
+ * Convert a database invitation into the API response shape
+ */
+function formatInvitation({ tokenHash, acceptedAt, workspaceId, invitedById, ...invitation }: InvitationWithInviter): InvitationResponse {
+  return {
+    ...invitation,
+    role: invitation.role as WorkspaceRoleType,
+  };
+}
+
+/**
+ * Get a single workspace as seen by one of its members
+ */
+export async function getWorkspace(userId: string, workspaceId: string): Promise<WorkspaceResponse | null> {
+  const membership = await prisma.membership.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    include: {
+      workspace: { include: { _count: { select: { memberships: true } } } },
+    },
+  });
+
+  if (!membership) {
+    return null;
+  }
+
+  const { _count, ...workspace } = membership.workspace;
+
+  return {
+    ...workspace,
+    role: membership.role as WorkspaceRoleType,
+    memberCount: _count.memberships,
+  };
+}
+
+/**
+ * Get a user's role in a workspace, or null when they are not a member
+ */
+export async function getMemberRole(userId: string, workspaceId: string): Promise<WorkspaceRoleType | null> {
+  const membership = await prisma.membership.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    select: { role: true },
+  });
+
+  return (membership?.role as WorkspaceRoleType) ?? null;
+}
+
+/**
+ * Get the workspaces a user belongs to, alphabetically
+ */
+export async function getUserWorkspaces(userId: string): Promise<WorkspaceResponse[]> {
+  const memberships = await prisma.membership.findMany({
+    where: { userId },
+    include: {
+      workspace: { include: { _count: { select: { memberships: true } } } },
+    },
+    orderBy: { workspace: { name: 'asc' } },
+  });
+
+  return memberships.map(({ role, workspace: { _count, ...workspace } }) => ({
+    ...workspace,
+    role: role as WorkspaceRoleType,
+    memberCount: _count.memberships,
+  }));
+}
+
+/**
+ * Create a workspace owned by the user
+ */
+export async function createWorkspace(userId: string, data: CreateWorkspaceRequest): Promise<WorkspaceResponse> {
+  const workspace = await prisma.workspace.create({
+    data: {
+      name: data.name,
+      memberships: { create: { userId, role: WorkspaceRole.OWNER } },
+    },
+  });
+
+  return { ...workspace, role: WorkspaceRole.OWNER, memberCount: 1 };
+}
+
+/**
+ * Rename a workspace
+ */
+export async function updateWorkspace(
+  userId: string,
+  workspaceId: string,
+  updates: UpdateWorkspaceRequest
+): Promise<WorkspaceResponse | null> {
+  await prisma.workspace.update({
+    where: { id: workspaceId },
+    data: { name: updates.name },
+  });
+
+  return getWorkspace(userId, workspaceId);
+}
+
+/**
+ * Delete a workspace. Its tasks are kept and go back to the users who created them.
+ */
+export async function deleteWorkspace(workspaceId: string): Promise<void> {
+  await prisma.workspace.delete({
+    where: { id: workspaceId },
+  });
+}
+
+/**
+ * Get the members of a workspace, in the order they joined
+ */
+export async function getMembers(workspaceId: string): Promise<MemberResponse[]> {
+  const members = await prisma.membership.findMany({
+    where: { workspaceId },
+    include: MEMBER_INCLUDE,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  return members.map(formatMember);
+}
+
+/**
+ * Change a member's role. Returns false when the acting member's role does not
+ * allow managing the member or handing out the new role.
+ */
+export async function updateMember(
+  actorRole: WorkspaceRoleType,
+  workspaceId: string,
+  memberId: string,
+  updates: UpdateMemberRequest
+): Promise<MemberResponse | false | null> {
+  const member = await prisma.membership.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId: memberId } },
+  });
+
+  if (!member) {
+    return null;
+  }
+
+  if (!canManageMember(actorRole, member.role) || !canManageMember(actorRole, updates.role)) {
+    return false;
+  }
+
+  const updated = await prisma.membership.update({
+    where: { id: member.id },
+    data: { role: updates.role },
+    include: MEMBER_INCLUDE,
+  });
+
+  return formatMember(updated);
+}
+
+/**
+ * Remove a member from a workspace, or let a member leave it. The owner cannot
+ * leave. A removed member is unassigned from the workspace's tasks. Returns
+ * false when the acting member's role does not allow removing the member.
+ */
+export async function removeMember(
+  userId: string,
+  actorRole: WorkspaceRoleType,
+  workspaceId: string,
+  memberId: string
+): Promise<boolean | null> {
+  const member = await prisma.membership.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId: memberId } },
+    include: MEMBER_INCLUDE,
+  });
+
+  if (!member) {
+    return null;
+  }
+
+  const isLeaving = memberId === userId;
+
+  if (isLeaving ? member.role === WorkspaceRole.OWNER : !canManageMember(actorRole, member.role)) {
+    return false;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const assignedTasks = await tx.task.findMany({
+      where: { workspaceId, assigneeId: memberId },
+      select: { id: true },
+    });
+
+    await tx.membership.delete({
+      where: { id: member.id },
+    });
+
+    if (assignedTasks.length > 0) {
+      await tx.task.updateMany({
+        where: { id: { in: assignedTasks.map(task => task.id) } },
+        data: { assigneeId: null, updatedAt: new Date() },
+      });
+      await tx.taskEvent.createMany({
+        data: assignedTasks.map(task => ({
+          type: TaskEventType.UPDATED,
+          field: 'assignee',
+          oldValue: member.user.name,
+          taskId: task.id,
+          userId,
+        })),
+      });
+    }
+  });
+
+  return true;
+}
+
+/**
+ * Get the invitations to a workspace that can still be accepted, newest first
+ */
+export async function getInvitations(workspaceId: string): Promise<InvitationResponse[]> {
+  const invitations = await prisma.workspaceInvitation.findMany({
+    where: { workspaceId, acceptedAt: null, expiresAt: { gt: new Date() } },
+    include: INVITATION_INCLUDE,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+  });
+
+  return invitations.map(formatInvitation);
+}
+
+/**
+ * Invite someone to a workspace by email, replacing any earlier invitation to
+ * the same address. Returns false when the acting member's role does not allow
+ * handing out the role, and null when the address already belongs to a member.
+ */
+export async function createInvitation(
+  userId: string,
+  actorRole: WorkspaceRoleType,
+  workspaceId: string,
+  data: CreateInvitationRequest
+): Promise<CreatedInvitation | false | null> {
+  if (!canManageMember(actorRole, data.role)) {
+    return false;
+  }
+
+  const existingMember = await prisma.membership.count({
+    where: { workspaceId, user: { email: data.email } },
+  });
+
+  if (existingMember > 0) {
+    return null;
+  }
+
+  const token = generateOpaqueToken();
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + INVITATION_TTL_DAYS);
+
+  const invitation = await prisma.$transaction(async (tx) => {
+    await tx.workspaceInvitation.deleteMany({
+      where: { workspaceId, email: data.email, acceptedAt: null },
+    });
+
+    return tx.workspaceInvitation.create({
+      data: {
+        email: data.email,
+        role: data.role,
+        tokenHash: hashToken(token),
+        expiresAt,
+        workspaceId,
+        invitedById: userId,
+      },
+      include: { ...INVITATION_INCLUDE, workspace: { select: { id: true, name: true } } },
+    });
+  });
+
+  const { workspace, ...created } = invitation;
+
+  return { invitation: formatInvitation(created), workspace, token };
+}
+
+/**
+ * Email the invited user a link to the frontend's invitation page carrying
+ * the token
+ */
+export async function sendInvitationEmail({ invitation, workspace, token }: CreatedInvitation): Promise<void> {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const link = `${frontendUrl}/invitations/accept?token=${encodeURIComponent(token)}`;
+
+  await getMailer().send({
+    to: invitation.email,
+    subject: `You have been invited to ${workspace.name}`,
+    text: [
+      `${invitation.invitedBy.name} invited you to join the "${workspace.name}" workspace on Task Management.`,
+      '',
+      'Sign in or create an account with this email address, then open this link to accept:',
+      '',
+      link,
+      '',
+      `The link expires in ${INVITATION_TTL_DAYS} days. If you were not expecting this invitation, you can ignore this email.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Withdraw an invitation that has not been accepted yet
+ */
+export async function revokeInvitation(workspaceId: string, invitationId: string): Promise<boolean> {
+  const result = await prisma.workspaceInvitation.deleteMany({
+    where: { id: invitationId, workspaceId, acceptedAt: null },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Join a workspace using an invitation token. Returns null when the token is
+ * unknown, expired or already used, and false when the user has not verified
+ * their email address or the invitation was sent to a different one, since
+ * only a verified address proves the user received it. Accepting when already
+ * a member keeps the current role.
+ */
+export async function acceptInvitation(
+  user: { id: string; email: string; emailVerifiedAt: Date | null },
+  token: string
+): Promise<WorkspaceResponse | false | null> {
+  const invitation = await prisma.workspaceInvitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!invitation || invitation.acceptedAt || invitation.expiresAt < new Date()) {
+    return null;
+  }
+
+  if (!user.emailVerifiedAt || invitation.email !== user.email.toLowerCase()) {
+    return false;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    // Claim the invitation so it can only be used once
+    const claimed = await tx.workspaceInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    await tx.membership.upsert({
+      where: { workspaceId_userId: { workspaceId: invitation.workspaceId, userId: user.id } },
+      create: { workspaceId: invitation.workspaceId, userId: user.id, role: invitation.role },
+      update: {},
+    });
+  });
+
+  return getWorkspace(user.id, invitation.workspaceId);
+}
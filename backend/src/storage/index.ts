@@ -0,0 +1,62 @@
+import path from 'path';
+import { createLocalStorage } from './localStorage';
+import { createS3Storage } from './s3Storage';
+
+/**
+ * Where uploaded files are kept. Keys are generated by the server and may
+ * contain "/" to group files, e.g. by task.
+ */
+export interface FileStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when nothing is stored under the key
+  get(key: string): Promise<Buffer | null>;
+  // Deleting a key that does not exist is not an error
+  delete(key: string): Promise<void>;
+}
+
+let fileStorage: FileStorage | undefined;
+
+/**
+ * Build the storage backend selected by STORAGE_DRIVER ("local" or "s3")
+ */
+function createFileStorage(): FileStorage {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  switch (driver) {
+    case 'local':
+      return createLocalStorage(path.resolve(process.env.UPLOAD_DIR || 'uploads'));
+    case 's3': {
+      const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+      const region = process.env.S3_REGION || 'us-east-1';
+
+      if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required when STORAGE_DRIVER is "s3"');
+      }
+
+      return createS3Storage({
+        endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        region,
+        bucket: S3_BUCKET,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+      });
+    }
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+}
+
+/**
+ * Get the configured storage backend, creating it on first use
+ */
+export function getFileStorage(): FileStorage {
+  if (!fileStorage) {
+    fileStorage = createFileStorage();
+  }
+
+  return fileStorage;
+}
+
+export { createLocalStorage } from './localStorage';
+export { createS3Storage, signS3Request } from './s3Storage';
+export type { S3StorageOptions } from './s3Storage';
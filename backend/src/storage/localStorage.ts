@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FileStorage } from './index';
+
+/**
+ * Store files on the local filesystem under rootDir
+ */
+export function createLocalStorage(rootDir: string): FileStorage {
+  const root = path.resolve(rootDir);
+
+  // Keys must stay inside the root directory
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolveKey(key);
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return null;
+        }
+
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+  };
+}
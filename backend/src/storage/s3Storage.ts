@@ -0,0 +1,143 @@
+import { createHash, createHmac } from 'crypto';
+import type { FileStorage } from './index';
+
+export interface S3StorageOptions {
+  // Base URL of the S3 API, e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000 for MinIO
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+interface SignS3RequestOptions {
+  method: string;
+  url: URL;
+  // Headers to sign and send, besides host, x-amz-date and x-amz-content-sha256
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date?: Date;
+}
+
+const sha256Hex = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+
+/**
+ * Sign a request to the S3 API with AWS Signature Version 4. Returns the
+ * headers to send; host is signed but left for the HTTP client to set.
+ */
+export function signS3Request({
+  method,
+  url,
+  headers,
+  payloadHash,
+  region,
+  accessKeyId,
+  secretAccessKey,
+  date = new Date(),
+}: SignS3RequestOptions): Record<string, string> {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+
+  const requestHeaders: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const signedHeaderValues: Record<string, string> = { ...requestHeaders, host: url.host };
+  const signedHeaderNames = Object.keys(signedHeaderValues).sort();
+
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    signedHeaderNames.map(name => `${name}:${signedHeaderValues[name]}\n`).join(''),
+    signedHeaderNames.join(';'),
+    payloadHash,
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region)
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...requestHeaders,
+    authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Store files in an S3-compatible bucket (AWS S3, MinIO, ...) using
+ * path-style URLs, which every S3-compatible service accepts
+ */
+export function createS3Storage(options: S3StorageOptions): FileStorage {
+  const endpoint = new URL(options.endpoint);
+  const basePath = endpoint.pathname.replace(/\/$/, '');
+
+  const objectUrl = (key: string): URL => {
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return new URL(`${basePath}/${encodeURIComponent(options.bucket)}/${encodedKey}`, endpoint);
+  };
+
+  const send = (method: string, key: string, body?: Buffer, headers: Record<string, string> = {}) => {
+    const url = objectUrl(key);
+    const signedHeaders = signS3Request({
+      method,
+      url,
+      headers,
+      payloadHash: sha256Hex(body ?? ''),
+      region: options.region,
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+    });
+
+    return fetch(url, { method, headers: signedHeaders, body });
+  };
+
+  return {
+    async put(key, data, contentType) {
+      const response = await send('PUT', key, data, { 'content-type': contentType });
+
+      if (!response.ok) {
+        throw new Error(`S3 upload of "${key}" failed with status ${response.status}`);
+      }
+    },
+
+    async get(key) {
+      const response = await send('GET', key);
+
+      if (response.status === 404) {
+        return null;
+      }
+
+      if (!response.ok) {
+        throw new Error(`S3 download of "${key}" failed with status ${response.status}`);
+      }
+
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async delete(key) {
+      const response = await send('DELETE', key);
+
+      // S3 answers 204 whether or not the object existed; other services may answer 404
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 delete of "${key}" failed with status ${response.status}`);
+      }
+    },
+  };
+}
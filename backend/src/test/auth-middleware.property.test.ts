@@ -56,6 +56,7 @@ function createMockAuthMiddleware() {
           id: decoded.userId,
           email: 'test@example.com',
           name: 'Test User',
+          emailVerifiedAt: null,
           createdAt: new Date(),
           updatedAt: new Date()
         };
@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { Request, Response } from 'express';
+import { requireVerifiedEmail } from '../middleware/emailVerification';
+import { AppError } from '../middleware/errorHandler';
+import { createEmailVerificationToken, verifyEmail } from '../services/emailVerificationService';
+import { createUser, updateProfile } from '../services/userService';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+describe('Email Verification Property Tests', () => {
+  // Feature: task-management-system, Property 55: Email verification
+  describe('Verification policy', () => {
+    const originalPolicy = process.env.REQUIRE_EMAIL_VERIFICATION;
+
+    afterEach(() => {
+      process.env.REQUIRE_EMAIL_VERIFICATION = originalPolicy;
+    });
+
+    it('Property 55: Unverified users are only blocked when the policy is enabled', () => {
+      fc.assert(
+        fc.property(
+          fc.boolean(),
+          fc.option(fc.date(), { nil: null }),
+          (required, emailVerifiedAt) => {
+            process.env.REQUIRE_EMAIL_VERIFICATION = required ? 'true' : 'false';
+            const req = {
+              user: { id: 'user-1', email: 'a@test.com', name: 'A', emailVerifiedAt, createdAt: new Date(), updatedAt: new Date() },
+            } as unknown as Request;
+            const next = vi.fn();
+
+            requireVerifiedEmail(req, {} as Response, next);
+
+            expect(next).toHaveBeenCalledTimes(1);
+            if (required && !emailVerifiedAt) {
+              const error = next.mock.calls[0][0];
+              expect(error).toBeInstanceOf(AppError);
+              expect(error.statusCode).toBe(403);
+              expect(error.code).toBe('EMAIL_NOT_VERIFIED');
+            } else {
+              expect(next).toHaveBeenCalledWith();
+            }
+
+            return true;
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Verification tokens', () => {
+    useTestDatabase();
+
+    it('Property 55: A verification token verifies the email it was sent to once', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            expect(user.emailVerifiedAt).toBeNull();
+
+            // A new request replaces the earlier token
+            const first = await createEmailVerificationToken(user.id);
+            const second = await createEmailVerificationToken(user.id);
+            expect(second!.user.email).toBe(user.email);
+            expect(await verifyEmail(first!.token)).toBeNull();
+
+            const verified = await verifyEmail(second!.token);
+            expect(verified).toMatchObject({ id: user.id, email: user.email });
+            expect(verified!.emailVerifiedAt).toBeInstanceOf(Date);
+
+            // Tokens only work once, and verified users get no new ones
+            expect(await verifyEmail(second!.token)).toBeNull();
+            expect(await createEmailVerificationToken(user.id)).toBeNull();
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 55: Changing the email needs it to be verified again', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const pending = await createEmailVerificationToken(user.id);
+            const current = await createEmailVerificationToken(user.id);
+            await verifyEmail(current!.token);
+
+            // Keeping the same email keeps it verified
+            const renamed = await updateProfile(user.id, { email: user.email, name: 'Renamed' });
+            expect(renamed!.emailVerifiedAt).toBeInstanceOf(Date);
+
+            const changed = await updateProfile(user.id, { email: `new.${user.email}` });
+            expect(changed!.emailVerifiedAt).toBeNull();
+
+            // Links sent to the old address no longer verify the account
+            const stale = await createEmailVerificationToken(user.id);
+            await updateProfile(user.id, { email: `other.${user.email}` });
+            expect(await verifyEmail(stale!.token)).toBeNull();
+            expect(await verifyEmail(pending!.token)).toBeNull();
+
+            const fresh = await createEmailVerificationToken(user.id);
+            expect(fresh!.user.email).toBe(`other.${user.email}`);
+            expect(await verifyEmail(fresh!.token)).toMatchObject({ email: `other.${user.email}` });
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
@@ -0,0 +1,39 @@
+// Shared fixtures for the property tests
+import { beforeEach, afterAll } from 'vitest';
+import * as fc from 'fast-check';
+import { setupTestDatabase, teardownTestDatabase } from './setup';
+
+// Generator for user data
+export const validUserDataGen = fc.record({
+  email: fc.tuple(
+    fc.string({ minLength: 1, maxLength: 10 }).filter(s => /^[a-j]+$/.test(s)),
+    fc.constantFrom('test.com', 'example.com')
+  ).map(([name, domain]) => `${name}@${domain}`),
+  password: fc.constant('TestPass123!'),
+  name: fc.string({ minLength: 1, maxLength: 20 })
+    .filter(name => name.trim().length > 0 && /^[A-Za-z ]+$/.test(name.trim()))
+});
+
+// Generator for valid task data
+export const validTaskDataGen = fc.record({
+  title: fc.string({ minLength: 1, maxLength: 200 })
+    .filter(title => title.trim().length > 0),
+  description: fc.option(
+    fc.string({ maxLength: 1000 }),
+    { nil: undefined }
+  )
+});
+
+/**
+ * Reset the test database before each test of the enclosing suite and clean
+ * it up after the last one
+ */
+export function useTestDatabase(): void {
+  beforeEach(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+}
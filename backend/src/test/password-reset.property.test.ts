@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createFileMailer } from '../mail';
+import { createPasswordResetToken, resetPassword } from '../services/passwordResetService';
+import { authenticateUser, createUser } from '../services/userService';
+import { generateRefreshToken, isRefreshTokenValid, storeRefreshToken } from '../utils/auth';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+describe('Password Reset Property Tests', () => {
+  // Feature: task-management-system, Property 54: Password reset
+  it('Property 54: The file mailer writes each message to its own file', async () => {
+    const outDir = await mkdtemp(path.join(tmpdir(), 'mail-'));
+    const mailer = createFileMailer(outDir);
+
+    try {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.string({ minLength: 1, maxLength: 200 }),
+          async (userData, text) => {
+            const before = await readdir(outDir);
+            await mailer.send({ to: userData.email, subject: 'Hello', text });
+
+            const written = (await readdir(outDir)).filter(file => !before.includes(file));
+            expect(written).toHaveLength(1);
+
+            const contents = await readFile(path.join(outDir, written[0]), 'utf8');
+            expect(contents).toBe(`To: ${userData.email}\nSubject: Hello\n\n${text}\n`);
+
+            return true;
+          }
+        ),
+        { numRuns: 20 }
+      );
+    } finally {
+      await rm(outDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('Password resets', () => {
+    useTestDatabase();
+
+    it('Property 54: A reset token sets a new password once and signs the user out everywhere', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const refreshToken = generateRefreshToken(user.id);
+            await storeRefreshToken(user.id, refreshToken);
+
+            expect(await createPasswordResetToken(`unknown.${userData.email}`)).toBeNull();
+
+            // A new request replaces the earlier token
+            const first = await createPasswordResetToken(user.email);
+            const second = await createPasswordResetToken(user.email);
+            expect(second!.user.id).toBe(user.id);
+            expect(await resetPassword(first!.token, 'NewPass456!')).toBe(false);
+
+            expect(await resetPassword(second!.token, 'NewPass456!')).toBe(true);
+            expect(await authenticateUser(user.email, 'NewPass456!')).toMatchObject({ id: user.id });
+            expect(await authenticateUser(user.email, userData.password)).toBeNull();
+            expect(await isRefreshTokenValid(refreshToken)).toBe(false);
+
+            // Tokens only work once
+            expect(await resetPassword(second!.token, 'OtherPass789!')).toBe(false);
+            expect(await authenticateUser(user.email, 'NewPass456!')).toMatchObject({ id: user.id });
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
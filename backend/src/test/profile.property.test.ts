@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { changePasswordSchema, updateProfileSchema } from '../schemas/authSchemas';
+import { createUser, findUserById, updateProfile, authenticateUser, changePassword } from '../services/userService';
+import { generateRefreshToken, isRefreshTokenValid, storeRefreshToken } from '../utils/auth';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+describe('Profile Property Tests', () => {
+  // Feature: task-management-system, Property 53: Profile updates
+  it('Property 53: Profile updates need a name or email and normalize the email', () => {
+    fc.assert(
+      fc.property(
+        validUserDataGen,
+        (userData) => {
+          const result = updateProfileSchema.safeParse({ email: userData.email.toUpperCase() });
+          expect(result.success).toBe(true);
+          if (result.success) {
+            expect(result.data.email).toBe(userData.email);
+          }
+
+          expect(updateProfileSchema.safeParse({ name: userData.name }).success).toBe(true);
+          expect(updateProfileSchema.safeParse({}).success).toBe(false);
+          expect(updateProfileSchema.safeParse({ name: '   ' }).success).toBe(false);
+
+          // A new password follows the registration rules and must differ from the current one
+          expect(changePasswordSchema.safeParse({ currentPassword: userData.password, newPassword: 'NewPass456!' }).success).toBe(true);
+          expect(changePasswordSchema.safeParse({ currentPassword: userData.password, newPassword: userData.password }).success).toBe(false);
+          expect(changePasswordSchema.safeParse({ currentPassword: userData.password, newPassword: 'short' }).success).toBe(false);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  describe('Profiles', () => {
+    useTestDatabase();
+
+    it('Property 53: Users can change their name and move to an unused email', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const other = await createUser({ ...userData, email: `other.${userData.email}` });
+
+            expect(await findUserById(user.id)).toMatchObject({ id: user.id, email: user.email, name: user.name });
+
+            // Emails belonging to someone else are rejected
+            expect(await updateProfile(user.id, { email: other.email })).toBeNull();
+            expect(await updateProfile(user.id, { email: user.email })).toMatchObject({ email: user.email });
+
+            const updated = await updateProfile(user.id, { name: 'Renamed', email: `new.${userData.email}` });
+            expect(updated).toMatchObject({ id: user.id, name: 'Renamed', email: `new.${userData.email}` });
+            expect(updated).not.toHaveProperty('password');
+
+            // The new email is used to sign in from now on
+            expect(await authenticateUser(`new.${userData.email}`, userData.password)).toMatchObject({ id: user.id });
+            expect(await authenticateUser(userData.email, userData.password)).toBeNull();
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 53: Changing the password needs the current one and signs out other sessions', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const currentSession = generateRefreshToken(user.id);
+            // Tokens issued in the same second are identical, so mark the other session's
+            const otherSession = `${generateRefreshToken(user.id)}.other`;
+            await storeRefreshToken(user.id, currentSession);
+            await storeRefreshToken(user.id, otherSession);
+
+            expect(await changePassword(user.id, 'WrongPass123!', 'NewPass456!', currentSession)).toBe(false);
+            expect(await isRefreshTokenValid(otherSession)).toBe(true);
+
+            expect(await changePassword(user.id, userData.password, 'NewPass456!', currentSession)).toBe(true);
+            expect(await authenticateUser(user.email, 'NewPass456!')).toMatchObject({ id: user.id });
+            expect(await authenticateUser(user.email, userData.password)).toBeNull();
+
+            // Only the session that changed the password stays signed in
+            expect(await isRefreshTokenValid(currentSession)).toBe(true);
+            expect(await isRefreshTokenValid(otherSession)).toBe(false);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { createUser } from '../services/userService';
+import {
+  generateRefreshToken,
+  isRefreshTokenValid,
+  revokeRefreshTokenFamily,
+  rotateRefreshToken,
+  storeRefreshToken,
+  RotatedRefreshToken
+} from '../utils/auth';
+import { prisma } from './setup';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+describe('Refresh Token Rotation Property Tests', () => {
+  // Feature: task-management-system, Property 56: Refresh token reuse detection
+  it('Property 56: Refresh tokens issued for the same user are unique', () => {
+    fc.assert(
+      fc.property(
+        fc.string({ minLength: 1, maxLength: 50 }).filter(id => id.trim().length > 0),
+        fc.integer({ min: 2, max: 10 }),
+        (userId, count) => {
+          const tokens = Array.from({ length: count }, () => generateRefreshToken(userId));
+          expect(new Set(tokens).size).toBe(count);
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  describe('Token families', () => {
+    useTestDatabase();
+
+    it('Property 56: Reusing a rotated refresh token revokes its whole family', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.integer({ min: 1, max: 4 }),
+          fc.nat(),
+          async (userData, rotations, replayIndex) => {
+            const user = await createUser(userData);
+            const first = generateRefreshToken(user.id);
+            const otherSession = generateRefreshToken(user.id);
+            await storeRefreshToken(user.id, first);
+            await storeRefreshToken(user.id, otherSession);
+
+            // Each rotation replaces the previous token within the same session
+            const chain = [first];
+            const sessionIds = new Set<string>();
+            for (let i = 0; i < rotations; i++) {
+              const next = await rotateRefreshToken(chain[chain.length - 1], user.id);
+              expect(next).toBeTruthy();
+              chain.push((next as RotatedRefreshToken).refreshToken);
+              sessionIds.add((next as RotatedRefreshToken).sessionId);
+            }
+            expect(sessionIds.size).toBe(1);
+
+            const latest = chain[chain.length - 1];
+            expect(await isRefreshTokenValid(latest)).toBe(true);
+            for (const rotated of chain.slice(0, -1)) {
+              expect(await isRefreshTokenValid(rotated)).toBe(false);
+            }
+
+            // Move the rotations out of the reuse grace window
+            await prisma.refreshToken.updateMany({
+              where: { userId: user.id, rotatedAt: { not: null } },
+              data: { rotatedAt: new Date(Date.now() - 60 * 60 * 1000) },
+            });
+
+            // Replaying any rotated token signs out the session but not others
+            const replayed = chain[replayIndex % rotations];
+            expect(await rotateRefreshToken(replayed, user.id)).toBe(false);
+            expect(await isRefreshTokenValid(latest)).toBe(false);
+            expect(await rotateRefreshToken(latest, user.id)).toBeNull();
+            expect(await isRefreshTokenValid(otherSession)).toBe(true);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 56: A token replayed within the grace window gets its replacement again', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const first = generateRefreshToken(user.id);
+            await storeRefreshToken(user.id, first);
+
+            // e.g. two tabs refreshing with the same token at once
+            const rotated = await rotateRefreshToken(first, user.id) as RotatedRefreshToken;
+            const replayed = await rotateRefreshToken(first, user.id);
+            expect(replayed).toEqual(rotated);
+            expect(await isRefreshTokenValid(rotated.refreshToken)).toBe(true);
+
+            // Once the replacement has been rotated too, the replay is reuse
+            const next = await rotateRefreshToken(rotated.refreshToken, user.id) as RotatedRefreshToken;
+            expect(next.sessionId).toBe(rotated.sessionId);
+            expect(await rotateRefreshToken(first, user.id)).toBe(false);
+            expect(await isRefreshTokenValid(next.refreshToken)).toBe(false);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 56: Unknown, foreign and logged out tokens are not rotated', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const other = await createUser({ ...userData, email: `other.${userData.email}` });
+            const refreshToken = generateRefreshToken(user.id);
+            await storeRefreshToken(user.id, refreshToken);
+
+            expect(await rotateRefreshToken(generateRefreshToken(user.id), user.id)).toBeNull();
+            expect(await rotateRefreshToken(refreshToken, other.id)).toBeNull();
+
+            // Logging out removes the session's rotated tokens too
+            const rotated = await rotateRefreshToken(refreshToken, user.id) as RotatedRefreshToken;
+            await revokeRefreshTokenFamily(rotated.refreshToken);
+            expect(await rotateRefreshToken(refreshToken, user.id)).toBeNull();
+            expect(await rotateRefreshToken(rotated.refreshToken, user.id)).toBeNull();
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
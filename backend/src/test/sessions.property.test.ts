@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getSessions, touchSession, revokeAllSessions, revokeSession } from '../services/sessionService';
+import { createUser } from '../services/userService';
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  isRefreshTokenValid,
+  rotateRefreshToken,
+  storeRefreshToken,
+  verifyAccessToken,
+  RotatedRefreshToken
+} from '../utils/auth';
+import { prisma } from './setup';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+// Generator for the client details recorded with a session
+const clientInfoGen = fc.record({
+  userAgent: fc.option(fc.string({ minLength: 1, maxLength: 100 }), { nil: null }),
+  ipAddress: fc.option(fc.ipV4(), { nil: null })
+});
+
+describe('Session Property Tests', () => {
+  // Feature: task-management-system, Property 57: Session management
+  it('Property 57: Access tokens carry the ID of their session', () => {
+    fc.assert(
+      fc.property(
+        fc.string({ minLength: 1, maxLength: 50 }).filter(id => id.trim().length > 0),
+        fc.option(fc.uuid(), { nil: undefined }),
+        (userId, sessionId) => {
+          const decoded = verifyAccessToken(generateAccessToken(userId, sessionId));
+          expect(decoded.userId).toBe(userId);
+          expect(decoded.sessionId).toBe(sessionId);
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  describe('Sessions', () => {
+    useTestDatabase();
+
+    it('Property 57: Each sign-in is listed as one session with its latest client details', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.array(clientInfoGen, { minLength: 1, maxLength: 4 }),
+          clientInfoGen,
+          async (userData, clients, rotatedClient) => {
+            const user = await createUser(userData);
+            const sessionIds: string[] = [];
+            const tokens: string[] = [];
+            for (const client of clients) {
+              const refreshToken = generateRefreshToken(user.id);
+              sessionIds.push(await storeRefreshToken(user.id, refreshToken, client));
+              tokens.push(refreshToken);
+            }
+
+            // Refreshing keeps the session but records the client that refreshed it
+            const rotated = await rotateRefreshToken(tokens[0], user.id, rotatedClient) as RotatedRefreshToken;
+            expect(rotated.sessionId).toBe(sessionIds[0]);
+
+            const sessions = await getSessions(user.id, sessionIds[0]);
+            expect(sessions.map(session => session.id).sort()).toEqual([...sessionIds].sort());
+            expect(sessions.filter(session => session.current).map(session => session.id)).toEqual([sessionIds[0]]);
+            expect(sessions.find(session => session.id === sessionIds[0])).toMatchObject(rotatedClient);
+            for (let i = 1; i < clients.length; i++) {
+              expect(sessions.find(session => session.id === sessionIds[i])).toMatchObject(clients[i]);
+            }
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 57: Users can only sign out their own sessions', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const other = await createUser({ ...userData, email: `other.${userData.email}` });
+            const first = generateRefreshToken(user.id);
+            const second = generateRefreshToken(user.id);
+            const otherToken = generateRefreshToken(other.id);
+            const firstSession = await storeRefreshToken(user.id, first);
+            await storeRefreshToken(user.id, second);
+            const otherSession = await storeRefreshToken(other.id, otherToken);
+
+            expect(await revokeSession(user.id, otherSession)).toBe(false);
+            expect(await isRefreshTokenValid(otherToken)).toBe(true);
+
+            expect(await revokeSession(user.id, firstSession)).toBe(true);
+            expect(await isRefreshTokenValid(first)).toBe(false);
+            expect(await isRefreshTokenValid(second)).toBe(true);
+            expect(await revokeSession(user.id, firstSession)).toBe(false);
+
+            // Logging out everywhere leaves other users signed in
+            await revokeAllSessions(user.id);
+            expect(await getSessions(user.id)).toEqual([]);
+            expect(await isRefreshTokenValid(otherToken)).toBe(true);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 57: Sessions end as soon as they are signed out or revoked', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const first = generateRefreshToken(user.id);
+            const second = generateRefreshToken(user.id);
+            const firstSession = await storeRefreshToken(user.id, first);
+            const secondSession = await storeRefreshToken(user.id, second);
+
+            // Refreshing keeps the session going, and only for its own user
+            const rotated = await rotateRefreshToken(first, user.id) as RotatedRefreshToken;
+            expect(await touchSession(user.id, firstSession)).toBe(true);
+            expect(await touchSession('someone-else', firstSession)).toBe(false);
+
+            // Signing out one session leaves the other one signed in
+            await revokeSession(user.id, firstSession);
+            expect(await touchSession(user.id, firstSession)).toBe(false);
+            expect(await touchSession(user.id, secondSession)).toBe(true);
+            expect(await isRefreshTokenValid(rotated.refreshToken)).toBe(false);
+
+            await revokeAllSessions(user.id);
+            expect(await touchSession(user.id, secondSession)).toBe(false);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 57: Sessions record when they were last used', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const idle = generateRefreshToken(user.id);
+            const active = generateRefreshToken(user.id);
+            const idleSession = await storeRefreshToken(user.id, idle);
+            const activeSession = await storeRefreshToken(user.id, active);
+            const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+            await prisma.refreshToken.updateMany({
+              where: { userId: user.id },
+              data: { lastUsedAt: hourAgo },
+            });
+
+            // Requests made with the session's access tokens count as use
+            const before = Date.now();
+            expect(await touchSession(user.id, activeSession)).toBe(true);
+            let sessions = await getSessions(user.id);
+            expect(sessions.map(session => session.id)).toEqual([activeSession, idleSession]);
+            expect(sessions[0].lastUsedAt.getTime()).toBeGreaterThanOrEqual(before);
+            expect(sessions[1].lastUsedAt).toEqual(hourAgo);
+
+            // So does refreshing, and the new token keeps the session's activity
+            await rotateRefreshToken(idle, user.id);
+            sessions = await getSessions(user.id);
+            expect(sessions.find(session => session.id === idleSession)!.lastUsedAt.getTime()).toBeGreaterThanOrEqual(before);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
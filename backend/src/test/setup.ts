@@ -18,8 +18,9 @@ const prisma = new PrismaClient({
 // Setup and teardown for tests
 export async function setupTestDatabase() {
   try {
-    // Ensure database schema is up to date
-    execSync('npx prisma db push --force-reset --accept-data-loss', { 
+    // Apply the migrations to an empty database, so that columns the schema
+    // cannot describe (e.g. the generated search vector) exist too
+    execSync('npx prisma migrate reset --force --skip-seed --skip-generate', { 
       stdio: 'pipe',
       env: { ...process.env, DATABASE_URL: process.env.DATABASE_URL || 'file:./test.db' }
     });
@@ -139,9 +139,9 @@ const invalidQueryParamsGen = fc.oneof(
   fc.record({
     limit: fc.oneof(fc.constant('0'), fc.constant('-1'), fc.constant('abc'), fc.constant(''))
   }),
-  // Invalid status
+  // Malformed status key
   fc.record({
-    status: fc.oneof(fc.constant('INVALID_STATUS'), fc.constant(''), fc.integer())
+    status: fc.oneof(fc.constant('invalid status'), fc.constant(''), fc.integer())
   }),
   // Invalid combinations
   fc.record({
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { reorderTasksSchema } from '../schemas/taskSchemas';
+import { createTask, getUserTasks, reorderTasks } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { getReorderedPositions } from '../utils/ordering';
+import { TaskStatus } from '../types';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+describe('Task Board Property Tests', () => {
+  // Feature: task-management-system, Property 44: Board ordering
+  it('Property 44: Reordering hands out strictly increasing positions', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: -1000, max: 1000 }), { minLength: 1, maxLength: 20 }),
+        (currentPositions) => {
+          const positions = getReorderedPositions(currentPositions);
+
+          expect(positions).toHaveLength(currentPositions.length);
+          expect(positions[0]).toBe(Math.min(...currentPositions));
+          positions.slice(1).forEach((position, index) => {
+            expect(position).toBeGreaterThan(positions[index]);
+          });
+
+          // Distinct positions are handed out unchanged
+          if (new Set(currentPositions).size === currentPositions.length) {
+            expect([...positions].sort((a, b) => a - b)).toEqual([...currentPositions].sort((a, b) => a - b));
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 44: Reorder requests list each task once', () => {
+    expect(reorderTasksSchema.safeParse({ taskIds: [] }).success).toBe(false);
+    expect(reorderTasksSchema.safeParse({ taskIds: ['clh0000000000000000000000', 'clh0000000000000000000000'] }).success).toBe(false);
+  });
+
+  describe('Board columns', () => {
+    useTestDatabase();
+
+    it('Property 44: A reordered column keeps its order without moving other tasks', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.integer({ min: 2, max: 5 }),
+          async (userData, columnSize) => {
+            const user = await createUser(userData);
+
+            const column = [];
+            for (let i = 0; i < columnSize; i++) {
+              column.push(await createTask(user.id, { title: `Pending ${i}` }));
+            }
+            const done = await createTask(user.id, { title: 'Done', status: TaskStatus.COMPLETED });
+
+            // New tasks are appended after every existing task
+            expect(done.position).toBeGreaterThan(column[column.length - 1].position);
+
+            const reversedIds = column.map(task => task.id).reverse();
+            const reordered = await reorderTasks(user.id, reversedIds);
+            expect(reordered!.map(task => task.id)).toEqual(reversedIds);
+
+            const pending = await getUserTasks(user.id, {
+              page: 1,
+              limit: 10,
+              status: TaskStatus.PENDING,
+              sortBy: 'position'
+            });
+            expect(pending.tasks.map(task => task.id)).toEqual(reversedIds);
+
+            const all = await getUserTasks(user.id, { page: 1, limit: 10, sortBy: 'position' });
+            expect(all.tasks[all.tasks.length - 1].id).toBe(done.id);
+
+            // Tasks of other users cannot be reordered
+            const otherUser = await createUser({ ...userData, email: `other.${userData.email}` });
+            expect(await reorderTasks(otherUser.id, reversedIds)).toBeNull();
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
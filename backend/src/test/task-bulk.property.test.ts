@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { bulkTaskSchema } from '../schemas/taskSchemas';
+import { createTag } from '../services/tagService';
+import { bulkUpdateTasks, createTask, getUserTasks } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { TaskStatus } from '../types';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+describe('Task Bulk Operation Property Tests', () => {
+  // Feature: task-management-system, Property 47: Bulk operations
+  it('Property 47: Bulk requests target either ids or a filter', () => {
+    const taskIds = ['clh0000000000000000000000'];
+
+    expect(bulkTaskSchema.safeParse({ action: 'delete', taskIds }).success).toBe(true);
+    expect(bulkTaskSchema.safeParse({ action: 'delete', filter: { status: 'COMPLETED' } }).success).toBe(true);
+    expect(bulkTaskSchema.safeParse({ action: 'delete' }).success).toBe(false);
+    expect(bulkTaskSchema.safeParse({ action: 'delete', taskIds, filter: {} }).success).toBe(false);
+    expect(bulkTaskSchema.safeParse({ action: 'status', taskIds }).success).toBe(false);
+    expect(bulkTaskSchema.safeParse({ action: 'archive', taskIds }).success).toBe(false);
+  });
+
+  describe('Bulk operations', () => {
+    useTestDatabase();
+
+    it('Property 47: Filtered bulk deletes only touch matching tasks', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.integer({ min: 1, max: 5 }),
+          fc.integer({ min: 1, max: 5 }),
+          async (userData, completedCount, pendingCount) => {
+            const user = await createUser(userData);
+
+            for (let i = 0; i < completedCount; i++) {
+              await createTask(user.id, { title: `Done ${i}`, status: TaskStatus.COMPLETED });
+            }
+            for (let i = 0; i < pendingCount; i++) {
+              await createTask(user.id, { title: `Pending ${i}` });
+            }
+
+            const result = await bulkUpdateTasks(user.id, bulkTaskSchema.parse({
+              action: 'delete',
+              filter: { status: TaskStatus.COMPLETED }
+            }));
+
+            expect(result!.succeeded).toBe(completedCount);
+            expect(result!.failed).toBe(0);
+            expect(result!.results.every(item => item.success)).toBe(true);
+
+            const remaining = await getUserTasks(user.id, { page: 1, limit: 10 });
+            expect(remaining.pagination.total).toBe(pendingCount);
+            expect(remaining.tasks.every(task => task.status === TaskStatus.PENDING)).toBe(true);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 47: Tasks that cannot be changed are reported without blocking the rest', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const otherUser = await createUser({ ...userData, email: `other.${userData.email}` });
+            const tag = await createTag(user.id, { name: 'Work' });
+
+            const task = await createTask(user.id, { title: 'Mine' });
+            const otherTask = await createTask(otherUser.id, { title: 'Theirs' });
+
+            const result = await bulkUpdateTasks(user.id, bulkTaskSchema.parse({
+              action: 'addTags',
+              tagIds: [tag.id],
+              taskIds: [task.id, otherTask.id]
+            }));
+
+            expect(result!.results).toEqual([
+              { id: task.id, success: true },
+              { id: otherTask.id, success: false, error: expect.objectContaining({ code: 'TASK_NOT_FOUND' }) }
+            ]);
+
+            const tagged = await getUserTasks(user.id, { page: 1, limit: 10, tags: [tag.id] });
+            expect(tagged.tasks.map(t => t.id)).toEqual([task.id]);
+
+            const untouched = await getUserTasks(otherUser.id, { page: 1, limit: 10 });
+            expect(untouched.tasks[0].tags).toEqual([]);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
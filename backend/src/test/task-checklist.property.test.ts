@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { reorderChecklistSchema, updateChecklistItemSchema } from '../schemas/checklistSchemas';
+import { createTask, deleteTask, getTaskById, getUserTasks } from '../services/taskService';
+import {
+  ChecklistItemResponse,
+  createChecklistItem,
+  deleteChecklistItem,
+  getChecklistItems,
+  reorderChecklistItems,
+  toggleChecklistItem
+} from '../services/checklistService';
+import { createUser } from '../services/userService';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+// Generator for checklist item titles
+const itemTitlesGen = fc.array(
+  fc.string({ minLength: 1, maxLength: 50 }).filter(title => title.trim().length > 0),
+  { minLength: 1, maxLength: 8 }
+);
+
+describe('Task Checklist Property Tests', () => {
+  it('Property 40: Checklist updates and reorders are validated', () => {
+    expect(updateChecklistItemSchema.safeParse({}).success).toBe(false);
+    expect(updateChecklistItemSchema.safeParse({ completed: true }).success).toBe(true);
+    expect(reorderChecklistSchema.safeParse({ itemIds: [] }).success).toBe(false);
+    expect(reorderChecklistSchema.safeParse({
+      itemIds: ['clh3am8z50000qwer1234abcd', 'clh3am8z50000qwer1234abcd']
+    }).success).toBe(false);
+  });
+
+  describe('Checklist items', () => {
+    useTestDatabase();
+
+    // Feature: task-management-system, Property 40: Checklist progress
+    it('Property 40: Task progress counts completed checklist items', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          itemTitlesGen,
+          fc.array(fc.boolean(), { minLength: 8, maxLength: 8 }),
+          async (userData, titles, completedFlags) => {
+            const user = await createUser(userData);
+            const task = await createTask(user.id, { title: 'Task' });
+            expect(task.checklistProgress).toEqual({ completed: 0, total: 0 });
+
+            for (const [index, title] of titles.entries()) {
+              const item = await createChecklistItem(user.id, task.id, { title });
+              expect(item!.position).toBe(index);
+
+              if (completedFlags[index]) {
+                await toggleChecklistItem(user.id, task.id, item!.id);
+              }
+            }
+
+            const expectedProgress = {
+              completed: titles.filter((_, index) => completedFlags[index]).length,
+              total: titles.length
+            };
+
+            const result = await getUserTasks(user.id, { page: 1, limit: 10 });
+            expect(result.tasks[0].checklistProgress).toEqual(expectedProgress);
+            expect((await getTaskById(user.id, task.id))!.checklistProgress).toEqual(expectedProgress);
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    it('Property 40: Reordering keeps every item in the requested order', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          itemTitlesGen.chain(titles => fc.tuple(
+            fc.constant(titles),
+            fc.shuffledSubarray(titles.map((_, index) => index), { minLength: titles.length })
+          )),
+          async (userData, [titles, order]) => {
+            const user = await createUser(userData);
+            const task = await createTask(user.id, { title: 'Task' });
+
+            const items: ChecklistItemResponse[] = [];
+            for (const title of titles) {
+              items.push((await createChecklistItem(user.id, task.id, { title }))!);
+            }
+
+            const itemIds = order.map(index => items[index].id);
+            expect(await reorderChecklistItems(user.id, task.id, itemIds)).toBeTruthy();
+
+            const checklist = await getChecklistItems(user.id, task.id);
+            expect(checklist!.map(item => item.id)).toEqual(itemIds);
+
+            // Partial orders are rejected
+            if (items.length > 1) {
+              expect(await reorderChecklistItems(user.id, task.id, itemIds.slice(1))).toBe(false);
+            }
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    // Feature: task-management-system, Property 41: Checklist ownership
+    it('Property 41: Checklists are only reachable through the owner\'s active tasks', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.tuple(validUserDataGen, validUserDataGen).filter(([owner, other]) => owner.email !== other.email),
+          async ([ownerData, otherUserData]) => {
+            const owner = await createUser(ownerData);
+            const otherUser = await createUser(otherUserData);
+            const task = await createTask(owner.id, { title: 'Task' });
+            const item = await createChecklistItem(owner.id, task.id, { title: 'Step' });
+
+            expect(await getChecklistItems(otherUser.id, task.id)).toBeNull();
+            expect(await createChecklistItem(otherUser.id, task.id, { title: 'Step' })).toBeNull();
+            expect(await toggleChecklistItem(otherUser.id, task.id, item!.id)).toBeNull();
+            expect(await deleteChecklistItem(otherUser.id, task.id, item!.id)).toBe(false);
+
+            // Trashed tasks keep their checklist but it cannot be edited
+            await deleteTask(owner.id, task.id);
+            expect(await getChecklistItems(owner.id, task.id)).toBeNull();
+            expect(await toggleChecklistItem(owner.id, task.id, item!.id)).toBeNull();
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { createCommentSchema } from '../schemas/commentSchemas';
+import { createComment, deleteComment, getComments, updateComment } from '../services/commentService';
+import { createTask, deleteTask } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+// Generator for comment bodies
+const commentBodyGen = fc.string({ minLength: 1, maxLength: 200 }).filter(body => body.trim().length > 0);
+
+describe('Task Comment Property Tests', () => {
+  // Feature: task-management-system, Property 49: Task comments
+  it('Property 49: Comments must have text', () => {
+    expect(createCommentSchema.safeParse({ body: '   ' }).success).toBe(false);
+    expect(createCommentSchema.safeParse({ body: 'x'.repeat(2001) }).success).toBe(false);
+    expect(createCommentSchema.parse({ body: '  Looks good  ' }).body).toBe('Looks good');
+  });
+
+  describe('Comment threads', () => {
+    useTestDatabase();
+
+    it('Property 49: Comments are listed oldest first and can be edited and deleted', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.array(commentBodyGen, { minLength: 1, maxLength: 5 }),
+          commentBodyGen,
+          async (userData, bodies, editedBody) => {
+            const user = await createUser(userData);
+            const task = await createTask(user.id, { title: 'Discussed' });
+
+            const created = [];
+            for (const body of bodies) {
+              created.push(await createComment(user.id, task.id, { body }));
+            }
+
+            const thread = await getComments(user.id, task.id);
+            expect(thread!.map(comment => comment.body)).toEqual(bodies);
+            expect(thread!.every(comment => comment.author.id === user.id && !comment.edited)).toBe(true);
+
+            const edited = await updateComment(user.id, task.id, created[0]!.id, { body: editedBody });
+            expect(edited!.body).toBe(editedBody);
+
+            expect(await deleteComment(user.id, task.id, created[0]!.id)).toBe(true);
+            expect(await getComments(user.id, task.id)).toHaveLength(bodies.length - 1);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 49: Comments follow the same ownership rules as their task', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          commentBodyGen,
+          async (userData, body) => {
+            const owner = await createUser(userData);
+            const otherUser = await createUser({ ...userData, email: `other.${userData.email}` });
+            const task = await createTask(owner.id, { title: 'Private' });
+            const comment = await createComment(owner.id, task.id, { body });
+
+            expect(await getComments(otherUser.id, task.id)).toBeNull();
+            expect(await createComment(otherUser.id, task.id, { body })).toBeNull();
+            expect(await updateComment(otherUser.id, task.id, comment!.id, { body })).toBeNull();
+            expect(await deleteComment(otherUser.id, task.id, comment!.id)).toBe(false);
+
+            // Trashed tasks cannot be discussed until they are restored
+            await deleteTask(owner.id, task.id);
+            expect(await getComments(owner.id, task.id)).toBeNull();
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { taskQuerySchema } from '../schemas/taskSchemas';
+import { createTask, getUserTasks, getUserTasksByCursor } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+const sortByGen = fc.constantFrom('createdAt', 'updatedAt', 'title', 'status', 'dueAt', 'priority') as fc.Arbitrary<
+  'createdAt' | 'updatedAt' | 'title' | 'status' | 'dueAt' | 'priority'
+>;
+
+describe('Task Cursor Pagination Property Tests', () => {
+  // Feature: task-management-system, Property 30: Opaque cursors
+  it('Property 30: Cursors round trip through the query schema', () => {
+    fc.assert(
+      fc.property(
+        fc.string({ minLength: 1, maxLength: 30 }),
+        fc.constantFrom('next' as const, 'prev' as const),
+        (id, direction) => {
+          const encoded = encodeCursor({ id, direction });
+
+          expect(decodeCursor(encoded)).toEqual({ id, direction });
+          expect(taskQuerySchema.parse({ cursor: encoded }).cursor).toEqual({ id, direction });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 30: Malformed cursors are rejected', () => {
+    fc.assert(
+      fc.property(
+        fc.string({ maxLength: 30 }).filter(value => decodeCursor(value) === null),
+        (value) => {
+          expect(taskQuerySchema.safeParse({ cursor: value }).success).toBe(false);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  describe('Cursor pagination', () => {
+    useTestDatabase();
+
+    // Feature: task-management-system, Property 31: Cursor pagination completeness
+    it('Property 31: Following next cursors returns every task once in listing order', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.integer({ min: 1, max: 12 }),
+          fc.integer({ min: 1, max: 5 }),
+          sortByGen,
+          async (userData, taskCount, limit, sortBy) => {
+            const user = await createUser(userData);
+
+            for (let i = 0; i < taskCount; i++) {
+              await createTask(user.id, { title: `Task ${i}` });
+            }
+
+            const expected = await getUserTasks(user.id, { page: 1, limit: 100, sortBy });
+
+            const seen: string[] = [];
+            let cursor: string | null | undefined;
+            do {
+              const result = await getUserTasksByCursor(user.id, {
+                page: 1,
+                limit,
+                sortBy,
+                cursor: cursor ? decodeCursor(cursor)! : undefined
+              });
+              expect(result.tasks.length).toBeLessThanOrEqual(limit);
+              seen.push(...result.tasks.map(task => task.id));
+              cursor = result.pagination.nextCursor;
+            } while (cursor);
+
+            expect(seen).toEqual(expected.tasks.map(task => task.id));
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    it('Property 31: Previous cursors return the preceding page', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.integer({ min: 2, max: 5 }),
+          async (userData, limit) => {
+            const user = await createUser(userData);
+
+            for (let i = 0; i < limit * 2; i++) {
+              await createTask(user.id, { title: `Task ${i}` });
+            }
+
+            const firstPage = await getUserTasksByCursor(user.id, { page: 1, limit });
+            expect(firstPage.pagination.prevCursor).toBeNull();
+
+            const secondPage = await getUserTasksByCursor(user.id, {
+              page: 1,
+              limit,
+              cursor: decodeCursor(firstPage.pagination.nextCursor!)!
+            });
+            const previousPage = await getUserTasksByCursor(user.id, {
+              page: 1,
+              limit,
+              cursor: decodeCursor(secondPage.pagination.prevCursor!)!
+            });
+
+            expect(previousPage.tasks.map(task => task.id)).toEqual(firstPage.tasks.map(task => task.id));
+            expect(previousPage.pagination.prevCursor).toBeNull();
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    // Feature: task-management-system, Property 32: Cursor stability under inserts
+    it('Property 32: Tasks created between requests do not shift later pages', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.integer({ min: 2, max: 8 }),
+          fc.integer({ min: 1, max: 5 }),
+          async (userData, taskCount, insertCount) => {
+            const user = await createUser(userData);
+
+            for (let i = 0; i < taskCount * 2; i++) {
+              await createTask(user.id, { title: `Task ${i}` });
+            }
+
+            const firstPage = await getUserTasksByCursor(user.id, { page: 1, limit: taskCount });
+            const expected = await getUserTasksByCursor(user.id, {
+              page: 1,
+              limit: taskCount,
+              cursor: decodeCursor(firstPage.pagination.nextCursor!)!
+            });
+
+            // New tasks sort ahead of everything already listed
+            for (let i = 0; i < insertCount; i++) {
+              await createTask(user.id, { title: `New task ${i}` });
+            }
+
+            const secondPage = await getUserTasksByCursor(user.id, {
+              page: 1,
+              limit: taskCount,
+              cursor: decodeCursor(firstPage.pagination.nextCursor!)!
+            });
+
+            expect(secondPage.tasks.map(task => task.id)).toEqual(expected.tasks.map(task => task.id));
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+  });
+});
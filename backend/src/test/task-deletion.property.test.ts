@@ -123,7 +123,7 @@ describe('Task Deletion Property Tests', () => {
     );
   });
 
-  it('Property 22: Task deletion - permanent removal from database', async () => {
+  it('Property 22: Task deletion - task is moved to the trash', async () => {
     await fc.assert(
       fc.property(
         validUserDataGen,
@@ -133,28 +133,28 @@ describe('Task Deletion Property Tests', () => {
           const user = await createUser(userData);
           const createdTask = await createTask(user.id, taskData);
           
-          // Count tasks before deletion
+          // Count active tasks before deletion
           const tasksBeforeDeletion = await prisma.task.count({
-            where: { userId: user.id }
+            where: { userId: user.id, deletedAt: null }
           });
           
           // Delete the task
           const result = await deleteTask(user.id, createdTask.id);
           expect(result).toBe(true);
           
-          // Count tasks after deletion
+          // Count active tasks after deletion
           const tasksAfterDeletion = await prisma.task.count({
-            where: { userId: user.id }
+            where: { userId: user.id, deletedAt: null }
           });
           
           // Should have one less task
           expect(tasksAfterDeletion).toBe(tasksBeforeDeletion - 1);
           
-          // Task should not exist in database at all
+          // Task should remain in the database with a deletion timestamp
           const deletedTask = await prisma.task.findUnique({
             where: { id: createdTask.id }
           });
-          expect(deletedTask).toBeNull();
+          expect(deletedTask?.deletedAt).toBeInstanceOf(Date);
           
           return true;
         }
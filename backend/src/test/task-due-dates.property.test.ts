@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { createTaskSchema, updateTaskSchema, taskQuerySchema } from '../schemas/taskSchemas';
+import { createTask, getUserTasks, updateTask } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { TaskStatus } from '../types';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+// Generator for due dates within a few years of now
+const dueDateGen = fc.date({
+  min: new Date('2020-01-01T00:00:00.000Z'),
+  max: new Date('2030-12-31T23:59:59.000Z'),
+  noInvalidDate: true
+});
+
+// Generator for timezone offsets in the +HH:MM format
+const offsetGen = fc.tuple(
+  fc.constantFrom('+', '-'),
+  fc.integer({ min: 0, max: 14 }),
+  fc.constantFrom(0, 30, 45)
+).map(([sign, hours, minutes]) => `${sign}${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`);
+
+describe('Task Due Date Property Tests', () => {
+  // Feature: task-management-system, Property 26: Timezone-aware due dates
+  it('Property 26: Due dates with an offset resolve to the same instant', () => {
+    fc.assert(
+      fc.property(dueDateGen, offsetGen, (dueAt, offset) => {
+        const sign = offset.startsWith('-') ? -1 : 1;
+        const [hours, minutes] = offset.slice(1).split(':').map(Number);
+        const offsetMs = sign * (hours * 60 + minutes) * 60 * 1000;
+
+        // Render the instant as local wall-clock time in the given offset
+        const local = new Date(dueAt.getTime() + offsetMs).toISOString().replace('Z', offset);
+
+        const result = createTaskSchema.parse({ title: 'Task', dueAt: local });
+        expect(result.dueAt?.getTime()).toBe(dueAt.getTime());
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 26: Due dates without a timezone are rejected', () => {
+    fc.assert(
+      fc.property(dueDateGen, (dueAt) => {
+        const naive = dueAt.toISOString().replace('Z', '');
+
+        expect(createTaskSchema.safeParse({ title: 'Task', dueAt: naive }).success).toBe(false);
+        expect(taskQuerySchema.safeParse({ dueBefore: naive }).success).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 26: Due dates can be cleared on update', () => {
+    const result = updateTaskSchema.parse({ dueAt: null });
+    expect(result.dueAt).toBeNull();
+  });
+
+  it('Property 26: Inverted due date ranges are rejected', () => {
+    fc.assert(
+      fc.property(dueDateGen, dueDateGen, (first, second) => {
+        fc.pre(first.getTime() !== second.getTime());
+        const [earlier, later] = first < second ? [first, second] : [second, first];
+
+        const result = taskQuerySchema.safeParse({
+          dueAfter: later.toISOString(),
+          dueBefore: earlier.toISOString()
+        });
+        expect(result.success).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  describe('Due date filtering', () => {
+    useTestDatabase();
+
+    // Feature: task-management-system, Property 27: Overdue filtering
+    it('Property 27: Overdue filter returns only open tasks past their due date', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.array(fc.tuple(fc.option(dueDateGen, { nil: undefined }), fc.boolean()), { minLength: 1, maxLength: 8 }),
+          async (userData, taskSpecs) => {
+            const user = await createUser(userData);
+
+            for (const [dueAt, completed] of taskSpecs) {
+              const task = await createTask(user.id, { title: 'Task', dueAt });
+              if (completed) {
+                await updateTask(user.id, task.id, { status: TaskStatus.COMPLETED });
+              }
+            }
+
+            const now = new Date();
+            const overdue = await getUserTasks(user.id, { page: 1, limit: 100, overdue: true });
+            const expected = taskSpecs.filter(([dueAt, completed]) => dueAt && dueAt < now && !completed);
+
+            expect(overdue.pagination.total).toBe(expected.length);
+            for (const task of overdue.tasks) {
+              expect(task.status).toBe(TaskStatus.PENDING);
+              expect(task.dueAt!.getTime()).toBeLessThan(now.getTime());
+            }
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    it('Property 27: Sorting by due date puts the earliest first and undated tasks last', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.array(fc.option(dueDateGen, { nil: undefined }), { minLength: 1, maxLength: 8 }),
+          async (userData, dueDates) => {
+            const user = await createUser(userData);
+
+            for (const dueAt of dueDates) {
+              await createTask(user.id, { title: 'Task', dueAt });
+            }
+
+            const result = await getUserTasks(user.id, { page: 1, limit: 100, sortBy: 'dueAt' });
+            const returned = result.tasks.map(task => task.dueAt?.getTime() ?? Infinity);
+
+            expect(returned).toEqual([...returned].sort((a, b) => a - b));
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getTaskHistory } from '../services/taskHistoryService';
+import { createTask, deleteTask, restoreTask, toggleTaskStatus, updateTask } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { diffTaskSnapshots, TaskSnapshot } from '../utils/taskHistory';
+import { TaskEventType, TaskPriority, TaskStatus } from '../types';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+// Generator for task snapshots
+const snapshotGen: fc.Arbitrary<TaskSnapshot> = fc.record({
+  title: fc.string({ minLength: 1, maxLength: 20 }),
+  description: fc.option(fc.string({ minLength: 1, maxLength: 20 }), { nil: undefined }),
+  status: fc.constantFrom(TaskStatus.PENDING, TaskStatus.COMPLETED),
+  priority: fc.constantFrom(...Object.values(TaskPriority)),
+  dueAt: fc.option(fc.date({ min: new Date('2020-01-01'), max: new Date('2030-01-01') }), { nil: undefined }),
+  project: fc.option(fc.constantFrom('Home', 'Work'), { nil: undefined }),
+  tags: fc.subarray(['a', 'b', 'c'])
+});
+
+describe('Task History Property Tests', () => {
+  // Feature: task-management-system, Property 48: Task history
+  it('Property 48: Only fields that differ are recorded', () => {
+    fc.assert(
+      fc.property(
+        snapshotGen,
+        snapshotGen,
+        (before, after) => {
+          expect(diffTaskSnapshots(before, before)).toEqual([]);
+
+          // Tag order does not count as a change
+          expect(diffTaskSnapshots(before, { ...before, tags: [...before.tags].reverse() })).toEqual([]);
+
+          diffTaskSnapshots(before, after).forEach(change => {
+            expect(change.oldValue).not.toBe(change.newValue);
+          });
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  describe('Recorded events', () => {
+    useTestDatabase();
+
+    it('Property 48: Every change to a task is recorded, newest first', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.string({ minLength: 1, maxLength: 50 }).filter(title => title.trim().length > 0),
+          async (userData, newTitle) => {
+            const user = await createUser(userData);
+            const task = await createTask(user.id, { title: 'Original', priority: TaskPriority.LOW });
+
+            await updateTask(user.id, task.id, { title: newTitle, priority: TaskPriority.HIGH });
+            await toggleTaskStatus(user.id, task.id, 'done');
+            await deleteTask(user.id, task.id);
+            await restoreTask(user.id, task.id);
+
+            const history = await getTaskHistory(user.id, task.id);
+            const events = history!.map(event => [event.type, event.field, event.oldValue, event.newValue]);
+
+            expect(events.slice(0, 3)).toEqual([
+              [TaskEventType.RESTORED, undefined, undefined, undefined],
+              [TaskEventType.DELETED, undefined, undefined, undefined],
+              [TaskEventType.UPDATED, 'status', TaskStatus.PENDING, TaskStatus.COMPLETED]
+            ]);
+            expect(events).toContainEqual([TaskEventType.UPDATED, 'title', 'Original', newTitle.trim()]);
+            expect(events).toContainEqual([TaskEventType.UPDATED, 'priority', TaskPriority.LOW, TaskPriority.HIGH]);
+            expect(events[events.length - 1]).toEqual([TaskEventType.CREATED, undefined, undefined, undefined]);
+            expect(history!.every(event => event.user.id === user.id)).toBe(true);
+
+            // Unchanged fields are not recorded
+            await updateTask(user.id, task.id, { title: newTitle });
+            expect(await getTaskHistory(user.id, task.id)).toHaveLength(history!.length);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 48: History is private to the task owner', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const owner = await createUser(userData);
+            const otherUser = await createUser({ ...userData, email: `other.${userData.email}` });
+            const task = await createTask(owner.id, { title: 'Private' });
+
+            expect(await getTaskHistory(otherUser.id, task.id)).toBeNull();
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
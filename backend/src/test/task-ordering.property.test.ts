@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { moveTaskSchema } from '../schemas/taskSchemas';
+import { createTask, getUserTasks, moveTask, TaskResponse } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { getPositionBetween, MIN_POSITION_GAP } from '../utils/ordering';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+describe('Task Ordering Property Tests', () => {
+  // Feature: task-management-system, Property 45: Manual ordering
+  it('Property 45: A moved task lands strictly between its neighbours', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: -1e6, max: 1e6, noNaN: true }),
+        fc.double({ min: 0, max: 1e6, noNaN: true }),
+        (lower, gap) => {
+          const upper = lower + gap;
+          const position = getPositionBetween(lower, upper);
+
+          if (upper - lower < MIN_POSITION_GAP) {
+            expect(position).toBeNull();
+          } else {
+            expect(position).toBeGreaterThan(lower);
+            expect(position).toBeLessThan(upper);
+          }
+
+          expect(getPositionBetween(lower, undefined)).toBeGreaterThan(lower);
+          expect(getPositionBetween(undefined, upper)).toBeLessThan(upper);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 45: Moves need an anchor other than the task itself', () => {
+    expect(moveTaskSchema.safeParse({}).success).toBe(false);
+    expect(moveTaskSchema.safeParse({ afterId: 'clh0000000000000000000000' }).success).toBe(true);
+    expect(moveTaskSchema.safeParse({
+      afterId: 'clh0000000000000000000000',
+      beforeId: 'clh0000000000000000000000'
+    }).success).toBe(false);
+  });
+
+  describe('Moving tasks', () => {
+    useTestDatabase();
+
+    it('Property 45: Moving a task only changes its own position', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.integer({ min: 3, max: 6 }),
+          fc.nat(),
+          fc.nat(),
+          async (userData, count, from, to) => {
+            const user = await createUser(userData);
+
+            const tasks: TaskResponse[] = [];
+            for (let i = 0; i < count; i++) {
+              tasks.push(await createTask(user.id, { title: `Task ${i}` }));
+            }
+
+            const moved = tasks[from % count];
+            const rest = tasks.filter(task => task.id !== moved.id);
+            const index = to % (rest.length + 1);
+
+            const result = await moveTask(user.id, moved.id, {
+              afterId: rest[index - 1]?.id,
+              beforeId: rest[index]?.id
+            });
+            expect(result).not.toBe(false);
+
+            const expected = [...rest];
+            expected.splice(index, 0, moved);
+
+            const listed = await getUserTasks(user.id, { page: 1, limit: 10, sortBy: 'position' });
+            expect(listed.tasks.map(task => task.id)).toEqual(expected.map(task => task.id));
+
+            // Every other task keeps the position it was created with
+            listed.tasks
+              .filter(task => task.id !== moved.id)
+              .forEach(task => {
+                expect(task.position).toBe(tasks.find(t => t.id === task.id)!.position);
+              });
+
+            expect(await moveTask(user.id, moved.id, { afterId: moved.id })).toBe(false);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 45: Repeated moves into the same gap keep their order', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const first = await createTask(user.id, { title: 'First' });
+            const last = await createTask(user.id, { title: 'Last' });
+
+            // Each new task goes right after the first one, halving the gap every time
+            const inserted: TaskResponse[] = [];
+            for (let i = 0; i < 40; i++) {
+              const task = await createTask(user.id, { title: `Inserted ${i}` });
+              await moveTask(user.id, task.id, { afterId: first.id, beforeId: inserted[0]?.id ?? last.id });
+              inserted.unshift(task);
+            }
+
+            const listed = await getUserTasks(user.id, { page: 1, limit: 100, sortBy: 'position' });
+            expect(listed.tasks.map(task => task.id)).toEqual([first, ...inserted, last].map(task => task.id));
+
+            return true;
+          }
+        ),
+        { numRuns: 2 }
+      );
+    });
+  });
+});
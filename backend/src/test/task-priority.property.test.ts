@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { createTask, getUserTasks, updateTask } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { TaskPriority } from '../types';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+const PRIORITY_ORDER = [TaskPriority.LOW, TaskPriority.MEDIUM, TaskPriority.HIGH, TaskPriority.URGENT];
+
+const priorityGen = fc.constantFrom(...PRIORITY_ORDER);
+
+describe('Task Priority Property Tests', () => {
+  useTestDatabase();
+
+  // Feature: task-management-system, Property 28: Priority round trip
+  it('Property 28: Priority defaults to medium and survives updates', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validUserDataGen,
+        priorityGen,
+        async (userData, priority) => {
+          const user = await createUser(userData);
+          const createdTask = await createTask(user.id, { title: 'Task' });
+
+          expect(createdTask.priority).toBe(TaskPriority.MEDIUM);
+
+          const updatedTask = await updateTask(user.id, createdTask.id, { priority });
+          expect(updatedTask!.priority).toBe(priority);
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  // Feature: task-management-system, Property 29: Priority filtering and sorting
+  it('Property 29: Priority filter only returns matching tasks', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validUserDataGen,
+        fc.array(priorityGen, { minLength: 1, maxLength: 8 }),
+        priorityGen,
+        async (userData, priorities, filterPriority) => {
+          const user = await createUser(userData);
+
+          for (const priority of priorities) {
+            await createTask(user.id, { title: 'Task', priority });
+          }
+
+          const result = await getUserTasks(user.id, { page: 1, limit: 100, priority: filterPriority });
+
+          expect(result.pagination.total).toBe(priorities.filter(p => p === filterPriority).length);
+          for (const task of result.tasks) {
+            expect(task.priority).toBe(filterPriority);
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+
+  it('Property 29: Sorting by priority puts the most important tasks first', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validUserDataGen,
+        fc.array(priorityGen, { minLength: 1, maxLength: 8 }),
+        async (userData, priorities) => {
+          const user = await createUser(userData);
+
+          for (const priority of priorities) {
+            await createTask(user.id, { title: 'Task', priority });
+          }
+
+          const result = await getUserTasks(user.id, { page: 1, limit: 100, sortBy: 'priority' });
+          const ranks = result.tasks.map(task => PRIORITY_ORDER.indexOf(task.priority));
+
+          expect(ranks).toEqual([...ranks].sort((a, b) => b - a));
+
+          return true;
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+});
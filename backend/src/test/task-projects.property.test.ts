@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { taskQuerySchema } from '../schemas/taskSchemas';
+import { createTask, getTaskById, getUserTasks, updateTask, toggleTaskStatus } from '../services/taskService';
+import { createProject, deleteProject, findProjectByName, getUserProjects, userOwnsProject } from '../services/projectService';
+import { createUser } from '../services/userService';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+// Generator for which of two projects (or none) each task belongs to
+const projectSelectionGen = fc.array(
+  fc.constantFrom<0 | 1 | null>(0, 1, null),
+  { minLength: 1, maxLength: 8 }
+);
+
+describe('Task Project Property Tests', () => {
+  it('Property 38: Project filters accept a project id or none', () => {
+    expect(taskQuerySchema.parse({ projectId: 'clh3am8z50000qwer1234abcd' }).projectId)
+      .toBe('clh3am8z50000qwer1234abcd');
+    expect(taskQuerySchema.parse({ projectId: 'none' }).projectId).toBe('none');
+    expect(taskQuerySchema.safeParse({ projectId: 'not a project id' }).success).toBe(false);
+  });
+
+  describe('Project assignment', () => {
+    useTestDatabase();
+
+    // Feature: task-management-system, Property 38: Project filtering
+    it('Property 38: Project filters return only the tasks in that project', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          projectSelectionGen,
+          async (userData, selections) => {
+            const user = await createUser(userData);
+            const projects = await Promise.all(
+              ['Work', 'Home'].map(name => createProject(user.id, { name }))
+            );
+
+            for (const selection of selections) {
+              await createTask(user.id, {
+                title: 'Task',
+                projectId: selection === null ? undefined : projects[selection].id
+              });
+            }
+
+            for (const [index, project] of projects.entries()) {
+              const result = await getUserTasks(user.id, { page: 1, limit: 100, projectId: project.id });
+              expect(result.pagination.total).toBe(selections.filter(selection => selection === index).length);
+              expect(result.tasks.every(task => task.projectId === project.id && task.project?.name === project.name)).toBe(true);
+            }
+
+            const unassigned = await getUserTasks(user.id, { page: 1, limit: 100, projectId: 'none' });
+            expect(unassigned.pagination.total).toBe(selections.filter(selection => selection === null).length);
+            expect(unassigned.tasks.every(task => task.projectId === undefined)).toBe(true);
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    it('Property 38: Project task counts follow task moves and completion', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const work = await createProject(user.id, { name: 'Work' });
+            const home = await createProject(user.id, { name: 'Home' });
+
+            const task = await createTask(user.id, { title: 'Task', projectId: work.id });
+            await createTask(user.id, { title: 'Other task', projectId: work.id });
+            await toggleTaskStatus(user.id, task.id);
+
+            let projects = await getUserProjects(user.id);
+            expect(projects.find(project => project.id === work.id)).toMatchObject({ taskCount: 2, completedTaskCount: 1 });
+            expect(projects.find(project => project.id === home.id)).toMatchObject({ taskCount: 0, completedTaskCount: 0 });
+
+            const movedTask = await updateTask(user.id, task.id, { projectId: home.id });
+            expect(movedTask!.projectId).toBe(home.id);
+
+            projects = await getUserProjects(user.id);
+            expect(projects.find(project => project.id === work.id)).toMatchObject({ taskCount: 1, completedTaskCount: 0 });
+            expect(projects.find(project => project.id === home.id)).toMatchObject({ taskCount: 1, completedTaskCount: 1 });
+
+            const removedTask = await updateTask(user.id, task.id, { projectId: null });
+            expect(removedTask!.projectId).toBeUndefined();
+            expect(removedTask!.project).toBeUndefined();
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    // Feature: task-management-system, Property 39: Project ownership
+    it('Property 39: Projects belong to a single user', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.tuple(validUserDataGen, validUserDataGen).filter(([owner, other]) => owner.email !== other.email),
+          async ([ownerData, otherUserData]) => {
+            const owner = await createUser(ownerData);
+            const otherUser = await createUser(otherUserData);
+            const project = await createProject(owner.id, { name: 'Work' });
+
+            expect(await userOwnsProject(owner.id, project.id)).toBe(true);
+            expect(await userOwnsProject(otherUser.id, project.id)).toBe(false);
+            expect(await findProjectByName(owner.id, 'WORK')).toMatchObject({ id: project.id });
+            expect(await findProjectByName(otherUser.id, 'Work')).toBeNull();
+            expect(await getUserProjects(otherUser.id)).toHaveLength(0);
+            expect(await deleteProject(otherUser.id, project.id)).toBe(false);
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    it('Property 39: Deleting a project keeps its tasks', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const project = await createProject(user.id, { name: 'Work' });
+            const task = await createTask(user.id, { title: 'Task', projectId: project.id });
+
+            expect(await deleteProject(user.id, project.id)).toBe(true);
+
+            const remainingTask = await getTaskById(user.id, task.id);
+            expect(remainingTask).toBeTruthy();
+            expect(remainingTask!.projectId).toBeUndefined();
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+  });
+});
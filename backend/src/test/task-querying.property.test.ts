@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterAll } from 'vitest';
 import * as fc from 'fast-check';
-import { taskQuerySchema } from '../schemas/taskSchemas';
+import { taskQuerySchema, TaskSortField, SortOrder } from '../schemas/taskSchemas';
 import { getUserTasks, createTask } from '../services/taskService';
 import { createUser } from '../services/userService';
 import { TaskStatus } from '../types';
@@ -11,12 +11,16 @@ const validPageGen = fc.integer({ min: 1, max: 10 });
 const validLimitGen = fc.integer({ min: 1, max: 100 });
 const validStatusGen = fc.constantFrom(TaskStatus.PENDING, TaskStatus.COMPLETED);
 const validSearchGen = fc.string({ minLength: 1, maxLength: 20 });
+const validSortByGen = fc.constantFrom('createdAt', 'updatedAt', 'title', 'status', 'dueAt', 'priority') as fc.Arbitrary<TaskSortField>;
+const validSortOrderGen = fc.constantFrom('asc', 'desc') as fc.Arbitrary<SortOrder>;
 
 const validQueryGen = fc.record({
   page: validPageGen,
   limit: validLimitGen,
   status: fc.option(validStatusGen, { nil: undefined }),
-  search: fc.option(validSearchGen, { nil: undefined })
+  search: fc.option(validSearchGen, { nil: undefined }),
+  sortBy: fc.option(validSortByGen, { nil: undefined }),
+  sortOrder: fc.option(validSortOrderGen, { nil: undefined })
 });
 
 // Generator for user data
@@ -48,7 +52,7 @@ describe('Task Querying Property Tests', () => {
   // Feature: task-management-system, Property 14: User task isolation
   it('Property 14: User task isolation', async () => {
     await fc.assert(
-      fc.property(
+      fc.asyncProperty(
         fc.tuple(validUserDataGen, validUserDataGen).filter(([user1, user2]) => user1.email !== user2.email),
         fc.array(validTaskDataGen, { minLength: 1, maxLength: 5 }),
         fc.array(validTaskDataGen, { minLength: 1, maxLength: 5 }),
@@ -99,7 +103,7 @@ describe('Task Querying Property Tests', () => {
   // Feature: task-management-system, Property 15: Pagination consistency
   it('Property 15: Pagination consistency', async () => {
     await fc.assert(
-      fc.property(
+      fc.asyncProperty(
         validUserDataGen,
         fc.array(validTaskDataGen, { minLength: 5, maxLength: 20 }),
         fc.integer({ min: 1, max: 5 }), // page size
@@ -158,7 +162,7 @@ describe('Task Querying Property Tests', () => {
   // Feature: task-management-system, Property 16: Status filtering accuracy
   it('Property 16: Status filtering accuracy', async () => {
     await fc.assert(
-      fc.property(
+      fc.asyncProperty(
         validUserDataGen,
         fc.array(validTaskDataGen, { minLength: 3, maxLength: 10 }),
         validStatusGen,
@@ -217,7 +221,7 @@ describe('Task Querying Property Tests', () => {
   // Feature: task-management-system, Property 17: Title search functionality
   it('Property 17: Title search functionality', async () => {
     await fc.assert(
-      fc.property(
+      fc.asyncProperty(
         validUserDataGen,
         fc.string({ minLength: 2, maxLength: 10 }).filter(s => /^[a-zA-Z]+$/.test(s)), // Search term
         async (userData, searchTerm) => {
@@ -248,9 +252,9 @@ describe('Task Querying Property Tests', () => {
             search: searchTerm 
           });
           
-          // Verify all returned tasks contain the search term (case-insensitive)
+          // Verify all returned tasks contain the search term in their title or description (case-insensitive)
           for (const task of result.tasks) {
-            expect(task.title.toLowerCase()).toContain(searchTerm.toLowerCase());
+            expect(`${task.title} ${task.description ?? ''}`.toLowerCase()).toContain(searchTerm.toLowerCase());
             expect(task.userId).toBe(user.id);
           }
           
@@ -325,4 +329,49 @@ describe('Task Querying Property Tests', () => {
       { numRuns: 5 }
     );
   });
+
+  // Feature: task-management-system, Property 18: Configurable sort order
+  it('Property 18: Tasks are returned in the requested sort order', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validUserDataGen,
+        fc.array(validTaskDataGen, { minLength: 2, maxLength: 10 }),
+        fc.constantFrom('createdAt', 'updatedAt') as fc.Arbitrary<TaskSortField>,
+        validSortOrderGen,
+        async (userData, taskDataArray, sortBy, sortOrder) => {
+          const user = await createUser(userData);
+
+          for (const taskData of taskDataArray) {
+            await createTask(user.id, taskData);
+          }
+
+          const result = await getUserTasks(user.id, { page: 1, limit: 100, sortBy, sortOrder });
+
+          // Compare against the same rows sorted in memory
+          const values = result.tasks.map(task => (task[sortBy as 'createdAt' | 'updatedAt']).getTime());
+          const sorted = [...values].sort((a, b) => sortOrder === 'asc' ? a - b : b - a);
+          expect(values).toEqual(sorted);
+
+          return true;
+        }
+      ),
+      { numRuns: 5 }
+    );
+  });
+
+  it('Unknown sort parameters are rejected', async () => {
+    await fc.assert(
+      fc.property(
+        fc.string().filter(s => !['createdAt', 'updatedAt', 'title', 'status', 'dueAt', 'priority'].includes(s)),
+        fc.string().filter(s => !['asc', 'desc'].includes(s)),
+        (sortBy, sortOrder) => {
+          expect(taskQuerySchema.safeParse({ sortBy }).success).toBe(false);
+          expect(taskQuerySchema.safeParse({ sortOrder }).success).toBe(false);
+
+          return true;
+        }
+      ),
+      { numRuns: 5 }
+    );
+  });
 });
\ No newline at end of file
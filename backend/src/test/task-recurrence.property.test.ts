@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { setRecurrenceSchema } from '../schemas/recurrenceSchemas';
+import { stopTaskRecurrence } from '../services/recurrenceService';
+import { createTask, getUserTasks, toggleTaskStatus, updateTask } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { formatRecurrenceRule, getNextOccurrence, parseRecurrenceRule, RecurrenceRule, WEEKDAYS } from '../utils/recurrence';
+import { TaskStatus } from '../types';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+// Generator for supported recurrence rules
+const recurrenceRuleGen: fc.Arbitrary<RecurrenceRule> = fc.oneof(
+  fc.record({
+    frequency: fc.constant('DAILY' as const),
+    interval: fc.integer({ min: 1, max: 30 })
+  }),
+  fc.record({
+    frequency: fc.constant('WEEKLY' as const),
+    interval: fc.integer({ min: 1, max: 4 }),
+    byDay: fc.subarray([...WEEKDAYS], { minLength: 1 })
+  }),
+  fc.record({
+    frequency: fc.constant('MONTHLY' as const),
+    interval: fc.integer({ min: 1, max: 12 }),
+    byMonthDay: fc.uniqueArray(fc.integer({ min: 1, max: 31 }), { minLength: 1, maxLength: 3 })
+      .map(days => days.sort((a, b) => a - b))
+  })
+);
+
+const dateGen = fc.date({ min: new Date('2020-01-01T00:00:00Z'), max: new Date('2030-12-31T00:00:00Z') });
+
+describe('Task Recurrence Property Tests', () => {
+  // Feature: task-management-system, Property 46: Recurring tasks
+  it('Property 46: Recurrence rules survive a format and parse round trip', () => {
+    fc.assert(
+      fc.property(
+        recurrenceRuleGen,
+        (rule) => {
+          const formatted = formatRecurrenceRule(rule);
+
+          expect(parseRecurrenceRule(formatted)).toEqual(rule);
+          expect(parseRecurrenceRule(`RRULE:${formatted.toLowerCase()}`)).toEqual(rule);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 46: The next occurrence follows the rule', () => {
+    fc.assert(
+      fc.property(
+        recurrenceRuleGen,
+        dateGen,
+        (rule, after) => {
+          const next = getNextOccurrence(rule, after);
+
+          expect(next.getTime()).toBeGreaterThan(after.getTime());
+          expect(next.getUTCHours()).toBe(after.getUTCHours());
+          expect(next.getUTCMinutes()).toBe(after.getUTCMinutes());
+
+          if (rule.byDay) {
+            expect(rule.byDay).toContain(WEEKDAYS[next.getUTCDay()]);
+          }
+          if (rule.byMonthDay) {
+            expect(rule.byMonthDay).toContain(next.getUTCDate());
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 46: Unsupported rules are rejected', () => {
+    expect(setRecurrenceSchema.safeParse({ rule: 'FREQ=YEARLY' }).success).toBe(false);
+    expect(setRecurrenceSchema.safeParse({ rule: 'FREQ=DAILY;BYDAY=MO' }).success).toBe(false);
+    expect(setRecurrenceSchema.safeParse({ rule: 'FREQ=DAILY;COUNT=3;UNTIL=20300101' }).success).toBe(false);
+    expect(setRecurrenceSchema.parse({ rule: 'freq=weekly;byday=th,mo' }).rule).toBe('FREQ=WEEKLY;BYDAY=MO,TH');
+  });
+
+  describe('Recurring series', () => {
+    useTestDatabase();
+
+    it('Property 46: Completing an occurrence creates the next one once', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.integer({ min: 1, max: 7 }),
+          async (userData, interval) => {
+            const user = await createUser(userData);
+            const dueAt = new Date('2030-01-01T09:00:00Z');
+            const task = await createTask(user.id, {
+              title: 'Water plants',
+              dueAt,
+              recurrenceRule: `FREQ=DAILY;INTERVAL=${interval}`
+            });
+            expect(task.recurrence).toMatchObject({ occurrence: 1 });
+
+            await toggleTaskStatus(user.id, task.id, 'done');
+
+            const pending = await getUserTasks(user.id, { page: 1, limit: 10, status: TaskStatus.PENDING });
+            expect(pending.tasks).toHaveLength(1);
+
+            const next = pending.tasks[0];
+            expect(next.title).toBe(task.title);
+            expect(next.recurrence).toMatchObject({ id: task.recurrence!.id, occurrence: 2 });
+            expect(next.dueAt!.getTime()).toBe(dueAt.getTime() + interval * 24 * 60 * 60 * 1000);
+
+            // Reopening and completing the first occurrence again does not create another
+            await toggleTaskStatus(user.id, task.id);
+            await updateTask(user.id, task.id, { status: TaskStatus.COMPLETED });
+
+            const all = await getUserTasks(user.id, { page: 1, limit: 10 });
+            expect(all.pagination.total).toBe(2);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 46: Stopped and finished series create nothing', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+
+            const stopped = await createTask(user.id, { title: 'Stopped', recurrenceRule: 'FREQ=WEEKLY' });
+            expect(await stopTaskRecurrence(user.id, stopped.id)).toMatchObject({ id: stopped.recurrence!.id });
+            await toggleTaskStatus(user.id, stopped.id, 'done');
+
+            const counted = await createTask(user.id, { title: 'Counted', recurrenceRule: 'FREQ=DAILY;COUNT=2' });
+            await toggleTaskStatus(user.id, counted.id, 'done');
+
+            const second = (await getUserTasks(user.id, { page: 1, limit: 10, status: TaskStatus.PENDING })).tasks;
+            expect(second.map(task => task.title)).toEqual(['Counted']);
+            await toggleTaskStatus(user.id, second[0].id, 'done');
+
+            const pending = await getUserTasks(user.id, { page: 1, limit: 10, status: TaskStatus.PENDING });
+            expect(pending.pagination.total).toBe(0);
+
+            const plain = await createTask(user.id, { title: 'Plain' });
+            expect(plain.recurrence).toBeUndefined();
+            expect(await stopTaskRecurrence(user.id, plain.id)).toBe(false);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { getMailer, MailMessage } from '../mail';
+import { createTaskSchema, MAX_REMINDER_MINUTES } from '../schemas/taskSchemas';
+import { sendDueReminders } from '../services/reminderService';
+import { createTask, updateTask } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { TaskStatus } from '../types';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Task Reminder Property Tests', () => {
+  // Feature: task-management-system, Property 58: Due date reminders
+  it('Property 58: Reminders need a due date and at most 4 weeks of notice', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: -100, max: MAX_REMINDER_MINUTES + 100 }),
+        fc.boolean(),
+        (reminderMinutes, withDueAt) => {
+          const result = createTaskSchema.safeParse({
+            title: 'Report',
+            reminderMinutes,
+            ...(withDueAt && { dueAt: '2030-01-01T09:00:00Z' }),
+          });
+
+          expect(result.success).toBe(withDueAt && reminderMinutes >= 0 && reminderMinutes <= MAX_REMINDER_MINUTES);
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  describe('Sending reminders', () => {
+    let sent: MailMessage[] = [];
+
+    useTestDatabase();
+
+    beforeEach(() => {
+      sent = [];
+      vi.spyOn(getMailer(), 'send').mockImplementation(async (message) => {
+        sent.push(message);
+      });
+    });
+
+    afterAll(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('Property 58: A reminder is emailed once when it comes due', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.integer({ min: 3 * 60, max: 24 * 60 }),
+          fc.integer({ min: 0, max: 60 }),
+          async (userData, dueReminder, laterReminder) => {
+            const user = await createUser(userData);
+            const dueAt = new Date(Date.now() + 2 * HOUR);
+
+            const task = await createTask(user.id, { title: 'Report', dueAt, reminderMinutes: dueReminder });
+            await createTask(user.id, { title: 'Later', dueAt, reminderMinutes: laterReminder });
+            expect(task.reminderMinutes).toBe(dueReminder);
+
+            sent = [];
+            expect(await sendDueReminders()).toBe(1);
+            expect(sent).toHaveLength(1);
+            expect(sent[0].to).toBe(user.email);
+            expect(sent[0].subject).toContain('Report');
+
+            // Already sent, and editing other fields does not send it again
+            await updateTask(user.id, task.id, { title: 'Report', dueAt });
+            expect(await sendDueReminders()).toBe(0);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 58: Moving the due date schedules the reminder again', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const task = await createTask(user.id, {
+              title: 'Report',
+              dueAt: new Date(Date.now() + HOUR),
+              reminderMinutes: 2 * 60,
+            });
+            expect(await sendDueReminders()).toBe(1);
+
+            await updateTask(user.id, task.id, { dueAt: new Date(Date.now() + 90 * 60 * 1000) });
+            expect(await sendDueReminders()).toBe(1);
+
+            // Removing the reminder, or completing the task, stops it
+            await updateTask(user.id, task.id, { dueAt: new Date(Date.now() + 100 * 60 * 1000), reminderMinutes: null });
+            expect(await sendDueReminders()).toBe(0);
+
+            await updateTask(user.id, task.id, { reminderMinutes: 2 * 60, status: TaskStatus.COMPLETED });
+            expect(await sendDueReminders()).toBe(0);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
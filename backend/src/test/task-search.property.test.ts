@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { taskQuerySchema } from '../schemas/taskSchemas';
+import { createTask, getUserTasks } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { parseSearchQuery, buildHighlight, toTsQuery } from '../utils/search';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+// Generator for lowercase words that never collide with the filler text below
+const wordGen = fc.string({ minLength: 3, maxLength: 10 }).filter(s => /^[k-z]+$/.test(s));
+
+// Generator for free text, possibly containing quotes and punctuation
+const textGen = fc.string({ maxLength: 400 });
+
+describe('Task Search Property Tests', () => {
+  // Feature: task-management-system, Property 33: Search query parsing
+  it('Property 33: Quoted phrases and prefix terms are parsed', () => {
+    fc.assert(
+      fc.property(
+        fc.array(wordGen, { minLength: 2, maxLength: 4 }),
+        wordGen,
+        wordGen,
+        (phraseWords, prefixWord, word) => {
+          const terms = parseSearchQuery(`"${phraseWords.join(' ')}" ${prefixWord}* ${word.toUpperCase()}`);
+
+          expect(terms).toEqual([
+            { words: phraseWords, prefix: false },
+            { words: [prefixWord], prefix: true },
+            { words: [word], prefix: false }
+          ]);
+          expect(toTsQuery(terms)).toBe(`${phraseWords.join(' <-> ')} & ${prefixWord}:* & ${word}`);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 33: Parsed terms only contain letters and digits', () => {
+    fc.assert(
+      fc.property(textGen, (search) => {
+        for (const term of parseSearchQuery(search)) {
+          for (const word of term.words) {
+            expect(word).toMatch(/^[\p{L}\p{N}]+$/u);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: task-management-system, Property 34: Highlight snippets
+  it('Property 34: Highlights point at the matched words', () => {
+    fc.assert(
+      fc.property(
+        wordGen,
+        fc.string({ maxLength: 300 }).map(s => s.replace(/[k-zK-Z]/g, 'a')),
+        fc.string({ maxLength: 300 }).map(s => s.replace(/[k-zK-Z]/g, 'a')),
+        (word, before, after) => {
+          const text = `${before} ${word.toUpperCase()} ${after}`;
+          const highlight = buildHighlight('description', text, parseSearchQuery(word));
+
+          expect(highlight).not.toBeNull();
+          expect(highlight!.snippet.length).toBeLessThanOrEqual(202);
+          expect(highlight!.matches.length).toBeGreaterThan(0);
+          for (const match of highlight!.matches) {
+            expect(highlight!.snippet.slice(match.start, match.end).toLowerCase()).toBe(word);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 34: Whole words do not match inside longer words', () => {
+    fc.assert(
+      fc.property(wordGen, wordGen, (word, suffix) => {
+        const text = `${word}${suffix}`;
+
+        expect(buildHighlight('title', text, parseSearchQuery(word))).toBeNull();
+        expect(buildHighlight('title', text, parseSearchQuery(`${word}*`))!.matches).toEqual([
+          { start: 0, end: text.length }
+        ]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property 34: Relevance sorting requires a search', () => {
+    expect(taskQuerySchema.safeParse({ sortBy: 'relevance' }).success).toBe(false);
+    expect(taskQuerySchema.safeParse({ sortBy: 'relevance', search: 'report' }).success).toBe(true);
+    expect(taskQuerySchema.safeParse({ sortBy: 'relevance', search: 'report', pagination: 'cursor' }).success).toBe(false);
+  });
+
+  describe('Full-text search', () => {
+    useTestDatabase();
+
+    // Feature: task-management-system, Property 35: Title and description search
+    it('Property 35: Search finds words in titles and descriptions', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          wordGen,
+          async (userData, word) => {
+            const user = await createUser(userData);
+
+            const titleTask = await createTask(user.id, { title: `Plan ${word}` });
+            const descriptionTask = await createTask(user.id, { title: 'Plan', description: `About ${word} today` });
+            await createTask(user.id, { title: 'Plan', description: 'Nothing to see here' });
+
+            const result = await getUserTasks(user.id, { page: 1, limit: 100, search: word });
+
+            expect(result.tasks.map(task => task.id).sort()).toEqual([titleTask.id, descriptionTask.id].sort());
+            for (const task of result.tasks) {
+              expect(task.highlights!.length).toBeGreaterThan(0);
+            }
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    it('Property 35: Phrases only match words in order', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.tuple(wordGen, wordGen).filter(([first, second]) => first !== second),
+          async (userData, [first, second]) => {
+            const user = await createUser(userData);
+
+            const inOrder = await createTask(user.id, { title: `${first} ${second}` });
+            await createTask(user.id, { title: `${second} ${first}` });
+
+            const result = await getUserTasks(user.id, { page: 1, limit: 100, search: `"${first} ${second}"` });
+
+            expect(result.tasks.map(task => task.id)).toEqual([inOrder.id]);
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    it('Property 35: Relevance ranks title matches above description matches', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          wordGen,
+          async (userData, word) => {
+            const user = await createUser(userData);
+
+            const titleTask = await createTask(user.id, { title: `Plan ${word}` });
+            const descriptionTask = await createTask(user.id, { title: 'Plan', description: `About ${word}` });
+
+            const result = await getUserTasks(user.id, { page: 1, limit: 100, search: word, sortBy: 'relevance' });
+
+            expect(result.tasks.map(task => task.id)).toEqual([titleTask.id, descriptionTask.id]);
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    it('Property 35: Relevance pages follow the full ranking', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          wordGen,
+          fc.array(fc.boolean(), { minLength: 1, maxLength: 6 }),
+          fc.integer({ min: 1, max: 3 }),
+          async (userData, word, inTitle, limit) => {
+            const user = await createUser(userData);
+            for (const title of inTitle) {
+              await createTask(user.id, title
+                ? { title: `Plan ${word}` }
+                : { title: 'Plan', description: `About ${word}` });
+            }
+
+            const all = await getUserTasks(user.id, { page: 1, limit: 100, search: word, sortBy: 'relevance' });
+            expect(all.pagination.total).toBe(inTitle.length);
+
+            const paged: string[] = [];
+            for (let page = 1; page <= Math.ceil(inTitle.length / limit); page++) {
+              const result = await getUserTasks(user.id, { page, limit, search: word, sortBy: 'relevance' });
+              expect(result.pagination.total).toBe(inTitle.length);
+              paged.push(...result.tasks.map(task => task.id));
+            }
+            expect(paged).toEqual(all.tasks.map(task => task.id));
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { addCollaborator, getCollaborators, removeCollaborator, updateCollaborator } from '../services/collaboratorService';
+import { createTask, deleteTask, getTaskById, getUserTasks, toggleTaskStatus, updateTask } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { getTaskAccess, hasTaskAccess } from '../utils/taskAccess';
+import { CollaboratorRole, TaskAccess } from '../types';
+import { taskQuerySchema } from '../schemas/taskSchemas';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+// Generator for the members of a task, drawn from a small pool of user ids
+const userIdGen = fc.constantFrom('owner', 'alice', 'bob', 'carol');
+const taskMembersGen = fc.record({
+  userId: fc.constant('owner'),
+  assigneeId: fc.option(userIdGen, { nil: null }),
+  collaborators: fc.uniqueArray(
+    fc.record({ userId: userIdGen, role: fc.constantFrom(CollaboratorRole.VIEWER, CollaboratorRole.EDITOR) }),
+    { selector: collaborator => collaborator.userId }
+  ),
+});
+
+describe('Task Sharing Property Tests', () => {
+  // Feature: task-management-system, Property 51: Task sharing
+  it('Property 51: Access follows ownership, assignment and collaborator roles', () => {
+    fc.assert(
+      fc.property(
+        taskMembersGen,
+        userIdGen,
+        (task, userId) => {
+          const access = getTaskAccess(userId, task);
+          const collaborator = task.collaborators.find(member => member.userId === userId);
+
+          if (userId === task.userId) {
+            expect(access).toBe(TaskAccess.OWNER);
+          } else if (userId === task.assigneeId || collaborator?.role === CollaboratorRole.EDITOR) {
+            expect(access).toBe(TaskAccess.EDITOR);
+          } else if (collaborator) {
+            expect(access).toBe(TaskAccess.VIEWER);
+          } else {
+            expect(access).toBeNull();
+          }
+
+          // Higher access levels allow everything lower ones do
+          expect(hasTaskAccess(access, TaskAccess.VIEWER)).toBe(access !== null);
+          expect(hasTaskAccess(access, TaskAccess.OWNER)).toBe(access === TaskAccess.OWNER);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  describe('Shared tasks', () => {
+    useTestDatabase();
+
+    it('Property 51: Viewers can read a shared task and editors can also change it', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const owner = await createUser(userData);
+            const collaborator = await createUser({ ...userData, email: `other.${userData.email}` });
+            const task = await createTask(owner.id, { title: 'Shared' });
+
+            expect(await getTaskById(collaborator.id, task.id)).toBeNull();
+
+            await addCollaborator(owner.id, task.id, collaborator.id, CollaboratorRole.VIEWER);
+            expect(await addCollaborator(owner.id, task.id, collaborator.id, CollaboratorRole.VIEWER)).toBe(false);
+            expect((await getTaskById(collaborator.id, task.id))!.access).toBe(TaskAccess.VIEWER);
+            expect(await updateTask(collaborator.id, task.id, { title: 'Changed' })).toBeNull();
+
+            await updateCollaborator(owner.id, task.id, collaborator.id, { role: CollaboratorRole.EDITOR });
+            expect((await updateTask(collaborator.id, task.id, { title: 'Changed' }))!.title).toBe('Changed');
+            expect(await toggleTaskStatus(collaborator.id, task.id)).not.toBeNull();
+
+            // Only the owner can delete the task or share it further
+            expect(await deleteTask(collaborator.id, task.id)).toBe(false);
+            expect(await addCollaborator(collaborator.id, task.id, owner.id, CollaboratorRole.EDITOR)).toBeNull();
+
+            // Collaborators can leave
+            expect(await removeCollaborator(collaborator.id, task.id, collaborator.id)).toBe(true);
+            expect(await getTaskById(collaborator.id, task.id)).toBeNull();
+            expect(await getCollaborators(owner.id, task.id)).toEqual([]);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 51: Listings cover own, assigned and shared tasks', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const owner = await createUser(userData);
+            const collaborator = await createUser({ ...userData, email: `other.${userData.email}` });
+            const shared = await createTask(owner.id, { title: 'Shared' });
+            const assigned = await createTask(owner.id, { title: 'Assigned' });
+            const own = await createTask(collaborator.id, { title: 'Own' });
+
+            await addCollaborator(owner.id, shared.id, collaborator.id, CollaboratorRole.VIEWER);
+            await addCollaborator(owner.id, assigned.id, collaborator.id, CollaboratorRole.VIEWER);
+            const assignedTask = await updateTask(owner.id, assigned.id, { assigneeId: collaborator.id });
+            expect(assignedTask!.assignee).toEqual({ id: collaborator.id, name: collaborator.name });
+
+            const list = async (scope?: string) => (await getUserTasks(
+              collaborator.id,
+              taskQuerySchema.parse({ scope, limit: 100 })
+            )).tasks.map(task => task.id).sort();
+
+            expect(await list()).toEqual([own.id]);
+            expect(await list('assigned')).toEqual([assigned.id]);
+            expect(await list('shared')).toEqual([shared.id, assigned.id].sort());
+
+            // Leaving a task unassigns it
+            await removeCollaborator(owner.id, assigned.id, collaborator.id);
+            expect(await list('assigned')).toEqual([]);
+            expect((await getTaskById(owner.id, assigned.id))!.assignee).toBeUndefined();
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
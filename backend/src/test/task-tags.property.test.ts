@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { taskQuerySchema } from '../schemas/taskSchemas';
+import { createTask, getTaskById, getUserTasks, updateTask } from '../services/taskService';
+import { createTag, deleteTag, findTagByName, getUserTags, userOwnsTags } from '../services/tagService';
+import { createUser } from '../services/userService';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+// Generator for which of three tags each task carries
+const tagSelectionGen = fc.array(
+  fc.subarray([0, 1, 2]),
+  { minLength: 1, maxLength: 6 }
+);
+
+describe('Task Tag Property Tests', () => {
+  it('Property 36: Tag filters are parsed from comma-separated ids', () => {
+    const result = taskQuerySchema.parse({
+      tags: 'clh3am8z50000qwer1234abcd, clh3am8z50001qwer1234abcd',
+      tagMode: 'all'
+    });
+
+    expect(result.tags).toEqual(['clh3am8z50000qwer1234abcd', 'clh3am8z50001qwer1234abcd']);
+    expect(taskQuerySchema.safeParse({ tags: 'not a tag id' }).success).toBe(false);
+    expect(taskQuerySchema.safeParse({ tags: ',' }).success).toBe(false);
+  });
+
+  describe('Tag assignment', () => {
+    useTestDatabase();
+
+    // Feature: task-management-system, Property 36: Tag filtering
+    it('Property 36: Any and all tag filters match the assigned tags', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          tagSelectionGen,
+          fc.subarray([0, 1, 2], { minLength: 1 }),
+          async (userData, selections, filterIndexes) => {
+            const user = await createUser(userData);
+            const tags = await Promise.all(
+              ['Work', 'Home', 'Errands'].map(name => createTag(user.id, { name }))
+            );
+
+            for (const selection of selections) {
+              await createTask(user.id, { title: 'Task', tagIds: selection.map(i => tags[i].id) });
+            }
+
+            const filterIds = filterIndexes.map(i => tags[i].id);
+            const anyResult = await getUserTasks(user.id, { page: 1, limit: 100, tags: filterIds });
+            const allResult = await getUserTasks(user.id, { page: 1, limit: 100, tags: filterIds, tagMode: 'all' });
+
+            expect(anyResult.pagination.total).toBe(
+              selections.filter(selection => filterIndexes.some(i => selection.includes(i))).length
+            );
+            expect(allResult.pagination.total).toBe(
+              selections.filter(selection => filterIndexes.every(i => selection.includes(i))).length
+            );
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    it('Property 36: Updating tags replaces the assigned set', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          fc.subarray([0, 1, 2]),
+          fc.subarray([0, 1, 2]),
+          async (userData, initial, replacement) => {
+            const user = await createUser(userData);
+            const tags = await Promise.all(
+              ['Work', 'Home', 'Errands'].map(name => createTag(user.id, { name }))
+            );
+
+            const task = await createTask(user.id, { title: 'Task', tagIds: initial.map(i => tags[i].id) });
+            expect(task.tags.map(tag => tag.id).sort()).toEqual(initial.map(i => tags[i].id).sort());
+
+            const updatedTask = await updateTask(user.id, task.id, { tagIds: replacement.map(i => tags[i].id) });
+            expect(updatedTask!.tags.map(tag => tag.id).sort()).toEqual(replacement.map(i => tags[i].id).sort());
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    // Feature: task-management-system, Property 37: Tag ownership
+    it('Property 37: Tags belong to a single user', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.tuple(validUserDataGen, validUserDataGen).filter(([owner, other]) => owner.email !== other.email),
+          async ([ownerData, otherUserData]) => {
+            const owner = await createUser(ownerData);
+            const otherUser = await createUser(otherUserData);
+            const tag = await createTag(owner.id, { name: 'Work' });
+
+            expect(await userOwnsTags(owner.id, [tag.id])).toBe(true);
+            expect(await userOwnsTags(otherUser.id, [tag.id])).toBe(false);
+            expect(await findTagByName(owner.id, 'WORK')).toMatchObject({ id: tag.id });
+            expect(await findTagByName(otherUser.id, 'Work')).toBeNull();
+            expect(await deleteTag(otherUser.id, tag.id)).toBe(false);
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+
+    it('Property 37: Deleting a tag keeps its tasks', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const tag = await createTag(user.id, { name: 'Work' });
+            const task = await createTask(user.id, { title: 'Task', tagIds: [tag.id] });
+
+            expect((await getUserTags(user.id))[0].taskCount).toBe(1);
+            expect(await deleteTag(user.id, tag.id)).toBe(true);
+
+            const remainingTask = await getTaskById(user.id, task.id);
+            expect(remainingTask).toBeTruthy();
+            expect(remainingTask!.tags).toHaveLength(0);
+
+            return true;
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+  });
+});
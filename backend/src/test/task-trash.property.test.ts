@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  createTask,
+  deleteTask,
+  getTaskById,
+  getUserTasks,
+  getTrashedTasks,
+  restoreTask,
+  purgeTask,
+  purgeExpiredTasks
+} from '../services/taskService';
+import { createUser } from '../services/userService';
+import { TaskStatus } from '../types';
+import { prisma } from './setup';
+import { useTestDatabase, validUserDataGen, validTaskDataGen } from './fixtures';
+
+describe('Task Trash Property Tests', () => {
+  useTestDatabase();
+
+  // Feature: task-management-system, Property 23: Trashed tasks are hidden
+  it('Property 23: Trashed tasks are hidden from listing and retrieval', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validUserDataGen,
+        validTaskDataGen,
+        async (userData, taskData) => {
+          const user = await createUser(userData);
+          const createdTask = await createTask(user.id, taskData);
+
+          await deleteTask(user.id, createdTask.id);
+
+          // Task is no longer retrievable or listed
+          expect(await getTaskById(user.id, createdTask.id)).toBeNull();
+          const listed = await getUserTasks(user.id, { page: 1, limit: 100 });
+          expect(listed.tasks.map(t => t.id)).not.toContain(createdTask.id);
+
+          // Task shows up in the trash instead
+          const trash = await getTrashedTasks(user.id, { page: 1, limit: 100 });
+          expect(trash.tasks.map(t => t.id)).toContain(createdTask.id);
+          expect(trash.tasks[0].deletedAt).toBeInstanceOf(Date);
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  // Feature: task-management-system, Property 24: Lossless restore
+  it('Property 24: Restore keeps id, status and creation time', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validUserDataGen,
+        validTaskDataGen,
+        async (userData, taskData) => {
+          const user = await createUser(userData);
+          const createdTask = await createTask(user.id, taskData);
+          await prisma.task.update({
+            where: { id: createdTask.id },
+            data: { status: TaskStatus.COMPLETED }
+          });
+
+          await deleteTask(user.id, createdTask.id);
+          const restoredTask = await restoreTask(user.id, createdTask.id);
+
+          expect(restoredTask).toBeTruthy();
+          expect(restoredTask!.id).toBe(createdTask.id);
+          expect(restoredTask!.status).toBe(TaskStatus.COMPLETED);
+          expect(restoredTask!.createdAt.getTime()).toBe(createdTask.createdAt.getTime());
+          expect(restoredTask!.deletedAt).toBeUndefined();
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  it('Property 24: Only the owner can restore or purge a trashed task', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.tuple(validUserDataGen, validUserDataGen).filter(([owner, other]) => owner.email !== other.email),
+        validTaskDataGen,
+        async ([ownerData, otherUserData], taskData) => {
+          const owner = await createUser(ownerData);
+          const otherUser = await createUser(otherUserData);
+          const createdTask = await createTask(owner.id, taskData);
+          await deleteTask(owner.id, createdTask.id);
+
+          expect(await restoreTask(otherUser.id, createdTask.id)).toBeNull();
+          expect(await purgeTask(otherUser.id, createdTask.id)).toBe(false);
+
+          // Task is still in the owner's trash
+          const trash = await getTrashedTasks(owner.id, { page: 1, limit: 100 });
+          expect(trash.tasks.map(t => t.id)).toContain(createdTask.id);
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  // Feature: task-management-system, Property 25: Permanent purge
+  it('Property 25: Purging removes the task from the database', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validUserDataGen,
+        validTaskDataGen,
+        async (userData, taskData) => {
+          const user = await createUser(userData);
+          const createdTask = await createTask(user.id, taskData);
+
+          // Active tasks cannot be purged without being trashed first
+          expect(await purgeTask(user.id, createdTask.id)).toBe(false);
+
+          await deleteTask(user.id, createdTask.id);
+          expect(await purgeTask(user.id, createdTask.id)).toBe(true);
+
+          const purgedTask = await prisma.task.findUnique({
+            where: { id: createdTask.id }
+          });
+          expect(purgedTask).toBeNull();
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  it('Property 25: Listing the trash hides expired tasks without deleting them', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validUserDataGen,
+        validTaskDataGen,
+        async (userData, taskData) => {
+          const user = await createUser(userData);
+          const createdTask = await createTask(user.id, taskData);
+
+          await prisma.task.update({
+            where: { id: createdTask.id },
+            data: { deletedAt: new Date('2000-01-01T00:00:00.000Z') }
+          });
+
+          const trash = await getTrashedTasks(user.id, { page: 1, limit: 100 });
+          expect(trash.tasks).toHaveLength(0);
+          expect(trash.pagination.total).toBe(0);
+
+          // Purging is left to the scheduled job
+          expect(await prisma.task.findUnique({ where: { id: createdTask.id } })).not.toBeNull();
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  it('Property 25: Expired trash is purged automatically', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        validUserDataGen,
+        validTaskDataGen,
+        async (userData, taskData) => {
+          const user = await createUser(userData);
+          const createdTask = await createTask(user.id, taskData);
+
+          // Simulate a task that was trashed long ago
+          await prisma.task.update({
+            where: { id: createdTask.id },
+            data: { deletedAt: new Date('2000-01-01T00:00:00.000Z') }
+          });
+
+          expect(await restoreTask(user.id, createdTask.id)).toBeNull();
+          expect(await purgeExpiredTasks(user.id)).toBe(1);
+
+          const trash = await getTrashedTasks(user.id, { page: 1, limit: 100 });
+          expect(trash.tasks).toHaveLength(0);
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+});
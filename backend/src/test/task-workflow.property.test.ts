@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { updateTaskSchema } from '../schemas/taskSchemas';
+import { createTask, getUserTasks, toggleTaskStatus, updateTask } from '../services/taskService';
+import { createStatus, deleteStatus, findStatusByKey, getUserStatuses, reorderStatuses } from '../services/statusService';
+import { createUser } from '../services/userService';
+import { getToggleStatusKey, hasCompleteWorkflow, toStatusKey } from '../utils/workflow';
+import { StatusCategory, TaskStatus } from '../types';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+// Generator for workflows: unique keys with at least one done and one open status
+const workflowGen = fc.uniqueArray(
+  fc.record({
+    key: fc.stringMatching(/^[A-Z][A-Z0-9_]{0,9}$/),
+    category: fc.constantFrom(StatusCategory.TODO, StatusCategory.IN_PROGRESS, StatusCategory.DONE)
+  }),
+  { minLength: 2, maxLength: 6, selector: step => step.key }
+).filter(steps => hasCompleteWorkflow(steps.map(step => step.category)));
+
+describe('Task Workflow Property Tests', () => {
+  // Feature: task-management-system, Property 42: Workflow toggling
+  it('Property 42: Toggling reopens done tasks and advances open ones', () => {
+    fc.assert(
+      fc.property(
+        workflowGen,
+        fc.nat(),
+        (steps, index) => {
+          const current = steps[index % steps.length];
+          const next = getToggleStatusKey(steps, current.key);
+          const nextStep = steps.find(step => step.key === next)!;
+
+          if (current.category === StatusCategory.DONE) {
+            expect(nextStep.category).not.toBe(StatusCategory.DONE);
+          } else {
+            expect(steps.indexOf(nextStep) > steps.indexOf(current) || nextStep.category === StatusCategory.DONE).toBe(true);
+            expect(steps.find(step => step.key === getToggleStatusKey(steps, current.key, 'done'))!.category)
+              .toBe(StatusCategory.DONE);
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('Property 42: The default workflow toggles between pending and completed', () => {
+    const steps = [
+      { key: TaskStatus.PENDING, category: StatusCategory.TODO },
+      { key: TaskStatus.COMPLETED, category: StatusCategory.DONE }
+    ];
+
+    expect(getToggleStatusKey(steps, TaskStatus.PENDING)).toBe(TaskStatus.COMPLETED);
+    expect(getToggleStatusKey(steps, TaskStatus.COMPLETED)).toBe(TaskStatus.PENDING);
+    expect(toStatusKey('In review')).toBe('IN_REVIEW');
+  });
+
+  it('Property 43: Task statuses are user-defined keys', () => {
+    expect(updateTaskSchema.safeParse({ status: 'IN_REVIEW' }).success).toBe(true);
+    expect(updateTaskSchema.safeParse({ status: 'in review' }).success).toBe(false);
+  });
+
+  describe('Custom workflows', () => {
+    useTestDatabase();
+
+    it('Property 42: Tasks advance through a custom workflow in order', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const inProgress = await createStatus(user.id, { name: 'In Progress', category: StatusCategory.IN_PROGRESS });
+            const review = await createStatus(user.id, { name: 'Review', category: StatusCategory.IN_PROGRESS });
+
+            // Backlog-style order: Pending, In Progress, Review, Completed
+            const [pending, completed] = await getUserStatuses(user.id);
+            await reorderStatuses(user.id, [pending.id, inProgress.id, review.id, completed.id]);
+
+            const task = await createTask(user.id, { title: 'Task' });
+            expect(task.status).toBe(TaskStatus.PENDING);
+
+            const visited = [task.status];
+            for (let i = 0; i < 4; i++) {
+              visited.push((await toggleTaskStatus(user.id, task.id))!.status);
+            }
+
+            expect(visited).toEqual(['PENDING', 'IN_PROGRESS', 'REVIEW', 'COMPLETED', 'PENDING']);
+
+            const doneTask = await toggleTaskStatus(user.id, task.id, 'done');
+            expect(doneTask!.workflowStatus.category).toBe(StatusCategory.DONE);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    // Feature: task-management-system, Property 43: Done category
+    it('Property 43: Any done status counts as completed', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const shipped = await createStatus(user.id, { name: 'Shipped', category: StatusCategory.DONE });
+            const past = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+            const openTask = await createTask(user.id, { title: 'Open', dueAt: past });
+            const shippedTask = await createTask(user.id, { title: 'Shipped', dueAt: past });
+            await updateTask(user.id, shippedTask.id, { status: shipped.key });
+
+            const overdue = await getUserTasks(user.id, { page: 1, limit: 10, overdue: true });
+            expect(overdue.tasks.map(task => task.id)).toEqual([openTask.id]);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+
+    it('Property 43: Deleting a status moves its tasks', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const user = await createUser(userData);
+            const review = await createStatus(user.id, { name: 'Review', category: StatusCategory.IN_PROGRESS });
+            const task = await createTask(user.id, { title: 'Task', status: review.key });
+            expect(task.workflowStatus.name).toBe('Review');
+
+            expect(await deleteStatus(user.id, review.id, TaskStatus.PENDING)).toBe(true);
+            expect(await findStatusByKey(user.id, review.key)).toBeNull();
+
+            const result = await getUserTasks(user.id, { page: 1, limit: 10 });
+            expect(result.tasks[0].status).toBe(TaskStatus.PENDING);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  createWorkspace,
+  createInvitation,
+  sendInvitationEmail,
+  acceptInvitation,
+  CreatedInvitation,
+  getMembers,
+  removeMember,
+  updateMember
+} from '../services/workspaceService';
+import { createTask, getTaskById, getUserTasks, updateTask } from '../services/taskService';
+import { createUser } from '../services/userService';
+import { getMailer, MailMessage } from '../mail';
+import { canManageMember, hasWorkspaceRole } from '../utils/workspaceAccess';
+import { getTaskAccess } from '../utils/taskAccess';
+import { TaskAccess, WorkspaceRole } from '../types';
+import { taskQuerySchema } from '../schemas/taskSchemas';
+import { useTestDatabase, validUserDataGen } from './fixtures';
+
+const workspaceRoleGen = fc.constantFrom(
+  WorkspaceRole.VIEWER,
+  WorkspaceRole.MEMBER,
+  WorkspaceRole.ADMIN,
+  WorkspaceRole.OWNER
+);
+
+describe('Workspace Property Tests', () => {
+  // Feature: task-management-system, Property 52: Workspace access control
+  it('Property 52: Workspace roles decide who can manage members and change tasks', () => {
+    fc.assert(
+      fc.property(
+        workspaceRoleGen,
+        workspaceRoleGen,
+        (actorRole, targetRole) => {
+          // Only admins and the owner manage members, and only those below them
+          expect(canManageMember(actorRole, targetRole)).toBe(
+            hasWorkspaceRole(actorRole, WorkspaceRole.ADMIN) &&
+            hasWorkspaceRole(actorRole, targetRole) && actorRole !== targetRole
+          );
+
+          // Viewers can only read a workspace's tasks; every other role can edit them
+          const task = {
+            userId: 'creator',
+            assigneeId: null,
+            collaborators: [],
+            workspace: { memberships: [{ userId: 'creator', role: WorkspaceRole.MEMBER }, { userId: 'member', role: targetRole }] },
+          };
+          expect(getTaskAccess('member', task)).toBe(
+            targetRole === WorkspaceRole.VIEWER ? TaskAccess.VIEWER : TaskAccess.EDITOR
+          );
+          expect(getTaskAccess('outsider', task)).toBeNull();
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  describe('Workspaces', () => {
+    useTestDatabase();
+
+    it('Property 52: Invitations add members who then see the workspace tasks their role allows', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          validUserDataGen,
+          async (userData) => {
+            const owner = await createUser(userData);
+            const invitee = await createUser({ ...userData, email: `other.${userData.email}` });
+            const outsider = await createUser({ ...userData, email: `outsider.${userData.email}` });
+            const workspace = await createWorkspace(owner.id, { name: 'Team' });
+            const task = await createTask(owner.id, { title: 'Team task' }, workspace.id);
+
+            // Workspace tasks stay out of the creator's personal list
+            const ownList = await getUserTasks(owner.id, taskQuerySchema.parse({}));
+            expect(ownList.tasks).toEqual([]);
+            expect(await getTaskById(invitee.id, task.id)).toBeNull();
+
+            const invitation = await createInvitation(owner.id, WorkspaceRole.OWNER, workspace.id, {
+              email: invitee.email,
+              role: WorkspaceRole.VIEWER,
+            });
+            expect(invitation).toBeTruthy();
+            const created = invitation as CreatedInvitation;
+            const { token } = created;
+            expect(created.invitation).not.toHaveProperty('token');
+
+            // The token only leaves the server in the invitation email
+            const sent: MailMessage[] = [];
+            const send = vi.spyOn(getMailer(), 'send').mockImplementation(async (message) => {
+              sent.push(message);
+            });
+            await sendInvitationEmail(created);
+            send.mockRestore();
+            expect(sent).toHaveLength(1);
+            expect(sent[0].to).toBe(invitee.email);
+            expect(sent[0].text).toContain(`/invitations/accept?token=${encodeURIComponent(token)}`);
+
+            // Only the invited address can accept, once it is verified, and only once
+            const emailVerifiedAt = new Date();
+            expect(await acceptInvitation(invitee, token)).toBe(false);
+            expect(await acceptInvitation({ ...outsider, emailVerifiedAt }, token)).toBe(false);
+            const joined = await acceptInvitation({ ...invitee, emailVerifiedAt }, token);
+            expect(joined).toMatchObject({ id: workspace.id, role: WorkspaceRole.VIEWER, memberCount: 2 });
+            expect(await acceptInvitation({ ...invitee, emailVerifiedAt }, token)).toBeNull();
+
+            // Viewers can read the workspace's tasks but not change them
+            const listed = await getUserTasks(invitee.id, taskQuerySchema.parse({}), workspace.id);
+            expect(listed.tasks.map(t => t.id)).toEqual([task.id]);
+            expect((await getTaskById(invitee.id, task.id))!.access).toBe(TaskAccess.VIEWER);
+            expect(await updateTask(invitee.id, task.id, { title: 'Changed' })).toBeNull();
+
+            await updateMember(WorkspaceRole.OWNER, workspace.id, invitee.id, { role: WorkspaceRole.MEMBER });
+            expect((await updateTask(invitee.id, task.id, { title: 'Changed' }))!.title).toBe('Changed');
+
+            // Members cannot manage each other, and removed members lose access
+            expect(await removeMember(invitee.id, WorkspaceRole.MEMBER, workspace.id, owner.id)).toBe(false);
+            expect(await removeMember(owner.id, WorkspaceRole.OWNER, workspace.id, invitee.id)).toBe(true);
+            expect(await getTaskById(invitee.id, task.id)).toBeNull();
+            expect((await getMembers(workspace.id)).map(member => member.user.id)).toEqual([owner.id]);
+
+            return true;
+          }
+        ),
+        { numRuns: 5 }
+      );
+    });
+  });
+});
@@ -4,10 +4,12 @@ export interface User {
   id: string;
   email: string;
   name: string;
+  emailVerifiedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Keys of the statuses every workflow starts with
 export const TaskStatus = {
   PENDING: 'PENDING',
   COMPLETED: 'COMPLETED'
@@ -15,11 +17,118 @@ export const TaskStatus = {
 
 export type TaskStatusType = typeof TaskStatus[keyof typeof TaskStatus];
 
+// Workflow statuses are grouped into categories; tasks in a DONE status count as completed
+export const StatusCategory = {
+  TODO: 'TODO',
+  IN_PROGRESS: 'IN_PROGRESS',
+  DONE: 'DONE'
+} as const;
+
+export type StatusCategoryType = typeof StatusCategory[keyof typeof StatusCategory];
+
+export const TaskPriority = {
+  LOW: 'LOW',
+  MEDIUM: 'MEDIUM',
+  HIGH: 'HIGH',
+  URGENT: 'URGENT'
+} as const;
+
+export type TaskPriorityType = typeof TaskPriority[keyof typeof TaskPriority];
+
+// Kinds of entries in a task's history
+export const TaskEventType = {
+  CREATED: 'CREATED',
+  UPDATED: 'UPDATED',
+  DELETED: 'DELETED',
+  RESTORED: 'RESTORED'
+} as const;
+
+export type TaskEventTypeValue = typeof TaskEventType[keyof typeof TaskEventType];
+
+// Roles a task can be shared with: viewers can only read it, editors can change it
+export const CollaboratorRole = {
+  VIEWER: 'VIEWER',
+  EDITOR: 'EDITOR'
+} as const;
+
+export type CollaboratorRoleType = typeof CollaboratorRole[keyof typeof CollaboratorRole];
+
+// What a user may do with a task, from least to most: its owner can also share,
+// assign and delete it
+export const TaskAccess = {
+  VIEWER: 'VIEWER',
+  EDITOR: 'EDITOR',
+  OWNER: 'OWNER'
+} as const;
+
+export type TaskAccessLevel = typeof TaskAccess[keyof typeof TaskAccess];
+
+// Roles in a workspace, from least to most: viewers can read its tasks, members
+// can also create and edit them, admins can also manage its members and the
+// owner can also rename and delete it
+export const WorkspaceRole = {
+  VIEWER: 'VIEWER',
+  MEMBER: 'MEMBER',
+  ADMIN: 'ADMIN',
+  OWNER: 'OWNER'
+} as const;
+
+export type WorkspaceRoleType = typeof WorkspaceRole[keyof typeof WorkspaceRole];
+
 export interface Task {
   id: string;
   title: string;
   description?: string;
-  status: TaskStatusType;
+  status: string;
+  workflowStatus?: WorkflowStatus;
+  priority: TaskPriorityType;
+  dueAt?: Date;
+  userId: string;
+  projectId?: string;
+  project?: Project;
+  tags?: Tag[];
+  checklistItems?: ChecklistItem[];
+  deletedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color?: string;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkflowStatus {
+  id: string;
+  key: string;
+  name: string;
+  category: StatusCategoryType;
+  color?: string;
+  position: number;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  completed: boolean;
+  position: number;
+  taskId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  color?: string;
   userId: string;
   createdAt: Date;
   updatedAt: Date;
@@ -59,19 +168,38 @@ export interface TokenResponse {
 export interface CreateTaskRequest {
   title: string;
   description?: string;
+  priority?: TaskPriorityType;
+  dueAt?: string;
+  tagIds?: string[];
+  projectId?: string;
 }
 
 export interface UpdateTaskRequest {
   title?: string;
   description?: string;
-  status?: TaskStatusType;
+  status?: string;
+  priority?: TaskPriorityType;
+  dueAt?: string | null;
+  tagIds?: string[];
+  projectId?: string | null;
 }
 
 export interface TaskQuery {
   page?: number;
   limit?: number;
-  status?: TaskStatusType;
+  status?: string;
+  priority?: TaskPriorityType;
   search?: string;
+  dueBefore?: string;
+  dueAfter?: string;
+  overdue?: boolean;
+  tags?: string;
+  tagMode?: 'any' | 'all';
+  projectId?: string;
+  sortBy?: 'createdAt' | 'updatedAt' | 'title' | 'status' | 'dueAt' | 'priority' | 'relevance';
+  sortOrder?: 'asc' | 'desc';
+  pagination?: 'page' | 'cursor';
+  cursor?: string;
 }
 
 export interface PaginatedTasks {
@@ -84,6 +212,15 @@ export interface PaginatedTasks {
   };
 }
 
+export interface CursorPaginatedTasks {
+  tasks: Task[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+  };
+}
+
 export interface ErrorResponse {
   error: {
     code: string;
@@ -1,6 +1,8 @@
 import bcrypt from 'bcrypt';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, RefreshToken } from '@prisma/client';
+import { getIntegerEnv } from './env';
 
 const prisma = new PrismaClient();
 
@@ -13,6 +15,10 @@ const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'fallback-refresh-s
 const JWT_ACCESS_EXPIRES_IN = process.env.JWT_ACCESS_EXPIRES_IN || '15m';
 const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
 
+// How long a rotated refresh token may still be presented, e.g. by a second
+// tab that refreshed at the same time, before it is treated as reuse
+const REFRESH_TOKEN_REUSE_GRACE_SECONDS = getIntegerEnv('REFRESH_TOKEN_REUSE_GRACE_SECONDS', 10);
+
 /**
  * Hash a password using bcrypt
  */
@@ -28,33 +34,61 @@ export async function comparePassword(password: string, hashedPassword: string):
 }
 
 /**
- * Generate JWT access token
+ * Generate a random token to send to a user, e.g. in an invitation link
+ */
+export function generateOpaqueToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hash a token sent to a user so that only the hash needs to be stored
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Device details recorded with a session's refresh tokens
+export interface ClientInfo {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface RotatedRefreshToken {
+  refreshToken: string;
+  // familyId of the token, identifying the session
+  sessionId: string;
+}
+
+/**
+ * Generate JWT access token. The session ID, when given, lets requests made
+ * with the token know which session they belong to.
  */
-export function generateAccessToken(userId: string): string {
+export function generateAccessToken(userId: string, sessionId?: string): string {
   return jwt.sign(
-    { userId, type: 'access' },
+    { userId, type: 'access', ...(sessionId && { sessionId }) },
     JWT_ACCESS_SECRET,
     { expiresIn: '15m' }
   );
 }
 
 /**
- * Generate JWT refresh token
+ * Generate JWT refresh token. Each token gets a unique ID, so tokens issued
+ * for the same user within the same second still differ.
  */
 export function generateRefreshToken(userId: string): string {
   return jwt.sign(
     { userId, type: 'refresh' },
     JWT_REFRESH_SECRET,
-    { expiresIn: '7d' }
+    { expiresIn: '7d', jwtid: randomUUID() }
   );
 }
 
 /**
  * Verify and decode access token
  */
-export function verifyAccessToken(token: string): { userId: string; type: string } {
+export function verifyAccessToken(token: string): { userId: string; type: string; sessionId?: string } {
   try {
-    const decoded = jwt.verify(token, JWT_ACCESS_SECRET) as { userId: string; type: string };
+    const decoded = jwt.verify(token, JWT_ACCESS_SECRET) as { userId: string; type: string; sessionId?: string };
     if (decoded.type !== 'access') {
       throw new Error('Invalid token type');
     }
@@ -80,19 +114,30 @@ export function verifyRefreshToken(token: string): { userId: string; type: strin
 }
 
 /**
- * Store refresh token in database
+ * Expiry date of a newly issued refresh token
  */
-export async function storeRefreshToken(userId: string, token: string): Promise<void> {
+function getRefreshTokenExpiry(): Date {
   const expiresAt = new Date();
   expiresAt.setDate(expiresAt.getDate() + 7); // 7 days from now
+  return expiresAt;
+}
 
-  await prisma.refreshToken.create({
+/**
+ * Store refresh token in database as the start of a new token family, i.e.
+ * a new session. Returns the session's ID.
+ */
+export async function storeRefreshToken(userId: string, token: string, client?: ClientInfo): Promise<string> {
+  const refreshToken = await prisma.refreshToken.create({
     data: {
       token,
       userId,
-      expiresAt,
+      userAgent: client?.userAgent,
+      ipAddress: client?.ipAddress,
+      expiresAt: getRefreshTokenExpiry(),
     },
   });
+
+  return refreshToken.familyId;
 }
 
 /**
@@ -105,14 +150,32 @@ export async function removeRefreshToken(token: string): Promise<void> {
 }
 
 /**
- * Check if refresh token exists and is valid
+ * Remove a refresh token along with every other token of its family,
+ * signing out the session it belongs to
  */
-export async function isRefreshTokenValid(token: string): Promise<boolean> {
+export async function revokeRefreshTokenFamily(token: string): Promise<void> {
   const refreshToken = await prisma.refreshToken.findUnique({
     where: { token },
   });
 
   if (!refreshToken) {
+    return;
+  }
+
+  await prisma.refreshToken.deleteMany({
+    where: { familyId: refreshToken.familyId },
+  });
+}
+
+/**
+ * Check if refresh token exists, has not been rotated and is valid
+ */
+export async function isRefreshTokenValid(token: string): Promise<boolean> {
+  const refreshToken = await prisma.refreshToken.findUnique({
+    where: { token },
+  });
+
+  if (!refreshToken || refreshToken.rotatedAt) {
     return false;
   }
 
@@ -126,6 +189,129 @@ export async function isRefreshTokenValid(token: string): Promise<boolean> {
   return true;
 }
 
+/**
+ * Find the token that replaced a rotated refresh token, provided the token
+ * was rotated within the reuse grace window and its replacement has not been
+ * rotated or expired in turn
+ */
+async function findGraceRefreshToken(refreshToken: RefreshToken): Promise<RefreshToken | null> {
+  if (!refreshToken.rotatedAt) {
+    return null;
+  }
+
+  const graceEndsAt = new Date(refreshToken.rotatedAt.getTime() + REFRESH_TOKEN_REUSE_GRACE_SECONDS * 1000);
+  if (graceEndsAt < new Date()) {
+    return null;
+  }
+
+  // The replacement is the first token of the family issued after the rotation
+  const replacement = await prisma.refreshToken.findFirst({
+    where: {
+      familyId: refreshToken.familyId,
+      createdAt: { gte: refreshToken.rotatedAt },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (!replacement || replacement.rotatedAt || replacement.expiresAt < new Date()) {
+    return null;
+  }
+
+  return replacement;
+}
+
+/**
+ * Exchange a refresh token for a new one in the same family. The old token
+ * is kept but marked as rotated, so presenting it again is treated as reuse
+ * of a stolen token: the whole family is revoked and false is returned.
+ * Within a short grace window after the rotation, e.g. when two tabs refresh
+ * at once, the token that replaced it is returned again instead.
+ * Returns null when the token is unknown, expired or not the user's. The new
+ * token records the client it was issued to and when.
+ */
+export async function rotateRefreshToken(
+  token: string,
+  userId: string,
+  client?: ClientInfo
+): Promise<RotatedRefreshToken | false | null> {
+  const refreshToken = await prisma.refreshToken.findUnique({
+    where: { token },
+  });
+
+  if (!refreshToken || refreshToken.userId !== userId) {
+    return null;
+  }
+
+  if (refreshToken.rotatedAt) {
+    return reuseRefreshToken(refreshToken);
+  }
+
+  if (refreshToken.expiresAt < new Date()) {
+    await removeRefreshToken(token);
+    return null;
+  }
+
+  const newRefreshToken = generateRefreshToken(userId);
+
+  const rotatedAt = new Date();
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Claim the token so that a concurrent replay counts as reuse
+    const claimed = await tx.refreshToken.updateMany({
+      where: { id: refreshToken.id, rotatedAt: null },
+      data: { rotatedAt },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    await tx.refreshToken.create({
+      data: {
+        token: newRefreshToken,
+        familyId: refreshToken.familyId,
+        userId,
+        userAgent: client ? client.userAgent : refreshToken.userAgent,
+        ipAddress: client ? client.ipAddress : refreshToken.ipAddress,
+        expiresAt: getRefreshTokenExpiry(),
+        // Lets the replacement be found from the rotated token
+        createdAt: rotatedAt,
+        // Refreshing is activity of the session, which the new token carries on
+        lastUsedAt: rotatedAt,
+      },
+    });
+
+    return true;
+  });
+
+  if (!rotated) {
+    // Rotated by a concurrent request in the meantime
+    const current = await prisma.refreshToken.findUnique({
+      where: { id: refreshToken.id },
+    });
+    if (!current) {
+      return null;
+    }
+    return reuseRefreshToken(current);
+  }
+
+  return { refreshToken: newRefreshToken, sessionId: refreshToken.familyId };
+}
+
+/**
+ * Handle a rotated refresh token being presented again: return its
+ * replacement within the grace window, otherwise revoke the whole family
+ */
+async function reuseRefreshToken(refreshToken: RefreshToken): Promise<RotatedRefreshToken | false> {
+  const replacement = await findGraceRefreshToken(refreshToken);
+  if (replacement) {
+    return { refreshToken: replacement.token, sessionId: replacement.familyId };
+  }
+
+  await revokeRefreshTokenFamily(refreshToken.token);
+  return false;
+}
+
 /**
  * Clean up expired refresh tokens for a user
  */
@@ -0,0 +1,35 @@
+// Direction a cursor pages in, relative to the task it points at
+export type CursorDirection = 'next' | 'prev';
+
+export interface TaskCursor {
+  id: string;
+  direction: CursorDirection;
+}
+
+/**
+ * Encode a task cursor into an opaque, URL-safe string
+ */
+export function encodeCursor(cursor: TaskCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode an opaque cursor string, returning null if it is malformed
+ */
+export function decodeCursor(value: string): TaskCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+    if (
+      typeof decoded?.id !== 'string' ||
+      decoded.id.length === 0 ||
+      (decoded.direction !== 'next' && decoded.direction !== 'prev')
+    ) {
+      return null;
+    }
+
+    return { id: decoded.id, direction: decoded.direction };
+  } catch {
+    return null;
+  }
+}
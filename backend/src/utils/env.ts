@@ -0,0 +1,18 @@
+/**
+ * Read a whole number from an environment variable, falling back to the
+ * default when it is unset, not a number or below the minimum
+ */
+export function getIntegerEnv(name: string, fallback: number, min = 0): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    console.warn(`Ignoring invalid ${name} "${raw}", using ${fallback}`);
+    return fallback;
+  }
+
+  return value;
+}
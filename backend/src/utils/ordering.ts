@@ -0,0 +1,48 @@
+// Gap left between neighbouring task positions
+export const POSITION_STEP = 1024;
+
+// Smallest gap still split when a task moves between two others; below it the
+// positions are spread out again
+export const MIN_POSITION_GAP = 1e-6;
+
+/**
+ * Hand out the positions held by a set of tasks again, lowest first, so that
+ * reordering them leaves every other task where it was. Ties (such as tasks
+ * that have never been ordered) are pushed apart so the new order sticks.
+ */
+export function getReorderedPositions(currentPositions: number[]): number[] {
+  const sorted = [...currentPositions].sort((a, b) => a - b);
+  const positions: number[] = [];
+
+  for (const position of sorted) {
+    const previous = positions[positions.length - 1];
+    positions.push(previous !== undefined && position <= previous ? previous + POSITION_STEP : position);
+  }
+
+  return positions;
+}
+
+/**
+ * Pick a position between two neighbours, either of which may be missing at
+ * the start or end of the order. Returns null when the neighbours are too
+ * close (or out of order) to fit anything between them.
+ */
+export function getPositionBetween(lower?: number, upper?: number): number | null {
+  if (lower === undefined && upper === undefined) {
+    return 0;
+  }
+
+  if (upper === undefined) {
+    return lower! + POSITION_STEP;
+  }
+
+  if (lower === undefined) {
+    return upper - POSITION_STEP;
+  }
+
+  if (upper - lower < MIN_POSITION_GAP) {
+    return null;
+  }
+
+  return lower + (upper - lower) / 2;
+}
@@ -0,0 +1,232 @@
+// Supported subset of iCalendar RRULE, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+// Weekdays in the order of Date#getUTCDay
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // Weekly rules only
+  byDay?: Weekday[];
+  // Monthly rules only
+  byMonthDay?: number[];
+  // The series ends after this many occurrences, or after this date
+  count?: number;
+  until?: Date;
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+const MAX_INTERVAL = 365;
+const MAX_COUNT = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a whole number within bounds, returning null for anything else
+ */
+function parseBoundedInt(value: string, min: number, max: number): number | null {
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+
+  const number = parseInt(value, 10);
+  return number >= min && number <= max ? number : null;
+}
+
+/**
+ * Parse an RRULE UNTIL value: a date (20261231) or a UTC date-time (20261231T235959Z)
+ */
+function parseUntil(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59'] = match;
+  const date = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+
+  return date.getUTCDate() === +day ? date : null;
+}
+
+/**
+ * Format a date as an RRULE UTC date-time
+ */
+function formatUntil(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse a recurrence rule, returning null when it is malformed or uses parts
+ * outside the supported subset (FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT, UNTIL)
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const fields = new Map<string, string>();
+
+  for (const part of parts) {
+    const [key, fieldValue, ...rest] = part.split('=');
+
+    if (!key || fieldValue === undefined || rest.length > 0 || fields.has(key.toUpperCase())) {
+      return null;
+    }
+
+    fields.set(key.toUpperCase(), fieldValue.toUpperCase());
+  }
+
+  const frequency = fields.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!frequency || !FREQUENCIES.includes(frequency)) {
+    return null;
+  }
+
+  const rule: RecurrenceRule = { frequency, interval: 1 };
+
+  for (const [key, fieldValue] of fields) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = parseBoundedInt(fieldValue, 1, MAX_INTERVAL);
+        if (interval === null) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'COUNT': {
+        const count = parseBoundedInt(fieldValue, 1, MAX_COUNT);
+        if (count === null) return null;
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(fieldValue);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+      case 'BYDAY': {
+        const days = fieldValue.split(',');
+        if (frequency !== 'WEEKLY' || !days.every(day => (WEEKDAYS as readonly string[]).includes(day))) {
+          return null;
+        }
+        rule.byDay = WEEKDAYS.filter(day => days.includes(day));
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = fieldValue.split(',').map(day => parseBoundedInt(day, 1, 31));
+        if (frequency !== 'MONTHLY' || days.some(day => day === null)) {
+          return null;
+        }
+        rule.byMonthDay = [...new Set(days as number[])].sort((a, b) => a - b);
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // COUNT and UNTIL are mutually exclusive in RFC 5545
+  if (rule.count !== undefined && rule.until !== undefined) {
+    return null;
+  }
+
+  return rule;
+}
+
+/**
+ * Format a recurrence rule in its canonical RRULE form
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Get the number of days in a month (UTC)
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Find the first occurrence of a rule strictly after the given date, keeping
+ * its time of day. Weekdays and month days are taken in UTC.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, after: Date): Date {
+  if (rule.frequency === 'DAILY') {
+    return new Date(after.getTime() + rule.interval * DAY_MS);
+  }
+
+  if (rule.frequency === 'WEEKLY') {
+    if (!rule.byDay?.length) {
+      return new Date(after.getTime() + rule.interval * 7 * DAY_MS);
+    }
+
+    // Walk forward day by day, only counting weeks that are a whole interval
+    // away from the week of the previous occurrence
+    const weekStart = after.getTime() - after.getUTCDay() * DAY_MS;
+    for (let offset = 1; offset <= 7 * rule.interval + 7; offset++) {
+      const candidate = new Date(after.getTime() + offset * DAY_MS);
+      const week = Math.floor((candidate.getTime() - weekStart) / (7 * DAY_MS));
+
+      if (week % rule.interval === 0 && rule.byDay.includes(WEEKDAYS[candidate.getUTCDay()])) {
+        return candidate;
+      }
+    }
+  }
+
+  // Monthly: the same day of the month, or each listed day, every interval months.
+  // Months too short for a day are skipped for that day.
+  const monthDays = rule.byMonthDay?.length ? rule.byMonthDay : [after.getUTCDate()];
+
+  for (let monthOffset = 0; monthOffset <= 12 * rule.interval; monthOffset += rule.interval) {
+    const year = after.getUTCFullYear();
+    const month = after.getUTCMonth() + monthOffset;
+
+    for (const day of monthDays) {
+      if (day > daysInMonth(year, month)) {
+        continue;
+      }
+
+      const candidate = new Date(Date.UTC(
+        year,
+        month,
+        day,
+        after.getUTCHours(),
+        after.getUTCMinutes(),
+        after.getUTCSeconds(),
+        after.getUTCMilliseconds()
+      ));
+
+      if (candidate > after) {
+        return candidate;
+      }
+    }
+  }
+
+  // Unreachable for valid rules: every month has at least 28 days
+  return new Date(after.getTime() + rule.interval * 30 * DAY_MS);
+}
+
+/**
+ * Check whether a series may continue after the given occurrence number with
+ * an occurrence on the given date
+ */
+export function hasNextOccurrence(rule: RecurrenceRule, occurrence: number, nextDate: Date): boolean {
+  if (rule.count !== undefined && occurrence >= rule.count) {
+    return false;
+  }
+
+  return !rule.until || nextDate <= rule.until;
+}
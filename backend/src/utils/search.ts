@@ -0,0 +1,130 @@
+// A single search term: one word, or a quoted phrase of consecutive words.
+// The last word of a prefix term matches any word that starts with it.
+export interface SearchTerm {
+  words: string[];
+  prefix: boolean;
+}
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchHighlight {
+  field: string;
+  snippet: string;
+  matches: HighlightRange[];
+}
+
+// Characters kept around the first match when a field is cut down to a snippet
+const SNIPPET_CONTEXT = 60;
+const SNIPPET_LENGTH = 200;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+
+/**
+ * Split text into lowercase words the same way the search index does
+ */
+function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) ?? []).map(word => word.toLowerCase());
+}
+
+/**
+ * Parse a search string into terms. Quoted text is matched as a phrase and a
+ * trailing `*` turns a word into a prefix match; all terms must match.
+ */
+export function parseSearchQuery(search: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+
+  for (const [, phrase, token] of search.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const words = tokenize(phrase ?? token);
+
+    if (words.length > 0) {
+      terms.push({ words, prefix: phrase === undefined && token.endsWith('*') });
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Convert search terms into a PostgreSQL tsquery expression
+ */
+export function toTsQuery(terms: SearchTerm[]): string {
+  return terms
+    .map(({ words, prefix }) => words
+      .map((word, index) => (prefix && index === words.length - 1 ? `${word}:*` : word))
+      .join(' <-> '))
+    .join(' & ');
+}
+
+/**
+ * Build a regular expression that finds a search term in text
+ */
+function termPattern({ words, prefix }: SearchTerm): RegExp {
+  const body = words.join(`[^\\p{L}\\p{N}]+`);
+  const end = prefix ? `${WORD_CHAR}*` : `(?!${WORD_CHAR})`;
+
+  return new RegExp(`(?<!${WORD_CHAR})${body}${end}`, 'giu');
+}
+
+/**
+ * Find every range of text matched by any of the terms, merged and in order
+ */
+export function findMatches(text: string, terms: SearchTerm[]): HighlightRange[] {
+  const ranges: HighlightRange[] = [];
+
+  for (const term of terms) {
+    for (const match of text.matchAll(termPattern(term))) {
+      ranges.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+
+  return ranges.reduce<HighlightRange[]>((merged, range) => {
+    const previous = merged[merged.length - 1];
+
+    if (previous && range.start <= previous.end) {
+      previous.end = Math.max(previous.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+
+    return merged;
+  }, []);
+}
+
+/**
+ * Build a highlight snippet for a field, or null if nothing in it matches.
+ * Long text is cut down to a window around the first match.
+ */
+export function buildHighlight(field: string, text: string, terms: SearchTerm[]): SearchHighlight | null {
+  const matches = findMatches(text, terms);
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  if (text.length <= SNIPPET_LENGTH) {
+    return { field, snippet: text, matches };
+  }
+
+  const start = Math.max(0, Math.min(matches[0].start - SNIPPET_CONTEXT, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const leading = start > 0 ? '…' : '';
+  const trailing = end < text.length ? '…' : '';
+  const offset = leading.length - start;
+
+  return {
+    field,
+    snippet: `${leading}${text.slice(start, end)}${trailing}`,
+    matches: matches
+      .filter(range => range.start < end && range.end > start)
+      .map(range => ({
+        start: Math.max(range.start, start) + offset,
+        end: Math.min(range.end, end) + offset,
+      })),
+  };
+}
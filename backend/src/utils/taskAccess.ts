@@ -0,0 +1,103 @@
+import type { Prisma } from '@prisma/client';
+import { CollaboratorRole, TaskAccess, TaskAccessLevel } from '../types';
+import { EDITING_WORKSPACE_ROLES, getWorkspaceTaskAccess } from './workspaceAccess';
+
+// Access levels from least to most
+const ACCESS_ORDER: TaskAccessLevel[] = [TaskAccess.VIEWER, TaskAccess.EDITOR, TaskAccess.OWNER];
+
+// The parts of a task that decide who may see and change it
+export interface TaskMembers {
+  userId: string;
+  assigneeId: string | null;
+  collaborators: { userId: string; role: string }[];
+  // The members of the workspace the task belongs to, if any
+  workspace?: { memberships: { userId: string; role: string }[] } | null;
+}
+
+/**
+ * Pick the higher of two access levels, either of which may be missing
+ */
+function higherAccess(a: TaskAccessLevel | null, b: TaskAccessLevel | null): TaskAccessLevel | null {
+  if (!a || !b) {
+    return a ?? b;
+  }
+
+  return ACCESS_ORDER.indexOf(a) >= ACCESS_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Work out a user's access to a task: its owner has full access, its assignee
+ * can edit it and collaborators have their role. A task in a workspace is only
+ * open to the workspace's members, who also get the access their workspace
+ * role gives. Returns null when the task is not shared with the user.
+ */
+export function getTaskAccess(userId: string, task: TaskMembers): TaskAccessLevel | null {
+  const membership = task.workspace?.memberships.find(member => member.userId === userId);
+
+  if (task.workspace && !membership) {
+    return null;
+  }
+
+  const workspaceAccess = membership ? getWorkspaceTaskAccess(membership.role) : null;
+
+  if (task.userId === userId) {
+    return TaskAccess.OWNER;
+  }
+
+  if (task.assigneeId === userId) {
+    return TaskAccess.EDITOR;
+  }
+
+  const collaborator = task.collaborators.find(member => member.userId === userId);
+  const sharedAccess = collaborator
+    ? (collaborator.role === CollaboratorRole.EDITOR ? TaskAccess.EDITOR : TaskAccess.VIEWER)
+    : null;
+
+  return higherAccess(sharedAccess, workspaceAccess);
+}
+
+/**
+ * Check whether an access level allows what the required level allows
+ */
+export function hasTaskAccess(access: TaskAccessLevel | null, required: TaskAccessLevel): boolean {
+  return access !== null && ACCESS_ORDER.indexOf(access) >= ACCESS_ORDER.indexOf(required);
+}
+
+/**
+ * Build a where clause matching the tasks in a workspace the user belongs to,
+ * optionally only those where they have one of the given roles
+ */
+export function workspaceMemberWhere(userId: string, roles?: string[]): Prisma.TaskWhereInput {
+  return {
+    workspace: {
+      memberships: { some: roles ? { userId, role: { in: roles } } : { userId } },
+    },
+  };
+}
+
+/**
+ * Build a where clause matching the tasks a user has at least the required access to
+ */
+export function taskAccessWhere(userId: string, required: TaskAccessLevel = TaskAccess.VIEWER): Prisma.TaskWhereInput {
+  const granted: Prisma.TaskWhereInput[] = [{ userId }];
+
+  if (required !== TaskAccess.OWNER) {
+    granted.push(
+      { assigneeId: userId },
+      {
+        collaborators: {
+          some: required === TaskAccess.EDITOR ? { userId, role: CollaboratorRole.EDITOR } : { userId },
+        },
+      },
+      workspaceMemberWhere(userId, required === TaskAccess.EDITOR ? EDITING_WORKSPACE_ROLES : undefined)
+    );
+  }
+
+  return {
+    AND: [
+      // Tasks in a workspace are only open to its members
+      { OR: [{ workspaceId: null }, workspaceMemberWhere(userId)] },
+      { OR: granted },
+    ],
+  };
+}
@@ -0,0 +1,50 @@
+// Task fields whose changes are recorded in a task's history
+export const TRACKED_TASK_FIELDS = ['title', 'description', 'status', 'priority', 'dueAt', 'project', 'assignee', 'tags'] as const;
+
+export type TrackedTaskField = typeof TRACKED_TASK_FIELDS[number];
+
+// The recorded fields of a task at one point in time. Projects, assignees and tags
+// are kept by name so the history stays readable after they are renamed or deleted.
+export interface TaskSnapshot {
+  title: string;
+  description?: string;
+  status: string;
+  priority: string;
+  dueAt?: Date;
+  project?: string;
+  assignee?: string;
+  tags: string[];
+}
+
+export interface TaskFieldChange {
+  field: TrackedTaskField;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * Convert a field of a snapshot into the text stored in the history, or null when it is empty
+ */
+function serializeField(snapshot: TaskSnapshot, field: TrackedTaskField): string | null {
+  switch (field) {
+    case 'dueAt':
+      return snapshot.dueAt ? snapshot.dueAt.toISOString() : null;
+    case 'tags':
+      return snapshot.tags.length > 0 ? [...snapshot.tags].sort().join(', ') : null;
+    default:
+      return snapshot[field] || null;
+  }
+}
+
+/**
+ * List the recorded fields that differ between two snapshots of a task
+ */
+export function diffTaskSnapshots(before: TaskSnapshot, after: TaskSnapshot): TaskFieldChange[] {
+  return TRACKED_TASK_FIELDS
+    .map(field => ({
+      field,
+      oldValue: serializeField(before, field),
+      newValue: serializeField(after, field),
+    }))
+    .filter(change => change.oldValue !== change.newValue);
+}
@@ -0,0 +1,60 @@
+import { StatusCategory } from '../types';
+
+// The parts of a workflow status that decide how tasks move through it
+export interface WorkflowStep {
+  key: string;
+  category: string;
+}
+
+// Where toggling a task should take it: the next status, or straight to done
+export type ToggleTarget = 'next' | 'done';
+
+/**
+ * Turn a status name into its key, e.g. "In review" becomes IN_REVIEW
+ */
+export function toStatusKey(name: string): string {
+  const key = name
+    .normalize('NFKD')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^[_0-9]+|_+$/g, '')
+    .toUpperCase()
+    .slice(0, 40);
+
+  return key || 'STATUS';
+}
+
+/**
+ * Check that a workflow can still open and finish tasks: it needs at least
+ * one done status and one status that is not done
+ */
+export function hasCompleteWorkflow(categories: string[]): boolean {
+  return categories.some(category => category === StatusCategory.DONE) &&
+    categories.some(category => category !== StatusCategory.DONE);
+}
+
+/**
+ * Pick the status a task moves to when toggled. Done tasks are reopened in the
+ * first open status; open tasks advance to the next status in the workflow, or
+ * straight to the first done status when asked to. Returns null when the
+ * workflow has nowhere to go.
+ */
+export function getToggleStatusKey(
+  steps: WorkflowStep[],
+  currentKey: string,
+  target: ToggleTarget = 'next'
+): string | null {
+  const current = steps.find(step => step.key === currentKey);
+  const firstOpen = steps.find(step => step.category !== StatusCategory.DONE);
+  const firstDone = steps.find(step => step.category === StatusCategory.DONE);
+
+  if (current?.category === StatusCategory.DONE) {
+    return firstOpen?.key ?? null;
+  }
+
+  if (target === 'done' || !current) {
+    return firstDone?.key ?? null;
+  }
+
+  const next = steps[steps.indexOf(current) + 1];
+  return next?.key ?? firstDone?.key ?? null;
+}
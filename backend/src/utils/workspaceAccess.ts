@@ -0,0 +1,37 @@
+import { TaskAccess, TaskAccessLevel, WorkspaceRole, WorkspaceRoleType } from '../types';
+
+// Workspace roles from least to most
+const ROLE_ORDER: WorkspaceRoleType[] = [
+  WorkspaceRole.VIEWER,
+  WorkspaceRole.MEMBER,
+  WorkspaceRole.ADMIN,
+  WorkspaceRole.OWNER,
+];
+
+// Roles whose members can create and change the workspace's tasks
+export const EDITING_WORKSPACE_ROLES: WorkspaceRoleType[] = ROLE_ORDER.slice(ROLE_ORDER.indexOf(WorkspaceRole.MEMBER));
+
+/**
+ * Check whether a workspace role allows what the required role allows
+ */
+export function hasWorkspaceRole(role: string | null | undefined, required: WorkspaceRoleType): boolean {
+  const rank = ROLE_ORDER.indexOf(role as WorkspaceRoleType);
+  return rank !== -1 && rank >= ROLE_ORDER.indexOf(required);
+}
+
+/**
+ * Check whether a member can change or remove another member, or give someone
+ * a role: admins and the owner manage everyone below them, and can only hand
+ * out roles below their own
+ */
+export function canManageMember(actorRole: string, targetRole: string): boolean {
+  return hasWorkspaceRole(actorRole, WorkspaceRole.ADMIN) &&
+    ROLE_ORDER.indexOf(actorRole as WorkspaceRoleType) > ROLE_ORDER.indexOf(targetRole as WorkspaceRoleType);
+}
+
+/**
+ * Get the access a workspace role gives to the workspace's tasks
+ */
+export function getWorkspaceTaskAccess(role: string): TaskAccessLevel {
+  return hasWorkspaceRole(role, WorkspaceRole.MEMBER) ? TaskAccess.EDITOR : TaskAccess.VIEWER;
+}
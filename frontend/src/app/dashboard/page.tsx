@@ -1,14 +1,31 @@
 'use client';
 
 import { useAuth } from '@/contexts/AuthContext';
-import { useRouter } from 'next/navigation';
-import { useEffect, useState, useCallback } from 'react';
-import { Task, TaskStatus, PaginatedTasks } from '@/types';
+import { useRouter, usePathname, useSearchParams } from 'next/navigation';
+import { useEffect, useState, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { Task, TaskHighlight, Tag, TagMatchMode, Project, ChecklistProgress, WorkflowStatus, ToggleTarget, BulkTaskAction, BulkTaskRequest, TaskPriority, TaskSortField, SortOrder, TaskCursorQuery, TaskScope, PaginatedTasks, CursorPaginatedTasks, Workspace } from '@/types';
 import { apiClient } from '@/lib/api';
+import { isTaskOverdue, isTaskDueToday } from '@/lib/dates';
+import { isTaskDone, getToggleStatus } from '@/lib/statuses';
+import { describeRecurrence, isRecurringCompletion } from '@/lib/recurrence';
 import TaskCreateModal from '@/components/TaskCreateModal';
 import TaskEditModal from '@/components/TaskEditModal';
 import TaskDeleteModal from '@/components/TaskDeleteModal';
 import TaskDetailModal from '@/components/TaskDetailModal';
+import TaskTrashModal from '@/components/TaskTrashModal';
+import TaskBoard from '@/components/TaskBoard';
+import TaskBulkActionBar from '@/components/TaskBulkActionBar';
+import WorkflowSettingsModal from '@/components/WorkflowSettingsModal';
+import StatusBadge from '@/components/StatusBadge';
+import HighlightedText from '@/components/HighlightedText';
+import TagChip from '@/components/TagChip';
+import TagSidebar from '@/components/TagSidebar';
+import ProjectBadge from '@/components/ProjectBadge';
+import ProjectSwitcher, { ProjectSelection } from '@/components/ProjectSwitcher';
+import WorkspaceSwitcher from '@/components/WorkspaceSwitcher';
+import WorkspaceSettingsModal from '@/components/WorkspaceSettingsModal';
+import EmailVerificationBanner from '@/components/EmailVerificationBanner';
 import { ToastContainer, useToast } from '@/components/Toast';
 
 interface DashboardError {
@@ -16,9 +33,53 @@ interface DashboardError {
   code?: string;
 }
 
+interface SortOption {
+  label: string;
+  sortBy: TaskSortField;
+  sortOrder: SortOrder;
+}
+
+const SORT_OPTIONS: SortOption[] = [
+  { label: 'Newest first', sortBy: 'createdAt', sortOrder: 'desc' },
+  { label: 'Oldest first', sortBy: 'createdAt', sortOrder: 'asc' },
+  { label: 'Recently updated', sortBy: 'updatedAt', sortOrder: 'desc' },
+  { label: 'Title (A-Z)', sortBy: 'title', sortOrder: 'asc' },
+  { label: 'Title (Z-A)', sortBy: 'title', sortOrder: 'desc' },
+  { label: 'Status', sortBy: 'status', sortOrder: 'asc' },
+  { label: 'Due date', sortBy: 'dueAt', sortOrder: 'asc' },
+  { label: 'Priority', sortBy: 'priority', sortOrder: 'desc' },
+  { label: 'Manual', sortBy: 'position', sortOrder: 'asc' },
+  { label: 'Relevance', sortBy: 'relevance', sortOrder: 'desc' },
+];
+
+const DEFAULT_SORT = SORT_OPTIONS[0];
+
+// Whose tasks the list shows: the user's own, those assigned to them, or those shared with them
+const SCOPE_LABELS: Record<TaskScope, string> = {
+  owned: 'My tasks',
+  assigned: 'Assigned to me',
+  shared: 'Shared with me',
+};
+
+// Tasks are shown as a paginated list or as a board with a column per status
+type TaskView = 'list' | 'board';
+
+// Most tasks loaded into each board column
+const BOARD_COLUMN_LIMIT = 100;
+
+const getSortKey = (option: Pick<SortOption, 'sortBy' | 'sortOrder'>) => `${option.sortBy}:${option.sortOrder}`;
+
+// Read the sort selection from the URL, falling back to the default for unknown values
+const parseSortParams = (params: URLSearchParams | null): SortOption => {
+  const key = `${params?.get('sortBy')}:${params?.get('sortOrder')}`;
+  return SORT_OPTIONS.find(option => getSortKey(option) === key) ?? DEFAULT_SORT;
+};
+
 export default function DashboardPage() {
   const { user, logout, isLoading, isAuthenticated } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const { toasts, removeToast, showSuccess, showError } = useToast();
   
   // Task state
@@ -32,6 +93,27 @@ export default function DashboardPage() {
     totalPages: 0
   });
 
+  // Infinite scroll state (uses cursor pagination instead of page numbers)
+  const [infiniteScroll, setInfiniteScroll] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Board view state
+  const [viewMode, setViewMode] = useState<TaskView>(() =>
+    searchParams?.get('view') === 'board' && !searchParams?.get('workspace') ? 'board' : 'list'
+  );
+  const [boardColumnTotals, setBoardColumnTotals] = useState<Record<string, number>>({});
+
+  // Drag state for manual ordering in the list
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [listDropIndex, setListDropIndex] = useState<number | null>(null);
+
+  // Multi-select state for bulk actions; all matching extends the selection to every page
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  const [bulkWorking, setBulkWorking] = useState(false);
+
   // Modal state
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
@@ -40,14 +122,34 @@ export default function DashboardPage() {
   const [deletingTask, setDeletingTask] = useState<Task | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const [detailTaskId, setDetailTaskId] = useState<string | null>(null);
+  const [isTrashModalOpen, setIsTrashModalOpen] = useState(false);
+  const [isWorkflowModalOpen, setIsWorkflowModalOpen] = useState(false);
+  const [isWorkspaceModalOpen, setIsWorkspaceModalOpen] = useState(false);
 
   // Undo state for deletions
   const [recentlyDeleted, setRecentlyDeleted] = useState<{task: Task, timeoutId: NodeJS.Timeout} | null>(null);
 
   // Filter and search state
-  const [statusFilter, setStatusFilter] = useState<TaskStatus | 'ALL'>('ALL');
+  const [statusFilter, setStatusFilter] = useState<string | 'ALL'>('ALL');
+  const [priorityFilter, setPriorityFilter] = useState<TaskPriority | 'ALL'>('ALL');
   const [searchTerm, setSearchTerm] = useState('');
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<TagMatchMode>('any');
+  const [scope, setScope] = useState<TaskScope>('owned');
+
+  // Tags available for filtering and assignment
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>([]);
+  const [selectedProjectId, setSelectedProjectId] = useState<ProjectSelection>(() => searchParams?.get('project') ?? null);
+  const [sort, setSort] = useState<SortOption>(() => parseSortParams(searchParams));
+
+  // Workspace whose tasks are shown, or null for the user's own tasks
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState<string | null>(() => searchParams?.get('workspace') ?? null);
+  const selectedWorkspace = workspaces.find(workspace => workspace.id === selectedWorkspaceId);
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -64,34 +166,158 @@ export default function DashboardPage() {
     return () => clearTimeout(timer);
   }, [searchTerm]);
 
-  // Load tasks when authenticated or filters change
+  // Load tasks when authenticated or filters change. Tasks carry their status
+  // name and category and the board has a column per status, so a changed
+  // workflow reloads them too.
   useEffect(() => {
     if (isAuthenticated) {
       loadTasks();
     }
-  }, [isAuthenticated, debouncedSearchTerm, statusFilter, pagination.page]);
+  }, [isAuthenticated, debouncedSearchTerm, statusFilter, priorityFilter, overdueOnly, selectedTagIds, tagMode, selectedProjectId, scope, selectedWorkspaceId, sort, pagination.page, infiniteScroll, viewMode, statuses]);
+
+  // Load tags, projects, the workflow and workspaces once authenticated
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadTags();
+      loadProjects();
+      loadStatuses();
+      loadWorkspaces();
+    }
+  }, [isAuthenticated]);
+
+  const loadTags = async () => {
+    try {
+      setTags(await apiClient.tags.getAll());
+    } catch (error: any) {
+      console.error('Failed to load tags:', error);
+    }
+  };
+
+  const loadProjects = async () => {
+    try {
+      const userProjects = await apiClient.projects.getAll();
+      setProjects(userProjects);
+
+      // Fall back to all tasks when the selected project no longer exists
+      setSelectedProjectId(prev =>
+        prev && prev !== 'none' && !userProjects.some(project => project.id === prev) ? null : prev
+      );
+    } catch (error: any) {
+      console.error('Failed to load projects:', error);
+    }
+  };
+
+  const loadStatuses = async () => {
+    try {
+      setStatuses(await apiClient.statuses.getAll());
+    } catch (error: any) {
+      console.error('Failed to load statuses:', error);
+    }
+  };
+
+  const loadWorkspaces = async () => {
+    try {
+      const userWorkspaces = await apiClient.workspaces.getAll();
+      setWorkspaces(userWorkspaces);
+
+      // Fall back to the user's own tasks when the selected workspace is gone
+      setSelectedWorkspaceId(prev =>
+        prev && !userWorkspaces.some(workspace => workspace.id === prev) ? null : prev
+      );
+    } catch (error: any) {
+      console.error('Failed to load workspaces:', error);
+    }
+  };
+
+  // Build the filter and sort query shared by both listing modes
+  const buildTaskQuery = useCallback((): TaskCursorQuery => {
+    // Relevance only applies to searches in page mode, so fall back to the default otherwise
+    const canSortByRelevance = Boolean(debouncedSearchTerm.trim()) && !infiniteScroll;
+    const effectiveSort = sort.sortBy === 'relevance' && !canSortByRelevance ? DEFAULT_SORT : sort;
+
+    const query: TaskCursorQuery = {
+      limit: pagination.limit,
+      sortBy: effectiveSort.sortBy,
+      sortOrder: effectiveSort.sortOrder
+    };
+
+    // Add status filter if not 'ALL'
+    if (statusFilter !== 'ALL') {
+      query.status = statusFilter;
+    }
+
+    // Add priority filter if not 'ALL'
+    if (priorityFilter !== 'ALL') {
+      query.priority = priorityFilter;
+    }
+
+    // Add search term if provided
+    if (debouncedSearchTerm.trim()) {
+      query.search = debouncedSearchTerm.trim();
+    }
+
+    // Only show overdue tasks if requested
+    if (overdueOnly) {
+      query.overdue = true;
+    }
+
+    // Add tag filter if any tags are selected
+    if (selectedTagIds.length > 0) {
+      query.tags = selectedTagIds;
+      query.tagMode = tagMode;
+    }
+
+    // Only show the selected project's tasks
+    if (selectedProjectId) {
+      query.projectId = selectedProjectId;
+    }
+
+    // Show tasks assigned to or shared with the user instead of their own
+    if (scope !== 'owned') {
+      query.scope = scope;
+    }
+
+    return query;
+  }, [pagination.limit, statusFilter, priorityFilter, debouncedSearchTerm, overdueOnly, selectedTagIds, tagMode, selectedProjectId, scope, sort, infiniteScroll]);
 
   const loadTasks = useCallback(async () => {
     try {
       setTasksLoading(true);
       setTasksError(null);
-      
-      const query: any = {
-        page: pagination.page,
-        limit: pagination.limit
-      };
 
-      // Add status filter if not 'ALL'
-      if (statusFilter !== 'ALL') {
-        query.status = statusFilter;
+      // The board loads each status column in manual order, ignoring the list's status filter and sort
+      if (viewMode === 'board') {
+        const { status, sortBy, sortOrder, limit, ...filters } = buildTaskQuery();
+        const columns = await Promise.all(statuses.map(workflowStatus => apiClient.tasks.getAll({
+          ...filters,
+          status: workflowStatus.key,
+          sortBy: 'position',
+          sortOrder: 'asc',
+          limit: BOARD_COLUMN_LIMIT
+        })));
+
+        setTasks(columns.flatMap(column => column.tasks));
+        setBoardColumnTotals(Object.fromEntries(
+          statuses.map((workflowStatus, index) => [workflowStatus.key, columns[index].pagination.total])
+        ));
+        return;
       }
 
-      // Add search term if provided
-      if (debouncedSearchTerm.trim()) {
-        query.search = debouncedSearchTerm.trim();
+      if (infiniteScroll) {
+        const response: CursorPaginatedTasks = selectedWorkspaceId
+          ? await apiClient.workspaces.getTasksByCursor(selectedWorkspaceId, buildTaskQuery())
+          : await apiClient.tasks.getAllByCursor(buildTaskQuery());
+
+        setTasks(response.tasks);
+        setNextCursor(response.pagination.nextCursor);
+        return;
       }
+
+      const query = { ...buildTaskQuery(), page: pagination.page };
       
-      const response: PaginatedTasks = await apiClient.tasks.getAll(query);
+      const response: PaginatedTasks = selectedWorkspaceId
+        ? await apiClient.workspaces.getTasks(selectedWorkspaceId, query)
+        : await apiClient.tasks.getAll(query);
       
       setTasks(response.tasks);
       setPagination(response.pagination);
@@ -104,14 +330,64 @@ export default function DashboardPage() {
     } finally {
       setTasksLoading(false);
     }
-  }, [pagination.page, pagination.limit, statusFilter, debouncedSearchTerm]);
+  }, [pagination.page, infiniteScroll, viewMode, statuses, selectedWorkspaceId, buildTaskQuery]);
+
+  const loadMoreTasks = useCallback(async () => {
+    if (!nextCursor || loadingMore) {
+      return;
+    }
+
+    try {
+      setLoadingMore(true);
+
+      const query = { ...buildTaskQuery(), cursor: nextCursor };
+      const response = selectedWorkspaceId
+        ? await apiClient.workspaces.getTasksByCursor(selectedWorkspaceId, query)
+        : await apiClient.tasks.getAllByCursor(query);
+
+      // Skip tasks already in the list, e.g. ones added locally after creation
+      setTasks(prev => [
+        ...prev,
+        ...response.tasks.filter(task => !prev.some(t => t.id === task.id))
+      ]);
+      setNextCursor(response.pagination.nextCursor);
+    } catch (error: any) {
+      console.error('Failed to load more tasks:', error);
+      showError('Loading Failed', error.response?.data?.error?.message || 'Failed to load more tasks.');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, selectedWorkspaceId, buildTaskQuery]);
+
+  // Load the next batch when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!infiniteScroll || !nextCursor || !sentinel || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMoreTasks();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [infiniteScroll, nextCursor, loadMoreTasks]);
+
+  // A selection only makes sense for the tasks it was made from
+  useEffect(() => {
+    setSelectedTaskIds([]);
+    setAllMatchingSelected(false);
+  }, [buildTaskQuery, viewMode, selectedWorkspaceId]);
 
   const handleLogout = async () => {
     await logout();
     router.push('/login');
   };
 
-  const handleStatusFilterChange = (status: TaskStatus | 'ALL') => {
+  const handleStatusFilterChange = (status: string | 'ALL') => {
     setStatusFilter(status);
     // Reset to first page when filter changes
     setPagination(prev => ({ ...prev, page: 1 }));
@@ -123,12 +399,364 @@ export default function DashboardPage() {
     setPagination(prev => ({ ...prev, page: 1 }));
   };
 
+  const handlePriorityFilterChange = (priority: TaskPriority | 'ALL') => {
+    setPriorityFilter(priority);
+    // Reset to first page when filter changes
+    setPagination(prev => ({ ...prev, page: 1 }));
+  };
+
+  const handleOverdueFilterChange = (value: boolean) => {
+    setOverdueOnly(value);
+    // Reset to first page when filter changes
+    setPagination(prev => ({ ...prev, page: 1 }));
+  };
+
+  const handleScopeChange = (value: TaskScope) => {
+    setScope(value);
+    // Reset to first page when filter changes
+    setPagination(prev => ({ ...prev, page: 1 }));
+  };
+
+  const handleTagSelectionChange = (tagIds: string[]) => {
+    setSelectedTagIds(tagIds);
+    // Reset to first page when filter changes
+    setPagination(prev => ({ ...prev, page: 1 }));
+  };
+
+  const handleTagModeChange = (mode: TagMatchMode) => {
+    setTagMode(mode);
+    // Reset to first page when filter changes
+    setPagination(prev => ({ ...prev, page: 1 }));
+  };
+
+  const handleTagCreated = (tag: Tag) => {
+    setTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  const handleTagDeleted = (tag: Tag) => {
+    setTags(prev => prev.filter(t => t.id !== tag.id));
+    setSelectedTagIds(prev => prev.filter(id => id !== tag.id));
+
+    // Tasks keep existing, they just lose the tag
+    setTasks(prev => prev.map(task => ({
+      ...task,
+      tags: task.tags.filter(t => t.id !== tag.id)
+    })));
+
+    showSuccess('Tag Deleted', `"${tag.name}" has been removed from all tasks.`);
+  };
+
+  const handleProjectSelect = (projectId: ProjectSelection) => {
+    setSelectedProjectId(projectId);
+    // Reset to first page when switching projects
+    setPagination(prev => ({ ...prev, page: 1 }));
+
+    // Persist the project selection in the URL alongside the sort
+    const params = new URLSearchParams(searchParams?.toString());
+    if (projectId) {
+      params.set('project', projectId);
+    } else {
+      params.delete('project');
+    }
+    const queryString = params.toString();
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname);
+  };
+
+  const handleProjectCreated = (project: Project) => {
+    setProjects(prev => [...prev, project].sort((a, b) => a.name.localeCompare(b.name)));
+    handleProjectSelect(project.id);
+  };
+
+  const handleProjectDeleted = (project: Project) => {
+    setProjects(prev => prev.filter(p => p.id !== project.id));
+
+    if (selectedProjectId === project.id) {
+      handleProjectSelect(null);
+    }
+
+    // Tasks keep existing, they just no longer belong to the project
+    setTasks(prev => prev.map(task => task.projectId === project.id
+      ? { ...task, projectId: undefined, project: undefined }
+      : task
+    ));
+
+    showSuccess('Project Deleted', `"${project.name}" has been deleted. Its tasks were kept.`);
+  };
+
+  const handleWorkspaceSelect = (workspaceId: string | null) => {
+    setSelectedWorkspaceId(workspaceId);
+    // Workspaces have no board and their tasks are not the user's own, so
+    // neither the board nor the scope filter apply
+    setScope('owned');
+    setNextCursor(null);
+    setPagination(prev => ({ ...prev, page: 1 }));
+    if (workspaceId) {
+      setViewMode('list');
+    }
+
+    // Persist the workspace selection in the URL alongside the sort
+    const params = new URLSearchParams(searchParams?.toString());
+    if (workspaceId) {
+      params.set('workspace', workspaceId);
+      params.delete('view');
+    } else {
+      params.delete('workspace');
+    }
+    const queryString = params.toString();
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname);
+  };
+
+  const handleWorkspaceCreated = (workspace: Workspace) => {
+    setWorkspaces(prev => [...prev, workspace].sort((a, b) => a.name.localeCompare(b.name)));
+    handleWorkspaceSelect(workspace.id);
+  };
+
+  const handleWorkspaceChange = (updatedWorkspace: Workspace) => {
+    setWorkspaces(prev => prev
+      .map(workspace => workspace.id === updatedWorkspace.id ? updatedWorkspace : workspace)
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  const handleWorkspaceRemoved = (removedWorkspace: Workspace) => {
+    setWorkspaces(prev => prev.filter(workspace => workspace.id !== removedWorkspace.id));
+    setIsWorkspaceModalOpen(false);
+    handleWorkspaceSelect(null);
+  };
+
+  const handleSortChange = (key: string) => {
+    const option = SORT_OPTIONS.find(o => getSortKey(o) === key) ?? DEFAULT_SORT;
+    setSort(option);
+    // Reset to first page when sort order changes
+    setPagination(prev => ({ ...prev, page: 1 }));
+
+    // Persist the sort selection in the URL so it survives reloads and can be shared
+    const params = new URLSearchParams(searchParams?.toString());
+    if (option === DEFAULT_SORT) {
+      params.delete('sortBy');
+      params.delete('sortOrder');
+    } else {
+      params.set('sortBy', option.sortBy);
+      params.set('sortOrder', option.sortOrder);
+    }
+    const queryString = params.toString();
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname);
+  };
+
+  const handleInfiniteScrollChange = (value: boolean) => {
+    setInfiniteScroll(value);
+    setNextCursor(null);
+    // Page numbers start over when switching back from infinite scroll
+    setPagination(prev => ({ ...prev, page: 1 }));
+  };
+
+  const handleViewModeChange = (mode: TaskView) => {
+    setViewMode(mode);
+    // The board has a column per status of the user's own workflow, so neither
+    // a status filter nor other users' tasks apply
+    setStatusFilter('ALL');
+    setScope('owned');
+    setPagination(prev => ({ ...prev, page: 1 }));
+
+    // Persist the view in the URL alongside the sort
+    const params = new URLSearchParams(searchParams?.toString());
+    if (mode === 'board') {
+      params.set('view', 'board');
+    } else {
+      params.delete('view');
+    }
+    const queryString = params.toString();
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname);
+  };
+
+  const handleTaskMove = async (task: Task, status: WorkflowStatus, orderedTaskIds: string[]) => {
+    const statusChanged = task.status !== status.key;
+
+    // Optimistic update: the column's tasks swap the positions they hold
+    const slots = orderedTaskIds
+      .map(id => tasks.find(t => t.id === id)!.position)
+      .sort((a, b) => a - b);
+
+    setTasks(prev => prev.map(t => {
+      const index = orderedTaskIds.indexOf(t.id);
+      if (index === -1) {
+        return t;
+      }
+
+      return {
+        ...t,
+        position: slots[index],
+        ...(t.id === task.id && {
+          status: status.key,
+          workflowStatus: { key: status.key, name: status.name, category: status.category, color: status.color }
+        })
+      };
+    }));
+
+    if (statusChanged) {
+      setBoardColumnTotals(prev => ({
+        ...prev,
+        [task.status]: (prev[task.status] ?? 1) - 1,
+        [status.key]: (prev[status.key] ?? 0) + 1
+      }));
+    }
+
+    try {
+      if (statusChanged) {
+        await apiClient.tasks.update(task.id, { status: status.key });
+      }
+
+      const reorderedTasks = await apiClient.tasks.reorder(orderedTaskIds);
+
+      // Update with actual server response
+      setTasks(prev => prev.map(t => reorderedTasks.find(r => r.id === t.id) ?? t));
+
+      // Completed counts per project may have changed
+      if (statusChanged && task.projectId) {
+        loadProjects();
+      }
+    } catch (error: any) {
+      console.error('Failed to move task:', error);
+
+      // Reload the board to undo the optimistic move
+      loadTasks();
+
+      showError('Move Failed',
+        error.response?.data?.error?.message || 'Failed to move task. Please try again.'
+      );
+    }
+  };
+
+  const handleTaskSelect = (taskId: string, selected: boolean) => {
+    setAllMatchingSelected(false);
+    setSelectedTaskIds(prev => selected
+      ? [...prev, taskId]
+      : prev.filter(id => id !== taskId)
+    );
+  };
+
+  const handleSelectAllShown = (selected: boolean) => {
+    setAllMatchingSelected(false);
+    setSelectedTaskIds(selected ? tasks.map(task => task.id) : []);
+  };
+
+  const handleClearSelection = () => {
+    setSelectedTaskIds([]);
+    setAllMatchingSelected(false);
+  };
+
+  const handleBulkAction = async (action: BulkTaskAction) => {
+    // Selecting every matching task sends the current filters rather than a list of ids
+    const request: BulkTaskRequest = allMatchingSelected
+      ? { ...action, filter: buildTaskQuery() }
+      : { ...action, taskIds: selectedTaskIds };
+
+    try {
+      setBulkWorking(true);
+
+      const result = await apiClient.tasks.bulk(request);
+
+      handleClearSelection();
+      loadTasks();
+      loadTags();
+      loadProjects();
+
+      const verb = action.action === 'delete' ? 'moved to the trash' : 'updated';
+      if (result.succeeded > 0) {
+        showSuccess('Tasks Updated', `${result.succeeded} task${result.succeeded !== 1 ? 's' : ''} ${verb}.`);
+      }
+
+      if (result.failed > 0) {
+        const firstError = result.results.find(item => !item.success)?.error;
+        showError('Some Tasks Were Skipped',
+          `${result.failed} task${result.failed !== 1 ? 's' : ''} could not be ${verb}${firstError ? `: ${firstError.message}` : '.'}`
+        );
+      }
+    } catch (error: any) {
+      console.error('Failed to run bulk action:', error);
+      showError('Bulk Update Failed',
+        error.response?.data?.error?.message || 'Failed to update the selected tasks. Please try again.'
+      );
+    } finally {
+      setBulkWorking(false);
+    }
+  };
+
+  // Tasks can be dragged into place when the list is in manual order. Positions
+  // belong to each owner, so only the user's own tasks can be reordered.
+  // Bulk changes and the manual order only apply to the user's own tasks
+  const isOwnTaskList = scope === 'owned' && !selectedWorkspaceId;
+  const isManualOrder = viewMode === 'list' && sort.sortBy === 'position' && isOwnTaskList;
+
+  const handleListDragOver = (e: React.DragEvent, index: number) => {
+    if (!draggingTaskId) {
+      return;
+    }
+
+    e.preventDefault();
+
+    // Dropping on the bottom half of a row lands after it
+    const rect = e.currentTarget.getBoundingClientRect();
+    setListDropIndex(e.clientY > rect.top + rect.height / 2 ? index + 1 : index);
+  };
+
+  const handleListDragEnd = () => {
+    setDraggingTaskId(null);
+    setListDropIndex(null);
+  };
+
+  const handleListDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+
+    const task = tasks.find(t => t.id === draggingTaskId);
+    const dropIndex = listDropIndex;
+    handleListDragEnd();
+
+    if (!task || dropIndex === null) {
+      return;
+    }
+
+    const currentIndex = tasks.indexOf(task);
+    const reordered = tasks.filter(t => t.id !== task.id);
+    const index = currentIndex < dropIndex ? dropIndex - 1 : dropIndex;
+
+    if (index === currentIndex) {
+      return;
+    }
+
+    reordered.splice(index, 0, task);
+
+    // Optimistic update: show the new order straight away
+    setTasks(reordered);
+
+    try {
+      const movedTask = await apiClient.tasks.move(task.id, {
+        afterId: reordered[index - 1]?.id,
+        beforeId: reordered[index + 1]?.id
+      });
+
+      setTasks(prev => prev.map(t => t.id === movedTask.id ? movedTask : t));
+    } catch (error: any) {
+      console.error('Failed to move task:', error);
+
+      // Reload the list to undo the optimistic move
+      loadTasks();
+
+      showError('Move Failed',
+        error.response?.data?.error?.message || 'Failed to move task. Please try again.'
+      );
+    }
+  };
+
   const handlePageChange = (newPage: number) => {
     setPagination(prev => ({ ...prev, page: newPage }));
   };
 
   const clearFilters = () => {
     setStatusFilter('ALL');
+    setPriorityFilter('ALL');
+    setOverdueOnly(false);
+    setSelectedTagIds([]);
+    setScope('owned');
     setSearchTerm('');
     setDebouncedSearchTerm('');
     setPagination(prev => ({ ...prev, page: 1 }));
@@ -145,6 +773,10 @@ export default function DashboardPage() {
       totalPages: Math.ceil((prev.total + 1) / prev.limit)
     }));
     
+    // Refresh tag and project task counts
+    loadTags();
+    loadProjects();
+
     // Show success notification
     showSuccess('Task Created', `"${newTask.title}" has been created successfully.`);
   };
@@ -159,38 +791,106 @@ export default function DashboardPage() {
   };
 
   const handleTaskUpdated = (updatedTask: Task) => {
+    const previousTask = tasks.find(task => task.id === updatedTask.id);
+
     // Optimistic update: immediately update the task in the list
     setTasks(prev => prev.map(task => 
       task.id === updatedTask.id ? updatedTask : task
     ));
     
+    // Refresh tag and project task counts
+    loadTags();
+    loadProjects();
+
+    // Completing a recurring task may have created its next occurrence
+    if (previousTask && isRecurringCompletion(previousTask, updatedTask)) {
+      loadTasks();
+      showSuccess('Task Completed', `"${updatedTask.title}" is done. The next occurrence of its series now appears in your list.`);
+      return;
+    }
+
     // Show success notification
     showSuccess('Task Updated', `"${updatedTask.title}" has been updated successfully.`);
   };
 
-  const handleToggleTask = async (task: Task) => {
-    // Optimistic update: immediately toggle the status
-    const optimisticTask = {
-      ...task,
-      status: task.status === TaskStatus.COMPLETED ? TaskStatus.PENDING : TaskStatus.COMPLETED,
-      updatedAt: new Date().toISOString()
-    };
-    
-    setTasks(prev => prev.map(t => 
-      t.id === task.id ? optimisticTask : t
+  const handleOpenWorkflow = () => {
+    // Refresh task counts before they are shown next to each status
+    loadStatuses();
+    setIsWorkflowModalOpen(true);
+  };
+
+  const handleStatusesChange = (updatedStatuses: WorkflowStatus[]) => {
+    setStatuses(updatedStatuses);
+
+    // Stop filtering by a status that was deleted
+    if (statusFilter !== 'ALL' && !updatedStatuses.some(status => status.key === statusFilter)) {
+      setStatusFilter('ALL');
+    }
+  };
+
+  const handleChecklistChange = (taskId: string, progress: ChecklistProgress) => {
+    // Keep the list's progress summary in sync with edits made in the detail view
+    setTasks(prev => prev.map(task =>
+      task.id === taskId ? { ...task, checklistProgress: progress } : task
     ));
+  };
+
+  const handleTaskSharingChange = (updatedTask: Task) => {
+    // Keep the list's assignee in sync with changes made in the detail view
+    setTasks(prev => prev.map(task =>
+      task.id === updatedTask.id ? updatedTask : task
+    ));
+  };
+
+  const handleTaskLeft = (task: Task) => {
+    setTasks(prev => prev.filter(t => t.id !== task.id));
+    showSuccess('Task Left', `"${task.title}" is no longer shared with you.`);
+  };
+
+  const handleToggleTask = async (task: Task, to?: ToggleTarget) => {
+    // Optimistic update: immediately move the task to the status it is toggled into.
+    // Tasks shared with the user follow their owner's workflow, so wait for those.
+    const nextStatus = task.access === 'OWNER' ? getToggleStatus(statuses, task, to) : undefined;
+    if (nextStatus) {
+      const optimisticTask: Task = {
+        ...task,
+        status: nextStatus.key,
+        workflowStatus: {
+          key: nextStatus.key,
+          name: nextStatus.name,
+          category: nextStatus.category,
+          color: nextStatus.color
+        },
+        updatedAt: new Date().toISOString()
+      };
+
+      setTasks(prev => prev.map(t =>
+        t.id === task.id ? optimisticTask : t
+      ));
+    }
 
     try {
-      const updatedTask = await apiClient.tasks.toggle(task.id);
+      const updatedTask = await apiClient.tasks.toggle(task.id, to);
       
       // Update with actual server response
       setTasks(prev => prev.map(t => 
         t.id === task.id ? updatedTask : t
       ));
+
+      // Completed counts per project have changed
+      if (updatedTask.projectId) {
+        loadProjects();
+      }
+
+      // Completing a recurring task may have created its next occurrence
+      if (isRecurringCompletion(task, updatedTask)) {
+        loadTasks();
+        showSuccess('Task Completed', `"${updatedTask.title}" is done. The next occurrence of its series now appears in your list.`);
+        return;
+      }
       
       // Show success notification
-      const statusText = updatedTask.status === TaskStatus.COMPLETED ? 'completed' : 'pending';
-      showSuccess('Task Updated', `"${updatedTask.title}" marked as ${statusText}.`);
+      showSuccess('Task Updated', `"${updatedTask.title}" moved to ${updatedTask.workflowStatus.name}.`);
     } catch (error: any) {
       console.error('Failed to toggle task:', error);
       
@@ -238,6 +938,11 @@ export default function DashboardPage() {
     }, 10000);
 
     setRecentlyDeleted({ task: deletedTask, timeoutId });
+
+    // Trashed tasks no longer count towards their project
+    if (deletedTask.projectId) {
+      loadProjects();
+    }
     
     // Show success notification with undo option
     showSuccess(
@@ -253,36 +958,42 @@ export default function DashboardPage() {
   };
 
   const handleUndoDelete = async (deletedTask: Task) => {
-    if (!recentlyDeleted) return;
-
     try {
       // Clear the undo timeout
-      clearTimeout(recentlyDeleted.timeoutId);
-      setRecentlyDeleted(null);
-
-      // Recreate the task
-      const recreatedTask = await apiClient.tasks.create({
-        title: deletedTask.title,
-        description: deletedTask.description
+      setRecentlyDeleted(prev => {
+        if (prev) {
+          clearTimeout(prev.timeoutId);
+        }
+        return null;
       });
 
-      // Add back to the list
-      setTasks(prev => [recreatedTask, ...prev]);
-      
-      // Update pagination total
-      setPagination(prev => ({ 
-        ...prev, 
-        total: prev.total + 1,
-        totalPages: Math.ceil((prev.total + 1) / prev.limit)
-      }));
-
-      showSuccess('Task Restored', `"${recreatedTask.title}" has been restored.`);
+      // Restore the original task from the trash
+      const restoredTask = await apiClient.tasks.restore(deletedTask.id);
+      handleTaskRestored(restoredTask);
     } catch (error: any) {
       console.error('Failed to restore task:', error);
-      showError('Restore Failed', 'Failed to restore the task. Please recreate it manually.');
+      showError('Restore Failed', 'Failed to restore the task. You can still restore it from the trash.');
     }
   };
 
+  const handleTaskRestored = (restoredTask: Task) => {
+    // Add back to the list
+    setTasks(prev => [restoredTask, ...prev.filter(task => task.id !== restoredTask.id)]);
+    
+    // Update pagination total
+    setPagination(prev => ({ 
+      ...prev, 
+      total: prev.total + 1,
+      totalPages: Math.ceil((prev.total + 1) / prev.limit)
+    }));
+
+    if (restoredTask.projectId) {
+      loadProjects();
+    }
+
+    showSuccess('Task Restored', `"${restoredTask.title}" has been restored.`);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -293,13 +1004,38 @@ export default function DashboardPage() {
     });
   };
 
-  const getStatusBadge = (status: TaskStatus) => {
+  const getPriorityBadge = (priority: TaskPriority) => {
     const baseClasses = "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium";
-    
-    if (status === TaskStatus.COMPLETED) {
-      return `${baseClasses} bg-green-100 text-green-800`;
+
+    switch (priority) {
+      case TaskPriority.URGENT:
+        return `${baseClasses} bg-red-100 text-red-800`;
+      case TaskPriority.HIGH:
+        return `${baseClasses} bg-orange-100 text-orange-800`;
+      case TaskPriority.LOW:
+        return `${baseClasses} bg-gray-100 text-gray-600`;
+      default:
+        return `${baseClasses} bg-blue-100 text-blue-800`;
     }
-    return `${baseClasses} bg-yellow-100 text-yellow-800`;
+  };
+
+  const hasActiveFilters = statusFilter !== 'ALL' || priorityFilter !== 'ALL' || overdueOnly ||
+    selectedTagIds.length > 0 || scope !== 'owned' || Boolean(debouncedSearchTerm.trim());
+
+  const getHighlight = (task: Task, field: TaskHighlight['field']) => {
+    return task.highlights?.find(highlight => highlight.field === field);
+  };
+
+  const getDueBadge = (task: Task) => {
+    const baseClasses = "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium";
+
+    if (isTaskOverdue(task)) {
+      return `${baseClasses} bg-red-100 text-red-800`;
+    }
+    if (isTaskDueToday(task)) {
+      return `${baseClasses} bg-orange-100 text-orange-800`;
+    }
+    return `${baseClasses} bg-gray-100 text-gray-700`;
   };
 
   if (isLoading) {
@@ -332,6 +1068,12 @@ export default function DashboardPage() {
               <span className="text-sm text-gray-700">
                 Welcome, {user?.name}
               </span>
+              <Link
+                href="/settings"
+                className="text-sm font-medium text-gray-700 hover:text-gray-900 transition-colors"
+              >
+                Settings
+              </Link>
               <button
                 onClick={handleLogout}
                 className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
@@ -343,6 +1085,8 @@ export default function DashboardPage() {
         </div>
       </nav>
 
+      <EmailVerificationBanner />
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="px-4 py-6 sm:px-0">
@@ -350,299 +1094,655 @@ export default function DashboardPage() {
           <div className="mb-8">
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
               <div>
-                <h2 className="text-2xl font-bold text-gray-900 mb-2">My Tasks</h2>
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">{selectedWorkspace?.name ?? 'My Tasks'}</h2>
                 <p className="text-gray-600">
-                  Manage your tasks efficiently. You have {pagination.total} task{pagination.total !== 1 ? 's' : ''} total.
+                  {infiniteScroll
+                    ? `Manage your tasks efficiently. Showing ${tasks.length} task${tasks.length !== 1 ? 's' : ''}.`
+                    : `Manage your tasks efficiently. You have ${pagination.total} task${pagination.total !== 1 ? 's' : ''} total.`}
                 </p>
               </div>
-              <div className="mt-4 sm:mt-0">
+              <div className="mt-4 sm:mt-0 flex items-center space-x-3">
                 <button
-                  onClick={handleCreateTask}
-                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                  onClick={handleOpenWorkflow}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                >
+                  Workflow
+                </button>
+                <button
+                  onClick={() => setIsTrashModalOpen(true)}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
                 >
                   <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                   </svg>
-                  Create Task
+                  Trash
                 </button>
+                {selectedWorkspace?.role !== 'VIEWER' && (
+                  <button
+                    onClick={handleCreateTask}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                  >
+                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                    </svg>
+                    Create Task
+                  </button>
+                )}
               </div>
             </div>
           </div>
 
-          {/* Task List Container */}
-          <div className="bg-white shadow rounded-lg">
-            {/* Filters and Search */}
-            <div className="px-6 py-4 border-b border-gray-200">
-              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-                <h3 className="text-lg font-medium text-gray-900">Task List</h3>
-                
-                <div className="flex flex-col sm:flex-row gap-3">
-                  {/* Search Input */}
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <svg className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-                      </svg>
-                    </div>
-                    <input
-                      type="text"
-                      placeholder="Search tasks..."
-                      value={searchTerm}
-                      onChange={(e) => handleSearchChange(e.target.value)}
-                      className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                    />
+          {/* Workspace Switcher */}
+          <WorkspaceSwitcher
+            workspaces={workspaces}
+            selectedWorkspaceId={selectedWorkspaceId}
+            onSelect={handleWorkspaceSelect}
+            onWorkspaceCreated={handleWorkspaceCreated}
+            onManage={() => setIsWorkspaceModalOpen(true)}
+          />
+
+          {/* Project Switcher */}
+          <ProjectSwitcher
+            projects={projects}
+            selectedProjectId={selectedProjectId}
+            onSelect={handleProjectSelect}
+            onProjectCreated={handleProjectCreated}
+            onProjectDeleted={handleProjectDeleted}
+          />
+
+          <div className="flex flex-col lg:flex-row gap-6">
+            {/* Tag Filter Sidebar */}
+            <TagSidebar
+              tags={tags}
+              selectedTagIds={selectedTagIds}
+              tagMode={tagMode}
+              onSelectionChange={handleTagSelectionChange}
+              onTagModeChange={handleTagModeChange}
+              onTagCreated={handleTagCreated}
+              onTagDeleted={handleTagDeleted}
+            />
+
+            {/* Task List Container */}
+            <div className="bg-white shadow rounded-lg flex-1 min-w-0">
+              {/* Filters and Search */}
+              <div className="px-6 py-4 border-b border-gray-200">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <h3 className="text-lg font-medium text-gray-900">{viewMode === 'board' ? 'Task Board' : 'Task List'}</h3>
+
+                    {/* View Toggle (workspaces have no board) */}
+                    {!selectedWorkspaceId && (
+                      <div className="inline-flex rounded-md shadow-sm" role="group" aria-label="Task view">
+                        {(['list', 'board'] as TaskView[]).map(mode => (
+                          <button
+                            key={mode}
+                            type="button"
+                            aria-pressed={viewMode === mode}
+                            onClick={() => handleViewModeChange(mode)}
+                            className={`px-3 py-1 text-sm font-medium border border-gray-300 first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+                              viewMode === mode ? 'bg-blue-50 text-blue-700' : 'bg-white text-gray-700 hover:bg-gray-50'
+                            }`}
+                          >
+                            {mode === 'board' ? 'Board' : 'List'}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
+                  
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    {/* Search Input */}
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <svg className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                        </svg>
+                      </div>
+                      <input
+                        type="text"
+                        placeholder="Search tasks..."
+                        value={searchTerm}
+                        onChange={(e) => handleSearchChange(e.target.value)}
+                        className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
 
-                  {/* Status Filter */}
-                  <select
-                    value={statusFilter}
-                    onChange={(e) => handleStatusFilterChange(e.target.value as TaskStatus | 'ALL')}
-                    className="block w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-                  >
-                    <option value="ALL">All Status</option>
-                    <option value={TaskStatus.PENDING}>Pending</option>
-                    <option value={TaskStatus.COMPLETED}>Completed</option>
-                  </select>
+                    {/* Scope Filter (the board and workspaces only show the tasks they hold) */}
+                    {viewMode === 'list' && !selectedWorkspaceId && (
+                      <select
+                        value={scope}
+                        onChange={(e) => handleScopeChange(e.target.value as TaskScope)}
+                        className="block w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                        aria-label="Whose tasks to show"
+                      >
+                        {(Object.keys(SCOPE_LABELS) as TaskScope[]).map(value => (
+                          <option key={value} value={value}>{SCOPE_LABELS[value]}</option>
+                        ))}
+                      </select>
+                    )}
+
+                    {/* Status Filter (the board shows every status as a column) */}
+                    {viewMode === 'list' && (
+                      <select
+                        value={statusFilter}
+                        onChange={(e) => handleStatusFilterChange(e.target.value)}
+                        className="block w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="ALL">All Status</option>
+                        {statuses.map(status => (
+                          <option key={status.id} value={status.key}>{status.name}</option>
+                        ))}
+                      </select>
+                    )}
 
-                  {/* Clear Filters Button */}
-                  {(statusFilter !== 'ALL' || searchTerm.trim()) && (
+                    {/* Priority Filter */}
+                    <select
+                      value={priorityFilter}
+                      onChange={(e) => handlePriorityFilterChange(e.target.value as TaskPriority | 'ALL')}
+                      className="block w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="ALL">All Priorities</option>
+                      <option value={TaskPriority.URGENT}>Urgent</option>
+                      <option value={TaskPriority.HIGH}>High</option>
+                      <option value={TaskPriority.MEDIUM}>Medium</option>
+                      <option value={TaskPriority.LOW}>Low</option>
+                    </select>
+
+                    {/* Overdue Filter */}
                     <button
-                      onClick={clearFilters}
-                      className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                      onClick={() => handleOverdueFilterChange(!overdueOnly)}
+                      className={`inline-flex items-center px-3 py-2 border rounded-md text-sm font-medium focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 ${
+                        overdueOnly
+                          ? 'border-red-300 bg-red-50 text-red-700 hover:bg-red-100'
+                          : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
                     >
-                      Clear Filters
+                      Overdue
                     </button>
-                  )}
-                </div>
-              </div>
 
-              {/* Active Filters Display */}
-              {(statusFilter !== 'ALL' || debouncedSearchTerm.trim()) && (
-                <div className="mt-3 flex flex-wrap gap-2">
-                  {statusFilter !== 'ALL' && (
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                      Status: {statusFilter.toLowerCase()}
+                    {/* Sort Order */}
+                    {viewMode === 'list' && (
+                      <select
+                        value={getSortKey(sort)}
+                        onChange={(e) => handleSortChange(e.target.value)}
+                        className="block w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {SORT_OPTIONS.map(option => (
+                          <option
+                            key={getSortKey(option)}
+                            value={getSortKey(option)}
+                            disabled={option.sortBy === 'relevance' && (!searchTerm.trim() || infiniteScroll)}
+                          >
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+
+                    {/* Infinite Scroll Toggle */}
+                    {viewMode === 'list' && (
                       <button
-                        onClick={() => handleStatusFilterChange('ALL')}
-                        className="ml-1.5 inline-flex items-center justify-center w-4 h-4 rounded-full text-blue-400 hover:bg-blue-200 hover:text-blue-600 focus:outline-none"
+                        type="button"
+                        aria-pressed={infiniteScroll}
+                        onClick={() => handleInfiniteScrollChange(!infiniteScroll)}
+                        className={`inline-flex items-center px-3 py-2 border rounded-md text-sm font-medium focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 ${
+                          infiniteScroll
+                            ? 'border-blue-300 bg-blue-50 text-blue-700 hover:bg-blue-100'
+                            : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                        }`}
                       >
-                        <svg className="w-2 h-2" fill="currentColor" viewBox="0 0 8 8">
-                          <path fillRule="evenodd" d="M5.354 4L8 6.646 6.646 8 4 5.354 1.354 8 0 6.646 2.646 4 0 1.354 1.354 0 4 2.646 6.646 0 8 1.354 5.354 4z" />
-                        </svg>
+                        Infinite scroll
                       </button>
-                    </span>
-                  )}
-                  {debouncedSearchTerm.trim() && (
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                      Search: "{debouncedSearchTerm}"
+                    )}
+
+                    {/* Clear Filters Button */}
+                    {(hasActiveFilters || searchTerm.trim()) && (
                       <button
-                        onClick={() => handleSearchChange('')}
-                        className="ml-1.5 inline-flex items-center justify-center w-4 h-4 rounded-full text-green-400 hover:bg-green-200 hover:text-green-600 focus:outline-none"
+                        onClick={clearFilters}
+                        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
                       >
-                        <svg className="w-2 h-2" fill="currentColor" viewBox="0 0 8 8">
-                          <path fillRule="evenodd" d="M5.354 4L8 6.646 6.646 8 4 5.354 1.354 8 0 6.646 2.646 4 0 1.354 1.354 0 4 2.646 6.646 0 8 1.354 5.354 4z" />
-                        </svg>
+                        Clear Filters
                       </button>
-                    </span>
-                  )}
+                    )}
+                  </div>
                 </div>
-              )}
-            </div>
 
-            {/* Loading State */}
-            {tasksLoading && (
-              <div className="px-6 py-12 text-center">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
-                <p className="mt-4 text-gray-600">Loading tasks...</p>
+                {/* Active Filters Display */}
+                {hasActiveFilters && (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {statusFilter !== 'ALL' && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        Status: {statuses.find(status => status.key === statusFilter)?.name ?? statusFilter.toLowerCase()}
+                        <button
+                          onClick={() => handleStatusFilterChange('ALL')}
+                          className="ml-1.5 inline-flex items-center justify-center w-4 h-4 rounded-full text-blue-400 hover:bg-blue-200 hover:text-blue-600 focus:outline-none"
+                        >
+                          <svg className="w-2 h-2" fill="currentColor" viewBox="0 0 8 8">
+                            <path fillRule="evenodd" d="M5.354 4L8 6.646 6.646 8 4 5.354 1.354 8 0 6.646 2.646 4 0 1.354 1.354 0 4 2.646 6.646 0 8 1.354 5.354 4z" />
+                          </svg>
+                        </button>
+                      </span>
+                    )}
+                    {priorityFilter !== 'ALL' && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                        Priority: {priorityFilter.toLowerCase()}
+                        <button
+                          onClick={() => handlePriorityFilterChange('ALL')}
+                          className="ml-1.5 inline-flex items-center justify-center w-4 h-4 rounded-full text-purple-400 hover:bg-purple-200 hover:text-purple-600 focus:outline-none"
+                        >
+                          <svg className="w-2 h-2" fill="currentColor" viewBox="0 0 8 8">
+                            <path fillRule="evenodd" d="M5.354 4L8 6.646 6.646 8 4 5.354 1.354 8 0 6.646 2.646 4 0 1.354 1.354 0 4 2.646 6.646 0 8 1.354 5.354 4z" />
+                          </svg>
+                        </button>
+                      </span>
+                    )}
+                    {overdueOnly && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                        Overdue only
+                        <button
+                          onClick={() => handleOverdueFilterChange(false)}
+                          className="ml-1.5 inline-flex items-center justify-center w-4 h-4 rounded-full text-red-400 hover:bg-red-200 hover:text-red-600 focus:outline-none"
+                        >
+                          <svg className="w-2 h-2" fill="currentColor" viewBox="0 0 8 8">
+                            <path fillRule="evenodd" d="M5.354 4L8 6.646 6.646 8 4 5.354 1.354 8 0 6.646 2.646 4 0 1.354 1.354 0 4 2.646 6.646 0 8 1.354 5.354 4z" />
+                          </svg>
+                        </button>
+                      </span>
+                    )}
+                    {scope !== 'owned' && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-800">
+                        {SCOPE_LABELS[scope]}
+                        <button
+                          onClick={() => handleScopeChange('owned')}
+                          className="ml-1.5 inline-flex items-center justify-center w-4 h-4 rounded-full text-teal-400 hover:bg-teal-200 hover:text-teal-600 focus:outline-none"
+                        >
+                          <svg className="w-2 h-2" fill="currentColor" viewBox="0 0 8 8">
+                            <path fillRule="evenodd" d="M5.354 4L8 6.646 6.646 8 4 5.354 1.354 8 0 6.646 2.646 4 0 1.354 1.354 0 4 2.646 6.646 0 8 1.354 5.354 4z" />
+                          </svg>
+                        </button>
+                      </span>
+                    )}
+                    {selectedTagIds.length > 0 && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                        Tags ({tagMode}): {tags.filter(tag => selectedTagIds.includes(tag.id)).map(tag => tag.name).join(', ')}
+                        <button
+                          onClick={() => handleTagSelectionChange([])}
+                          className="ml-1.5 inline-flex items-center justify-center w-4 h-4 rounded-full text-indigo-400 hover:bg-indigo-200 hover:text-indigo-600 focus:outline-none"
+                        >
+                          <svg className="w-2 h-2" fill="currentColor" viewBox="0 0 8 8">
+                            <path fillRule="evenodd" d="M5.354 4L8 6.646 6.646 8 4 5.354 1.354 8 0 6.646 2.646 4 0 1.354 1.354 0 4 2.646 6.646 0 8 1.354 5.354 4z" />
+                          </svg>
+                        </button>
+                      </span>
+                    )}
+                    {debouncedSearchTerm.trim() && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        Search: "{debouncedSearchTerm}"
+                        <button
+                          onClick={() => handleSearchChange('')}
+                          className="ml-1.5 inline-flex items-center justify-center w-4 h-4 rounded-full text-green-400 hover:bg-green-200 hover:text-green-600 focus:outline-none"
+                        >
+                          <svg className="w-2 h-2" fill="currentColor" viewBox="0 0 8 8">
+                            <path fillRule="evenodd" d="M5.354 4L8 6.646 6.646 8 4 5.354 1.354 8 0 6.646 2.646 4 0 1.354 1.354 0 4 2.646 6.646 0 8 1.354 5.354 4z" />
+                          </svg>
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
-            )}
-
-            {/* Error State */}
-            {tasksError && (
-              <div className="px-6 py-12 text-center">
-                <div className="bg-red-50 border border-red-200 rounded-md p-4 max-w-md mx-auto">
-                  <div className="flex">
-                    <div className="flex-shrink-0">
-                      <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
-                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                      </svg>
+
+              {/* Loading State */}
+              {tasksLoading && (
+                <div className="px-6 py-12 text-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                  <p className="mt-4 text-gray-600">Loading tasks...</p>
+                </div>
+              )}
+
+              {/* Error State */}
+              {tasksError && (
+                <div className="px-6 py-12 text-center">
+                  <div className="bg-red-50 border border-red-200 rounded-md p-4 max-w-md mx-auto">
+                    <div className="flex">
+                      <div className="flex-shrink-0">
+                        <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
+                          <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                        </svg>
+                      </div>
+                      <div className="ml-3">
+                        <h3 className="text-sm font-medium text-red-800">Error loading tasks</h3>
+                        <p className="mt-1 text-sm text-red-700">{tasksError.message}</p>
+                        <button
+                          onClick={loadTasks}
+                          className="mt-2 text-sm text-red-800 hover:text-red-900 font-medium"
+                        >
+                          Try again
+                        </button>
+                      </div>
                     </div>
-                    <div className="ml-3">
-                      <h3 className="text-sm font-medium text-red-800">Error loading tasks</h3>
-                      <p className="mt-1 text-sm text-red-700">{tasksError.message}</p>
+                  </div>
+                </div>
+              )}
+
+              {/* Task Board */}
+              {viewMode === 'board' && !tasksLoading && !tasksError && (
+                <TaskBoard
+                  statuses={statuses}
+                  tasks={tasks}
+                  columnTotals={boardColumnTotals}
+                  onTaskClick={handleViewTask}
+                  onTaskMove={handleTaskMove}
+                />
+              )}
+
+              {/* Empty State */}
+              {viewMode === 'list' && !tasksLoading && !tasksError && tasks.length === 0 && (
+                <div className="px-6 py-12 text-center">
+                  <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+                  </svg>
+                  {hasActiveFilters ? (
+                    <>
+                      <h3 className="mt-2 text-sm font-medium text-gray-900">No matching tasks</h3>
+                      <p className="mt-1 text-sm text-gray-500">
+                        No tasks found matching your current filters. Try adjusting your search or filter criteria.
+                      </p>
                       <button
-                        onClick={loadTasks}
-                        className="mt-2 text-sm text-red-800 hover:text-red-900 font-medium"
+                        onClick={clearFilters}
+                        className="mt-3 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                       >
-                        Try again
+                        Clear all filters
                       </button>
-                    </div>
-                  </div>
+                    </>
+                  ) : (
+                    <>
+                      <h3 className="mt-2 text-sm font-medium text-gray-900">No tasks</h3>
+                      <p className="mt-1 text-sm text-gray-500">Get started by creating your first task.</p>
+                    </>
+                  )}
                 </div>
-              </div>
-            )}
-
-            {/* Empty State */}
-            {!tasksLoading && !tasksError && tasks.length === 0 && (
-              <div className="px-6 py-12 text-center">
-                <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
-                </svg>
-                {(statusFilter !== 'ALL' || debouncedSearchTerm.trim()) ? (
-                  <>
-                    <h3 className="mt-2 text-sm font-medium text-gray-900">No matching tasks</h3>
-                    <p className="mt-1 text-sm text-gray-500">
-                      No tasks found matching your current filters. Try adjusting your search or filter criteria.
-                    </p>
-                    <button
-                      onClick={clearFilters}
-                      className="mt-3 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                    >
-                      Clear all filters
-                    </button>
-                  </>
+              )}
+
+              {/* Task List (bulk changes only apply to the user's own tasks) */}
+              {viewMode === 'list' && isOwnTaskList && !tasksLoading && !tasksError && tasks.length > 0 && (
+                selectedTaskIds.length > 0 ? (
+                  <TaskBulkActionBar
+                    selectedCount={selectedTaskIds.length}
+                    matchingCount={infiniteScroll ? undefined : pagination.total}
+                    allMatchingSelected={allMatchingSelected}
+                    onSelectAllMatching={() => setAllMatchingSelected(true)}
+                    onClear={handleClearSelection}
+                    onAction={handleBulkAction}
+                    statuses={statuses}
+                    tags={tags}
+                    projects={projects}
+                    disabled={bulkWorking}
+                  />
                 ) : (
-                  <>
-                    <h3 className="mt-2 text-sm font-medium text-gray-900">No tasks</h3>
-                    <p className="mt-1 text-sm text-gray-500">Get started by creating your first task.</p>
-                  </>
-                )}
-              </div>
-            )}
-
-            {/* Task List */}
-            {!tasksLoading && !tasksError && tasks.length > 0 && (
-              <div className="divide-y divide-gray-200">
-                {tasks.map((task) => (
-                  <div key={task.id} className="px-6 py-4 hover:bg-gray-50 transition-colors">
-                    <div className="flex items-center justify-between">
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center space-x-3">
-                          {/* Status Toggle Button */}
-                          <button
-                            onClick={() => handleToggleTask(task)}
-                            className={`flex-shrink-0 w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${
-                              task.status === TaskStatus.COMPLETED
-                                ? 'bg-green-500 border-green-500 text-white hover:bg-green-600'
-                                : 'border-gray-300 hover:border-gray-400'
-                            }`}
-                            title={task.status === TaskStatus.COMPLETED ? 'Mark as pending' : 'Mark as completed'}
-                          >
-                            {task.status === TaskStatus.COMPLETED && (
-                              <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
-                                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                              </svg>
+                  <div className="flex items-center px-6 py-2 border-b border-gray-200 bg-gray-50">
+                    <label className="flex items-center text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={false}
+                        onChange={(e) => handleSelectAllShown(e.target.checked)}
+                        className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      Select all shown
+                    </label>
+                  </div>
+                )
+              )}
+              {viewMode === 'list' && !tasksLoading && !tasksError && tasks.length > 0 && (
+                <div className="divide-y divide-gray-200" onDrop={handleListDrop}>
+                  {tasks.map((task, index) => (
+                    <div
+                      key={task.id}
+                      onDragOver={(e) => handleListDragOver(e, index)}
+                      className={`relative px-6 py-4 hover:bg-gray-50 transition-colors ${
+                        draggingTaskId === task.id ? 'opacity-50' : ''
+                      } ${
+                        listDropIndex === index ? 'border-t-2 border-t-blue-500' : ''
+                      } ${
+                        listDropIndex === index + 1 && index === tasks.length - 1 ? 'border-b-2 border-b-blue-500' : ''
+                      }`}
+                    >
+                      {/* Drag Handle */}
+                      {isManualOrder && (
+                        <span
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            e.dataTransfer.setData('text/plain', task.id);
+                            setDraggingTaskId(task.id);
+                          }}
+                          onDragEnd={handleListDragEnd}
+                          className="absolute left-1 top-1/2 -translate-y-1/2 px-1 text-gray-300 hover:text-gray-500 cursor-grab select-none"
+                          title="Drag to reorder"
+                          aria-label={`Drag to reorder "${task.title}"`}
+                        >
+                          ⠿
+                        </span>
+                      )}
+                      <div className="flex items-center justify-between">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center space-x-3">
+                            {/* Bulk Selection */}
+                            {isOwnTaskList && (
+                              <input
+                                type="checkbox"
+                                checked={allMatchingSelected || selectedTaskIds.includes(task.id)}
+                                onChange={(e) => handleTaskSelect(task.id, e.target.checked)}
+                                className="flex-shrink-0 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                                aria-label={`Select "${task.title}"`}
+                              />
                             )}
-                          </button>
-                          
-                          <button
-                            onClick={() => handleViewTask(task)}
-                            className={`text-sm font-medium truncate text-left hover:underline focus:outline-none ${
-                              task.status === TaskStatus.COMPLETED 
-                                ? 'text-gray-500 line-through' 
-                                : 'text-gray-900'
-                            }`}
-                          >
-                            {task.title}
-                          </button>
-                          <span className={getStatusBadge(task.status)}>
-                            {task.status.toLowerCase()}
-                          </span>
+
+                            {/* Status Toggle Button */}
+                            <button
+                              onClick={() => handleToggleTask(task, 'done')}
+                              disabled={task.access === 'VIEWER'}
+                              className={`flex-shrink-0 disabled:cursor-not-allowed w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${
+                                isTaskDone(task)
+                                  ? 'bg-green-500 border-green-500 text-white hover:bg-green-600'
+                                  : 'border-gray-300 hover:border-gray-400'
+                              }`}
+                              title={isTaskDone(task) ? 'Reopen task' : 'Mark as done'}
+                            >
+                              {isTaskDone(task) && (
+                                <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+                                  <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                                </svg>
+                              )}
+                            </button>
+                            
+                            <button
+                              onClick={() => handleViewTask(task)}
+                              className={`text-sm font-medium truncate text-left hover:underline focus:outline-none ${
+                                isTaskDone(task)
+                                  ? 'text-gray-500 line-through' 
+                                  : 'text-gray-900'
+                              }`}
+                            >
+                              {getHighlight(task, 'title')
+                                ? <HighlightedText highlight={getHighlight(task, 'title')!} />
+                                : task.title}
+                            </button>
+                            <StatusBadge status={task.workflowStatus} />
+                            <span className={getPriorityBadge(task.priority)}>
+                              {task.priority.toLowerCase()}
+                            </span>
+                            {task.dueAt && (
+                              <span className={getDueBadge(task)} title={formatDate(task.dueAt)}>
+                                {isTaskOverdue(task) ? 'Overdue' : 'Due'} {formatDate(task.dueAt)}
+                              </span>
+                            )}
+                            {task.recurrence && !task.recurrence.stoppedAt && (
+                              <span
+                                className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800"
+                                title={describeRecurrence(task.recurrence.rule)}
+                              >
+                                ↻ {describeRecurrence(task.recurrence.rule)}
+                              </span>
+                            )}
+                            {task.checklistProgress.total > 0 && (
+                              <span
+                                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                                  task.checklistProgress.completed === task.checklistProgress.total
+                                    ? 'bg-green-100 text-green-800'
+                                    : 'bg-gray-100 text-gray-700'
+                                }`}
+                                title="Checklist progress"
+                              >
+                                ☑ {task.checklistProgress.completed}/{task.checklistProgress.total}
+                              </span>
+                            )}
+                          </div>
+                          {task.description && (
+                            <p className={`mt-1 text-sm truncate ml-8 ${
+                              isTaskDone(task)
+                                ? 'text-gray-400' 
+                                : 'text-gray-600'
+                            }`}>
+                              {getHighlight(task, 'description')
+                                ? <HighlightedText highlight={getHighlight(task, 'description')!} />
+                                : task.description}
+                            </p>
+                          )}
+                          {task.tags && task.tags.length > 0 && (
+                            <div className="mt-1 ml-8 flex flex-wrap gap-1">
+                              {task.tags.map(tag => (
+                                <TagChip
+                                  key={tag.id}
+                                  tag={tag}
+                                  selected={selectedTagIds.includes(tag.id)}
+                                  onClick={() => handleTagSelectionChange(
+                                    selectedTagIds.includes(tag.id) ? selectedTagIds : [...selectedTagIds, tag.id]
+                                  )}
+                                />
+                              ))}
+                            </div>
+                          )}
+                          <div className="mt-2 flex items-center text-xs text-gray-500 space-x-4 ml-8">
+                            {task.project && selectedProjectId !== task.project.id && (
+                              <ProjectBadge project={task.project} />
+                            )}
+                            {task.workspace && !selectedWorkspaceId && (
+                              <span>Workspace: {task.workspace.name}</span>
+                            )}
+                            {task.access !== 'OWNER' && (
+                              <span>Owner: {task.owner.name}</span>
+                            )}
+                            {task.assignee && (
+                              <span>Assignee: {task.assignee.name}</span>
+                            )}
+                            <span>Created: {formatDate(task.createdAt)}</span>
+                            {task.updatedAt !== task.createdAt && (
+                              <span>Updated: {formatDate(task.updatedAt)}</span>
+                            )}
+                          </div>
                         </div>
-                        {task.description && (
-                          <p className={`mt-1 text-sm truncate ml-8 ${
-                            task.status === TaskStatus.COMPLETED 
-                              ? 'text-gray-400' 
-                              : 'text-gray-600'
-                          }`}>
-                            {task.description}
-                          </p>
-                        )}
-                        <div className="mt-2 flex items-center text-xs text-gray-500 space-x-4 ml-8">
-                          <span>Created: {formatDate(task.createdAt)}</span>
-                          {task.updatedAt !== task.createdAt && (
-                            <span>Updated: {formatDate(task.updatedAt)}</span>
+                        <div className="flex items-center space-x-2">
+                          {task.access !== 'VIEWER' && (
+                            <button 
+                              onClick={() => handleEditTask(task)}
+                              className="text-blue-600 hover:text-blue-900 text-sm font-medium"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {task.access === 'OWNER' && (
+                            <button 
+                              onClick={() => handleDeleteTask(task)}
+                              className="text-red-600 hover:text-red-900 text-sm font-medium"
+                            >
+                              Delete
+                            </button>
                           )}
                         </div>
                       </div>
-                      <div className="flex items-center space-x-2">
-                        <button 
-                          onClick={() => handleEditTask(task)}
-                          className="text-blue-600 hover:text-blue-900 text-sm font-medium"
-                        >
-                          Edit
-                        </button>
-                        <button 
-                          onClick={() => handleDeleteTask(task)}
-                          className="text-red-600 hover:text-red-900 text-sm font-medium"
-                        >
-                          Delete
-                        </button>
-                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
-            )}
-
-            {/* Pagination */}
-            {!tasksLoading && !tasksError && pagination.totalPages > 1 && (
-              <div className="px-6 py-4 border-t border-gray-200">
-                <div className="flex items-center justify-between">
-                  <div className="text-sm text-gray-700">
-                    Showing page {pagination.page} of {pagination.totalPages} 
-                    ({pagination.total} total tasks)
-                  </div>
-                  <div className="flex items-center space-x-2">
+                  ))}
+                </div>
+              )}
+
+              {/* Infinite Scroll */}
+              {viewMode === 'list' && infiniteScroll && !tasksLoading && !tasksError && tasks.length > 0 && (
+                <div ref={loadMoreRef} className="px-6 py-4 border-t border-gray-200 text-center">
+                  {loadingMore ? (
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+                  ) : nextCursor ? (
                     <button
-                      onClick={() => handlePageChange(pagination.page - 1)}
-                      disabled={pagination.page <= 1}
-                      className="px-3 py-1 text-sm border border-gray-300 rounded-md disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                      onClick={loadMoreTasks}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
                     >
-                      Previous
+                      Load more
                     </button>
-                    
-                    {/* Page Numbers */}
-                    <div className="flex space-x-1">
-                      {Array.from({ length: Math.min(5, pagination.totalPages) }, (_, i) => {
-                        let pageNum;
-                        if (pagination.totalPages <= 5) {
-                          pageNum = i + 1;
-                        } else if (pagination.page <= 3) {
-                          pageNum = i + 1;
-                        } else if (pagination.page >= pagination.totalPages - 2) {
-                          pageNum = pagination.totalPages - 4 + i;
-                        } else {
-                          pageNum = pagination.page - 2 + i;
-                        }
-                        
-                        return (
-                          <button
-                            key={pageNum}
-                            onClick={() => handlePageChange(pageNum)}
-                            className={`px-3 py-1 text-sm border rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 ${
-                              pageNum === pagination.page
-                                ? 'bg-blue-600 text-white border-blue-600'
-                                : 'border-gray-300 hover:bg-gray-50'
-                            }`}
-                          >
-                            {pageNum}
-                          </button>
-                        );
-                      })}
+                  ) : (
+                    <p className="text-sm text-gray-500">You have reached the end of your tasks.</p>
+                  )}
+                </div>
+              )}
+
+              {/* Pagination */}
+              {viewMode === 'list' && !infiniteScroll && !tasksLoading && !tasksError && pagination.totalPages > 1 && (
+                <div className="px-6 py-4 border-t border-gray-200">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm text-gray-700">
+                      Showing page {pagination.page} of {pagination.totalPages} 
+                      ({pagination.total} total tasks)
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handlePageChange(pagination.page - 1)}
+                        disabled={pagination.page <= 1}
+                        className="px-3 py-1 text-sm border border-gray-300 rounded-md disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        Previous
+                      </button>
+                      
+                      {/* Page Numbers */}
+                      <div className="flex space-x-1">
+                        {Array.from({ length: Math.min(5, pagination.totalPages) }, (_, i) => {
+                          let pageNum;
+                          if (pagination.totalPages <= 5) {
+                            pageNum = i + 1;
+                          } else if (pagination.page <= 3) {
+                            pageNum = i + 1;
+                          } else if (pagination.page >= pagination.totalPages - 2) {
+                            pageNum = pagination.totalPages - 4 + i;
+                          } else {
+                            pageNum = pagination.page - 2 + i;
+                          }
+                          
+                          return (
+                            <button
+                              key={pageNum}
+                              onClick={() => handlePageChange(pageNum)}
+                              className={`px-3 py-1 text-sm border rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 ${
+                                pageNum === pagination.page
+                                  ? 'bg-blue-600 text-white border-blue-600'
+                                  : 'border-gray-300 hover:bg-gray-50'
+                              }`}
+                            >
+                              {pageNum}
+                            </button>
+                          );
+                        })}
+                      </div>
+                      
+                      <button
+                        onClick={() => handlePageChange(pagination.page + 1)}
+                        disabled={pagination.page >= pagination.totalPages}
+                        className="px-3 py-1 text-sm border border-gray-300 rounded-md disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        Next
+                      </button>
                     </div>
-                    
-                    <button
-                      onClick={() => handlePageChange(pagination.page + 1)}
-                      disabled={pagination.page >= pagination.totalPages}
-                      className="px-3 py-1 text-sm border border-gray-300 rounded-md disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-                    >
-                      Next
-                    </button>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
+            </div>
           </div>
         </div>
       </main>
@@ -652,6 +1752,10 @@ export default function DashboardPage() {
         isOpen={isCreateModalOpen}
         onClose={() => setIsCreateModalOpen(false)}
         onTaskCreated={handleTaskCreated}
+        tags={tags}
+        projects={projects}
+        defaultProjectId={selectedProjectId && selectedProjectId !== 'none' ? selectedProjectId : undefined}
+        workspaceId={selectedWorkspaceId ?? undefined}
       />
 
       {/* Task Edit Modal */}
@@ -663,6 +1767,9 @@ export default function DashboardPage() {
           setEditingTask(null);
         }}
         onTaskUpdated={handleTaskUpdated}
+        tags={tags}
+        projects={projects}
+        statuses={statuses}
       />
 
       {/* Task Delete Modal */}
@@ -687,8 +1794,38 @@ export default function DashboardPage() {
         onEdit={handleEditTask}
         onDelete={handleDeleteTask}
         onToggle={handleToggleTask}
+        onChecklistChange={handleChecklistChange}
+        onTaskChange={handleTaskSharingChange}
+        onLeave={handleTaskLeft}
+        statuses={statuses}
+      />
+
+      {/* Task Trash Modal */}
+      <TaskTrashModal
+        isOpen={isTrashModalOpen}
+        onClose={() => setIsTrashModalOpen(false)}
+        onTaskRestored={handleTaskRestored}
       />
 
+      {/* Workflow Settings Modal */}
+      <WorkflowSettingsModal
+        isOpen={isWorkflowModalOpen}
+        statuses={statuses}
+        onClose={() => setIsWorkflowModalOpen(false)}
+        onStatusesChange={handleStatusesChange}
+      />
+
+      {/* Workspace Settings Modal */}
+      {selectedWorkspace && (
+        <WorkspaceSettingsModal
+          isOpen={isWorkspaceModalOpen}
+          workspace={selectedWorkspace}
+          onClose={() => setIsWorkspaceModalOpen(false)}
+          onWorkspaceChange={handleWorkspaceChange}
+          onWorkspaceRemoved={handleWorkspaceRemoved}
+        />
+      )}
+
       {/* Toast Notifications */}
       <ToastContainer toasts={toasts} onRemove={removeToast} />
     </div>
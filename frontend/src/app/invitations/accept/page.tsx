@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiClient } from '@/lib/api';
+import EmailVerificationBanner from '@/components/EmailVerificationBanner';
+
+export default function AcceptInvitationPage() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams?.get('token') ?? '';
+  const [error, setError] = useState<string | null>(null);
+
+  // Join the workspace as soon as the user is signed in
+  useEffect(() => {
+    if (isLoading || !isAuthenticated || !token) {
+      return;
+    }
+
+    const acceptInvitation = async () => {
+      try {
+        const workspace = await apiClient.workspaces.acceptInvitation(token);
+        router.replace(`/dashboard?workspace=${workspace.id}`);
+      } catch (error: any) {
+        console.error('Failed to accept invitation:', error);
+        setError(error.response?.data?.error?.message || 'Failed to accept the invitation.');
+      }
+    };
+
+    acceptInvitation();
+  }, [isLoading, isAuthenticated, token, router]);
+
+  const message = !token
+    ? 'This invitation link is incomplete.'
+    : error ?? (isAuthenticated ? null : 'Sign in with the email address the invitation was sent to, then open the link again.');
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      {/* Invitations can only be accepted with a verified email address */}
+      <EmailVerificationBanner />
+      <div className="flex-1 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Workspace invitation</h2>
+          {isLoading || !message ? (
+            <>
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-4 text-gray-600">Joining workspace...</p>
+            </>
+          ) : (
+            <>
+              <p className={`text-sm ${error ? 'text-red-600' : 'text-gray-600'}`}>{message}</p>
+              <Link
+                href={isAuthenticated ? '/dashboard' : '/login'}
+                className="mt-6 inline-block bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-md transition-colors"
+              >
+                {isAuthenticated ? 'Go to dashboard' : 'Sign In'}
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
 import { LoginRequest } from '@/types';
@@ -17,6 +17,11 @@ export default function LoginPage() {
   
   const { login, isLoading } = useAuth();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  // Set after a password reset, which signs the user out everywhere
+  const passwordWasReset = searchParams?.get('reset') === '1';
+  // Set when the server signed the session out after detecting refresh token reuse
+  const sessionWasRevoked = searchParams?.get('revoked') === '1';
 
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
@@ -119,6 +124,20 @@ export default function LoginPage() {
         </div>
         
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {passwordWasReset && !errors.general && (
+            <div className="rounded-md bg-green-50 p-4">
+              <div className="text-sm text-green-700">Your password has been reset. Sign in with your new password.</div>
+            </div>
+          )}
+
+          {sessionWasRevoked && !errors.general && (
+            <div className="rounded-md bg-yellow-50 p-4">
+              <div className="text-sm text-yellow-800">
+                You were signed out because your session was used from somewhere else. Sign in again, and change your password if this wasn&apos;t you.
+              </div>
+            </div>
+          )}
+
           {errors.general && (
             <div className="rounded-md bg-red-50 p-4">
               <div className="text-sm text-red-700">{errors.general}</div>
@@ -160,6 +179,14 @@ export default function LoginPage() {
                 required
                 error={errors.password}
               />
+              <div className="mt-2 text-right">
+                <Link
+                  href="/forgot-password"
+                  className="text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors"
+                >
+                  Forgot your password?
+                </Link>
+              </div>
             </div>
           </div>
 
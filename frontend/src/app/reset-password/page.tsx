@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { apiClient } from '@/lib/api';
+import { getPasswordError, PASSWORD_HELPER_TEXT } from '@/lib/passwords';
+import PasswordInput from '@/components/PasswordInput';
+
+export default function ResetPasswordPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams?.get('token') ?? '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    const passwordError = getPasswordError(password);
+    if (passwordError) {
+      newErrors.password = passwordError;
+    }
+
+    if (!confirmPassword) {
+      newErrors.confirmPassword = 'Please confirm your password';
+    } else if (password !== confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors({});
+
+    try {
+      await apiClient.auth.resetPassword({ token, password });
+      router.push('/login?reset=1');
+    } catch (error: any) {
+      console.error('Reset password error:', error);
+      setErrors({ general: error.response?.data?.error?.message || 'An error occurred. Please try again.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Choose a new password
+          </h2>
+        </div>
+
+        {!token ? (
+          <div className="rounded-md bg-red-50 p-4">
+            <p className="text-sm text-red-700">
+              This reset link is incomplete.{' '}
+              <Link href="/forgot-password" className="font-medium underline">
+                Request a new one
+              </Link>
+            </p>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            {errors.general && (
+              <div className="rounded-md bg-red-50 p-4">
+                <div className="text-sm text-red-700">
+                  {errors.general}{' '}
+                  <Link href="/forgot-password" className="font-medium underline">
+                    Request a new link
+                  </Link>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <PasswordInput
+                id="password"
+                name="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                label="New password"
+                placeholder="Create a password"
+                autoComplete="new-password"
+                required
+                error={errors.password}
+                helperText={PASSWORD_HELPER_TEXT}
+              />
+              <PasswordInput
+                id="confirmPassword"
+                name="confirmPassword"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                label="Confirm new password"
+                placeholder="Confirm your password"
+                autoComplete="new-password"
+                required
+                error={errors.confirmPassword}
+              />
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className={`group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white ${
+                  isSubmitting
+                    ? 'bg-gray-400 cursor-not-allowed'
+                    : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+                } transition-colors`}
+              >
+                {isSubmitting ? 'Saving...' : 'Set new password'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
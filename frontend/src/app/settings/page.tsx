@@ -0,0 +1,307 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiClient } from '@/lib/api';
+import { getPasswordError, PASSWORD_HELPER_TEXT } from '@/lib/passwords';
+import PasswordInput from '@/components/PasswordInput';
+
+const EMPTY_PASSWORDS = {
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: ''
+};
+
+export default function SettingsPage() {
+  const { user, isLoading, isAuthenticated, updateProfile } = useAuth();
+  const router = useRouter();
+
+  const [profile, setProfile] = useState({ name: '', email: '' });
+  const [profileErrors, setProfileErrors] = useState<Record<string, string>>({});
+  const [profileSaved, setProfileSaved] = useState<string | null>(null);
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+
+  const [passwords, setPasswords] = useState(EMPTY_PASSWORDS);
+  const [passwordErrors, setPasswordErrors] = useState<Record<string, string>>({});
+  const [passwordChanged, setPasswordChanged] = useState(false);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isLoading, isAuthenticated, router]);
+
+  useEffect(() => {
+    if (user) {
+      setProfile({ name: user.name, email: user.email });
+    }
+  }, [user]);
+
+  // Turn the API's field errors into one message per field
+  const getFieldErrors = (error: any): Record<string, string> | null => {
+    const details = error.response?.data?.error?.details;
+    if (!details) {
+      return null;
+    }
+
+    const fieldErrors: Record<string, string> = {};
+    Object.entries(details).forEach(([field, messages]) => {
+      if (Array.isArray(messages) && messages.length > 0) {
+        fieldErrors[field] = messages[0];
+      }
+    });
+    return fieldErrors;
+  };
+
+  const handleProfileSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: Record<string, string> = {};
+    if (!profile.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    if (!/\S+@\S+\.\S+/.test(profile.email)) {
+      newErrors.email = 'Please enter a valid email address';
+    }
+    setProfileErrors(newErrors);
+    setProfileSaved(null);
+
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    setIsSavingProfile(true);
+
+    try {
+      const email = profile.email.trim();
+      await updateProfile({ name: profile.name.trim(), email });
+      setProfileSaved(email !== user?.email
+        ? `Your profile has been updated. We sent a link to ${email} to verify it.`
+        : 'Your profile has been updated.');
+    } catch (error: any) {
+      console.error('Failed to update profile:', error);
+      setProfileErrors(getFieldErrors(error) ?? {
+        general: error.response?.data?.error?.message || 'Failed to update profile.'
+      });
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: Record<string, string> = {};
+    if (!passwords.currentPassword) {
+      newErrors.currentPassword = 'Current password is required';
+    }
+    const newPasswordError = getPasswordError(passwords.newPassword);
+    if (newPasswordError) {
+      newErrors.newPassword = newPasswordError;
+    } else if (passwords.newPassword === passwords.currentPassword) {
+      newErrors.newPassword = 'New password must be different from the current password';
+    }
+    if (passwords.newPassword !== passwords.confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+    setPasswordErrors(newErrors);
+    setPasswordChanged(false);
+
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    setIsChangingPassword(true);
+
+    try {
+      await apiClient.auth.changePassword({
+        currentPassword: passwords.currentPassword,
+        newPassword: passwords.newPassword
+      });
+      setPasswords(EMPTY_PASSWORDS);
+      setPasswordChanged(true);
+    } catch (error: any) {
+      console.error('Failed to change password:', error);
+      if (error.response?.data?.error?.code === 'INVALID_PASSWORD') {
+        setPasswordErrors({ currentPassword: error.response.data.error.message });
+      } else {
+        setPasswordErrors(getFieldErrors(error) ?? {
+          general: error.response?.data?.error?.message || 'Failed to change password.'
+        });
+      }
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setPasswords(prev => ({ ...prev, [name]: value }));
+
+    // Clear error when user starts typing
+    if (passwordErrors[name]) {
+      setPasswordErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null; // Will redirect to login
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-2xl mx-auto py-10 px-4 sm:px-6 lg:px-8 space-y-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+          <Link href="/dashboard" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+            Back to dashboard
+          </Link>
+        </div>
+
+        {/* Profile */}
+        <section className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Profile</h2>
+          <form onSubmit={handleProfileSubmit} className="space-y-4">
+            {profileErrors.general && (
+              <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{profileErrors.general}</div>
+            )}
+            {profileSaved && (
+              <div className="rounded-md bg-green-50 p-3 text-sm text-green-700">{profileSaved}</div>
+            )}
+
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                id="name"
+                type="text"
+                value={profile.name}
+                onChange={(e) => setProfile(prev => ({ ...prev, name: e.target.value }))}
+                maxLength={100}
+                autoComplete="name"
+                className={`mt-1 block w-full px-3 py-2 border ${
+                  profileErrors.name ? 'border-red-300' : 'border-gray-300'
+                } rounded-md text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm`}
+              />
+              {profileErrors.name && <p className="mt-1 text-sm text-red-600">{profileErrors.name}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">Email address</label>
+              <input
+                id="email"
+                type="email"
+                value={profile.email}
+                onChange={(e) => setProfile(prev => ({ ...prev, email: e.target.value }))}
+                autoComplete="email"
+                className={`mt-1 block w-full px-3 py-2 border ${
+                  profileErrors.email ? 'border-red-300' : 'border-gray-300'
+                } rounded-md text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm`}
+              />
+              {profileErrors.email && <p className="mt-1 text-sm text-red-600">{profileErrors.email}</p>}
+              {!profileErrors.email && !user?.emailVerifiedAt && (
+                <p className="mt-1 text-sm text-yellow-700">This email address has not been verified yet.</p>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSavingProfile}
+                className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSavingProfile ? 'Saving...' : 'Save profile'}
+              </button>
+            </div>
+          </form>
+        </section>
+
+        {/* Password */}
+        <section className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-1">Change password</h2>
+          <p className="text-sm text-gray-500 mb-4">Changing your password signs you out on every other device.</p>
+          <form onSubmit={handlePasswordSubmit} className="space-y-4">
+            {passwordErrors.general && (
+              <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{passwordErrors.general}</div>
+            )}
+            {passwordChanged && (
+              <div className="rounded-md bg-green-50 p-3 text-sm text-green-700">Your password has been changed.</div>
+            )}
+
+            <PasswordInput
+              id="currentPassword"
+              name="currentPassword"
+              value={passwords.currentPassword}
+              onChange={handlePasswordChange}
+              label="Current password"
+              placeholder="Enter your current password"
+              autoComplete="current-password"
+              required
+              error={passwordErrors.currentPassword}
+            />
+            <PasswordInput
+              id="newPassword"
+              name="newPassword"
+              value={passwords.newPassword}
+              onChange={handlePasswordChange}
+              label="New password"
+              placeholder="Create a password"
+              autoComplete="new-password"
+              required
+              error={passwordErrors.newPassword}
+              helperText={PASSWORD_HELPER_TEXT}
+            />
+            <PasswordInput
+              id="confirmPassword"
+              name="confirmPassword"
+              value={passwords.confirmPassword}
+              onChange={handlePasswordChange}
+              label="Confirm new password"
+              placeholder="Confirm your password"
+              autoComplete="new-password"
+              required
+              error={passwordErrors.confirmPassword}
+            />
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isChangingPassword}
+                className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isChangingPassword ? 'Changing...' : 'Change password'}
+              </button>
+            </div>
+          </form>
+        </section>
+
+        {/* Sessions */}
+        <section className="bg-white shadow rounded-lg p-6 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Sessions</h2>
+            <p className="text-sm text-gray-500">See where you&apos;re signed in and sign out other devices.</p>
+          </div>
+          <Link
+            href="/settings/sessions"
+            className="shrink-0 px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50"
+          >
+            Manage sessions
+          </Link>
+        </section>
+      </main>
+    </div>
+  );
+}
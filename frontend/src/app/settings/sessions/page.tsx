@@ -0,0 +1,179 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiClient } from '@/lib/api';
+import { describeUserAgent } from '@/lib/sessions';
+import { Session } from '@/types';
+
+const formatTimestamp = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export default function SessionsPage() {
+  const { isLoading, isAuthenticated, logout } = useAuth();
+  const router = useRouter();
+
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // ID of the session being signed out, or 'all'
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isLoading, isAuthenticated, router]);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setError(null);
+      setSessions(await apiClient.auth.getSessions());
+    } catch (error: any) {
+      console.error('Failed to load sessions:', error);
+      setError(error.response?.data?.error?.message || 'Failed to load sessions.');
+    } finally {
+      setIsLoadingSessions(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadSessions();
+    }
+  }, [isAuthenticated, loadSessions]);
+
+  // Signing out the current session also signs out this browser
+  const signOutHere = async () => {
+    await logout();
+    router.push('/login');
+  };
+
+  const handleRevoke = async (session: Session) => {
+    setRevoking(session.id);
+    setError(null);
+
+    try {
+      await apiClient.auth.revokeSession(session.id);
+      if (session.current) {
+        await signOutHere();
+        return;
+      }
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (error: any) {
+      console.error('Failed to sign out session:', error);
+      setError(error.response?.data?.error?.message || 'Failed to sign out the session.');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!window.confirm('Sign out of every device, including this one?')) {
+      return;
+    }
+
+    setRevoking('all');
+    setError(null);
+
+    try {
+      await apiClient.auth.revokeAllSessions();
+      await signOutHere();
+    } catch (error: any) {
+      console.error('Failed to sign out all sessions:', error);
+      setError(error.response?.data?.error?.message || 'Failed to sign out everywhere.');
+      setRevoking(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null; // Will redirect to login
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-2xl mx-auto py-10 px-4 sm:px-6 lg:px-8 space-y-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900">Sessions</h1>
+          <Link href="/settings" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+            Back to settings
+          </Link>
+        </div>
+
+        <section className="bg-white shadow rounded-lg p-6">
+          <div className="flex items-start justify-between gap-4 mb-4">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">Signed-in devices</h2>
+              <p className="text-sm text-gray-500">
+                Sign out any device you don&apos;t recognize, then change your password.
+              </p>
+            </div>
+            <button
+              onClick={handleRevokeAll}
+              disabled={revoking !== null || sessions.length === 0}
+              className="shrink-0 bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {revoking === 'all' ? 'Signing out...' : 'Log out everywhere'}
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          {isLoadingSessions ? (
+            <p className="text-sm text-gray-500">Loading sessions...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-500">No active sessions.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {sessions.map(session => (
+                <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {session.ipAddress || 'Unknown IP address'} · last active {formatTimestamp(session.lastUsedAt)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    disabled={revoking !== null}
+                    className="shrink-0 text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {revoking === session.id ? 'Signing out...' : 'Sign out'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
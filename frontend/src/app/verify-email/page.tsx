@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+
+type VerificationState = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailPage() {
+  const searchParams = useSearchParams();
+  const token = searchParams?.get('token') ?? '';
+  const { verifyEmail, isAuthenticated } = useAuth();
+  const [state, setState] = useState<VerificationState>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(token ? null : 'This verification link is incomplete.');
+  // Tokens are single use, so make sure the request is only sent once
+  const hasRequested = useRef(false);
+
+  useEffect(() => {
+    if (!token || hasRequested.current) {
+      return;
+    }
+    hasRequested.current = true;
+
+    verifyEmail(token)
+      .then(() => setState('verified'))
+      .catch((error: any) => {
+        console.error('Verify email error:', error);
+        setError(error.response?.data?.error?.message || 'An error occurred. Please try again.');
+        setState('failed');
+      });
+  }, [token, verifyEmail]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Verify your email
+          </h2>
+        </div>
+
+        {state === 'verifying' && (
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Verifying...</p>
+          </div>
+        )}
+
+        {state === 'verified' && (
+          <div className="rounded-md bg-green-50 p-4">
+            <p className="text-sm text-green-700">
+              Your email address has been verified.{' '}
+              <Link href={isAuthenticated ? '/dashboard' : '/login'} className="font-medium underline">
+                {isAuthenticated ? 'Go to your dashboard' : 'Sign in'}
+              </Link>
+            </p>
+          </div>
+        )}
+
+        {state === 'failed' && (
+          <div className="rounded-md bg-red-50 p-4">
+            <p className="text-sm text-red-700">
+              {error}{' '}
+              {isAuthenticated
+                ? 'You can send a new link from your dashboard.'
+                : 'Sign in to send a new link.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiClient } from '@/lib/api';
+
+export default function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user || user.emailVerifiedAt) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setIsSending(true);
+    setError(null);
+
+    try {
+      await apiClient.auth.resendVerification();
+      setIsSent(true);
+    } catch (error: any) {
+      console.error('Failed to resend verification email:', error);
+      setError(error.response?.data?.error?.message || 'Failed to send the email. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-sm text-yellow-800">
+          {isSent
+            ? `We sent a new verification link to ${user.email}.`
+            : `Please verify your email address. We sent a link to ${user.email}.`}
+          {error && <span className="ml-1 text-red-600">{error}</span>}
+        </p>
+        {!isSent && (
+          <button
+            onClick={handleResend}
+            disabled={isSending}
+            className="text-sm font-medium text-yellow-800 underline hover:text-yellow-900 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSending ? 'Sending...' : 'Resend link'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
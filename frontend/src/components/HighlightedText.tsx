@@ -0,0 +1,33 @@
+'use client';
+
+import { TaskHighlight } from '@/types';
+
+interface HighlightedTextProps {
+  highlight: TaskHighlight;
+  className?: string;
+}
+
+export function HighlightedText({ highlight, className = '' }: HighlightedTextProps) {
+  const parts: JSX.Element[] = [];
+  let position = 0;
+
+  highlight.matches.forEach((match, index) => {
+    if (match.start > position) {
+      parts.push(<span key={`text-${index}`}>{highlight.snippet.slice(position, match.start)}</span>);
+    }
+    parts.push(
+      <mark key={`match-${index}`} className="bg-yellow-200 text-inherit rounded-sm">
+        {highlight.snippet.slice(match.start, match.end)}
+      </mark>
+    );
+    position = match.end;
+  });
+
+  if (position < highlight.snippet.length) {
+    parts.push(<span key="text-end">{highlight.snippet.slice(position)}</span>);
+  }
+
+  return <span className={className}>{parts}</span>;
+}
+
+export default HighlightedText;
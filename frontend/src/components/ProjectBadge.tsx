@@ -0,0 +1,22 @@
+'use client';
+
+import { TaskProject } from '@/types';
+
+interface ProjectBadgeProps {
+  project: TaskProject;
+  className?: string;
+}
+
+export function ProjectBadge({ project, className = '' }: ProjectBadgeProps) {
+  return (
+    <span className={`inline-flex items-center text-xs font-medium text-gray-600 ${className}`}>
+      <span
+        className="w-2 h-2 rounded-full mr-1.5"
+        style={{ backgroundColor: project.color ?? '#6b7280' }}
+      />
+      {project.name}
+    </span>
+  );
+}
+
+export default ProjectBadge;
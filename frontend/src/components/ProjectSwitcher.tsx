@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { Project } from '@/types';
+import { apiClient } from '@/lib/api';
+
+// Selected project id, 'none' for tasks outside any project, or null for all tasks
+export type ProjectSelection = string | null;
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  selectedProjectId: ProjectSelection;
+  onSelect: (projectId: ProjectSelection) => void;
+  onProjectCreated: (project: Project) => void;
+  onProjectDeleted: (project: Project) => void;
+}
+
+// Colors handed out to new projects in turn
+const PROJECT_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#3b82f6', '#ec4899', '#14b8a6', '#8b5cf6'];
+
+export default function ProjectSwitcher({
+  projects,
+  selectedProjectId,
+  onSelect,
+  onProjectCreated,
+  onProjectDeleted
+}: ProjectSwitcherProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newProjectName, setNewProjectName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedProject = projects.find(project => project.id === selectedProjectId);
+
+  const handleCreateProject = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = newProjectName.trim();
+    if (!name) {
+      return;
+    }
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const project = await apiClient.projects.create({
+        name,
+        color: PROJECT_COLORS[projects.length % PROJECT_COLORS.length]
+      });
+      setNewProjectName('');
+      setIsAdding(false);
+      onProjectCreated(project);
+    } catch (error: any) {
+      console.error('Failed to create project:', error);
+      setError(error.response?.data?.error?.message || 'Failed to create project.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDeleteProject = async (project: Project) => {
+    if (!window.confirm(`Delete project "${project.name}"? Its tasks will be kept without a project.`)) {
+      return;
+    }
+
+    setIsDeleting(true);
+    setError(null);
+
+    try {
+      await apiClient.projects.delete(project.id);
+      onProjectDeleted(project);
+    } catch (error: any) {
+      console.error('Failed to delete project:', error);
+      setError(error.response?.data?.error?.message || 'Failed to delete project.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const getTabClasses = (selected: boolean) =>
+    `inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors ${
+      selected ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="mb-6">
+      <nav className="flex flex-wrap items-center gap-2" aria-label="Projects">
+        <button
+          onClick={() => onSelect(null)}
+          aria-pressed={selectedProjectId === null}
+          className={getTabClasses(selectedProjectId === null)}
+        >
+          All tasks
+        </button>
+        <button
+          onClick={() => onSelect('none')}
+          aria-pressed={selectedProjectId === 'none'}
+          className={getTabClasses(selectedProjectId === 'none')}
+        >
+          No project
+        </button>
+        {projects.map(project => (
+          <button
+            key={project.id}
+            onClick={() => onSelect(project.id)}
+            aria-pressed={selectedProjectId === project.id}
+            className={getTabClasses(selectedProjectId === project.id)}
+            title={project.description}
+          >
+            <span
+              className="w-2 h-2 rounded-full mr-2"
+              style={{ backgroundColor: project.color ?? '#6b7280' }}
+            />
+            {project.name}
+            <span className={`ml-2 text-xs ${selectedProjectId === project.id ? 'text-blue-100' : 'text-gray-400'}`}>
+              {project.completedTaskCount}/{project.taskCount}
+            </span>
+          </button>
+        ))}
+
+        {isAdding ? (
+          <form onSubmit={handleCreateProject} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={newProjectName}
+              onChange={(e) => setNewProjectName(e.target.value)}
+              placeholder="Project name"
+              maxLength={100}
+              disabled={isCreating}
+              autoFocus
+              className="block w-40 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={isCreating || !newProjectName.trim()}
+              className="px-2 py-1 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setIsAdding(false);
+                setNewProjectName('');
+                setError(null);
+              }}
+              className="px-2 py-1 text-sm text-gray-500 hover:text-gray-700 focus:outline-none"
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-blue-600 hover:text-blue-800 focus:outline-none"
+          >
+            + New project
+          </button>
+        )}
+
+        {selectedProject && (
+          <button
+            onClick={() => handleDeleteProject(selectedProject)}
+            disabled={isDeleting}
+            className="ml-auto text-sm text-gray-400 hover:text-red-600 focus:outline-none disabled:opacity-50"
+          >
+            Delete project
+          </button>
+        )}
+      </nav>
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
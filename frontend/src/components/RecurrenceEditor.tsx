@@ -0,0 +1,127 @@
+'use client';
+
+import { RecurrenceDraft, RecurrenceMode, WEEKDAYS } from '@/lib/recurrence';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceDraft;
+  onChange: (value: RecurrenceDraft) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+const MODES: { value: RecurrenceMode; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom rule' }
+];
+
+const UNITS: Partial<Record<RecurrenceMode, string>> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)'
+};
+
+export function RecurrenceEditor({ value, onChange, error, disabled = false }: RecurrenceEditorProps) {
+  const update = (changes: Partial<RecurrenceDraft>) => onChange({ ...value, ...changes });
+
+  const toggleWeekday = (weekday: string) => {
+    update({
+      weekdays: value.weekdays.includes(weekday)
+        ? value.weekdays.filter(day => day !== weekday)
+        : [...value.weekdays, weekday]
+    });
+  };
+
+  const inputClassName = `block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-1 sm:text-sm ${
+    error
+      ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+      : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+  }`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <select
+          id="recurrence"
+          value={value.mode}
+          onChange={(e) => update({ mode: e.target.value as RecurrenceMode })}
+          className={inputClassName}
+          disabled={disabled}
+        >
+          {MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>{mode.label}</option>
+          ))}
+        </select>
+
+        {UNITS[value.mode] && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+            every
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="w-16 px-2 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              disabled={disabled}
+              aria-label="Repeat interval"
+            />
+            {UNITS[value.mode]}
+          </label>
+        )}
+      </div>
+
+      {value.mode === 'weekly' && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Repeat on">
+          {WEEKDAYS.map(day => {
+            const selected = value.weekdays.includes(day.key);
+
+            return (
+              <button
+                key={day.key}
+                type="button"
+                onClick={() => toggleWeekday(day.key)}
+                aria-pressed={selected}
+                disabled={disabled}
+                className={`px-2 py-1 rounded-md text-xs font-medium border ${
+                  selected
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {day.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value.mode === 'custom' && (
+        <input
+          type="text"
+          value={value.custom}
+          onChange={(e) => update({ custom: e.target.value })}
+          className={inputClassName}
+          placeholder="e.g. FREQ=MONTHLY;BYMONTHDAY=1,15;COUNT=6"
+          disabled={disabled}
+          maxLength={200}
+          aria-label="Recurrence rule"
+        />
+      )}
+
+      {value.mode !== 'none' && (
+        <p className="text-xs text-gray-500">
+          The next occurrence is created when this task is completed.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
+
+export default RecurrenceEditor;
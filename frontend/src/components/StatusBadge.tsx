@@ -0,0 +1,40 @@
+'use client';
+
+import { StatusCategory, TaskWorkflowStatus } from '@/types';
+
+interface StatusBadgeProps {
+  status: TaskWorkflowStatus;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+const CATEGORY_CLASSES: Record<StatusCategory, string> = {
+  TODO: 'bg-yellow-100 text-yellow-800',
+  IN_PROGRESS: 'bg-blue-100 text-blue-800',
+  DONE: 'bg-green-100 text-green-800'
+};
+
+export function StatusBadge({ status, size = 'sm', className = '' }: StatusBadgeProps) {
+  const sizeClasses = size === 'md' ? 'px-3 py-1 text-sm' : 'px-2.5 py-0.5 text-xs';
+  const baseClasses = `inline-flex items-center rounded-full font-medium ${sizeClasses}`;
+
+  // Statuses with their own color are tinted with it, the rest by category
+  if (status.color) {
+    return (
+      <span
+        className={`${baseClasses} ${className}`}
+        style={{ backgroundColor: `${status.color}1a`, color: status.color }}
+      >
+        {status.name}
+      </span>
+    );
+  }
+
+  return (
+    <span className={`${baseClasses} ${CATEGORY_CLASSES[status.category]} ${className}`}>
+      {status.name}
+    </span>
+  );
+}
+
+export default StatusBadge;
@@ -0,0 +1,42 @@
+'use client';
+
+import { TaskTag } from '@/types';
+
+interface TagChipProps {
+  tag: TaskTag;
+  selected?: boolean;
+  onClick?: () => void;
+  className?: string;
+}
+
+export function TagChip({ tag, selected = false, onClick, className = '' }: TagChipProps) {
+  const baseClasses = 'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border';
+  const color = tag.color ?? '#6b7280';
+
+  // Tint the chip with the tag color, filling it in when selected
+  const style = selected
+    ? { backgroundColor: color, borderColor: color, color: '#ffffff' }
+    : { backgroundColor: `${color}1a`, borderColor: `${color}4d`, color };
+
+  if (onClick) {
+    return (
+      <button
+        type="button"
+        onClick={onClick}
+        aria-pressed={selected}
+        className={`${baseClasses} focus:outline-none focus:ring-1 focus:ring-blue-500 ${className}`}
+        style={style}
+      >
+        {tag.name}
+      </button>
+    );
+  }
+
+  return (
+    <span className={`${baseClasses} ${className}`} style={style}>
+      {tag.name}
+    </span>
+  );
+}
+
+export default TagChip;
@@ -0,0 +1,46 @@
+'use client';
+
+import { Tag } from '@/types';
+import TagChip from '@/components/TagChip';
+
+interface TagPickerProps {
+  tags: Tag[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+  disabled?: boolean;
+}
+
+export function TagPicker({ tags, selectedIds, onChange, disabled = false }: TagPickerProps) {
+  const toggleTag = (tagId: string) => {
+    if (disabled) {
+      return;
+    }
+
+    onChange(
+      selectedIds.includes(tagId)
+        ? selectedIds.filter(id => id !== tagId)
+        : [...selectedIds, tagId]
+    );
+  };
+
+  if (tags.length === 0) {
+    return (
+      <p className="text-xs text-gray-500">No tags yet. Create tags from the dashboard sidebar.</p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {tags.map(tag => (
+        <TagChip
+          key={tag.id}
+          tag={tag}
+          selected={selectedIds.includes(tag.id)}
+          onClick={() => toggleTag(tag.id)}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default TagPicker;
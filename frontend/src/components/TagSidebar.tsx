@@ -0,0 +1,168 @@
+'use client';
+
+import { useState } from 'react';
+import { Tag, TagMatchMode } from '@/types';
+import { apiClient } from '@/lib/api';
+import TagChip from '@/components/TagChip';
+
+interface TagSidebarProps {
+  tags: Tag[];
+  selectedTagIds: string[];
+  tagMode: TagMatchMode;
+  onSelectionChange: (selectedTagIds: string[]) => void;
+  onTagModeChange: (tagMode: TagMatchMode) => void;
+  onTagCreated: (tag: Tag) => void;
+  onTagDeleted: (tag: Tag) => void;
+}
+
+// Colors handed out to new tags in turn
+const TAG_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6366f1'];
+
+export default function TagSidebar({
+  tags,
+  selectedTagIds,
+  tagMode,
+  onSelectionChange,
+  onTagModeChange,
+  onTagCreated,
+  onTagDeleted
+}: TagSidebarProps) {
+  const [newTagName, setNewTagName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [deletingTagId, setDeletingTagId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleTag = (tagId: string) => {
+    onSelectionChange(
+      selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter(id => id !== tagId)
+        : [...selectedTagIds, tagId]
+    );
+  };
+
+  const handleCreateTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = newTagName.trim();
+    if (!name) {
+      return;
+    }
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const tag = await apiClient.tags.create({
+        name,
+        color: TAG_COLORS[tags.length % TAG_COLORS.length]
+      });
+      setNewTagName('');
+      onTagCreated(tag);
+    } catch (error: any) {
+      console.error('Failed to create tag:', error);
+      setError(error.response?.data?.error?.message || 'Failed to create tag.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDeleteTag = async (tag: Tag) => {
+    setDeletingTagId(tag.id);
+    setError(null);
+
+    try {
+      await apiClient.tags.delete(tag.id);
+      onTagDeleted(tag);
+    } catch (error: any) {
+      console.error('Failed to delete tag:', error);
+      setError(error.response?.data?.error?.message || 'Failed to delete tag.');
+    } finally {
+      setDeletingTagId(null);
+    }
+  };
+
+  return (
+    <aside className="bg-white shadow rounded-lg p-4 lg:w-64 lg:flex-shrink-0 self-start">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-900">Tags</h3>
+        {selectedTagIds.length > 0 && (
+          <button
+            onClick={() => onSelectionChange([])}
+            className="text-xs text-blue-600 hover:text-blue-800 focus:outline-none"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-3 text-xs text-red-600">{error}</p>
+      )}
+
+      {tags.length === 0 ? (
+        <p className="text-xs text-gray-500 mb-3">Create tags to group your tasks.</p>
+      ) : (
+        <ul className="space-y-1 mb-3">
+          {tags.map(tag => (
+            <li key={tag.id} className="group flex items-center justify-between">
+              <div className="flex items-center space-x-2 min-w-0">
+                <TagChip
+                  tag={tag}
+                  selected={selectedTagIds.includes(tag.id)}
+                  onClick={() => toggleTag(tag.id)}
+                  className="truncate"
+                />
+                <span className="text-xs text-gray-400">{tag.taskCount}</span>
+              </div>
+              <button
+                onClick={() => handleDeleteTag(tag)}
+                disabled={deletingTagId === tag.id}
+                className="text-xs text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 focus:outline-none disabled:opacity-50"
+                title={`Delete tag "${tag.name}"`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Match mode only matters once several tags are selected */}
+      {selectedTagIds.length > 1 && (
+        <div className="mb-3 flex rounded-md border border-gray-300 overflow-hidden text-xs">
+          {(['any', 'all'] as TagMatchMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onTagModeChange(mode)}
+              aria-pressed={tagMode === mode}
+              className={`flex-1 px-2 py-1 font-medium focus:outline-none ${
+                tagMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {mode === 'any' ? 'Match any' : 'Match all'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleCreateTag} className="flex space-x-2">
+        <input
+          type="text"
+          value={newTagName}
+          onChange={(e) => setNewTagName(e.target.value)}
+          placeholder="New tag"
+          maxLength={50}
+          disabled={isCreating}
+          className="block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={isCreating || !newTagName.trim()}
+          className="px-2 py-1 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add
+        </button>
+      </form>
+    </aside>
+  );
+}
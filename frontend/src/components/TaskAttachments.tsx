@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Attachment } from '@/types';
+import { apiClient } from '@/lib/api';
+
+interface TaskAttachmentsProps {
+  taskId: string;
+  // List and download files without controls for adding or removing them
+  readOnly?: boolean;
+}
+
+// Mirrors the limits enforced by the API
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+const ATTACHMENT_CONTENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+];
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatTimestamp = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export function TaskAttachments({ taskId, readOnly = false }: TaskAttachmentsProps) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [taskId]);
+
+  const loadAttachments = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setAttachments(await apiClient.attachments.getAll(taskId));
+    } catch (error: any) {
+      console.error('Failed to load attachments:', error);
+      setError(error.response?.data?.error?.message || 'Failed to load attachments.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+
+    if (files.length === 0) {
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      for (const file of files) {
+        // Check locally first so large files are not sent only to be rejected
+        if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+          setError(`${file.name} is not a supported file type.`);
+          continue;
+        }
+        if (file.size > MAX_ATTACHMENT_SIZE) {
+          setError(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`);
+          continue;
+        }
+
+        const attachment = await apiClient.attachments.upload(taskId, file);
+        setAttachments(prev => [attachment, ...prev]);
+      }
+    } catch (error: any) {
+      console.error('Failed to upload attachment:', error);
+      setError(error.response?.data?.error?.message || 'Failed to upload attachment.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    setError(null);
+
+    try {
+      const blob = await apiClient.attachments.download(taskId, attachment.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+
+      link.href = url;
+      link.download = attachment.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Failed to download attachment:', error);
+      setError('Failed to download attachment.');
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    const previousAttachments = attachments;
+
+    // Optimistic update: remove the attachment right away
+    setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    setError(null);
+
+    try {
+      await apiClient.attachments.delete(taskId, attachment.id);
+    } catch (error: any) {
+      console.error('Failed to delete attachment:', error);
+      setAttachments(previousAttachments);
+      setError(error.response?.data?.error?.message || 'Failed to delete attachment.');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h5 className="text-sm font-medium text-gray-900">Attachments</h5>
+        {!readOnly && (
+          <>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading || loading}
+              className="text-xs font-medium text-blue-600 hover:text-blue-800 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isUploading ? 'Uploading...' : 'Attach files'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_CONTENT_TYPES.join(',')}
+              onChange={handleFilesSelected}
+              className="hidden"
+              aria-label="Attach files"
+            />
+          </>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-2 text-xs text-red-600">{error}</p>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading attachments...</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No attachments</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="group flex items-center justify-between px-3 py-2">
+              <div className="min-w-0">
+                <button
+                  type="button"
+                  onClick={() => handleDownload(attachment)}
+                  className="block max-w-full truncate text-sm text-blue-600 hover:text-blue-800 hover:underline focus:outline-none"
+                  title={`Download ${attachment.filename}`}
+                >
+                  {attachment.filename}
+                </button>
+                <p className="text-xs text-gray-500">
+                  {formatFileSize(attachment.size)}
+                  {' · '}
+                  {attachment.uploadedBy.name}
+                  {' · '}
+                  <time dateTime={attachment.createdAt}>{formatTimestamp(attachment.createdAt)}</time>
+                </p>
+              </div>
+              {!readOnly && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(attachment)}
+                  className="ml-3 text-xs text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 focus:outline-none"
+                  aria-label={`Delete ${attachment.filename}`}
+                >
+                  Delete
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default TaskAttachments;
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { Task, TaskPriority, WorkflowStatus } from '@/types';
+import { isTaskOverdue } from '@/lib/dates';
+import { isTaskDone } from '@/lib/statuses';
+import ProjectBadge from '@/components/ProjectBadge';
+import TagChip from '@/components/TagChip';
+
+interface TaskBoardProps {
+  statuses: WorkflowStatus[];
+  tasks: Task[];
+  // Tasks matching the filters in each status, keyed by status key, when more exist than are shown
+  columnTotals?: Record<string, number>;
+  onTaskClick: (task: Task) => void;
+  onTaskMove: (task: Task, status: WorkflowStatus, orderedTaskIds: string[]) => void;
+}
+
+// Where a dragged task would land: a column and the index within it
+interface DropTarget {
+  statusKey: string;
+  index: number;
+}
+
+const PRIORITY_CLASSES: Record<TaskPriority, string> = {
+  [TaskPriority.URGENT]: 'bg-red-100 text-red-800',
+  [TaskPriority.HIGH]: 'bg-orange-100 text-orange-800',
+  [TaskPriority.MEDIUM]: 'bg-blue-100 text-blue-800',
+  [TaskPriority.LOW]: 'bg-gray-100 text-gray-600'
+};
+
+export default function TaskBoard({ statuses, tasks, columnTotals = {}, onTaskClick, onTaskMove }: TaskBoardProps) {
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const getColumnTasks = (status: WorkflowStatus) => tasks
+    .filter(task => task.status === status.key)
+    .sort((a, b) => a.position - b.position);
+
+  const handleDragStart = (e: React.DragEvent, task: Task) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', task.id);
+    setDraggingTaskId(task.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingTaskId(null);
+    setDropTarget(null);
+  };
+
+  // Dropping on the top half of a card lands before it, the bottom half after it
+  const handleCardDragOver = (e: React.DragEvent, status: WorkflowStatus, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const after = e.clientY > rect.top + rect.height / 2;
+    setDropTarget({ statusKey: status.key, index: after ? index + 1 : index });
+  };
+
+  const handleColumnDragOver = (e: React.DragEvent, status: WorkflowStatus, columnLength: number) => {
+    e.preventDefault();
+
+    if (dropTarget?.statusKey !== status.key) {
+      setDropTarget({ statusKey: status.key, index: columnLength });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: WorkflowStatus) => {
+    e.preventDefault();
+
+    const task = tasks.find(t => t.id === (draggingTaskId ?? e.dataTransfer.getData('text/plain')));
+    const target = dropTarget?.statusKey === status.key ? dropTarget : null;
+    handleDragEnd();
+
+    if (!task) {
+      return;
+    }
+
+    const columnIds = getColumnTasks(status).map(t => t.id);
+    const currentIndex = columnIds.indexOf(task.id);
+    let index = target?.index ?? columnIds.length;
+
+    // Removing the task from above its drop point shifts the drop point up
+    if (currentIndex !== -1) {
+      columnIds.splice(currentIndex, 1);
+      if (currentIndex < index) {
+        index--;
+      }
+    }
+
+    if (currentIndex === index) {
+      return;
+    }
+
+    columnIds.splice(index, 0, task.id);
+    onTaskMove(task, status, columnIds);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto p-4">
+      {statuses.map(status => {
+        const columnTasks = getColumnTasks(status);
+        const total = columnTotals[status.key] ?? columnTasks.length;
+        const isDropColumn = draggingTaskId !== null && dropTarget?.statusKey === status.key;
+
+        return (
+          <section
+            key={status.id}
+            aria-label={status.name}
+            onDragOver={(e) => handleColumnDragOver(e, status, columnTasks.length)}
+            onDrop={(e) => handleDrop(e, status)}
+            className={`flex-shrink-0 w-72 rounded-lg p-3 transition-colors ${
+              isDropColumn ? 'bg-blue-50 ring-2 ring-blue-200' : 'bg-gray-100'
+            }`}
+          >
+            <header className="flex items-center justify-between mb-3">
+              <h4 className="flex items-center text-sm font-semibold text-gray-700">
+                {status.color && (
+                  <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: status.color }} />
+                )}
+                {status.name}
+              </h4>
+              <span className="text-xs text-gray-500">
+                {total > columnTasks.length ? `${columnTasks.length} of ${total}` : columnTasks.length}
+              </span>
+            </header>
+
+            <ol className="space-y-2 min-h-[4rem]">
+              {columnTasks.map((task, index) => (
+                <li
+                  key={task.id}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, task)}
+                  onDragEnd={handleDragEnd}
+                  onDragOver={(e) => handleCardDragOver(e, status, index)}
+                  onClick={() => onTaskClick(task)}
+                  className={`relative bg-white rounded-md shadow-sm border border-gray-200 p-3 cursor-grab hover:border-gray-300 ${
+                    draggingTaskId === task.id ? 'opacity-50' : ''
+                  }`}
+                >
+                  {isDropColumn && dropTarget?.index === index && (
+                    <span className="absolute -top-1.5 left-0 right-0 h-0.5 bg-blue-500 rounded" aria-hidden="true" />
+                  )}
+                  <p className={`text-sm font-medium ${isTaskDone(task) ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                    {task.title}
+                  </p>
+                  <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${PRIORITY_CLASSES[task.priority]}`}>
+                      {task.priority.toLowerCase()}
+                    </span>
+                    {isTaskOverdue(task) && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                        Overdue
+                      </span>
+                    )}
+                    {task.checklistProgress.total > 0 && (
+                      <span className="text-xs text-gray-500" title="Checklist progress">
+                        ☑ {task.checklistProgress.completed}/{task.checklistProgress.total}
+                      </span>
+                    )}
+                    {task.tags.map(tag => (
+                      <TagChip key={tag.id} tag={tag} />
+                    ))}
+                  </div>
+                  {task.project && (
+                    <ProjectBadge project={task.project} className="mt-2" />
+                  )}
+                </li>
+              ))}
+              {isDropColumn && dropTarget?.index === columnTasks.length && columnTasks.length > 0 && (
+                <li className="h-0.5 bg-blue-500 rounded" aria-hidden="true" />
+              )}
+            </ol>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { BulkTaskAction, Project, Tag, WorkflowStatus } from '@/types';
+
+interface TaskBulkActionBarProps {
+  selectedCount: number;
+  // Tasks matching the current filters, when more exist than are shown
+  matchingCount?: number;
+  allMatchingSelected: boolean;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onAction: (action: BulkTaskAction) => void;
+  statuses: WorkflowStatus[];
+  tags: Tag[];
+  projects: Project[];
+  disabled?: boolean;
+}
+
+// Value of the project select that takes tasks out of their project
+const NO_PROJECT = 'none';
+
+const SELECT_CLASS_NAME = 'block pl-3 pr-8 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50';
+
+export default function TaskBulkActionBar({
+  selectedCount,
+  matchingCount,
+  allMatchingSelected,
+  onSelectAllMatching,
+  onClear,
+  onAction,
+  statuses,
+  tags,
+  projects,
+  disabled = false
+}: TaskBulkActionBarProps) {
+  const count = allMatchingSelected && matchingCount ? matchingCount : selectedCount;
+
+  // Each select runs its action as soon as a value is picked, then resets
+  const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>, toAction: (value: string) => BulkTaskAction) => {
+    const value = e.target.value;
+    e.target.value = '';
+
+    if (value) {
+      onAction(toAction(value));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-6 py-3 bg-blue-50 border-b border-blue-100" role="toolbar" aria-label="Bulk actions">
+      <span className="text-sm font-medium text-blue-900">
+        {count} task{count !== 1 ? 's' : ''} selected
+      </span>
+
+      {matchingCount !== undefined && matchingCount > selectedCount && !allMatchingSelected && (
+        <button
+          type="button"
+          onClick={onSelectAllMatching}
+          className="text-sm text-blue-700 hover:text-blue-900 underline"
+          disabled={disabled}
+        >
+          Select all {matchingCount} matching tasks
+        </button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 ml-auto">
+        <select
+          aria-label="Move selected tasks to status"
+          defaultValue=""
+          onChange={(e) => handleSelect(e, status => ({ action: 'status', status }))}
+          className={SELECT_CLASS_NAME}
+          disabled={disabled}
+        >
+          <option value="" disabled>Move to…</option>
+          {statuses.map(status => (
+            <option key={status.id} value={status.key}>{status.name}</option>
+          ))}
+        </select>
+
+        {tags.length > 0 && (
+          <>
+            <select
+              aria-label="Add tag to selected tasks"
+              defaultValue=""
+              onChange={(e) => handleSelect(e, tagId => ({ action: 'addTags', tagIds: [tagId] }))}
+              className={SELECT_CLASS_NAME}
+              disabled={disabled}
+            >
+              <option value="" disabled>Add tag…</option>
+              {tags.map(tag => (
+                <option key={tag.id} value={tag.id}>{tag.name}</option>
+              ))}
+            </select>
+            <select
+              aria-label="Remove tag from selected tasks"
+              defaultValue=""
+              onChange={(e) => handleSelect(e, tagId => ({ action: 'removeTags', tagIds: [tagId] }))}
+              className={SELECT_CLASS_NAME}
+              disabled={disabled}
+            >
+              <option value="" disabled>Remove tag…</option>
+              {tags.map(tag => (
+                <option key={tag.id} value={tag.id}>{tag.name}</option>
+              ))}
+            </select>
+          </>
+        )}
+
+        {projects.length > 0 && (
+          <select
+            aria-label="Move selected tasks to project"
+            defaultValue=""
+            onChange={(e) => handleSelect(e, projectId => ({
+              action: 'project',
+              projectId: projectId === NO_PROJECT ? null : projectId
+            }))}
+            className={SELECT_CLASS_NAME}
+            disabled={disabled}
+          >
+            <option value="" disabled>Set project…</option>
+            <option value={NO_PROJECT}>No project</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+        )}
+
+        <button
+          type="button"
+          onClick={() => onAction({ action: 'delete' })}
+          className="px-3 py-1.5 text-sm font-medium text-red-700 bg-white border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+          disabled={disabled}
+        >
+          Move to trash
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+          disabled={disabled}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ChecklistItem, ChecklistProgress } from '@/types';
+import { apiClient } from '@/lib/api';
+
+interface TaskChecklistProps {
+  taskId: string;
+  onProgressChange?: (progress: ChecklistProgress) => void;
+  // Show the items without controls for changing them
+  readOnly?: boolean;
+}
+
+const getProgress = (items: ChecklistItem[]): ChecklistProgress => ({
+  completed: items.filter(item => item.completed).length,
+  total: items.length
+});
+
+export function TaskChecklist({ taskId, onProgressChange, readOnly = false }: TaskChecklistProps) {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newItemTitle, setNewItemTitle] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  useEffect(() => {
+    loadItems();
+  }, [taskId]);
+
+  const loadItems = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setItems(await apiClient.checklist.getAll(taskId));
+    } catch (error: any) {
+      console.error('Failed to load checklist:', error);
+      setError(error.response?.data?.error?.message || 'Failed to load checklist.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Apply a change locally and report the new progress to the parent
+  const updateItems = (nextItems: ChecklistItem[]) => {
+    setItems(nextItems);
+    onProgressChange?.(getProgress(nextItems));
+  };
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const title = newItemTitle.trim();
+    if (!title) {
+      return;
+    }
+
+    setIsAdding(true);
+    setError(null);
+
+    try {
+      const item = await apiClient.checklist.create(taskId, { title });
+      setNewItemTitle('');
+      updateItems([...items, item]);
+    } catch (error: any) {
+      console.error('Failed to add checklist item:', error);
+      setError(error.response?.data?.error?.message || 'Failed to add checklist item.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleToggleItem = async (item: ChecklistItem) => {
+    const previousItems = items;
+
+    // Optimistic update: flip the item immediately
+    updateItems(items.map(i => i.id === item.id ? { ...i, completed: !i.completed } : i));
+
+    try {
+      const updatedItem = await apiClient.checklist.toggle(taskId, item.id);
+      setItems(prev => prev.map(i => i.id === item.id ? updatedItem : i));
+    } catch (error: any) {
+      console.error('Failed to toggle checklist item:', error);
+      updateItems(previousItems);
+      setError(error.response?.data?.error?.message || 'Failed to update checklist item.');
+    }
+  };
+
+  const startEditing = (item: ChecklistItem) => {
+    setEditingItemId(item.id);
+    setEditingTitle(item.title);
+  };
+
+  const handleRenameItem = async (item: ChecklistItem) => {
+    const title = editingTitle.trim();
+    setEditingItemId(null);
+
+    if (!title || title === item.title) {
+      return;
+    }
+
+    try {
+      const updatedItem = await apiClient.checklist.update(taskId, item.id, { title });
+      setItems(prev => prev.map(i => i.id === item.id ? updatedItem : i));
+    } catch (error: any) {
+      console.error('Failed to rename checklist item:', error);
+      setError(error.response?.data?.error?.message || 'Failed to rename checklist item.');
+    }
+  };
+
+  const handleMoveItem = async (index: number, offset: -1 | 1) => {
+    const targetIndex = index + offset;
+    if (targetIndex < 0 || targetIndex >= items.length) {
+      return;
+    }
+
+    const previousItems = items;
+    const reordered = [...items];
+    [reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]];
+    setItems(reordered);
+
+    try {
+      setItems(await apiClient.checklist.reorder(taskId, reordered.map(item => item.id)));
+    } catch (error: any) {
+      console.error('Failed to reorder checklist:', error);
+      setItems(previousItems);
+      setError(error.response?.data?.error?.message || 'Failed to reorder checklist.');
+    }
+  };
+
+  const handleDeleteItem = async (item: ChecklistItem) => {
+    setError(null);
+
+    try {
+      await apiClient.checklist.delete(taskId, item.id);
+      updateItems(items.filter(i => i.id !== item.id));
+    } catch (error: any) {
+      console.error('Failed to delete checklist item:', error);
+      setError(error.response?.data?.error?.message || 'Failed to delete checklist item.');
+    }
+  };
+
+  const progress = getProgress(items);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h5 className="text-sm font-medium text-gray-900">Checklist</h5>
+        {progress.total > 0 && (
+          <span className="text-xs text-gray-500">
+            {progress.completed}/{progress.total} done
+          </span>
+        )}
+      </div>
+
+      {progress.total > 0 && (
+        <div className="w-full h-1.5 bg-gray-200 rounded-full mb-3 overflow-hidden">
+          <div
+            className="h-full bg-green-500 transition-all"
+            style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {error && (
+        <p className="mb-2 text-xs text-red-600">{error}</p>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading checklist...</p>
+      ) : (
+        <ul className="space-y-1 mb-3">
+          {items.map((item, index) => (
+            <li key={item.id} className="group flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={item.completed}
+                onChange={() => handleToggleItem(item)}
+                disabled={readOnly}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                aria-label={`Mark "${item.title}" as ${item.completed ? 'not done' : 'done'}`}
+              />
+              {readOnly ? (
+                <span className={`flex-1 text-sm ${item.completed ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+                  {item.title}
+                </span>
+              ) : editingItemId === item.id ? (
+                <input
+                  type="text"
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onBlur={() => handleRenameItem(item)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleRenameItem(item);
+                    } else if (e.key === 'Escape') {
+                      setEditingItemId(null);
+                    }
+                  }}
+                  maxLength={255}
+                  autoFocus
+                  className="flex-1 px-2 py-0.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => startEditing(item)}
+                  className={`flex-1 text-left text-sm focus:outline-none ${
+                    item.completed ? 'text-gray-400 line-through' : 'text-gray-700'
+                  }`}
+                  title="Click to rename"
+                >
+                  {item.title}
+                </button>
+              )}
+              {!readOnly && (
+                <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                  <button
+                    type="button"
+                    onClick={() => handleMoveItem(index, -1)}
+                    disabled={index === 0}
+                    className="px-1 text-xs text-gray-400 hover:text-gray-700 focus:outline-none disabled:opacity-30"
+                    aria-label={`Move "${item.title}" up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleMoveItem(index, 1)}
+                    disabled={index === items.length - 1}
+                    className="px-1 text-xs text-gray-400 hover:text-gray-700 focus:outline-none disabled:opacity-30"
+                    aria-label={`Move "${item.title}" down`}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteItem(item)}
+                    className="px-1 text-xs text-gray-400 hover:text-red-600 focus:outline-none"
+                    aria-label={`Delete "${item.title}"`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!readOnly && (
+        <form onSubmit={handleAddItem} className="flex space-x-2">
+          <input
+            type="text"
+            value={newItemTitle}
+            onChange={(e) => setNewItemTitle(e.target.value)}
+            placeholder="Add an item"
+            maxLength={255}
+            disabled={isAdding || loading}
+            className="block w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isAdding || loading || !newItemTitle.trim()}
+            className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default TaskChecklist;
@@ -0,0 +1,237 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Task, Collaborator, CollaboratorRole } from '@/types';
+import { apiClient } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface TaskCollaboratorsProps {
+  task: Task;
+  // Called with the updated task when its assignee changes
+  onTaskChange?: (task: Task) => void;
+  // Called after the current user stops collaborating on the task
+  onLeave?: () => void;
+}
+
+const ROLE_LABELS: Record<CollaboratorRole, string> = {
+  VIEWER: 'Can view',
+  EDITOR: 'Can edit'
+};
+
+export function TaskCollaborators({ task, onTaskChange, onLeave }: TaskCollaboratorsProps) {
+  const { user } = useAuth();
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>('VIEWER');
+  const [isSharing, setIsSharing] = useState(false);
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  const isOwner = task.access === 'OWNER';
+
+  useEffect(() => {
+    loadCollaborators();
+  }, [task.id]);
+
+  const loadCollaborators = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setCollaborators(await apiClient.collaborators.getAll(task.id));
+    } catch (error: any) {
+      console.error('Failed to load collaborators:', error);
+      setError(error.response?.data?.error?.message || 'Failed to load collaborators.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedEmail = email.trim();
+    if (!trimmedEmail) {
+      return;
+    }
+
+    setIsSharing(true);
+    setError(null);
+
+    try {
+      const collaborator = await apiClient.collaborators.add(task.id, { email: trimmedEmail, role });
+      setCollaborators(prev => [...prev, collaborator]);
+      setEmail('');
+    } catch (error: any) {
+      console.error('Failed to share task:', error);
+      setError(error.response?.data?.error?.message || 'Failed to share task.');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleRoleChange = async (collaborator: Collaborator, newRole: CollaboratorRole) => {
+    setError(null);
+
+    try {
+      const updated = await apiClient.collaborators.update(task.id, collaborator.user.id, { role: newRole });
+      setCollaborators(prev => prev.map(c => c.user.id === updated.user.id ? updated : c));
+    } catch (error: any) {
+      console.error('Failed to change role:', error);
+      setError(error.response?.data?.error?.message || 'Failed to change role.');
+    }
+  };
+
+  const handleRemove = async (collaborator: Collaborator) => {
+    const previousCollaborators = collaborators;
+    const isLeaving = collaborator.user.id === user?.id;
+
+    // Optimistic update: remove the collaborator right away
+    setCollaborators(prev => prev.filter(c => c.user.id !== collaborator.user.id));
+    setError(null);
+
+    try {
+      await apiClient.collaborators.remove(task.id, collaborator.user.id);
+
+      if (isLeaving) {
+        onLeave?.();
+      } else if (task.assigneeId === collaborator.user.id) {
+        // Removing a collaborator also unassigns them
+        onTaskChange?.({ ...task, assigneeId: undefined, assignee: undefined });
+      }
+    } catch (error: any) {
+      console.error('Failed to remove collaborator:', error);
+      setCollaborators(previousCollaborators);
+      setError(error.response?.data?.error?.message || 'Failed to remove collaborator.');
+    }
+  };
+
+  const handleAssigneeChange = async (assigneeId: string) => {
+    setIsAssigning(true);
+    setError(null);
+
+    try {
+      const updatedTask = await apiClient.tasks.update(task.id, { assigneeId: assigneeId || null });
+      onTaskChange?.(updatedTask);
+    } catch (error: any) {
+      console.error('Failed to assign task:', error);
+      setError(error.response?.data?.error?.message || 'Failed to assign task.');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  return (
+    <div>
+      <h5 className="text-sm font-medium text-gray-900 mb-2">Sharing</h5>
+
+      {error && (
+        <p className="mb-2 text-xs text-red-600">{error}</p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-3">
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Owner</p>
+          <p className="text-sm text-gray-700">{task.owner.name}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Assignee</p>
+          {isOwner ? (
+            <select
+              value={task.assigneeId ?? ''}
+              onChange={(e) => handleAssigneeChange(e.target.value)}
+              disabled={isAssigning || loading}
+              aria-label="Assignee"
+              className="block w-full px-2 py-1 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Unassigned</option>
+              <option value={task.owner.id}>{task.owner.name}</option>
+              {collaborators.map(collaborator => (
+                <option key={collaborator.user.id} value={collaborator.user.id}>{collaborator.user.name}</option>
+              ))}
+            </select>
+          ) : (
+            <p className="text-sm text-gray-700">{task.assignee?.name ?? 'Unassigned'}</p>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading collaborators...</p>
+      ) : collaborators.length === 0 ? (
+        <p className="text-sm text-gray-500 italic mb-3">Not shared with anyone</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md mb-3">
+          {collaborators.map(collaborator => (
+            <li key={collaborator.user.id} className="flex items-center justify-between px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-900 truncate">{collaborator.user.name}</p>
+                <p className="text-xs text-gray-500 truncate">{collaborator.user.email}</p>
+              </div>
+              <div className="flex items-center space-x-3 ml-3">
+                {isOwner ? (
+                  <select
+                    value={collaborator.role}
+                    onChange={(e) => handleRoleChange(collaborator, e.target.value as CollaboratorRole)}
+                    aria-label={`Role of ${collaborator.user.name}`}
+                    className="px-2 py-1 border border-gray-300 rounded-md bg-white text-xs focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {(Object.keys(ROLE_LABELS) as CollaboratorRole[]).map(value => (
+                      <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-xs text-gray-500">{ROLE_LABELS[collaborator.role]}</span>
+                )}
+                {(isOwner || collaborator.user.id === user?.id) && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(collaborator)}
+                    className="text-xs text-gray-400 hover:text-red-600 focus:outline-none"
+                  >
+                    {isOwner ? 'Remove' : 'Leave'}
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isOwner && (
+        <form onSubmit={handleShare} className="flex space-x-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Share by email"
+            disabled={isSharing || loading}
+            aria-label="Email address to share with"
+            className="block w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as CollaboratorRole)}
+            disabled={isSharing || loading}
+            aria-label="Role"
+            className="px-2 py-1.5 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {(Object.keys(ROLE_LABELS) as CollaboratorRole[]).map(value => (
+              <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={isSharing || loading || !email.trim()}
+            className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSharing ? 'Sharing...' : 'Share'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default TaskCollaborators;
@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Comment } from '@/types';
+import { apiClient } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface TaskCommentsProps {
+  taskId: string;
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+
+const formatTimestamp = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export function TaskComments({ taskId }: TaskCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newBody, setNewBody] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
+  const [editingBody, setEditingBody] = useState('');
+
+  useEffect(() => {
+    loadComments();
+  }, [taskId]);
+
+  const loadComments = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setComments(await apiClient.comments.getAll(taskId));
+    } catch (error: any) {
+      console.error('Failed to load comments:', error);
+      setError(error.response?.data?.error?.message || 'Failed to load comments.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePostComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const body = newBody.trim();
+    if (!body) {
+      return;
+    }
+
+    setIsPosting(true);
+    setError(null);
+
+    try {
+      const comment = await apiClient.comments.create(taskId, { body });
+      setComments(prev => [...prev, comment]);
+      setNewBody('');
+    } catch (error: any) {
+      console.error('Failed to post comment:', error);
+      setError(error.response?.data?.error?.message || 'Failed to post comment.');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const startEditing = (comment: Comment) => {
+    setEditingCommentId(comment.id);
+    setEditingBody(comment.body);
+  };
+
+  const handleSaveEdit = async (comment: Comment) => {
+    const body = editingBody.trim();
+
+    if (!body || body === comment.body) {
+      setEditingCommentId(null);
+      return;
+    }
+
+    setError(null);
+
+    try {
+      const updated = await apiClient.comments.update(taskId, comment.id, { body });
+      setComments(prev => prev.map(c => c.id === comment.id ? updated : c));
+      setEditingCommentId(null);
+    } catch (error: any) {
+      console.error('Failed to edit comment:', error);
+      setError(error.response?.data?.error?.message || 'Failed to edit comment.');
+    }
+  };
+
+  const handleDeleteComment = async (comment: Comment) => {
+    const previousComments = comments;
+
+    // Optimistic update: remove the comment right away
+    setComments(prev => prev.filter(c => c.id !== comment.id));
+    setError(null);
+
+    try {
+      await apiClient.comments.delete(taskId, comment.id);
+    } catch (error: any) {
+      console.error('Failed to delete comment:', error);
+      setComments(previousComments);
+      setError(error.response?.data?.error?.message || 'Failed to delete comment.');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h5 className="text-sm font-medium text-gray-900">Comments</h5>
+        {comments.length > 0 && (
+          <span className="text-xs text-gray-500">{comments.length}</span>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-2 text-xs text-red-600">{error}</p>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-500 italic mb-3">No comments yet</p>
+      ) : (
+        <ul className="space-y-3 mb-3">
+          {comments.map(comment => (
+            <li key={comment.id} className="group bg-gray-50 rounded-md p-3">
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-xs text-gray-500">
+                  <span className="font-medium text-gray-900">{comment.author.name}</span>
+                  {' · '}
+                  <time dateTime={comment.createdAt}>{formatTimestamp(comment.createdAt)}</time>
+                  {comment.edited && ' (edited)'}
+                </p>
+                {/* Only the author can edit or delete a comment */}
+                {comment.author.id === user?.id && editingCommentId !== comment.id && (
+                  <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                    <button
+                      type="button"
+                      onClick={() => startEditing(comment)}
+                      className="text-xs text-gray-400 hover:text-gray-700 focus:outline-none"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteComment(comment)}
+                      className="text-xs text-gray-400 hover:text-red-600 focus:outline-none"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {editingCommentId === comment.id ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={editingBody}
+                    onChange={(e) => setEditingBody(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') {
+                        setEditingCommentId(null);
+                      }
+                    }}
+                    rows={3}
+                    maxLength={MAX_COMMENT_LENGTH}
+                    autoFocus
+                    aria-label="Edit comment"
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setEditingCommentId(null)}
+                      className="px-2 py-1 text-xs font-medium text-gray-600 hover:text-gray-900"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleSaveEdit(comment)}
+                      disabled={!editingBody.trim()}
+                      className="px-2 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{comment.body}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handlePostComment} className="space-y-2">
+        <textarea
+          value={newBody}
+          onChange={(e) => setNewBody(e.target.value)}
+          placeholder="Write a comment"
+          rows={2}
+          maxLength={MAX_COMMENT_LENGTH}
+          disabled={isPosting || loading}
+          aria-label="New comment"
+          className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isPosting || loading || !newBody.trim()}
+            className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPosting ? 'Posting...' : 'Comment'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default TaskComments;
@@ -1,34 +1,77 @@
 'use client';
 
-import { useState } from 'react';
-import { CreateTaskRequest, Task } from '@/types';
+import { useEffect, useState } from 'react';
+import { CreateTaskRequest, Project, Tag, Task, TaskPriority } from '@/types';
 import { apiClient } from '@/lib/api';
+import { fromDateTimeLocalValue } from '@/lib/dates';
+import { describeReminder, REMINDER_PRESETS } from '@/lib/reminders';
+import { getRecurrenceDraft, getRecurrenceRule, RecurrenceDraft } from '@/lib/recurrence';
+import TagPicker from '@/components/TagPicker';
+import RecurrenceEditor from '@/components/RecurrenceEditor';
 
 interface TaskCreateModalProps {
   isOpen: boolean;
   onClose: () => void;
   onTaskCreated: (task: Task) => void;
+  tags?: Tag[];
+  projects?: Project[];
+  defaultProjectId?: string;
+  // Creates the task in this workspace instead of the user's own tasks
+  workspaceId?: string;
 }
 
 interface FormData {
   title: string;
   description: string;
+  priority: TaskPriority;
+  dueAt: string;
+  // Minutes before the due date, or '' for no reminder
+  reminderMinutes: string;
+  tagIds: string[];
+  projectId: string;
+  recurrence: RecurrenceDraft;
 }
 
 interface FormErrors {
   title?: string;
   description?: string;
+  dueAt?: string;
+  reminderMinutes?: string;
+  recurrenceRule?: string;
   general?: string;
 }
 
-export default function TaskCreateModal({ isOpen, onClose, onTaskCreated }: TaskCreateModalProps) {
-  const [formData, setFormData] = useState<FormData>({
-    title: '',
-    description: ''
-  });
+const EMPTY_FORM: FormData = {
+  title: '',
+  description: '',
+  priority: TaskPriority.MEDIUM,
+  dueAt: '',
+  reminderMinutes: '',
+  tagIds: [],
+  projectId: '',
+  recurrence: getRecurrenceDraft()
+};
+
+export default function TaskCreateModal({
+  isOpen,
+  onClose,
+  onTaskCreated,
+  tags = [],
+  projects = [],
+  defaultProjectId,
+  workspaceId
+}: TaskCreateModalProps) {
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // New tasks start in the project currently being viewed
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(prev => ({ ...prev, projectId: defaultProjectId ?? '' }));
+    }
+  }, [isOpen, defaultProjectId]);
+
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {};
 
@@ -63,13 +106,23 @@ export default function TaskCreateModal({ isOpen, onClose, onTaskCreated }: Task
     try {
       const createRequest: CreateTaskRequest = {
         title: formData.title.trim(),
-        description: formData.description.trim() || undefined
+        description: formData.description.trim() || undefined,
+        priority: formData.priority,
+        dueAt: fromDateTimeLocalValue(formData.dueAt),
+        reminderMinutes: formData.dueAt && formData.reminderMinutes !== ''
+          ? Number(formData.reminderMinutes)
+          : undefined,
+        tagIds: formData.tagIds.length > 0 ? formData.tagIds : undefined,
+        projectId: formData.projectId || undefined,
+        recurrenceRule: getRecurrenceRule(formData.recurrence)
       };
 
-      const newTask = await apiClient.tasks.create(createRequest);
+      const newTask = workspaceId
+        ? await apiClient.workspaces.createTask(workspaceId, createRequest)
+        : await apiClient.tasks.create(createRequest);
       
       // Reset form
-      setFormData({ title: '', description: '' });
+      setFormData(EMPTY_FORM);
       
       // Notify parent component
       onTaskCreated(newTask);
@@ -90,6 +143,15 @@ export default function TaskCreateModal({ isOpen, onClose, onTaskCreated }: Task
         if (details.description) {
           serverErrors.description = details.description[0];
         }
+        if (details.dueAt) {
+          serverErrors.dueAt = details.dueAt[0];
+        }
+        if (details.reminderMinutes) {
+          serverErrors.reminderMinutes = details.reminderMinutes[0];
+        }
+        if (details.recurrenceRule) {
+          serverErrors.recurrenceRule = details.recurrenceRule[0];
+        }
         
         setErrors(serverErrors);
       } else {
@@ -103,18 +165,18 @@ export default function TaskCreateModal({ isOpen, onClose, onTaskCreated }: Task
     }
   };
 
-  const handleInputChange = (field: keyof FormData, value: string) => {
+  const handleInputChange = (field: Exclude<keyof FormData, 'tagIds' | 'recurrence'>, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     
     // Clear field-specific error when user starts typing
-    if (errors[field]) {
+    if (errors[field as keyof FormErrors]) {
       setErrors(prev => ({ ...prev, [field]: undefined }));
     }
   };
 
   const handleClose = () => {
     if (!isSubmitting) {
-      setFormData({ title: '', description: '' });
+      setFormData(EMPTY_FORM);
       setErrors({});
       onClose();
     }
@@ -215,6 +277,127 @@ export default function TaskCreateModal({ isOpen, onClose, onTaskCreated }: Task
                         {formData.description.length}/1000 characters
                       </p>
                     </div>
+
+                    {/* Priority field */}
+                    <div>
+                      <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-1">
+                        Priority
+                      </label>
+                      <select
+                        id="priority"
+                        value={formData.priority}
+                        onChange={(e) => handleInputChange('priority', e.target.value as TaskPriority)}
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        disabled={isSubmitting}
+                      >
+                        <option value={TaskPriority.LOW}>Low</option>
+                        <option value={TaskPriority.MEDIUM}>Medium</option>
+                        <option value={TaskPriority.HIGH}>High</option>
+                        <option value={TaskPriority.URGENT}>Urgent</option>
+                      </select>
+                    </div>
+
+                    {/* Due date field */}
+                    <div>
+                      <label htmlFor="dueAt" className="block text-sm font-medium text-gray-700 mb-1">
+                        Due date
+                      </label>
+                      <input
+                        type="datetime-local"
+                        id="dueAt"
+                        value={formData.dueAt}
+                        onChange={(e) => handleInputChange('dueAt', e.target.value)}
+                        className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-1 sm:text-sm ${
+                          errors.dueAt
+                            ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                            : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+                        }`}
+                        disabled={isSubmitting}
+                      />
+                      {errors.dueAt && (
+                        <p className="mt-1 text-sm text-red-600">{errors.dueAt}</p>
+                      )}
+                    </div>
+
+                    {/* Reminder field */}
+                    <div>
+                      <label htmlFor="reminderMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+                        Reminder
+                      </label>
+                      <select
+                        id="reminderMinutes"
+                        value={formData.dueAt ? formData.reminderMinutes : ''}
+                        onChange={(e) => handleInputChange('reminderMinutes', e.target.value)}
+                        className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-1 sm:text-sm disabled:bg-gray-50 disabled:text-gray-500 ${
+                          errors.reminderMinutes
+                            ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                            : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+                        }`}
+                        disabled={isSubmitting || !formData.dueAt}
+                      >
+                        <option value="">No reminder</option>
+                        {REMINDER_PRESETS.map(minutes => (
+                          <option key={minutes} value={minutes}>{describeReminder(minutes)}</option>
+                        ))}
+                      </select>
+                      {errors.reminderMinutes ? (
+                        <p className="mt-1 text-sm text-red-600">{errors.reminderMinutes}</p>
+                      ) : (
+                        <p className="mt-1 text-xs text-gray-500">
+                          {formData.dueAt ? 'Sent by email before the due date' : 'Set a due date to get a reminder'}
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Recurrence field */}
+                    <div>
+                      <label htmlFor="recurrence" className="block text-sm font-medium text-gray-700 mb-1">
+                        Repeat
+                      </label>
+                      <RecurrenceEditor
+                        value={formData.recurrence}
+                        onChange={(recurrence) => {
+                          setFormData(prev => ({ ...prev, recurrence }));
+                          setErrors(prev => ({ ...prev, recurrenceRule: undefined }));
+                        }}
+                        error={errors.recurrenceRule}
+                        disabled={isSubmitting}
+                      />
+                    </div>
+
+                    {/* Project field */}
+                    {projects.length > 0 && (
+                      <div>
+                        <label htmlFor="projectId" className="block text-sm font-medium text-gray-700 mb-1">
+                          Project
+                        </label>
+                        <select
+                          id="projectId"
+                          value={formData.projectId}
+                          onChange={(e) => handleInputChange('projectId', e.target.value)}
+                          className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          disabled={isSubmitting}
+                        >
+                          <option value="">No project</option>
+                          {projects.map(project => (
+                            <option key={project.id} value={project.id}>{project.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {/* Tags field */}
+                    <div>
+                      <span className="block text-sm font-medium text-gray-700 mb-1">
+                        Tags
+                      </span>
+                      <TagPicker
+                        tags={tags}
+                        selectedIds={formData.tagIds}
+                        onChange={(tagIds) => setFormData(prev => ({ ...prev, tagIds }))}
+                        disabled={isSubmitting}
+                      />
+                    </div>
                   </div>
                 </div>
               </div>
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { Task } from '@/types';
 import { apiClient } from '@/lib/api';
+import StatusBadge from '@/components/StatusBadge';
 
 interface TaskDeleteModalProps {
   isOpen: boolean;
@@ -77,7 +78,7 @@ export default function TaskDeleteModal({ isOpen, task, onClose, onTaskDeleted }
                 </h3>
                 <div className="mt-2">
                   <p className="text-sm text-gray-500 mb-3">
-                    Are you sure you want to delete this task? This action cannot be undone.
+                    Are you sure you want to delete this task? It will be moved to the trash, where you can restore it later.
                   </p>
                   
                   {/* Task preview */}
@@ -91,13 +92,7 @@ export default function TaskDeleteModal({ isOpen, task, onClose, onTaskDeleted }
                       </p>
                     )}
                     <div className="flex items-center space-x-2">
-                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
-                        task.status === 'COMPLETED' 
-                          ? 'bg-green-100 text-green-800' 
-                          : 'bg-yellow-100 text-yellow-800'
-                      }`}>
-                        {task.status.toLowerCase()}
-                      </span>
+                      <StatusBadge status={task.workflowStatus} />
                       <span className="text-xs text-gray-500">
                         Created {new Date(task.createdAt).toLocaleDateString()}
                       </span>
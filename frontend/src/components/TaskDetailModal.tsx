@@ -1,8 +1,19 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Task, TaskStatus } from '@/types';
+import { Task, TaskPriority, ChecklistProgress, ToggleTarget, WorkflowStatus } from '@/types';
 import { apiClient } from '@/lib/api';
+import { isTaskOverdue } from '@/lib/dates';
+import { describeReminder } from '@/lib/reminders';
+import { isTaskDone, getToggleStatus } from '@/lib/statuses';
+import TagChip from '@/components/TagChip';
+import ProjectBadge from '@/components/ProjectBadge';
+import StatusBadge from '@/components/StatusBadge';
+import TaskChecklist from '@/components/TaskChecklist';
+import TaskHistory from '@/components/TaskHistory';
+import TaskComments from '@/components/TaskComments';
+import TaskAttachments from '@/components/TaskAttachments';
+import TaskCollaborators from '@/components/TaskCollaborators';
 
 interface TaskDetailModalProps {
   isOpen: boolean;
@@ -10,7 +21,13 @@ interface TaskDetailModalProps {
   onClose: () => void;
   onEdit?: (task: Task) => void;
   onDelete?: (task: Task) => void;
-  onToggle?: (task: Task) => void;
+  onToggle?: (task: Task, to?: ToggleTarget) => void;
+  onChecklistChange?: (taskId: string, progress: ChecklistProgress) => void;
+  // Called with the updated task when its assignee changes
+  onTaskChange?: (task: Task) => void;
+  // Called after the user stops collaborating on a task shared with them
+  onLeave?: (task: Task) => void;
+  statuses?: WorkflowStatus[];
 }
 
 export default function TaskDetailModal({ 
@@ -19,7 +36,11 @@ export default function TaskDetailModal({
   onClose, 
   onEdit, 
   onDelete, 
-  onToggle 
+  onToggle,
+  onChecklistChange,
+  onTaskChange,
+  onLeave,
+  statuses = []
 }: TaskDetailModalProps) {
   const [task, setTask] = useState<Task | null>(null);
   const [loading, setLoading] = useState(false);
@@ -67,13 +88,19 @@ export default function TaskDetailModal({
     });
   };
 
-  const getStatusBadge = (status: TaskStatus) => {
+  const getPriorityBadge = (priority: TaskPriority) => {
     const baseClasses = "inline-flex items-center px-3 py-1 rounded-full text-sm font-medium";
-    
-    if (status === TaskStatus.COMPLETED) {
-      return `${baseClasses} bg-green-100 text-green-800`;
+
+    switch (priority) {
+      case TaskPriority.URGENT:
+        return `${baseClasses} bg-red-100 text-red-800`;
+      case TaskPriority.HIGH:
+        return `${baseClasses} bg-orange-100 text-orange-800`;
+      case TaskPriority.LOW:
+        return `${baseClasses} bg-gray-100 text-gray-600`;
+      default:
+        return `${baseClasses} bg-blue-100 text-blue-800`;
     }
-    return `${baseClasses} bg-yellow-100 text-yellow-800`;
   };
 
   const handleEdit = () => {
@@ -90,15 +117,49 @@ export default function TaskDetailModal({
     }
   };
 
-  const handleToggle = () => {
+  const handleToggle = (to: ToggleTarget) => {
     if (task && onToggle) {
-      onToggle(task);
-      // Update local state optimistically
-      setTask(prev => prev ? {
-        ...prev,
-        status: prev.status === TaskStatus.COMPLETED ? TaskStatus.PENDING : TaskStatus.COMPLETED,
-        updatedAt: new Date().toISOString()
-      } : null);
+      onToggle(task, to);
+      // Update local state optimistically, unless the task follows another user's workflow
+      const nextStatus = task.access === 'OWNER' ? getToggleStatus(statuses, task, to) : undefined;
+      if (nextStatus) {
+        setTask(prev => prev ? {
+          ...prev,
+          status: nextStatus.key,
+          workflowStatus: {
+            key: nextStatus.key,
+            name: nextStatus.name,
+            category: nextStatus.category,
+            color: nextStatus.color
+          },
+          updatedAt: new Date().toISOString()
+        } : null);
+      }
+    }
+  };
+
+  // The next step in the workflow, when it is not simply marking the task done.
+  // Only the owner's own workflow is known here.
+  const nextOpenStatus = task && task.access === 'OWNER' && !isTaskDone(task)
+    ? getToggleStatus(statuses, task, 'next')
+    : undefined;
+
+  const handleSharingChange = (updatedTask: Task) => {
+    setTask(updatedTask);
+    onTaskChange?.(updatedTask);
+  };
+
+  const handleLeave = () => {
+    if (task) {
+      onLeave?.(task);
+      handleClose();
+    }
+  };
+
+  const handleChecklistProgressChange = (progress: ChecklistProgress) => {
+    if (task) {
+      setTask(prev => prev ? { ...prev, checklistProgress: progress } : null);
+      onChecklistChange?.(task.id, progress);
     }
   };
 
@@ -176,16 +237,29 @@ export default function TaskDetailModal({
                 <div>
                   <div className="flex items-start justify-between mb-3">
                     <h4 className={`text-xl font-semibold ${
-                      task.status === TaskStatus.COMPLETED 
+                      isTaskDone(task)
                         ? 'text-gray-500 line-through' 
                         : 'text-gray-900'
                     }`}>
                       {task.title}
                     </h4>
-                    <span className={getStatusBadge(task.status)}>
-                      {task.status.toLowerCase()}
-                    </span>
+                    <div className="flex items-center space-x-2">
+                      <span className={getPriorityBadge(task.priority)}>
+                        {task.priority.toLowerCase()} priority
+                      </span>
+                      <StatusBadge status={task.workflowStatus} size="md" />
+                    </div>
                   </div>
+                  {task.project && (
+                    <ProjectBadge project={task.project} className="mb-2" />
+                  )}
+                  {task.tags && task.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {task.tags.map(tag => (
+                        <TagChip key={tag.id} tag={tag} />
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 {/* Description */}
@@ -193,7 +267,7 @@ export default function TaskDetailModal({
                   <h5 className="text-sm font-medium text-gray-900 mb-2">Description</h5>
                   {task.description ? (
                     <div className={`bg-gray-50 rounded-md p-4 ${
-                      task.status === TaskStatus.COMPLETED ? 'text-gray-500' : 'text-gray-700'
+                      isTaskDone(task) ? 'text-gray-500' : 'text-gray-700'
                     }`}>
                       <p className="text-sm whitespace-pre-wrap">{task.description}</p>
                     </div>
@@ -202,8 +276,31 @@ export default function TaskDetailModal({
                   )}
                 </div>
 
+                {/* Checklist */}
+                <TaskChecklist
+                  taskId={task.id}
+                  onProgressChange={handleChecklistProgressChange}
+                  readOnly={task.access === 'VIEWER'}
+                />
+
                 {/* Metadata */}
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <h5 className="text-sm font-medium text-gray-900 mb-1">Due</h5>
+                    {task.dueAt ? (
+                      <p className={`text-sm ${isTaskOverdue(task) ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                        {formatDate(task.dueAt)}
+                        {isTaskOverdue(task) && ' (overdue)'}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-500 italic">No due date</p>
+                    )}
+                    {task.dueAt && task.reminderMinutes !== undefined && (
+                      <p className="text-xs text-gray-500">
+                        Reminder: {describeReminder(task.reminderMinutes).toLowerCase()}
+                      </p>
+                    )}
+                  </div>
                   <div>
                     <h5 className="text-sm font-medium text-gray-900 mb-1">Created</h5>
                     <p className="text-sm text-gray-600">{formatDate(task.createdAt)}</p>
@@ -219,6 +316,18 @@ export default function TaskDetailModal({
                   </div>
                 </div>
 
+                {/* Sharing */}
+                <TaskCollaborators task={task} onTaskChange={handleSharingChange} onLeave={handleLeave} />
+
+                {/* Attachments */}
+                <TaskAttachments taskId={task.id} readOnly={task.access === 'VIEWER'} />
+
+                {/* Comments */}
+                <TaskComments taskId={task.id} />
+
+                {/* History */}
+                <TaskHistory taskId={task.id} version={task.updatedAt} statuses={statuses} />
+
                 {/* Task ID (for debugging/support) */}
                 <div>
                   <h5 className="text-sm font-medium text-gray-900 mb-1">Task ID</h5>
@@ -234,20 +343,29 @@ export default function TaskDetailModal({
           {task && !loading && !error && (
             <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
               <div className="flex space-x-3">
-                {onToggle && (
+                {onToggle && nextOpenStatus && nextOpenStatus.category !== 'DONE' && (
+                  <button
+                    onClick={() => handleToggle('next')}
+                    className="inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:text-sm"
+                  >
+                    Move to {nextOpenStatus.name}
+                  </button>
+                )}
+
+                {onToggle && task.access !== 'VIEWER' && (
                   <button
-                    onClick={handleToggle}
+                    onClick={() => handleToggle('done')}
                     className={`inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 text-base font-medium text-white focus:outline-none focus:ring-2 focus:ring-offset-2 sm:text-sm ${
-                      task.status === TaskStatus.COMPLETED
+                      isTaskDone(task)
                         ? 'bg-yellow-600 hover:bg-yellow-700 focus:ring-yellow-500'
                         : 'bg-green-600 hover:bg-green-700 focus:ring-green-500'
                     }`}
                   >
-                    Mark as {task.status === TaskStatus.COMPLETED ? 'Pending' : 'Completed'}
+                    {isTaskDone(task) ? 'Reopen' : 'Mark as Done'}
                   </button>
                 )}
                 
-                {onEdit && (
+                {onEdit && task.access !== 'VIEWER' && (
                   <button
                     onClick={handleEdit}
                     className="inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:text-sm"
@@ -256,7 +374,7 @@ export default function TaskDetailModal({
                   </button>
                 )}
                 
-                {onDelete && (
+                {onDelete && task.access === 'OWNER' && (
                   <button
                     onClick={handleDelete}
                     className="inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 sm:text-sm"
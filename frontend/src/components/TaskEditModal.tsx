@@ -1,44 +1,85 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { UpdateTaskRequest, Task, TaskStatus } from '@/types';
+import { UpdateTaskRequest, Project, Tag, Task, TaskStatus, TaskPriority, WorkflowStatus } from '@/types';
 import { apiClient } from '@/lib/api';
+import { toDateTimeLocalValue, fromDateTimeLocalValue } from '@/lib/dates';
+import { describeReminder, getReminderOptions } from '@/lib/reminders';
+import { getRecurrenceDraft, getRecurrenceRule, RecurrenceDraft } from '@/lib/recurrence';
+import TagPicker from '@/components/TagPicker';
+import RecurrenceEditor from '@/components/RecurrenceEditor';
 
 interface TaskEditModalProps {
   isOpen: boolean;
   task: Task | null;
   onClose: () => void;
   onTaskUpdated: (task: Task) => void;
+  tags?: Tag[];
+  projects?: Project[];
+  statuses?: WorkflowStatus[];
 }
 
 interface FormData {
   title: string;
   description: string;
-  status: TaskStatus;
+  status: string;
+  priority: TaskPriority;
+  dueAt: string;
+  // Minutes before the due date, or '' for no reminder
+  reminderMinutes: string;
+  tagIds: string[];
+  projectId: string;
+  recurrence: RecurrenceDraft;
 }
 
 interface FormErrors {
   title?: string;
   description?: string;
+  dueAt?: string;
+  reminderMinutes?: string;
+  recurrenceRule?: string;
   general?: string;
 }
 
-export default function TaskEditModal({ isOpen, task, onClose, onTaskUpdated }: TaskEditModalProps) {
+/**
+ * Get the rule a task currently repeats by, if its series has not been stopped
+ */
+function getActiveRule(task: Task): string | undefined {
+  return task.recurrence && !task.recurrence.stoppedAt ? task.recurrence.rule : undefined;
+}
+
+export default function TaskEditModal({ isOpen, task, onClose, onTaskUpdated, tags = [], projects = [], statuses = [] }: TaskEditModalProps) {
   const [formData, setFormData] = useState<FormData>({
     title: '',
     description: '',
-    status: TaskStatus.PENDING
+    status: TaskStatus.PENDING,
+    priority: TaskPriority.MEDIUM,
+    dueAt: '',
+    reminderMinutes: '',
+    tagIds: [],
+    projectId: '',
+    recurrence: getRecurrenceDraft()
   });
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Status, recurrence, project and tags belong to the owner's workflow, projects
+  // and tags, so collaborators who can edit only change the other fields
+  const isOwner = task?.access === 'OWNER';
+
   // Reset form when task changes or modal opens
   useEffect(() => {
     if (task && isOpen) {
       setFormData({
         title: task.title,
         description: task.description || '',
-        status: task.status
+        status: task.status,
+        priority: task.priority,
+        dueAt: toDateTimeLocalValue(task.dueAt),
+        reminderMinutes: task.reminderMinutes?.toString() ?? '',
+        tagIds: (task.tags ?? []).map(tag => tag.id),
+        projectId: task.projectId ?? '',
+        recurrence: getRecurrenceDraft(getActiveRule(task))
       });
       setErrors({});
     }
@@ -79,9 +120,37 @@ export default function TaskEditModal({ isOpen, task, onClose, onTaskUpdated }:
       const updateRequest: UpdateTaskRequest = {
         title: formData.title.trim(),
         description: formData.description.trim() || undefined,
-        status: formData.status
+        priority: formData.priority,
+        dueAt: fromDateTimeLocalValue(formData.dueAt) ?? null,
+        reminderMinutes: formData.dueAt && formData.reminderMinutes !== ''
+          ? Number(formData.reminderMinutes)
+          : null,
+        ...(isOwner && {
+          status: formData.status,
+          tagIds: formData.tagIds,
+          projectId: formData.projectId || null
+        })
       };
 
+      // Change the series first so a task completed by this edit repeats by the new rule
+      const recurrenceRule = getRecurrenceRule(formData.recurrence);
+      if (isOwner && recurrenceRule !== getActiveRule(task)) {
+        try {
+          if (recurrenceRule) {
+            await apiClient.recurrence.set(task.id, recurrenceRule);
+          } else {
+            await apiClient.recurrence.stop(task.id);
+          }
+        } catch (error: any) {
+          const details = error.response?.data?.error?.details;
+          if (error.response?.status === 400 && details?.rule) {
+            setErrors({ recurrenceRule: details.rule[0] });
+            return;
+          }
+          throw error;
+        }
+      }
+
       const updatedTask = await apiClient.tasks.update(task.id, updateRequest);
       
       // Notify parent component
@@ -103,6 +172,12 @@ export default function TaskEditModal({ isOpen, task, onClose, onTaskUpdated }:
         if (details.description) {
           serverErrors.description = details.description[0];
         }
+        if (details.dueAt) {
+          serverErrors.dueAt = details.dueAt[0];
+        }
+        if (details.reminderMinutes) {
+          serverErrors.reminderMinutes = details.reminderMinutes[0];
+        }
         
         setErrors(serverErrors);
       } else {
@@ -116,7 +191,7 @@ export default function TaskEditModal({ isOpen, task, onClose, onTaskUpdated }:
     }
   };
 
-  const handleInputChange = (field: keyof FormData, value: string | TaskStatus) => {
+  const handleInputChange = (field: Exclude<keyof FormData, 'tagIds' | 'recurrence'>, value: string | TaskPriority) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     
     // Clear field-specific error when user starts typing
@@ -229,21 +304,161 @@ export default function TaskEditModal({ isOpen, task, onClose, onTaskUpdated }:
                     </div>
 
                     {/* Status field */}
+                    {isOwner && (
+                      <div>
+                        <label htmlFor="edit-status" className="block text-sm font-medium text-gray-700 mb-1">
+                          Status
+                        </label>
+                        <select
+                          id="edit-status"
+                          value={formData.status}
+                          onChange={(e) => handleInputChange('status', e.target.value)}
+                          className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          disabled={isSubmitting}
+                        >
+                          {!statuses.some(status => status.key === task.status) && (
+                            <option value={task.status}>{task.workflowStatus.name}</option>
+                          )}
+                          {statuses.map(status => (
+                            <option key={status.id} value={status.key}>{status.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {/* Priority field */}
                     <div>
-                      <label htmlFor="edit-status" className="block text-sm font-medium text-gray-700 mb-1">
-                        Status
+                      <label htmlFor="edit-priority" className="block text-sm font-medium text-gray-700 mb-1">
+                        Priority
                       </label>
                       <select
-                        id="edit-status"
-                        value={formData.status}
-                        onChange={(e) => handleInputChange('status', e.target.value as TaskStatus)}
+                        id="edit-priority"
+                        value={formData.priority}
+                        onChange={(e) => handleInputChange('priority', e.target.value as TaskPriority)}
                         className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                         disabled={isSubmitting}
                       >
-                        <option value={TaskStatus.PENDING}>Pending</option>
-                        <option value={TaskStatus.COMPLETED}>Completed</option>
+                        <option value={TaskPriority.LOW}>Low</option>
+                        <option value={TaskPriority.MEDIUM}>Medium</option>
+                        <option value={TaskPriority.HIGH}>High</option>
+                        <option value={TaskPriority.URGENT}>Urgent</option>
                       </select>
                     </div>
+
+                    {/* Due date field */}
+                    <div>
+                      <label htmlFor="edit-dueAt" className="block text-sm font-medium text-gray-700 mb-1">
+                        Due date
+                      </label>
+                      <input
+                        type="datetime-local"
+                        id="edit-dueAt"
+                        value={formData.dueAt}
+                        onChange={(e) => handleInputChange('dueAt', e.target.value)}
+                        className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-1 sm:text-sm ${
+                          errors.dueAt
+                            ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                            : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+                        }`}
+                        disabled={isSubmitting}
+                      />
+                      {errors.dueAt && (
+                        <p className="mt-1 text-sm text-red-600">{errors.dueAt}</p>
+                      )}
+                      <p className="mt-1 text-xs text-gray-500">
+                        Leave empty to remove the due date
+                      </p>
+                    </div>
+
+                    {/* Reminder field */}
+                    <div>
+                      <label htmlFor="edit-reminderMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+                        Reminder
+                      </label>
+                      <select
+                        id="edit-reminderMinutes"
+                        value={formData.dueAt ? formData.reminderMinutes : ''}
+                        onChange={(e) => handleInputChange('reminderMinutes', e.target.value)}
+                        className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-1 sm:text-sm disabled:bg-gray-50 disabled:text-gray-500 ${
+                          errors.reminderMinutes
+                            ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                            : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+                        }`}
+                        disabled={isSubmitting || !formData.dueAt}
+                      >
+                        <option value="">No reminder</option>
+                        {getReminderOptions(task?.reminderMinutes).map(minutes => (
+                          <option key={minutes} value={minutes}>{describeReminder(minutes)}</option>
+                        ))}
+                      </select>
+                      {errors.reminderMinutes ? (
+                        <p className="mt-1 text-sm text-red-600">{errors.reminderMinutes}</p>
+                      ) : (
+                        <p className="mt-1 text-xs text-gray-500">
+                          {formData.dueAt ? 'Sent by email before the due date' : 'Set a due date to get a reminder'}
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Recurrence field */}
+                    {isOwner && (
+                      <div>
+                        <label htmlFor="recurrence" className="block text-sm font-medium text-gray-700 mb-1">
+                          Repeat
+                        </label>
+                        <RecurrenceEditor
+                          value={formData.recurrence}
+                          onChange={(recurrence) => {
+                            setFormData(prev => ({ ...prev, recurrence }));
+                            setErrors(prev => ({ ...prev, recurrenceRule: undefined }));
+                          }}
+                          error={errors.recurrenceRule}
+                          disabled={isSubmitting}
+                        />
+                        {task.recurrence && (
+                          <p className="mt-1 text-xs text-gray-500">
+                            Occurrence {task.recurrence.occurrence} of this series
+                            {task.recurrence.stoppedAt && ' (stopped)'}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Project field */}
+                    {isOwner && (projects.length > 0 || formData.projectId) && (
+                      <div>
+                        <label htmlFor="edit-projectId" className="block text-sm font-medium text-gray-700 mb-1">
+                          Project
+                        </label>
+                        <select
+                          id="edit-projectId"
+                          value={formData.projectId}
+                          onChange={(e) => handleInputChange('projectId', e.target.value)}
+                          className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          disabled={isSubmitting}
+                        >
+                          <option value="">No project</option>
+                          {projects.map(project => (
+                            <option key={project.id} value={project.id}>{project.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {/* Tags field */}
+                    {isOwner && (
+                      <div>
+                        <span className="block text-sm font-medium text-gray-700 mb-1">
+                          Tags
+                        </span>
+                        <TagPicker
+                          tags={tags}
+                          selectedIds={formData.tagIds}
+                          onChange={(tagIds) => setFormData(prev => ({ ...prev, tagIds }))}
+                          disabled={isSubmitting}
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { TaskEvent, TaskHistoryField, WorkflowStatus } from '@/types';
+import { apiClient } from '@/lib/api';
+
+interface TaskHistoryProps {
+  taskId: string;
+  // Reloads the history when it changes, e.g. the task's updatedAt
+  version?: string;
+  statuses?: WorkflowStatus[];
+}
+
+const FIELD_LABELS: Record<TaskHistoryField, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  dueAt: 'due date',
+  project: 'project',
+  assignee: 'assignee',
+  tags: 'tags'
+};
+
+const EVENT_DOTS: Record<TaskEvent['type'], string> = {
+  CREATED: 'bg-green-500',
+  UPDATED: 'bg-blue-500',
+  DELETED: 'bg-red-500',
+  RESTORED: 'bg-yellow-500'
+};
+
+const formatTimestamp = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export function TaskHistory({ taskId, version, statuses = [] }: TaskHistoryProps) {
+  const [events, setEvents] = useState<TaskEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory();
+  }, [taskId, version]);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setEvents(await apiClient.tasks.getHistory(taskId));
+    } catch (error: any) {
+      console.error('Failed to load task history:', error);
+      setError(error.response?.data?.error?.message || 'Failed to load history.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Show recorded values the way the rest of the app does
+  const formatValue = (field: TaskHistoryField, value?: string) => {
+    if (!value) {
+      return 'none';
+    }
+
+    switch (field) {
+      case 'status':
+        return statuses.find(status => status.key === value)?.name ?? value;
+      case 'priority':
+        return value.toLowerCase();
+      case 'dueAt':
+        return formatTimestamp(value);
+      default:
+        return value;
+    }
+  };
+
+  const describeEvent = (event: TaskEvent) => {
+    switch (event.type) {
+      case 'CREATED':
+        return 'created the task';
+      case 'DELETED':
+        return 'moved the task to the trash';
+      case 'RESTORED':
+        return 'restored the task from the trash';
+      default: {
+        const field = event.field!;
+
+        // Long text is summarised rather than repeated
+        if (field === 'description') {
+          return event.newValue ? 'changed the description' : 'removed the description';
+        }
+
+        return (
+          <>
+            changed the {FIELD_LABELS[field]} from{' '}
+            <span className="font-medium text-gray-700">{formatValue(field, event.oldValue)}</span> to{' '}
+            <span className="font-medium text-gray-700">{formatValue(field, event.newValue)}</span>
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <div>
+      <h5 className="text-sm font-medium text-gray-900 mb-2">History</h5>
+
+      {error && (
+        <p className="mb-2 text-xs text-red-600">{error}</p>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No changes recorded yet</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-1.5 space-y-3">
+          {events.map(event => (
+            <li key={event.id} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${EVENT_DOTS[event.type]}`}
+                aria-hidden="true"
+              />
+              <p className="text-sm text-gray-600">
+                <span className="font-medium text-gray-900">{event.user.name}</span> {describeEvent(event)}
+              </p>
+              <time dateTime={event.createdAt} className="text-xs text-gray-400">
+                {formatTimestamp(event.createdAt)}
+              </time>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export default TaskHistory;
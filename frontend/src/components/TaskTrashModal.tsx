@@ -0,0 +1,222 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Task } from '@/types';
+import { apiClient } from '@/lib/api';
+
+interface TaskTrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onTaskRestored: (task: Task) => void;
+}
+
+export default function TaskTrashModal({ isOpen, onClose, onTaskRestored }: TaskTrashModalProps) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyTaskId, setBusyTaskId] = useState<string | null>(null);
+  const [isEmptying, setIsEmptying] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTrash();
+    } else {
+      setTasks([]);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const loadTrash = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.tasks.getTrash({ page: 1, limit: 100 });
+      setTasks(response.tasks);
+    } catch (error: any) {
+      console.error('Failed to load trash:', error);
+      setError(error.response?.data?.error?.message || 'Failed to load trash.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (task: Task) => {
+    setBusyTaskId(task.id);
+    setError(null);
+
+    try {
+      const restoredTask = await apiClient.tasks.restore(task.id);
+      setTasks(prev => prev.filter(t => t.id !== task.id));
+      onTaskRestored(restoredTask);
+    } catch (error: any) {
+      console.error('Failed to restore task:', error);
+      setError(error.response?.data?.error?.message || 'Failed to restore task. Please try again.');
+    } finally {
+      setBusyTaskId(null);
+    }
+  };
+
+  const handlePurge = async (task: Task) => {
+    setBusyTaskId(task.id);
+    setError(null);
+
+    try {
+      await apiClient.tasks.purge(task.id);
+      setTasks(prev => prev.filter(t => t.id !== task.id));
+    } catch (error: any) {
+      console.error('Failed to permanently delete task:', error);
+      setError(error.response?.data?.error?.message || 'Failed to delete task. Please try again.');
+    } finally {
+      setBusyTaskId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    setIsEmptying(true);
+    setError(null);
+
+    try {
+      await apiClient.tasks.emptyTrash();
+      setTasks([]);
+    } catch (error: any) {
+      console.error('Failed to empty trash:', error);
+      setError(error.response?.data?.error?.message || 'Failed to empty trash. Please try again.');
+    } finally {
+      setIsEmptying(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isEmptying) {
+      onClose();
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={handleClose}
+        />
+
+        {/* Modal positioning */}
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">
+          &#8203;
+        </span>
+
+        {/* Modal content */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+          {/* Header */}
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4 border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  Trash
+                </h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  Deleted tasks are kept here for a limited time before being removed permanently.
+                </p>
+              </div>
+              <button
+                onClick={handleClose}
+                className="text-gray-400 hover:text-gray-600 focus:outline-none"
+              >
+                <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
+            {error && (
+              <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {loading && (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                <p className="mt-4 text-gray-600">Loading trash...</p>
+              </div>
+            )}
+
+            {!loading && tasks.length === 0 && (
+              <p className="text-center py-8 text-sm text-gray-500">The trash is empty.</p>
+            )}
+
+            {!loading && tasks.length > 0 && (
+              <div className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+                {tasks.map((task) => (
+                  <div key={task.id} className="py-3 flex items-center justify-between">
+                    <div className="flex-1 min-w-0 mr-4">
+                      <p className="text-sm font-medium text-gray-900 truncate">{task.title}</p>
+                      {task.deletedAt && (
+                        <p className="text-xs text-gray-500">Deleted: {formatDate(task.deletedAt)}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleRestore(task)}
+                        disabled={busyTaskId === task.id || isEmptying}
+                        className="text-blue-600 hover:text-blue-900 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => handlePurge(task)}
+                        disabled={busyTaskId === task.id || isEmptying}
+                        className="text-red-600 hover:text-red-900 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Delete forever
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={handleEmptyTrash}
+              disabled={isEmptying || loading || tasks.length === 0}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isEmptying ? 'Emptying...' : 'Empty Trash'}
+            </button>
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isEmptying}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import { useState } from 'react';
+import { StatusCategory, WorkflowStatus } from '@/types';
+import { apiClient } from '@/lib/api';
+
+interface WorkflowSettingsModalProps {
+  isOpen: boolean;
+  statuses: WorkflowStatus[];
+  onClose: () => void;
+  onStatusesChange: (statuses: WorkflowStatus[]) => void;
+}
+
+const CATEGORY_OPTIONS: { value: StatusCategory; label: string }[] = [
+  { value: 'TODO', label: 'To do' },
+  { value: 'IN_PROGRESS', label: 'In progress' },
+  { value: 'DONE', label: 'Done' }
+];
+
+export default function WorkflowSettingsModal({ isOpen, statuses, onClose, onStatusesChange }: WorkflowSettingsModalProps) {
+  const [newStatusName, setNewStatusName] = useState('');
+  const [newStatusCategory, setNewStatusCategory] = useState<StatusCategory>('IN_PROGRESS');
+  const [busyStatusId, setBusyStatusId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Status being deleted while the user picks where its tasks should go
+  const [deletingStatus, setDeletingStatus] = useState<WorkflowStatus | null>(null);
+  const [moveToKey, setMoveToKey] = useState('');
+
+  const replaceStatus = (updated: WorkflowStatus) => {
+    onStatusesChange(statuses.map(status => status.id === updated.id ? updated : status));
+  };
+
+  const handleCreateStatus = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = newStatusName.trim();
+    if (!name) {
+      return;
+    }
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const status = await apiClient.statuses.create({ name, category: newStatusCategory });
+      setNewStatusName('');
+      onStatusesChange([...statuses, status]);
+    } catch (error: any) {
+      console.error('Failed to create status:', error);
+      setError(error.response?.data?.error?.message || 'Failed to create status.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleUpdateStatus = async (status: WorkflowStatus, data: { name?: string; category?: StatusCategory }) => {
+    if (data.name !== undefined && (!data.name.trim() || data.name.trim() === status.name)) {
+      return;
+    }
+
+    setBusyStatusId(status.id);
+    setError(null);
+
+    try {
+      replaceStatus(await apiClient.statuses.update(status.id, data));
+    } catch (error: any) {
+      console.error('Failed to update status:', error);
+      setError(error.response?.data?.error?.message || 'Failed to update status.');
+    } finally {
+      setBusyStatusId(null);
+    }
+  };
+
+  const handleMoveStatus = async (index: number, offset: -1 | 1) => {
+    const reordered = [...statuses];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+
+    setBusyStatusId(moved.id);
+    setError(null);
+
+    try {
+      onStatusesChange(await apiClient.statuses.reorder(reordered.map(status => status.id)));
+    } catch (error: any) {
+      console.error('Failed to reorder statuses:', error);
+      setError(error.response?.data?.error?.message || 'Failed to reorder statuses.');
+    } finally {
+      setBusyStatusId(null);
+    }
+  };
+
+  const handleStartDelete = (status: WorkflowStatus) => {
+    setDeletingStatus(status);
+    setMoveToKey(statuses.find(other => other.id !== status.id && other.category === status.category)?.key
+      ?? statuses.find(other => other.id !== status.id)?.key
+      ?? '');
+    setError(null);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deletingStatus) {
+      return;
+    }
+
+    setBusyStatusId(deletingStatus.id);
+    setError(null);
+
+    try {
+      await apiClient.statuses.delete(deletingStatus.id, deletingStatus.taskCount > 0 ? moveToKey : undefined);
+      setDeletingStatus(null);
+
+      // Task counts have moved to another status, so reload them
+      onStatusesChange(await apiClient.statuses.getAll());
+    } catch (error: any) {
+      console.error('Failed to delete status:', error);
+      setError(error.response?.data?.error?.message || 'Failed to delete status.');
+    } finally {
+      setBusyStatusId(null);
+    }
+  };
+
+  const handleClose = () => {
+    setDeletingStatus(null);
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={handleClose}
+        />
+
+        {/* Modal positioning */}
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">
+          &#8203;
+        </span>
+
+        {/* Modal content */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+          {/* Header */}
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4 border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  Workflow
+                </h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  Tasks move through these statuses in order. Tasks in a done status are never overdue.
+                </p>
+              </div>
+              <button
+                onClick={handleClose}
+                className="text-gray-400 hover:text-gray-600 focus:outline-none"
+              >
+                <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6">
+            {error && (
+              <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            <div className="divide-y divide-gray-200">
+              {statuses.map((status, index) => (
+                <div key={status.id} className="py-3">
+                  <div className="flex items-center space-x-2">
+                    <div className="flex flex-col">
+                      <button
+                        onClick={() => handleMoveStatus(index, -1)}
+                        disabled={index === 0 || busyStatusId !== null}
+                        className="text-xs text-gray-400 hover:text-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                        aria-label={`Move ${status.name} up`}
+                      >
+                        ▲
+                      </button>
+                      <button
+                        onClick={() => handleMoveStatus(index, 1)}
+                        disabled={index === statuses.length - 1 || busyStatusId !== null}
+                        className="text-xs text-gray-400 hover:text-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                        aria-label={`Move ${status.name} down`}
+                      >
+                        ▼
+                      </button>
+                    </div>
+                    <input
+                      type="text"
+                      defaultValue={status.name}
+                      onBlur={(e) => handleUpdateStatus(status, { name: e.target.value })}
+                      maxLength={50}
+                      disabled={busyStatusId === status.id}
+                      aria-label="Status name"
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <select
+                      value={status.category}
+                      onChange={(e) => handleUpdateStatus(status, { category: e.target.value as StatusCategory })}
+                      disabled={busyStatusId === status.id}
+                      aria-label="Status category"
+                      className="px-2 py-1 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {CATEGORY_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <span className="w-16 text-right text-xs text-gray-500">
+                      {status.taskCount} task{status.taskCount !== 1 ? 's' : ''}
+                    </span>
+                    <button
+                      onClick={() => handleStartDelete(status)}
+                      disabled={busyStatusId !== null || statuses.length <= 2}
+                      className="text-red-600 hover:text-red-900 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Delete
+                    </button>
+                  </div>
+
+                  {deletingStatus?.id === status.id && (
+                    <div className="mt-2 ml-6 flex flex-wrap items-center gap-2 bg-red-50 rounded-md p-2">
+                      {status.taskCount > 0 ? (
+                        <>
+                          <span className="text-sm text-gray-700">Move its tasks to</span>
+                          <select
+                            value={moveToKey}
+                            onChange={(e) => setMoveToKey(e.target.value)}
+                            aria-label="Move tasks to"
+                            className="px-2 py-1 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            {statuses.filter(other => other.id !== status.id).map(other => (
+                              <option key={other.id} value={other.key}>{other.name}</option>
+                            ))}
+                          </select>
+                        </>
+                      ) : (
+                        <span className="text-sm text-gray-700">Delete this status?</span>
+                      )}
+                      <button
+                        onClick={handleConfirmDelete}
+                        disabled={busyStatusId === status.id}
+                        className="px-2 py-1 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Delete
+                      </button>
+                      <button
+                        onClick={() => setDeletingStatus(null)}
+                        className="px-2 py-1 text-sm text-gray-500 hover:text-gray-700 focus:outline-none"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* New status */}
+            <form onSubmit={handleCreateStatus} className="mt-4 flex items-center space-x-2">
+              <input
+                type="text"
+                value={newStatusName}
+                onChange={(e) => setNewStatusName(e.target.value)}
+                placeholder="New status, e.g. In review"
+                maxLength={50}
+                disabled={isCreating}
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <select
+                value={newStatusCategory}
+                onChange={(e) => setNewStatusCategory(e.target.value as StatusCategory)}
+                disabled={isCreating}
+                aria-label="New status category"
+                className="px-2 py-1 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {CATEGORY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={isCreating || !newStatusName.trim()}
+                className="px-3 py-1 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add
+              </button>
+            </form>
+          </div>
+
+          {/* Actions */}
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:w-auto sm:text-sm"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
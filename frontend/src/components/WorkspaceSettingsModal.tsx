@@ -0,0 +1,417 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '@/types';
+import { apiClient } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface WorkspaceSettingsModalProps {
+  isOpen: boolean;
+  workspace: Workspace;
+  onClose: () => void;
+  onWorkspaceChange: (workspace: Workspace) => void;
+  // Called after the workspace is deleted or the current user leaves it
+  onWorkspaceRemoved: (workspace: Workspace) => void;
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  VIEWER: 'Viewer',
+  MEMBER: 'Member',
+  ADMIN: 'Admin',
+  OWNER: 'Owner'
+};
+
+const ROLE_RANK: WorkspaceRole[] = ['VIEWER', 'MEMBER', 'ADMIN', 'OWNER'];
+
+// Admins and the owner manage members ranked below themselves
+const canManage = (actorRole: WorkspaceRole, targetRole: WorkspaceRole) =>
+  ROLE_RANK.indexOf(actorRole) >= ROLE_RANK.indexOf('ADMIN') &&
+  ROLE_RANK.indexOf(actorRole) > ROLE_RANK.indexOf(targetRole);
+
+export default function WorkspaceSettingsModal({
+  isOpen,
+  workspace,
+  onClose,
+  onWorkspaceChange,
+  onWorkspaceRemoved
+}: WorkspaceSettingsModalProps) {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState(workspace.name);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('MEMBER');
+  const [isInviting, setIsInviting] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  // Address the last invitation was emailed to
+  const [invitedEmail, setInvitedEmail] = useState<string | null>(null);
+
+  const isAdmin = canManage(workspace.role, 'MEMBER');
+  const isOwner = workspace.role === 'OWNER';
+  const assignableRoles = ROLE_RANK.filter(value => canManage(workspace.role, value));
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(workspace.name);
+      setInvitedEmail(null);
+      loadMembers();
+    }
+  }, [isOpen, workspace.id]);
+
+  const loadMembers = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [workspaceMembers, pendingInvitations] = await Promise.all([
+        apiClient.workspaces.getMembers(workspace.id),
+        isAdmin ? apiClient.workspaces.getInvitations(workspace.id) : Promise.resolve([])
+      ]);
+      setMembers(workspaceMembers);
+      setInvitations(pendingInvitations);
+    } catch (error: any) {
+      console.error('Failed to load members:', error);
+      setError(error.response?.data?.error?.message || 'Failed to load members.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRename = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName || trimmedName === workspace.name) {
+      setName(workspace.name);
+      return;
+    }
+
+    setError(null);
+
+    try {
+      onWorkspaceChange(await apiClient.workspaces.update(workspace.id, { name: trimmedName }));
+    } catch (error: any) {
+      console.error('Failed to rename workspace:', error);
+      setName(workspace.name);
+      setError(error.response?.data?.error?.message || 'Failed to rename workspace.');
+    }
+  };
+
+  const handleRoleChange = async (member: WorkspaceMember, newRole: WorkspaceRole) => {
+    setError(null);
+
+    try {
+      const updated = await apiClient.workspaces.updateMember(workspace.id, member.user.id, { role: newRole });
+      setMembers(prev => prev.map(m => m.user.id === updated.user.id ? updated : m));
+    } catch (error: any) {
+      console.error('Failed to change role:', error);
+      setError(error.response?.data?.error?.message || 'Failed to change role.');
+    }
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    const isLeaving = member.user.id === user?.id;
+    const message = isLeaving
+      ? `Leave "${workspace.name}"? You will lose access to its tasks.`
+      : `Remove ${member.user.name} from "${workspace.name}"?`;
+
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    setError(null);
+
+    try {
+      await apiClient.workspaces.removeMember(workspace.id, member.user.id);
+
+      if (isLeaving) {
+        onWorkspaceRemoved(workspace);
+        return;
+      }
+
+      setMembers(prev => prev.filter(m => m.user.id !== member.user.id));
+      onWorkspaceChange({ ...workspace, memberCount: workspace.memberCount - 1 });
+    } catch (error: any) {
+      console.error('Failed to remove member:', error);
+      setError(error.response?.data?.error?.message || 'Failed to remove member.');
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedEmail = email.trim();
+    if (!trimmedEmail) {
+      return;
+    }
+
+    setIsInviting(true);
+    setError(null);
+
+    try {
+      const invitation = await apiClient.workspaces.invite(workspace.id, { email: trimmedEmail, role });
+      // A new invitation replaces any earlier one to the same address
+      setInvitations(prev => [invitation, ...prev.filter(i => i.email !== invitation.email)]);
+      setInvitedEmail(invitation.email);
+      setEmail('');
+    } catch (error: any) {
+      console.error('Failed to invite:', error);
+      setError(error.response?.data?.error?.message || 'Failed to send invitation.');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: WorkspaceInvitation) => {
+    const previousInvitations = invitations;
+
+    // Optimistic update: remove the invitation right away
+    setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+    setError(null);
+
+    try {
+      await apiClient.workspaces.revokeInvitation(workspace.id, invitation.id);
+    } catch (error: any) {
+      console.error('Failed to revoke invitation:', error);
+      setInvitations(previousInvitations);
+      setError(error.response?.data?.error?.message || 'Failed to revoke invitation.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete "${workspace.name}"? Its tasks will go back to the members who created them.`)) {
+      return;
+    }
+
+    setIsRemoving(true);
+    setError(null);
+
+    try {
+      await apiClient.workspaces.delete(workspace.id);
+      onWorkspaceRemoved(workspace);
+    } catch (error: any) {
+      console.error('Failed to delete workspace:', error);
+      setError(error.response?.data?.error?.message || 'Failed to delete workspace.');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  const handleClose = () => {
+    setError(null);
+    setInvitedEmail(null);
+    onClose();
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const currentMember = members.find(member => member.user.id === user?.id);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={handleClose}
+        />
+
+        {/* Modal positioning */}
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">
+          &#8203;
+        </span>
+
+        {/* Modal content */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+          {/* Header */}
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4 border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div className="flex-1 min-w-0 mr-4">
+                {isAdmin ? (
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onBlur={handleRename}
+                    maxLength={100}
+                    aria-label="Workspace name"
+                    className="block w-full px-2 py-1 -ml-2 border border-transparent rounded-md text-lg font-medium text-gray-900 hover:border-gray-300 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                ) : (
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">
+                    {workspace.name}
+                  </h3>
+                )}
+                <p className="mt-1 text-sm text-gray-500">
+                  Viewers can read the workspace&apos;s tasks, members can also change them and admins also manage members.
+                </p>
+              </div>
+              <button
+                onClick={handleClose}
+                className="text-gray-400 hover:text-gray-600 focus:outline-none"
+              >
+                <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {/* Members */}
+            <div>
+              <h5 className="text-sm font-medium text-gray-900 mb-2">Members</h5>
+              {loading ? (
+                <p className="text-sm text-gray-500">Loading members...</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                  {members.map(member => (
+                    <li key={member.user.id} className="flex items-center justify-between px-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-900 truncate">
+                          {member.user.name}
+                          {member.user.id === user?.id && <span className="ml-1 text-xs text-gray-500">(you)</span>}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">{member.user.email}</p>
+                      </div>
+                      <div className="flex items-center space-x-3 ml-3">
+                        {canManage(workspace.role, member.role) ? (
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleRoleChange(member, e.target.value as WorkspaceRole)}
+                            aria-label={`Role of ${member.user.name}`}
+                            className="px-2 py-1 border border-gray-300 rounded-md bg-white text-xs focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            {assignableRoles.map(value => (
+                              <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+                        )}
+                        {canManage(workspace.role, member.role) && (
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveMember(member)}
+                            className="text-xs text-gray-400 hover:text-red-600 focus:outline-none"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Invitations */}
+            {isAdmin && (
+              <div>
+                <h5 className="text-sm font-medium text-gray-900 mb-2">Invitations</h5>
+
+                {invitations.length > 0 && (
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md mb-3">
+                    {invitations.map(invitation => (
+                      <li key={invitation.id} className="flex items-center justify-between px-3 py-2">
+                        <div className="min-w-0">
+                          <p className="text-sm text-gray-900 truncate">{invitation.email}</p>
+                          <p className="text-xs text-gray-500">
+                            {ROLE_LABELS[invitation.role]} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleRevoke(invitation)}
+                          className="ml-3 text-xs text-gray-400 hover:text-red-600 focus:outline-none"
+                        >
+                          Revoke
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <form onSubmit={handleInvite} className="flex space-x-2">
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="Invite by email"
+                    disabled={isInviting}
+                    aria-label="Email address to invite"
+                    className="block w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+                    disabled={isInviting}
+                    aria-label="Role"
+                    className="px-2 py-1.5 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {assignableRoles.map(value => (
+                      <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={isInviting || !email.trim()}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isInviting ? 'Inviting...' : 'Invite'}
+                  </button>
+                </form>
+
+                {invitedEmail && (
+                  <p className="mt-3 text-xs text-gray-500">
+                    An invitation link was emailed to {invitedEmail}.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 flex justify-between">
+            {isOwner ? (
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={isRemoving}
+                className="text-sm font-medium text-red-600 hover:text-red-700 focus:outline-none disabled:opacity-50"
+              >
+                Delete workspace
+              </button>
+            ) : currentMember ? (
+              <button
+                type="button"
+                onClick={() => handleRemoveMember(currentMember)}
+                className="text-sm font-medium text-red-600 hover:text-red-700 focus:outline-none"
+              >
+                Leave workspace
+              </button>
+            ) : (
+              <span />
+            )}
+            <button
+              type="button"
+              onClick={handleClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { Workspace } from '@/types';
+import { apiClient } from '@/lib/api';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  // Selected workspace id, or null for the user's own tasks
+  selectedWorkspaceId: string | null;
+  onSelect: (workspaceId: string | null) => void;
+  onWorkspaceCreated: (workspace: Workspace) => void;
+  onManage: () => void;
+}
+
+export default function WorkspaceSwitcher({
+  workspaces,
+  selectedWorkspaceId,
+  onSelect,
+  onWorkspaceCreated,
+  onManage
+}: WorkspaceSwitcherProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreateWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = newWorkspaceName.trim();
+    if (!name) {
+      return;
+    }
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const workspace = await apiClient.workspaces.create({ name });
+      setNewWorkspaceName('');
+      setIsAdding(false);
+      onWorkspaceCreated(workspace);
+    } catch (error: any) {
+      console.error('Failed to create workspace:', error);
+      setError(error.response?.data?.error?.message || 'Failed to create workspace.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedWorkspaceId ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          aria-label="Workspace"
+          className="block px-3 py-1.5 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Personal</option>
+          {workspaces.map(workspace => (
+            <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+          ))}
+        </select>
+
+        {selectedWorkspaceId && (
+          <button
+            type="button"
+            onClick={onManage}
+            className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900 focus:outline-none"
+          >
+            Members
+          </button>
+        )}
+
+        {isAdding ? (
+          <form onSubmit={handleCreateWorkspace} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={newWorkspaceName}
+              onChange={(e) => setNewWorkspaceName(e.target.value)}
+              placeholder="Workspace name"
+              maxLength={100}
+              disabled={isCreating}
+              autoFocus
+              className="block w-40 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={isCreating || !newWorkspaceName.trim()}
+              className="px-2 py-1 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setIsAdding(false);
+                setNewWorkspaceName('');
+                setError(null);
+              }}
+              className="px-2 py-1 text-sm text-gray-500 hover:text-gray-700 focus:outline-none"
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setIsAdding(true)}
+            className="px-2 py-1 text-sm text-blue-600 hover:text-blue-700 focus:outline-none"
+          >
+            + New workspace
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { User, AuthContextType, LoginRequest, RegisterRequest } from '@/types';
+import { User, AuthContextType, LoginRequest, RegisterRequest, UpdateProfileRequest } from '@/types';
 import { apiClient } from '@/lib/api';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -23,16 +23,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
         if (accessToken && refreshToken) {
           // Try to refresh token to validate current session
           await apiClient.auth.refresh();
-          // If refresh succeeds, we need to get user info
-          // For now, we'll extract user info from token or make a separate call
-          // This is a simplified approach - in production you might decode JWT or call /me endpoint
-          setUser({
-            id: 'current-user', // This would come from token or API call
-            email: 'user@example.com', // This would come from token or API call
-            name: 'Current User', // This would come from token or API call
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
-          });
+          // If refresh succeeds, load the signed-in user's profile
+          setUser(await apiClient.auth.getMe());
         }
       } catch (error) {
         // Token refresh failed, user needs to login again
@@ -84,11 +76,24 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  const updateProfile = async (data: UpdateProfileRequest): Promise<void> => {
+    setUser(await apiClient.auth.updateMe(data));
+  };
+
+  // Links can be opened while signed out or signed in as someone else, so
+  // only the signed-in user's own verification updates the context
+  const verifyEmail = async (token: string): Promise<void> => {
+    const response = await apiClient.auth.verifyEmail(token);
+    setUser(current => (current?.id === response.user.id ? response.user : current));
+  };
+
   const value: AuthContextType = {
     user,
     login,
     register,
     logout,
+    updateProfile,
+    verifyEmail,
     isLoading,
     isAuthenticated: !!user
   };
@@ -5,17 +5,59 @@ import {
   TokenResponse,
   RegisterRequest,
   LoginRequest,
+  UpdateProfileRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  ChangePasswordRequest,
+  VerifyEmailResponse,
+  Session,
+  User,
   Task,
+  TaskEvent,
   CreateTaskRequest,
   UpdateTaskRequest,
+  MoveTaskRequest,
+  BulkTaskRequest,
+  BulkTaskResponse,
   TaskQuery,
+  TaskCursorQuery,
+  TrashQuery,
   PaginatedTasks,
+  CursorPaginatedTasks,
+  Tag,
+  CreateTagRequest,
+  UpdateTagRequest,
+  ChecklistItem,
+  CreateChecklistItemRequest,
+  UpdateChecklistItemRequest,
+  Recurrence,
+  Comment,
+  CreateCommentRequest,
+  UpdateCommentRequest,
+  Attachment,
+  Collaborator,
+  AddCollaboratorRequest,
+  UpdateCollaboratorRequest,
+  Project,
+  CreateProjectRequest,
+  UpdateProjectRequest,
+  WorkflowStatus,
+  CreateStatusRequest,
+  UpdateStatusRequest,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  CreateWorkspaceRequest,
+  UpdateWorkspaceRequest,
+  UpdateMemberRequest,
+  CreateInvitationRequest,
+  ToggleTarget,
   ErrorResponse
 } from '@/types';
 
 class APIClient {
   private client: AxiosInstance;
-  private refreshPromise: Promise<string> | null = null;
+  private refreshPromise: Promise<TokenResponse> | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -49,20 +91,23 @@ class APIClient {
         // Enhance error with additional context
         const enhancedError = this.enhanceError(error);
 
+        // The server revoked the session, so retrying cannot succeed
+        if (this.isTokenReuseError(error)) {
+          this.forceLogout(true);
+          return Promise.reject(enhancedError);
+        }
+
         if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
           originalRequest._retry = true;
 
           try {
-            const newToken = await this.refreshAccessToken();
+            const { accessToken: newToken } = await this.refreshAccessToken();
             originalRequest.headers = originalRequest.headers || {};
             originalRequest.headers.Authorization = `Bearer ${newToken}`;
             return this.client(originalRequest);
           } catch (refreshError) {
             // Refresh failed, redirect to login
-            this.clearTokens();
-            if (typeof window !== 'undefined') {
-              window.location.href = '/login';
-            }
+            this.forceLogout(this.isTokenReuseError(refreshError));
             return Promise.reject(this.enhanceError(refreshError as AxiosError));
           }
         }
@@ -87,6 +132,19 @@ class APIClient {
     return enhancedError;
   }
 
+  // Sent when a refresh token that was already exchanged is used again,
+  // e.g. because it was stolen
+  private isTokenReuseError(error: unknown): boolean {
+    return (error as AxiosError<ErrorResponse>)?.response?.data?.error?.code === 'TOKEN_REUSE_DETECTED';
+  }
+
+  private forceLogout(sessionRevoked: boolean = false): void {
+    this.clearTokens();
+    if (typeof window !== 'undefined') {
+      window.location.href = sessionRevoked ? '/login?revoked=1' : '/login';
+    }
+  }
+
   private getAccessToken(): string | null {
     return Cookies.get('accessToken') || null;
   }
@@ -116,8 +174,31 @@ class APIClient {
     Cookies.remove('refreshToken');
   }
 
-  private async refreshAccessToken(): Promise<string> {
-    // Prevent multiple simultaneous refresh requests
+  // Filter and sort parameters shared by both task listing modes
+  private buildTaskQueryParams(query: TaskQuery): URLSearchParams {
+    const params = new URLSearchParams();
+
+    if (query.page) params.append('page', query.page.toString());
+    if (query.limit) params.append('limit', query.limit.toString());
+    if (query.scope && query.scope !== 'owned') params.append('scope', query.scope);
+    if (query.status) params.append('status', query.status);
+    if (query.priority) params.append('priority', query.priority);
+    if (query.search) params.append('search', query.search);
+    if (query.dueBefore) params.append('dueBefore', query.dueBefore);
+    if (query.dueAfter) params.append('dueAfter', query.dueAfter);
+    if (query.overdue !== undefined) params.append('overdue', query.overdue.toString());
+    if (query.tags && query.tags.length > 0) params.append('tags', query.tags.join(','));
+    if (query.tagMode) params.append('tagMode', query.tagMode);
+    if (query.projectId) params.append('projectId', query.projectId);
+    if (query.sortBy) params.append('sortBy', query.sortBy);
+    if (query.sortOrder) params.append('sortOrder', query.sortOrder);
+
+    return params;
+  }
+
+  private async refreshAccessToken(): Promise<TokenResponse> {
+    // Prevent multiple simultaneous refresh requests, since each one rotates
+    // the refresh token and a second request with the old token counts as reuse
     if (this.refreshPromise) {
       return this.refreshPromise;
     }
@@ -125,14 +206,14 @@ class APIClient {
     this.refreshPromise = this.performTokenRefresh();
     
     try {
-      const token = await this.refreshPromise;
-      return token;
+      const tokens = await this.refreshPromise;
+      return tokens;
     } finally {
       this.refreshPromise = null;
     }
   }
 
-  private async performTokenRefresh(): Promise<string> {
+  private async performTokenRefresh(): Promise<TokenResponse> {
     const refreshToken = this.getRefreshToken();
     if (!refreshToken) {
       throw new Error('No refresh token available');
@@ -146,7 +227,7 @@ class APIClient {
     const { accessToken, refreshToken: newRefreshToken } = response.data;
     this.setTokens(accessToken, newRefreshToken);
     
-    return accessToken;
+    return response.data;
   }
 
   // Authentication methods
@@ -166,19 +247,7 @@ class APIClient {
     },
 
     refresh: async (): Promise<TokenResponse> => {
-      const refreshToken = this.getRefreshToken();
-      if (!refreshToken) {
-        throw new Error('No refresh token available');
-      }
-
-      const response: AxiosResponse<TokenResponse> = await this.client.post('/api/auth/refresh', {
-        refreshToken
-      });
-      
-      const { accessToken, refreshToken: newRefreshToken } = response.data;
-      this.setTokens(accessToken, newRefreshToken);
-      
-      return response.data;
+      return this.refreshAccessToken();
     },
 
     logout: async (): Promise<void> => {
@@ -194,6 +263,57 @@ class APIClient {
       this.clearTokens();
     },
 
+    forgotPassword: async (data: ForgotPasswordRequest): Promise<void> => {
+      await this.client.post('/api/auth/forgot-password', data);
+    },
+
+    resetPassword: async (data: ResetPasswordRequest): Promise<void> => {
+      await this.client.post('/api/auth/reset-password', data);
+    },
+
+    getMe: async (): Promise<User> => {
+      const response: AxiosResponse<User> = await this.client.get('/api/auth/me');
+      return response.data;
+    },
+
+    updateMe: async (data: UpdateProfileRequest): Promise<User> => {
+      const response: AxiosResponse<User> = await this.client.patch('/api/auth/me', data);
+      return response.data;
+    },
+
+    verifyEmail: async (token: string): Promise<VerifyEmailResponse> => {
+      const response: AxiosResponse<VerifyEmailResponse> = await this.client.get('/api/auth/verify-email', {
+        params: { token }
+      });
+      return response.data;
+    },
+
+    resendVerification: async (): Promise<void> => {
+      await this.client.post('/api/auth/resend-verification');
+    },
+
+    getSessions: async (): Promise<Session[]> => {
+      const response: AxiosResponse<Session[]> = await this.client.get('/api/auth/sessions');
+      return response.data;
+    },
+
+    revokeSession: async (id: string): Promise<void> => {
+      await this.client.delete(`/api/auth/sessions/${id}`);
+    },
+
+    revokeAllSessions: async (): Promise<void> => {
+      await this.client.delete('/api/auth/sessions');
+    },
+
+    // The current session's refresh token is sent along so that only the
+    // user's other sessions are signed out
+    changePassword: async (data: ChangePasswordRequest): Promise<void> => {
+      await this.client.post('/api/auth/change-password', {
+        ...data,
+        refreshToken: this.getRefreshToken() ?? undefined
+      });
+    },
+
     getCurrentUser: (): { accessToken: string | null; refreshToken: string | null } => {
       return {
         accessToken: this.getAccessToken(),
@@ -210,12 +330,7 @@ class APIClient {
     },
 
     getAll: async (query: TaskQuery = {}): Promise<PaginatedTasks> => {
-      const params = new URLSearchParams();
-      
-      if (query.page) params.append('page', query.page.toString());
-      if (query.limit) params.append('limit', query.limit.toString());
-      if (query.status) params.append('status', query.status);
-      if (query.search) params.append('search', query.search);
+      const params = this.buildTaskQueryParams(query);
 
       const response: AxiosResponse<PaginatedTasks> = await this.client.get(
         `/api/tasks?${params.toString()}`
@@ -223,6 +338,17 @@ class APIClient {
       return response.data;
     },
 
+    getAllByCursor: async (query: TaskCursorQuery = {}): Promise<CursorPaginatedTasks> => {
+      const params = this.buildTaskQueryParams(query);
+      params.append('pagination', 'cursor');
+      if (query.cursor) params.append('cursor', query.cursor);
+
+      const response: AxiosResponse<CursorPaginatedTasks> = await this.client.get(
+        `/api/tasks?${params.toString()}`
+      );
+      return response.data;
+    },
+
     getById: async (id: string): Promise<Task> => {
       const response: AxiosResponse<Task> = await this.client.get(`/api/tasks/${id}`);
       return response.data;
@@ -233,13 +359,350 @@ class APIClient {
       return response.data;
     },
 
-    toggle: async (id: string): Promise<Task> => {
-      const response: AxiosResponse<Task> = await this.client.patch(`/api/tasks/${id}/toggle`);
+    toggle: async (id: string, to?: ToggleTarget): Promise<Task> => {
+      const query = to ? `?to=${to}` : '';
+      const response: AxiosResponse<Task> = await this.client.patch(`/api/tasks/${id}/toggle${query}`);
+      return response.data;
+    },
+
+    getHistory: async (id: string): Promise<TaskEvent[]> => {
+      const response: AxiosResponse<TaskEvent[]> = await this.client.get(`/api/tasks/${id}/history`);
+      return response.data;
+    },
+
+    reorder: async (taskIds: string[]): Promise<Task[]> => {
+      const response: AxiosResponse<Task[]> = await this.client.put('/api/tasks/order', { taskIds });
+      return response.data;
+    },
+
+    move: async (id: string, data: MoveTaskRequest): Promise<Task> => {
+      const response: AxiosResponse<Task> = await this.client.patch(`/api/tasks/${id}/move`, data);
+      return response.data;
+    },
+
+    bulk: async (request: BulkTaskRequest): Promise<BulkTaskResponse> => {
+      // Filters are sent in the same form as the listing's query string
+      const body = request.filter
+        ? { ...request, filter: Object.fromEntries(this.buildTaskQueryParams(request.filter)) }
+        : request;
+
+      const response: AxiosResponse<BulkTaskResponse> = await this.client.post('/api/tasks/bulk', body);
       return response.data;
     },
 
     delete: async (id: string): Promise<void> => {
       await this.client.delete(`/api/tasks/${id}`);
+    },
+
+    getTrash: async (query: TrashQuery = {}): Promise<PaginatedTasks> => {
+      const params = new URLSearchParams();
+      
+      if (query.page) params.append('page', query.page.toString());
+      if (query.limit) params.append('limit', query.limit.toString());
+
+      const response: AxiosResponse<PaginatedTasks> = await this.client.get(
+        `/api/tasks/trash?${params.toString()}`
+      );
+      return response.data;
+    },
+
+    restore: async (id: string): Promise<Task> => {
+      const response: AxiosResponse<Task> = await this.client.post(`/api/tasks/${id}/restore`);
+      return response.data;
+    },
+
+    purge: async (id: string): Promise<void> => {
+      await this.client.delete(`/api/tasks/trash/${id}`);
+    },
+
+    emptyTrash: async (): Promise<void> => {
+      await this.client.delete('/api/tasks/trash');
+    }
+  };
+
+  // Checklist methods
+  checklist = {
+    getAll: async (taskId: string): Promise<ChecklistItem[]> => {
+      const response: AxiosResponse<ChecklistItem[]> = await this.client.get(`/api/tasks/${taskId}/checklist`);
+      return response.data;
+    },
+
+    create: async (taskId: string, data: CreateChecklistItemRequest): Promise<ChecklistItem> => {
+      const response: AxiosResponse<ChecklistItem> = await this.client.post(`/api/tasks/${taskId}/checklist`, data);
+      return response.data;
+    },
+
+    update: async (taskId: string, itemId: string, data: UpdateChecklistItemRequest): Promise<ChecklistItem> => {
+      const response: AxiosResponse<ChecklistItem> = await this.client.patch(`/api/tasks/${taskId}/checklist/${itemId}`, data);
+      return response.data;
+    },
+
+    toggle: async (taskId: string, itemId: string): Promise<ChecklistItem> => {
+      const response: AxiosResponse<ChecklistItem> = await this.client.patch(`/api/tasks/${taskId}/checklist/${itemId}/toggle`);
+      return response.data;
+    },
+
+    reorder: async (taskId: string, itemIds: string[]): Promise<ChecklistItem[]> => {
+      const response: AxiosResponse<ChecklistItem[]> = await this.client.put(`/api/tasks/${taskId}/checklist/order`, { itemIds });
+      return response.data;
+    },
+
+    delete: async (taskId: string, itemId: string): Promise<void> => {
+      await this.client.delete(`/api/tasks/${taskId}/checklist/${itemId}`);
+    }
+  };
+
+  // Comment methods
+  comments = {
+    getAll: async (taskId: string): Promise<Comment[]> => {
+      const response: AxiosResponse<Comment[]> = await this.client.get(`/api/tasks/${taskId}/comments`);
+      return response.data;
+    },
+
+    create: async (taskId: string, data: CreateCommentRequest): Promise<Comment> => {
+      const response: AxiosResponse<Comment> = await this.client.post(`/api/tasks/${taskId}/comments`, data);
+      return response.data;
+    },
+
+    update: async (taskId: string, commentId: string, data: UpdateCommentRequest): Promise<Comment> => {
+      const response: AxiosResponse<Comment> = await this.client.patch(`/api/tasks/${taskId}/comments/${commentId}`, data);
+      return response.data;
+    },
+
+    delete: async (taskId: string, commentId: string): Promise<void> => {
+      await this.client.delete(`/api/tasks/${taskId}/comments/${commentId}`);
+    }
+  };
+
+  // Collaborator methods
+  collaborators = {
+    getAll: async (taskId: string): Promise<Collaborator[]> => {
+      const response: AxiosResponse<Collaborator[]> = await this.client.get(`/api/tasks/${taskId}/collaborators`);
+      return response.data;
+    },
+
+    add: async (taskId: string, data: AddCollaboratorRequest): Promise<Collaborator> => {
+      const response: AxiosResponse<Collaborator> = await this.client.post(`/api/tasks/${taskId}/collaborators`, data);
+      return response.data;
+    },
+
+    update: async (taskId: string, userId: string, data: UpdateCollaboratorRequest): Promise<Collaborator> => {
+      const response: AxiosResponse<Collaborator> = await this.client.patch(`/api/tasks/${taskId}/collaborators/${userId}`, data);
+      return response.data;
+    },
+
+    remove: async (taskId: string, userId: string): Promise<void> => {
+      await this.client.delete(`/api/tasks/${taskId}/collaborators/${userId}`);
+    }
+  };
+
+  // Attachment methods
+  attachments = {
+    getAll: async (taskId: string): Promise<Attachment[]> => {
+      const response: AxiosResponse<Attachment[]> = await this.client.get(`/api/tasks/${taskId}/attachments`);
+      return response.data;
+    },
+
+    // The file is sent as the request body, so it is not limited by the JSON request timeout
+    upload: async (taskId: string, file: File): Promise<Attachment> => {
+      const response: AxiosResponse<Attachment> = await this.client.post(`/api/tasks/${taskId}/attachments`, file, {
+        params: { filename: file.name },
+        headers: { 'Content-Type': file.type },
+        timeout: 0,
+      });
+      return response.data;
+    },
+
+    download: async (taskId: string, attachmentId: string): Promise<Blob> => {
+      const response: AxiosResponse<Blob> = await this.client.get(`/api/tasks/${taskId}/attachments/${attachmentId}`, {
+        responseType: 'blob',
+        timeout: 0,
+      });
+      return response.data;
+    },
+
+    delete: async (taskId: string, attachmentId: string): Promise<void> => {
+      await this.client.delete(`/api/tasks/${taskId}/attachments/${attachmentId}`);
+    }
+  };
+
+  // Recurrence methods
+  recurrence = {
+    get: async (taskId: string): Promise<Recurrence> => {
+      const response: AxiosResponse<Recurrence> = await this.client.get(`/api/tasks/${taskId}/recurrence`);
+      return response.data;
+    },
+
+    set: async (taskId: string, rule: string): Promise<Recurrence> => {
+      const response: AxiosResponse<Recurrence> = await this.client.put(`/api/tasks/${taskId}/recurrence`, { rule });
+      return response.data;
+    },
+
+    stop: async (taskId: string): Promise<Recurrence> => {
+      const response: AxiosResponse<Recurrence> = await this.client.delete(`/api/tasks/${taskId}/recurrence`);
+      return response.data;
+    }
+  };
+
+  // Tag methods
+  tags = {
+    getAll: async (): Promise<Tag[]> => {
+      const response: AxiosResponse<Tag[]> = await this.client.get('/api/tags');
+      return response.data;
+    },
+
+    create: async (data: CreateTagRequest): Promise<Tag> => {
+      const response: AxiosResponse<Tag> = await this.client.post('/api/tags', data);
+      return response.data;
+    },
+
+    update: async (id: string, data: UpdateTagRequest): Promise<Tag> => {
+      const response: AxiosResponse<Tag> = await this.client.patch(`/api/tags/${id}`, data);
+      return response.data;
+    },
+
+    delete: async (id: string): Promise<void> => {
+      await this.client.delete(`/api/tags/${id}`);
+    }
+  };
+
+  // Project methods
+  projects = {
+    getAll: async (): Promise<Project[]> => {
+      const response: AxiosResponse<Project[]> = await this.client.get('/api/projects');
+      return response.data;
+    },
+
+    getById: async (id: string): Promise<Project> => {
+      const response: AxiosResponse<Project> = await this.client.get(`/api/projects/${id}`);
+      return response.data;
+    },
+
+    create: async (data: CreateProjectRequest): Promise<Project> => {
+      const response: AxiosResponse<Project> = await this.client.post('/api/projects', data);
+      return response.data;
+    },
+
+    update: async (id: string, data: UpdateProjectRequest): Promise<Project> => {
+      const response: AxiosResponse<Project> = await this.client.patch(`/api/projects/${id}`, data);
+      return response.data;
+    },
+
+    delete: async (id: string): Promise<void> => {
+      await this.client.delete(`/api/projects/${id}`);
+    }
+  };
+
+  // Workflow status methods
+  statuses = {
+    getAll: async (): Promise<WorkflowStatus[]> => {
+      const response: AxiosResponse<WorkflowStatus[]> = await this.client.get('/api/statuses');
+      return response.data;
+    },
+
+    create: async (data: CreateStatusRequest): Promise<WorkflowStatus> => {
+      const response: AxiosResponse<WorkflowStatus> = await this.client.post('/api/statuses', data);
+      return response.data;
+    },
+
+    update: async (id: string, data: UpdateStatusRequest): Promise<WorkflowStatus> => {
+      const response: AxiosResponse<WorkflowStatus> = await this.client.patch(`/api/statuses/${id}`, data);
+      return response.data;
+    },
+
+    reorder: async (statusIds: string[]): Promise<WorkflowStatus[]> => {
+      const response: AxiosResponse<WorkflowStatus[]> = await this.client.put('/api/statuses/order', { statusIds });
+      return response.data;
+    },
+
+    delete: async (id: string, moveTo?: string): Promise<void> => {
+      const query = moveTo ? `?moveTo=${encodeURIComponent(moveTo)}` : '';
+      await this.client.delete(`/api/statuses/${id}${query}`);
+    }
+  };
+
+  // Workspace methods
+  workspaces = {
+    getAll: async (): Promise<Workspace[]> => {
+      const response: AxiosResponse<Workspace[]> = await this.client.get('/api/workspaces');
+      return response.data;
+    },
+
+    getById: async (id: string): Promise<Workspace> => {
+      const response: AxiosResponse<Workspace> = await this.client.get(`/api/workspaces/${id}`);
+      return response.data;
+    },
+
+    create: async (data: CreateWorkspaceRequest): Promise<Workspace> => {
+      const response: AxiosResponse<Workspace> = await this.client.post('/api/workspaces', data);
+      return response.data;
+    },
+
+    update: async (id: string, data: UpdateWorkspaceRequest): Promise<Workspace> => {
+      const response: AxiosResponse<Workspace> = await this.client.patch(`/api/workspaces/${id}`, data);
+      return response.data;
+    },
+
+    delete: async (id: string): Promise<void> => {
+      await this.client.delete(`/api/workspaces/${id}`);
+    },
+
+    getTasks: async (id: string, query: TaskQuery = {}): Promise<PaginatedTasks> => {
+      const params = this.buildTaskQueryParams(query);
+
+      const response: AxiosResponse<PaginatedTasks> = await this.client.get(
+        `/api/workspaces/${id}/tasks?${params.toString()}`
+      );
+      return response.data;
+    },
+
+    getTasksByCursor: async (id: string, query: TaskCursorQuery = {}): Promise<CursorPaginatedTasks> => {
+      const params = this.buildTaskQueryParams(query);
+      params.append('pagination', 'cursor');
+      if (query.cursor) params.append('cursor', query.cursor);
+
+      const response: AxiosResponse<CursorPaginatedTasks> = await this.client.get(
+        `/api/workspaces/${id}/tasks?${params.toString()}`
+      );
+      return response.data;
+    },
+
+    createTask: async (id: string, data: CreateTaskRequest): Promise<Task> => {
+      const response: AxiosResponse<Task> = await this.client.post(`/api/workspaces/${id}/tasks`, data);
+      return response.data;
+    },
+
+    getMembers: async (id: string): Promise<WorkspaceMember[]> => {
+      const response: AxiosResponse<WorkspaceMember[]> = await this.client.get(`/api/workspaces/${id}/members`);
+      return response.data;
+    },
+
+    updateMember: async (id: string, userId: string, data: UpdateMemberRequest): Promise<WorkspaceMember> => {
+      const response: AxiosResponse<WorkspaceMember> = await this.client.patch(`/api/workspaces/${id}/members/${userId}`, data);
+      return response.data;
+    },
+
+    removeMember: async (id: string, userId: string): Promise<void> => {
+      await this.client.delete(`/api/workspaces/${id}/members/${userId}`);
+    },
+
+    getInvitations: async (id: string): Promise<WorkspaceInvitation[]> => {
+      const response: AxiosResponse<WorkspaceInvitation[]> = await this.client.get(`/api/workspaces/${id}/invitations`);
+      return response.data;
+    },
+
+    invite: async (id: string, data: CreateInvitationRequest): Promise<WorkspaceInvitation> => {
+      const response: AxiosResponse<WorkspaceInvitation> = await this.client.post(`/api/workspaces/${id}/invitations`, data);
+      return response.data;
+    },
+
+    revokeInvitation: async (id: string, invitationId: string): Promise<void> => {
+      await this.client.delete(`/api/workspaces/${id}/invitations/${invitationId}`);
+    },
+
+    acceptInvitation: async (token: string): Promise<Workspace> => {
+      const response: AxiosResponse<Workspace> = await this.client.post('/api/workspaces/invitations/accept', { token });
+      return response.data;
     }
   };
 }
@@ -0,0 +1,47 @@
+import { Task } from '@/types';
+import { isTaskDone } from '@/lib/statuses';
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Convert an ISO timestamp into a value for a datetime-local input in the user's timezone
+ */
+export function toDateTimeLocalValue(isoString?: string | null): string {
+  if (!isoString) {
+    return '';
+  }
+
+  const date = new Date(isoString);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Convert a datetime-local input value (interpreted in the user's timezone) into an ISO timestamp
+ */
+export function fromDateTimeLocalValue(value: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Check whether a task is past its due date and still open
+ */
+export function isTaskOverdue(task: Task, now: Date = new Date()): boolean {
+  return !!task.dueAt && !isTaskDone(task) && new Date(task.dueAt) < now;
+}
+
+/**
+ * Check whether a task is due later today
+ */
+export function isTaskDueToday(task: Task, now: Date = new Date()): boolean {
+  if (!task.dueAt || isTaskDone(task)) {
+    return false;
+  }
+
+  const dueAt = new Date(task.dueAt);
+  return dueAt >= now && dueAt.toDateString() === now.toDateString();
+}
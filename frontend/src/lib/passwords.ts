@@ -0,0 +1,21 @@
+// Password rules enforced by the API, shown while the user chooses a new password
+export const PASSWORD_HELPER_TEXT = 'At least 8 characters with uppercase, lowercase, a number and a special character';
+
+/**
+ * Check a new password against the API's rules, returning the first problem
+ */
+export function getPasswordError(password: string): string | undefined {
+  if (!password) {
+    return 'Password is required';
+  }
+  if (password.length < 8) {
+    return 'Password must be at least 8 characters';
+  }
+  if (!/[A-Z]/.test(password) || !/[a-z]/.test(password) || !/[0-9]/.test(password)) {
+    return 'Password must contain at least one uppercase letter, one lowercase letter, and one number';
+  }
+  if (!/[^A-Za-z0-9]/.test(password)) {
+    return 'Password must contain at least one special character';
+  }
+  return undefined;
+}
@@ -0,0 +1,145 @@
+import { Task } from '@/types';
+import { isTaskDone } from '@/lib/statuses';
+
+// Recurrence rules are a subset of iCalendar RRULE, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH
+
+export type RecurrenceMode = 'none' | 'daily' | 'weekly' | 'monthly' | 'custom';
+
+// Weekdays as RRULE writes them, in calendar order from Monday
+export const WEEKDAYS = [
+  { key: 'MO', label: 'Mon' },
+  { key: 'TU', label: 'Tue' },
+  { key: 'WE', label: 'Wed' },
+  { key: 'TH', label: 'Thu' },
+  { key: 'FR', label: 'Fri' },
+  { key: 'SA', label: 'Sat' },
+  { key: 'SU', label: 'Sun' }
+];
+
+// What the recurrence editor shows: a preset with its interval (and weekdays),
+// or the raw rule for anything the presets cannot express
+export interface RecurrenceDraft {
+  mode: RecurrenceMode;
+  interval: number;
+  weekdays: string[];
+  custom: string;
+}
+
+const MODE_FREQUENCIES: Partial<Record<RecurrenceMode, string>> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY'
+};
+
+const UNITS: Record<string, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month'
+};
+
+/**
+ * Split a rule into its upper-cased parts, e.g. { FREQ: 'WEEKLY', BYDAY: 'MO,TH' }
+ */
+function getRuleParts(rule: string): Record<string, string> {
+  return Object.fromEntries(
+    rule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .filter(Boolean)
+      .map(part => part.toUpperCase().split('=') as [string, string])
+  );
+}
+
+/**
+ * Turn a task's rule into editor state, falling back to the custom mode for
+ * rules the presets cannot express
+ */
+export function getRecurrenceDraft(rule?: string): RecurrenceDraft {
+  const draft: RecurrenceDraft = { mode: 'none', interval: 1, weekdays: [], custom: rule ?? '' };
+
+  if (!rule) {
+    return draft;
+  }
+
+  const { FREQ, INTERVAL, BYDAY, ...rest } = getRuleParts(rule);
+  const mode = (Object.keys(MODE_FREQUENCIES) as RecurrenceMode[]).find(key => MODE_FREQUENCIES[key] === FREQ);
+
+  if (!mode || Object.keys(rest).length > 0 || (BYDAY && mode !== 'weekly')) {
+    return { ...draft, mode: 'custom' };
+  }
+
+  return {
+    ...draft,
+    mode,
+    interval: INTERVAL ? parseInt(INTERVAL, 10) : 1,
+    weekdays: BYDAY ? BYDAY.split(',') : []
+  };
+}
+
+/**
+ * Build the rule for editor state, or undefined when the task should not recur
+ */
+export function getRecurrenceRule(draft: RecurrenceDraft): string | undefined {
+  if (draft.mode === 'none') {
+    return undefined;
+  }
+
+  if (draft.mode === 'custom') {
+    return draft.custom.trim() || undefined;
+  }
+
+  const parts = [`FREQ=${MODE_FREQUENCIES[draft.mode]}`];
+
+  if (draft.interval > 1) {
+    parts.push(`INTERVAL=${draft.interval}`);
+  }
+
+  if (draft.mode === 'weekly' && draft.weekdays.length > 0) {
+    const weekdays = WEEKDAYS.filter(day => draft.weekdays.includes(day.key)).map(day => day.key);
+    parts.push(`BYDAY=${weekdays.join(',')}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Describe a rule in words, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export function describeRecurrence(rule: string): string {
+  const { FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT, UNTIL } = getRuleParts(rule);
+  const unit = UNITS[FREQ];
+
+  if (!unit) {
+    return rule;
+  }
+
+  const interval = INTERVAL ? parseInt(INTERVAL, 10) : 1;
+  let description = interval > 1 ? `Every ${interval} ${unit}s` : `Every ${unit}`;
+
+  if (BYDAY) {
+    const days = BYDAY.split(',');
+    description += ` on ${WEEKDAYS.filter(day => days.includes(day.key)).map(day => day.label).join(', ')}`;
+  }
+
+  if (BYMONTHDAY) {
+    description += ` on day ${BYMONTHDAY.split(',').join(', ')}`;
+  }
+
+  if (COUNT) {
+    description += `, ${COUNT} times`;
+  }
+
+  if (UNTIL) {
+    description += `, until ${UNTIL.slice(0, 4)}-${UNTIL.slice(4, 6)}-${UNTIL.slice(6, 8)}`;
+  }
+
+  return description;
+}
+
+/**
+ * Check whether an update completed a task of a running series, in which case
+ * the API may have created the series' next occurrence
+ */
+export function isRecurringCompletion(before: Task, after: Task): boolean {
+  return !isTaskDone(before) && isTaskDone(after) && !!after.recurrence && !after.recurrence.stoppedAt;
+}
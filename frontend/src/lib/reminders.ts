@@ -0,0 +1,34 @@
+// Reminder choices offered when editing a task, in minutes before the due date
+export const REMINDER_PRESETS = [0, 15, 60, 24 * 60, 7 * 24 * 60];
+
+/**
+ * Describe when a reminder is sent, e.g. "1 hour before"
+ */
+export function describeReminder(minutes: number): string {
+  if (minutes === 0) {
+    return 'At the due time';
+  }
+
+  const units: [number, string][] = [
+    [7 * 24 * 60, 'week'],
+    [24 * 60, 'day'],
+    [60, 'hour'],
+    [1, 'minute']
+  ];
+  const [size, unit] = units.find(([size]) => minutes % size === 0)!;
+  const count = minutes / size;
+
+  return `${count} ${unit}${count === 1 ? '' : 's'} before`;
+}
+
+/**
+ * Get the reminder choices for a task, keeping its current reminder even
+ * when it is not one of the presets
+ */
+export function getReminderOptions(current?: number): number[] {
+  if (current === undefined || REMINDER_PRESETS.includes(current)) {
+    return REMINDER_PRESETS;
+  }
+
+  return [...REMINDER_PRESETS, current].sort((a, b) => a - b);
+}
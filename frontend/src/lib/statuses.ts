@@ -0,0 +1,33 @@
+import { Task, ToggleTarget, WorkflowStatus } from '@/types';
+
+/**
+ * Check whether a task is in a done status
+ */
+export function isTaskDone(task: Task): boolean {
+  return task.workflowStatus.category === 'DONE';
+}
+
+/**
+ * Pick the status a task moves to when toggled, mirroring the API: done tasks
+ * reopen in the first open status, open tasks advance to the next status or go
+ * straight to the first done status
+ */
+export function getToggleStatus(
+  statuses: WorkflowStatus[],
+  task: Task,
+  target: ToggleTarget = 'next'
+): WorkflowStatus | undefined {
+  const index = statuses.findIndex(status => status.key === task.status);
+  const firstOpen = statuses.find(status => status.category !== 'DONE');
+  const firstDone = statuses.find(status => status.category === 'DONE');
+
+  if (isTaskDone(task)) {
+    return firstOpen;
+  }
+
+  if (target === 'done' || index === -1) {
+    return firstDone;
+  }
+
+  return statuses[index + 1] ?? firstDone;
+}
@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import TaskCreateModal from '@/components/TaskCreateModal';
 import { apiClient } from '@/lib/api';
-import { Task, TaskStatus } from '@/types';
+import { Task, TaskStatus, TaskPriority } from '@/types';
 
 // Mock the API client
 vi.mock('@/lib/api', () => ({
@@ -18,7 +18,14 @@ const mockTask: Task = {
   title: 'Test Task',
   description: 'Test Description',
   status: TaskStatus.PENDING,
+  workflowStatus: { key: TaskStatus.PENDING, name: 'Pending', category: 'TODO' },
+  priority: TaskPriority.MEDIUM,
+  position: 1,
   userId: 'user1',
+  owner: { id: 'user1', name: 'Test User' },
+  access: 'OWNER',
+  tags: [],
+  checklistProgress: { completed: 0, total: 0 },
   createdAt: '2024-01-01T00:00:00Z',
   updatedAt: '2024-01-01T00:00:00Z'
 };
@@ -99,7 +106,8 @@ describe('TaskCreateModal', () => {
     await waitFor(() => {
       expect(mockCreate).toHaveBeenCalledWith({
         title: 'Test Task',
-        description: 'Test Description'
+        description: 'Test Description',
+        priority: TaskPriority.MEDIUM
       });
       expect(mockOnTaskCreated).toHaveBeenCalledWith(mockTask);
       expect(mockOnClose).toHaveBeenCalled();
@@ -127,7 +135,8 @@ describe('TaskCreateModal', () => {
     await waitFor(() => {
       expect(mockCreate).toHaveBeenCalledWith({
         title: 'Test Task',
-        description: undefined
+        description: undefined,
+        priority: TaskPriority.MEDIUM
       });
     });
   });
@@ -4,25 +4,214 @@ export interface User {
   id: string;
   email: string;
   name: string;
+  emailVerifiedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Keys of the statuses every user starts with; users can add their own
 export enum TaskStatus {
   PENDING = 'PENDING',
   COMPLETED = 'COMPLETED'
 }
 
+// Decides how tasks in a status behave, e.g. DONE tasks are never overdue
+export type StatusCategory = 'TODO' | 'IN_PROGRESS' | 'DONE';
+
+export enum TaskPriority {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+  URGENT = 'URGENT'
+}
+
+// Role a task is shared with: viewers can only read it, editors can change it
+export type CollaboratorRole = 'VIEWER' | 'EDITOR';
+
+// What the current user may do with a task; only its owner can share, assign and delete it
+export type TaskAccess = 'OWNER' | 'EDITOR' | 'VIEWER';
+
+// Role in a workspace: viewers read its tasks, members also change them, admins
+// also manage members and the owner can also delete the workspace
+export type WorkspaceRole = 'VIEWER' | 'MEMBER' | 'ADMIN' | 'OWNER';
+
+export interface TaskUser {
+  id: string;
+  name: string;
+}
+
 export interface Task {
   id: string;
   title: string;
   description?: string;
-  status: TaskStatus;
+  status: string;
+  workflowStatus: TaskWorkflowStatus;
+  priority: TaskPriority;
+  dueAt?: string;
+  // Minutes before the due date that a reminder is emailed
+  reminderMinutes?: number;
+  // Manual order, e.g. within a board column
+  position: number;
+  userId: string;
+  owner: TaskUser;
+  assigneeId?: string;
+  assignee?: TaskUser;
+  access: TaskAccess;
+  workspaceId?: string;
+  workspace?: TaskWorkspace;
+  projectId?: string;
+  project?: TaskProject;
+  tags: TaskTag[];
+  checklistProgress: ChecklistProgress;
+  recurrence?: TaskRecurrence;
+  deletedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  highlights?: TaskHighlight[];
+}
+
+// Workspace as embedded in a task
+export interface TaskWorkspace {
+  id: string;
+  name: string;
+}
+
+// Workflow status as embedded in a task
+export interface TaskWorkflowStatus {
+  key: string;
+  name: string;
+  category: StatusCategory;
+  color?: string;
+}
+
+export interface WorkflowStatus extends TaskWorkflowStatus {
+  id: string;
+  position: number;
+  userId: string;
+  taskCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Tag as embedded in a task
+export interface TaskTag {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+export interface Tag extends TaskTag {
+  userId: string;
+  taskCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Project as embedded in a task
+export interface TaskProject {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+export interface Project extends TaskProject {
+  description?: string;
   userId: string;
+  taskCount: number;
+  completedTaskCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  completed: boolean;
+  position: number;
+  taskId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// How much of a task's checklist is done, e.g. 3 of 5 items
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+}
+
+// Recurring series a task belongs to, and which occurrence of it the task is
+export interface TaskRecurrence {
+  id: string;
+  // RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO,TH
+  rule: string;
+  occurrence: number;
+  stoppedAt?: string;
+}
+
+export interface Recurrence {
+  id: string;
+  rule: string;
+  occurrenceCount: number;
+  stoppedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface Comment {
+  id: string;
+  body: string;
+  taskId: string;
+  author: {
+    id: string;
+    name: string;
+  };
+  // Whether the comment was changed after it was posted
+  edited: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Attachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  // Size in bytes
+  size: number;
+  taskId: string;
+  uploadedBy: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+}
+
+// Entry in a task's history: the task was created, deleted or restored, or one
+// of its fields changed. Projects and tags are recorded by name.
+export type TaskEventType = 'CREATED' | 'UPDATED' | 'DELETED' | 'RESTORED';
+
+export type TaskHistoryField = 'title' | 'description' | 'status' | 'priority' | 'dueAt' | 'project' | 'assignee' | 'tags';
+
+export interface TaskEvent {
+  id: string;
+  type: TaskEventType;
+  field?: TaskHistoryField;
+  oldValue?: string;
+  newValue?: string;
+  taskId: string;
+  user: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+}
+
+// Search match within a task field; match offsets index into the snippet
+export interface TaskHighlight {
+  field: 'title' | 'description';
+  snippet: string;
+  matches: { start: number; end: number }[];
+}
+
 // Request/Response types
 export interface RegisterRequest {
   email: string;
@@ -35,6 +224,41 @@ export interface LoginRequest {
   password: string;
 }
 
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface UpdateProfileRequest {
+  name?: string;
+  email?: string;
+}
+
+export interface VerifyEmailResponse {
+  message: string;
+  user: User;
+}
+
+// A signed-in device; its id stays the same while its tokens are refreshed
+export interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: string;
+  expiresAt: string;
+  // Whether this is the session of the current browser
+  current: boolean;
+}
+
 export interface AuthResponse {
   user: User;
   accessToken: string;
@@ -49,19 +273,218 @@ export interface TokenResponse {
 export interface CreateTaskRequest {
   title: string;
   description?: string;
+  status?: string;
+  priority?: TaskPriority;
+  dueAt?: string;
+  reminderMinutes?: number;
+  tagIds?: string[];
+  projectId?: string;
+  recurrenceRule?: string;
 }
 
 export interface UpdateTaskRequest {
   title?: string;
   description?: string;
-  status?: TaskStatus;
+  status?: string;
+  priority?: TaskPriority;
+  dueAt?: string | null;
+  reminderMinutes?: number | null;
+  tagIds?: string[];
+  projectId?: string | null;
+  // The owner or a collaborator; null unassigns the task
+  assigneeId?: string | null;
+}
+
+// New neighbours of a task moved in the manual order
+export interface MoveTaskRequest {
+  afterId?: string;
+  beforeId?: string;
+}
+
+// One action applied to many tasks, listed by id or matched by a task query
+export type BulkTaskAction =
+  | { action: 'delete' }
+  | { action: 'status'; status: string }
+  | { action: 'addTags'; tagIds: string[] }
+  | { action: 'removeTags'; tagIds: string[] }
+  | { action: 'project'; projectId: string | null };
+
+export type BulkTaskRequest = BulkTaskAction & (
+  | { taskIds: string[]; filter?: never }
+  | { filter: TaskQuery; taskIds?: never }
+);
+
+export interface BulkTaskResult {
+  id: string;
+  success: boolean;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface BulkTaskResponse {
+  action: BulkTaskAction['action'];
+  succeeded: number;
+  failed: number;
+  results: BulkTaskResult[];
+}
+
+export interface Collaborator {
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  role: CollaboratorRole;
+  createdAt: string;
+}
+
+export interface AddCollaboratorRequest {
+  email: string;
+  role?: CollaboratorRole;
+}
+
+export interface UpdateCollaboratorRequest {
+  role: CollaboratorRole;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  // The current user's role in the workspace
+  role: WorkspaceRole;
+  memberCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceMember {
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  role: WorkspaceRole;
+  createdAt: string;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+  invitedBy: TaskUser;
+  createdAt: string;
+}
+
+export interface CreateWorkspaceRequest {
+  name: string;
+}
+
+export interface UpdateWorkspaceRequest {
+  name: string;
+}
+
+export interface UpdateMemberRequest {
+  role: WorkspaceRole;
+}
+
+export interface CreateInvitationRequest {
+  email: string;
+  role?: WorkspaceRole;
+}
+
+export interface CreateCommentRequest {
+  body: string;
+}
+
+export interface UpdateCommentRequest {
+  body: string;
+}
+
+export interface CreateTagRequest {
+  name: string;
+  color?: string;
+}
+
+export interface UpdateTagRequest {
+  name?: string;
+  color?: string | null;
+}
+
+export interface CreateChecklistItemRequest {
+  title: string;
+}
+
+export interface UpdateChecklistItemRequest {
+  title?: string;
+  completed?: boolean;
+}
+
+export interface CreateProjectRequest {
+  name: string;
+  description?: string;
+  color?: string;
+}
+
+export interface UpdateProjectRequest {
+  name?: string;
+  description?: string | null;
+  color?: string | null;
+}
+
+export interface CreateStatusRequest {
+  name: string;
+  category?: StatusCategory;
+  color?: string;
+}
+
+export interface UpdateStatusRequest {
+  name?: string;
+  category?: StatusCategory;
+  color?: string | null;
 }
 
+// Where a toggle moves a task: the next status in the workflow, or straight to done
+export type ToggleTarget = 'next' | 'done';
+
+export type TaskSortField = 'createdAt' | 'updatedAt' | 'title' | 'status' | 'dueAt' | 'priority' | 'position' | 'relevance';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Whether tasks must carry any or all of the filtered tags
+export type TagMatchMode = 'any' | 'all';
+
+// Which tasks a listing covers: the user's own, those assigned to them, or
+// other users' tasks shared with them
+export type TaskScope = 'owned' | 'assigned' | 'shared';
+
 export interface TaskQuery {
   page?: number;
   limit?: number;
-  status?: TaskStatus;
+  scope?: TaskScope;
+  status?: string;
+  priority?: TaskPriority;
   search?: string;
+  dueBefore?: string;
+  dueAfter?: string;
+  overdue?: boolean;
+  tags?: string[];
+  tagMode?: TagMatchMode;
+  // A project id, or 'none' for tasks outside any project
+  projectId?: string;
+  sortBy?: TaskSortField;
+  sortOrder?: SortOrder;
+}
+
+export interface TaskCursorQuery extends Omit<TaskQuery, 'page'> {
+  cursor?: string;
+}
+
+export interface TrashQuery {
+  page?: number;
+  limit?: number;
 }
 
 export interface PaginatedTasks {
@@ -74,6 +497,15 @@ export interface PaginatedTasks {
   };
 }
 
+export interface CursorPaginatedTasks {
+  tasks: Task[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+  };
+}
+
 export interface ErrorResponse {
   error: {
     code: string;
@@ -90,6 +522,8 @@ export interface AuthContextType {
   login: (credentials: LoginRequest) => Promise<void>;
   register: (userData: RegisterRequest) => Promise<void>;
   logout: () => void;
+  updateProfile: (data: UpdateProfileRequest) => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
   isLoading: boolean;
   isAuthenticated: boolean;
 }
\ No newline at end of file